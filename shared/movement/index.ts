@@ -0,0 +1,129 @@
+// Player movement model - the single definition of how one input moves a player.
+// The server steps it once per received input packet; the client predictor runs
+// the exact same step for every input it sends and replays the unacknowledged
+// ones after each snapshot, so the two only disagree when the world does.
+import { GAME_CONFIG } from '../constants/index';
+import { Vector2 } from '../types/index';
+
+// One input packet = one fixed step, regardless of client frame rate
+export const MOVEMENT_STEP_SECONDS = 1 / 60;
+
+export const SPEED_MULTIPLIERS = {
+  sneak: 0.5,
+  walk: 1.0,
+  run: 1.5 // Only when moving towards the aim direction
+} as const;
+
+// Aiming down sights halves movement speed (feature spec, shooting modes)
+export const ADS_SPEED_MULTIPLIER = 0.5;
+// Players are kept this far inside the arena edge
+export const ARENA_EDGE_MARGIN = 10;
+
+// Missing keys count as released - the wire format is a loose key map
+export interface MovementKeys {
+  w?: boolean;
+  a?: boolean;
+  s?: boolean;
+  d?: boolean;
+  shift?: boolean;
+  ctrl?: boolean;
+}
+
+export interface MovementConditions {
+  angle: number; // Facing in radians - decides which key counts as "forward" for running
+  isADS?: boolean;
+}
+
+// Anything that can stop a move - CollisionSystem on both sides
+export interface MovementCollider {
+  resolveMovement(from: Vector2, to: Vector2): Vector2;
+}
+
+export interface MovementResult {
+  position: Vector2;
+  velocity: Vector2;
+  speedMultiplier: number;
+}
+
+/**
+ * Unit direction from WASD, diagonals normalized
+ */
+export function getMovementDirection(keys: MovementKeys): Vector2 {
+  let x = (keys.d ? 1 : 0) - (keys.a ? 1 : 0);
+  let y = (keys.s ? 1 : 0) - (keys.w ? 1 : 0);
+  if (x !== 0 && y !== 0) {
+    x /= Math.SQRT2;
+    y /= Math.SQRT2;
+  }
+  return { x, y };
+}
+
+/**
+ * The key that moves towards the facing direction (east = d, south = s, ...)
+ */
+export function getForwardKey(angle: number): 'w' | 'a' | 's' | 'd' {
+  const degrees = (angle * 180 / Math.PI + 360) % 360;
+  if (degrees >= 315 || degrees < 45) return 'd';
+  if (degrees < 135) return 's';
+  if (degrees < 225) return 'a';
+  return 'w';
+}
+
+export type MovementMode = keyof typeof SPEED_MULTIPLIERS;
+
+export function getMovementMode(keys: MovementKeys, angle: number): MovementMode {
+  if (keys.ctrl) return 'sneak';
+  if (keys.shift && keys[getForwardKey(angle)]) return 'run';
+  return 'walk';
+}
+
+export function getSpeedMultiplier(keys: MovementKeys, conditions: MovementConditions): number {
+  const speed: number = SPEED_MULTIPLIERS[getMovementMode(keys, conditions.angle)];
+  // Flashbang movementImpairment only dulls aim (InputSystem), never speed
+  return conditions.isADS ? speed * ADS_SPEED_MULTIPLIER : speed;
+}
+
+/**
+ * Move along a unit direction for deltaTime, sliding along walls and
+ * staying inside the arena
+ */
+export function stepMovement(
+  position: Vector2,
+  direction: Vector2,
+  speedMultiplier: number,
+  deltaTime: number,
+  collider: MovementCollider
+): MovementResult {
+  const velocity = {
+    x: direction.x * GAME_CONFIG.PLAYER_SPEED_WALK * speedMultiplier,
+    y: direction.y * GAME_CONFIG.PLAYER_SPEED_WALK * speedMultiplier
+  };
+
+  const target = {
+    x: position.x + velocity.x * deltaTime,
+    y: position.y + velocity.y * deltaTime
+  };
+  const resolved = collider.resolveMovement(position, target);
+
+  return {
+    position: {
+      x: Math.max(ARENA_EDGE_MARGIN, Math.min(GAME_CONFIG.GAME_WIDTH - ARENA_EDGE_MARGIN, resolved.x)),
+      y: Math.max(ARENA_EDGE_MARGIN, Math.min(GAME_CONFIG.GAME_HEIGHT - ARENA_EDGE_MARGIN, resolved.y))
+    },
+    velocity,
+    speedMultiplier
+  };
+}
+
+/**
+ * One input packet's worth of movement
+ */
+export function simulateInput(
+  position: Vector2,
+  keys: MovementKeys,
+  conditions: MovementConditions,
+  collider: MovementCollider,
+  deltaTime: number = MOVEMENT_STEP_SECONDS
+): MovementResult {
+  return stepMovement(position, getMovementDirection(keys), getSpeedMultiplier(keys, conditions), deltaTime, collider);
+}
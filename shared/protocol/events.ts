@@ -0,0 +1,519 @@
+// Socket protocol contract between the client and the backend.
+// Payload shapes mirror what the backend actually sends today - fields the
+// backend only sends sometimes are optional.
+import { Vector2, PlayerState, WallState, ProjectileState, GameState } from '../types/index';
+import { PlayerLoadout } from '../constants/weapons';
+
+// ===== Server -> client payloads =====
+
+export interface AuthenticatedPayload {
+  playerId?: string;
+  message?: string;
+  protocolVersion?: number; // Accepted handshake version - absent on JSON-only servers
+  sessionToken?: string;    // Offered in the handshake after a dropped connection to resume
+  resumed?: ResumedSessionPayload; // Set when the handshake's sessionToken was still live
+}
+
+export interface ServerReadyPayload {
+  protocolVersion?: number;
+  sessionToken?: string;
+  resumed?: ResumedSessionPayload;
+}
+
+// A dropped player handed over to the new socket - the server moves the
+// player to the new socket id, so ids compared against socket.id still match
+export interface ResumedSessionPayload {
+  playerId: string;
+  lobby?: LobbyStatePayload;
+  loadout?: PlayerLoadout;
+  killTarget?: number;
+  weapons?: Record<string, { currentAmmo: number; reserveAmmo: number; isReloading?: boolean }>;
+}
+
+export interface PlayerJoinSuccessPayload {
+  playerId?: string;
+  team?: 'red' | 'blue';
+}
+
+export interface PlayerJoinFailedPayload {
+  reason: string;
+}
+
+export interface PlayerPresencePayload {
+  id?: string;
+  playerId?: string;
+  position?: Vector2;
+  health?: number;
+  team?: 'red' | 'blue';
+  loadout?: PlayerLoadout;
+  playerState?: PlayerState;
+}
+
+export interface WeaponFiredPayload {
+  playerId: string;
+  weaponType: string;
+  position: Vector2;
+  direction: number;
+  sequence?: number;
+  timestamp?: number;
+}
+
+export interface WeaponHitPayload {
+  playerId: string;
+  position: Vector2;
+  weaponType?: string;
+  targetId?: string;
+  damage?: number;
+  startPosition?: Vector2;
+}
+
+export interface WeaponMissPayload {
+  playerId: string;
+  direction: number;
+  weaponType?: string;
+  position?: Vector2;
+}
+
+export interface WeaponReloadedPayload {
+  playerId?: string;
+  weaponType: string;
+  currentAmmo?: number;
+  reserveAmmo?: number;
+}
+
+export interface WeaponHeatPayload {
+  weaponType: string;
+  heatLevel?: number;
+  isOverheated?: boolean;
+}
+
+export interface WeaponSwitchedPayload {
+  playerId?: string;
+  fromWeapon?: string;
+  toWeapon: string;
+}
+
+export interface PlayerDamagedPayload {
+  playerId: string;
+  damage: number;
+  newHealth: number;
+  attackerId?: string;
+  damageType?: string;
+}
+
+export interface PlayerKilledPayload {
+  playerId: string;
+  killerId?: string;
+  killerTeam?: 'red' | 'blue';
+  victimTeam?: 'red' | 'blue';
+  weaponType?: string;
+  position?: Vector2;
+}
+
+export interface PlayerDiedPayload {
+  playerId: string;
+  killerId?: string;
+  damageType?: string;
+  position?: Vector2;
+}
+
+export interface PlayerRespawnedPayload {
+  playerId: string;
+  position: Vector2;
+  health?: number;
+  team?: 'red' | 'blue';
+  invulnerableUntil?: number;
+}
+
+export interface WallDamagedPayload {
+  wallId: string;
+  sliceIndex: number;
+  newHealth: number;
+  position?: Vector2;
+  material?: string;
+  playerId?: string;
+  weaponType?: string;
+  isDestroyed?: boolean;
+}
+
+export interface WallDestroyedPayload {
+  wallId: string;
+  sliceIndex: number;
+  position?: Vector2;
+  material?: string;
+}
+
+export interface ProjectileCreatedPayload extends Partial<Pick<ProjectileState, 'ownerId' | 'damage'>> {
+  id: string;
+  type: string;
+  position: Vector2;
+  velocity?: Vector2;
+  lifetime?: number;
+}
+
+export interface ProjectileUpdatedPayload {
+  id: string;
+  position: Vector2;
+}
+
+export interface ProjectileExplodedPayload {
+  id: string;
+  position: Vector2;
+  radius: number;
+}
+
+export interface ExplosionCreatedPayload {
+  position: Vector2;
+  radius: number;
+  type?: string;
+  damagedWalls?: { wallId?: string; position: Vector2; material?: string }[];
+}
+
+export interface FlashbangPhases {
+  blindDuration: number;
+  disorientedDuration: number;
+  recoveringDuration?: number;
+}
+
+export interface FlashbangEffectPayload {
+  position?: Vector2;
+  affectedPlayers: {
+    playerId: string;
+    intensity: number;
+    duration: number;
+    phases: FlashbangPhases;
+  }[];
+}
+
+export interface CollisionPayload {
+  playerId: string;
+  position: Vector2;
+  velocity: Vector2;
+}
+
+export interface GameRestartingPayload {
+  countdown: number;
+  message?: string;
+  adminId?: string;
+}
+
+export interface GameRestartFailedPayload {
+  message: string;
+  error?: string;
+}
+
+export interface LobbyPlayerPayload {
+  id: string;
+  name: string;
+  team: 'red' | 'blue';
+  isReady: boolean;
+  loadout?: PlayerLoadout;
+  ping?: number;
+}
+
+export interface LobbyStatePayload {
+  lobbyId: string;
+  playerCount: number;
+  maxPlayers: number;
+  players: LobbyPlayerPayload[];
+  status: 'waiting' | 'starting' | 'in_progress' | 'finished';
+  gameMode: string;
+  mapName?: string;
+  isPrivate: boolean;
+  hostId?: string;
+  countdown?: number;
+  inviteCode?: string;
+  minimumPlayers: number;
+}
+
+export interface LobbyJoinedPayload {
+  lobbyId: string;
+  playerCount: number;
+  maxPlayers: number;
+  status?: string;
+  gameMode?: string;
+  isPrivate?: boolean;
+  inviteCode?: string;
+}
+
+// Spectators receive full-visibility game:state and never get a player entity
+export interface SpectatorJoinedPayload {
+  lobbyId: string;
+  status?: string;
+  gameMode?: string;
+  killTarget?: number;
+}
+
+export interface LobbyPlayerCountPayload {
+  lobbyId: string;
+  playerCount: number;
+  playerId?: string;
+}
+
+export interface MatchStartingPayload {
+  lobbyId?: string;
+  countdown: number;
+}
+
+export interface MatchStartedPayload {
+  lobbyId: string;
+  killTarget?: number;
+  gameMode?: string;
+  isLateJoin?: boolean;
+}
+
+export interface MatchPlayerStats {
+  playerId: string;
+  playerName: string;
+  team: 'red' | 'blue';
+  kills: number;
+  deaths: number;
+  damageDealt: number;
+}
+
+export interface MatchEndedPayload {
+  lobbyId: string;
+  winnerTeam: 'red' | 'blue';
+  redKills: number;
+  blueKills: number;
+  duration: number;
+  playerStats: MatchPlayerStats[];
+}
+
+export interface KillTargetReachedPayload {
+  team?: 'red' | 'blue';
+  killTarget?: number;
+}
+
+export interface LobbyListEntry {
+  id: string;
+  playerCount: number;
+  maxPlayers: number;
+  gameMode: string;
+  status: string;
+  isPrivate: boolean;
+  passwordRequired?: boolean;
+  mapName?: string;
+  createdAt?: number;
+  lastActivity?: number;
+}
+
+export interface LobbyListPayload {
+  lobbies: LobbyListEntry[];
+  totalCount: number;
+}
+
+export interface ReasonPayload {
+  reason: string;
+}
+
+export interface SpawnPositionPayload {
+  position: Vector2;
+  team?: 'red' | 'blue';
+}
+
+export interface TimeSyncResponsePayload {
+  clientTime: number;
+  serverTime: number;
+}
+
+// Event name -> payload for everything the backend sends us.
+// Aliased names (player_died / player:died / backend:player:died) are all
+// still sent by different backend versions and share one payload.
+export interface ServerToClientEvents {
+  'server:ready': ServerReadyPayload | void;
+  'authenticated': AuthenticatedPayload;
+  'auth-failed': string;
+  'auth-timeout': string;
+  'error': string;
+  'player:join:success': PlayerJoinSuccessPayload;
+  'player:join:failed': PlayerJoinFailedPayload;
+  'game:state': GameState;
+  'player:joined': PlayerPresencePayload;
+  'player:left': PlayerPresencePayload;
+  'weapon:fired': WeaponFiredPayload;
+  'weapon:hit': WeaponHitPayload;
+  'weapon:miss': WeaponMissPayload;
+  'weapon:reloaded': WeaponReloadedPayload;
+  'weapon:heat:update': WeaponHeatPayload;
+  'weapon:switched': WeaponSwitchedPayload;
+  'player:damaged': PlayerDamagedPayload;
+  'player:killed': PlayerKilledPayload;
+  'player_died': PlayerDiedPayload;
+  'player:died': PlayerDiedPayload;
+  'backend:player:died': PlayerDiedPayload;
+  'player_respawned': PlayerRespawnedPayload;
+  'player:respawned': PlayerRespawnedPayload;
+  'backend:player:respawned': PlayerRespawnedPayload;
+  'respawn_success': PlayerRespawnedPayload;
+  'wall:damaged': WallDamagedPayload;
+  'wall:destroyed': WallDestroyedPayload;
+  'projectile:created': ProjectileCreatedPayload;
+  'projectile:updated': ProjectileUpdatedPayload;
+  'projectile:exploded': ProjectileExplodedPayload;
+  'explosion:created': ExplosionCreatedPayload;
+  'FLASHBANG_EFFECT': FlashbangEffectPayload;
+  'player:collision': CollisionPayload;
+  'collision:detected': CollisionPayload;
+  'game:restarting': GameRestartingPayload;
+  'game:restarted': Record<string, unknown>;
+  'game:restart_failed': GameRestartFailedPayload;
+  'admin:authenticated': void;
+  'admin:auth-failed': void;
+  'lobby:state': LobbyStatePayload;
+  'lobby_joined': LobbyJoinedPayload;
+  'player_joined_lobby': LobbyPlayerCountPayload;
+  'player_left_lobby': LobbyPlayerCountPayload;
+  'left_lobby': void;
+  'match_starting': MatchStartingPayload;
+  'match_start_cancelled': ReasonPayload;
+  'match_started': MatchStartedPayload;
+  'match_ended': MatchEndedPayload;
+  'kill_target_reached': KillTargetReachedPayload;
+  'lobby_list': LobbyListPayload;
+  'lobby_join_failed': ReasonPayload;
+  'lobby_creation_failed': ReasonPayload;
+  'lobby_error': ReasonPayload;
+  'matchmaking_failed': ReasonPayload;
+  'private_lobby_created': LobbyJoinedPayload;
+  'spectator_joined': SpectatorJoinedPayload;
+  'spectator_denied': ReasonPayload;
+  'spawn_position': SpawnPositionPayload;
+  'time:sync:response': TimeSyncResponsePayload;
+  'time:sync:error': unknown;
+}
+
+// ===== Client -> server payloads =====
+
+export interface ClientReadyPayload {
+  timestamp: number;
+  userAgent: string;
+}
+
+export interface PlayerJoinPayload {
+  loadout: PlayerLoadout;
+  playerName: string;
+  accentColor?: string; // Profile colour, '#rrggbb'
+  preferredTeam?: 'red' | 'blue' | null; // Hint for auto-balance - loadout.team is what was picked
+  timestamp: number;
+}
+
+export interface WeaponFirePayload {
+  weaponType: string;
+  position: Vector2;
+  targetPosition: Vector2;
+  direction: number;
+  isADS: boolean;
+  timestamp: number;
+  sequence: number;
+  chargeLevel?: number;
+  pelletCount?: number;
+}
+
+export interface WeaponSwitchPayload {
+  fromWeapon: string | null;
+  toWeapon: string;
+  timestamp: number;
+}
+
+export interface WeaponReloadPayload {
+  weaponType: string;
+  timestamp: number;
+}
+
+export interface AdsTogglePayload {
+  isADS: boolean;
+  timestamp: number;
+}
+
+export interface FindMatchPayload {
+  gameMode: string;
+  isPrivate?: boolean;
+  quickJoin?: boolean;
+}
+
+export interface CreatePrivateLobbyPayload {
+  gameMode: string;
+  password?: string;
+  maxPlayers?: number;
+}
+
+export interface JoinLobbyPayload {
+  lobbyId: string;
+  password?: string;
+}
+
+export interface SpectateRequestPayload {
+  lobbyId: string;
+  password?: string;
+}
+
+export interface LobbyListRequestPayload {
+  showPrivate?: boolean;
+  showFull?: boolean;
+  showInProgress?: boolean;
+  gameMode?: string;
+}
+
+// Input packets keep the exact wire format InputSystem builds; the protocol
+// module does not own that shape.
+export interface PlayerInputPayload {
+  keys: Record<string, boolean>;
+  mouse: {
+    x: number;
+    y: number;
+    buttons: number;
+    leftPressed: boolean;
+    rightPressed: boolean;
+    leftReleased: boolean;
+    rightReleased: boolean;
+  };
+  sequence: number;
+  timestamp: number;
+  position?: Vector2;
+  snapshotAck?: number; // Newest binary snapshot applied - the server deltas against it
+}
+
+export interface ClientToServerEvents {
+  'authenticate': string;
+  'client:ready': ClientReadyPayload;
+  'player:join': PlayerJoinPayload;
+  'player:input': PlayerInputPayload;
+  'weapon:fire': WeaponFirePayload;
+  'weapon:switch': WeaponSwitchPayload;
+  'weapon:reload': WeaponReloadPayload;
+  'ads:toggle': AdsTogglePayload;
+  'player:respawn': void;
+  'respawn': void;
+  'player_respawn': void;
+  'request_respawn': void;
+  'player:force_respawned': unknown;
+  'force_respawn': unknown;
+  'request_game_state': Record<string, never>;
+  'request_spawn_position': { team: 'red' | 'blue' };
+  'leave_game': void;
+  'leave_lobby': void;
+  'find_match': FindMatchPayload;
+  'cancel_matchmaking': void;
+  'create_private_lobby': CreatePrivateLobbyPayload;
+  'join_lobby': JoinLobbyPayload;
+  'request_spectator': SpectateRequestPayload;
+  'get_lobby_list': LobbyListRequestPayload;
+  'request_rematch': { lobbyId: string; timestamp: number };
+  'admin:authenticate': string;
+  'admin:restart_game': { countdown: number };
+  'time:sync': number;
+  'snapshot:resync': { lastSequence: number | null };
+}
+
+export type ServerEventName = keyof ServerToClientEvents;
+export type ClientEventName = keyof ClientToServerEvents;
+
+// Listener/emit argument tuples - events with a void payload take no argument
+export type ServerEventArgs<K extends ServerEventName> =
+  ServerToClientEvents[K] extends void ? [] : [ServerToClientEvents[K]];
+export type ClientEventArgs<K extends ClientEventName> =
+  ClientToServerEvents[K] extends void ? [] : [ClientToServerEvents[K]];
+
+// Re-exported so protocol consumers don't need a second import
+export type { PlayerState, WallState, ProjectileState, GameState };
@@ -0,0 +1,108 @@
+// Typed access to the socket protocol.
+// Wraps any socket.io-style emitter so listeners receive validated payloads
+// and emits are checked against the client -> server contract at compile time.
+import {
+  ServerEventName,
+  ClientEventName,
+  ServerEventArgs,
+  ClientEventArgs
+} from './events';
+import { validateServerPayload } from './validators';
+
+export * from './events';
+export * from './snapshot';
+export { validateServerPayload, SERVER_EVENT_VALIDATORS } from './validators';
+export type { PayloadValidator } from './validators';
+
+// The subset of socket.io-client's Socket the protocol helpers rely on
+export interface ProtocolSocket {
+  on(event: string, listener: (...args: any[]) => void): unknown;
+  off(event: string, listener?: (...args: any[]) => void): unknown;
+  emit(event: string, ...args: any[]): unknown;
+}
+
+export interface ProtocolViolation {
+  event: ServerEventName;
+  reason: string;
+  payload: unknown;
+}
+
+export type ServerEventHandler<K extends ServerEventName> = (...args: ServerEventArgs<K>) => void;
+export type ProtocolViolationHandler = (violation: ProtocolViolation) => void;
+
+// The one place violations are logged - throttled per event, since a broken
+// backend build can send hundreds per second
+const lastReported: Map<string, number> = new Map();
+export const reportProtocolViolation: ProtocolViolationHandler = ({ event, reason, payload }) => {
+  const now = Date.now();
+  if (now - (lastReported.get(event) || 0) < 1000) return;
+  lastReported.set(event, now);
+  console.warn(`⚠️ Protocol: dropped malformed '${event}' payload (${reason})`, payload);
+};
+
+/**
+ * Listen for a server event with a validated, typed payload.
+ * Malformed payloads never reach the handler; they go to onViolation instead.
+ * Returns the raw listener so callers can pass it to offServerEvent.
+ */
+export function onServerEvent<K extends ServerEventName>(
+  socket: ProtocolSocket,
+  event: K,
+  handler: ServerEventHandler<K>,
+  onViolation: ProtocolViolationHandler = reportProtocolViolation
+): (payload?: unknown) => void {
+  const listener = (payload?: unknown) => {
+    const reason = validateServerPayload(event, payload);
+    if (reason) {
+      onViolation({ event, reason, payload });
+      return;
+    }
+    (handler as (payload?: unknown) => void)(payload);
+  };
+  socket.on(event, listener);
+  return listener;
+}
+
+export function offServerEvent(
+  socket: ProtocolSocket,
+  event: ServerEventName,
+  listener?: (payload?: unknown) => void
+): void {
+  socket.off(event, listener);
+}
+
+/**
+ * Validated listeners registered as a group, so their owner (usually a scene)
+ * can remove exactly the handlers it added without touching anyone else's
+ */
+export class ServerEventListeners {
+  private socket: ProtocolSocket;
+  private onViolation: ProtocolViolationHandler;
+  private registered: Array<{ event: ServerEventName; listener: (payload?: unknown) => void }> = [];
+
+  constructor(socket: ProtocolSocket, onViolation: ProtocolViolationHandler = reportProtocolViolation) {
+    this.socket = socket;
+    this.onViolation = onViolation;
+  }
+
+  on<K extends ServerEventName>(event: K, handler: ServerEventHandler<K>): this {
+    this.registered.push({ event, listener: onServerEvent(this.socket, event, handler, this.onViolation) });
+    return this;
+  }
+
+  removeAll(): void {
+    this.registered.forEach(({ event, listener }) => offServerEvent(this.socket, event, listener));
+    this.registered = [];
+  }
+}
+
+/**
+ * Emit a client event with a payload checked against the contract.
+ */
+export function emitClientEvent<K extends ClientEventName>(
+  socket: ProtocolSocket,
+  event: K,
+  ...args: ClientEventArgs<K>
+): void {
+  socket.emit(event, ...args);
+}
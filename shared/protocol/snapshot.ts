@@ -0,0 +1,39 @@
+// Binary game:state wire format (protocol v2).
+// Servers that accept the version offered in the socket.io handshake auth
+// send game:state as a msgpack-encoded SnapshotFrame instead of JSON. A frame
+// is either a keyframe (full state) or a delta against an earlier frame the
+// client still holds. Keys are one or two letters - they go out 20 times a
+// second to every client.
+import { Vector2, PlayerState, WallState, ProjectileState, PolygonVision, SmokeZoneState } from '../types/index';
+
+export const JSON_PROTOCOL_VERSION = 1;
+export const BINARY_PROTOCOL_VERSION = 2;
+
+// Sent as `auth` in the socket.io handshake - old servers ignore it and keep sending JSON
+export interface ProtocolHandshake {
+  protocolVersion: number;
+  encodings: string[];
+  sessionToken?: string; // Only when reconnecting - asks the server to resume that session
+}
+
+// [wallId, sliceIndex, sliceHealth] - a slice at 0 health is destroyed
+export type WallSliceChange = [string, number, number];
+
+export interface SnapshotFrame {
+  s: number;                              // Sequence, increases by one per frame sent to this client
+  b?: number;                             // Baseline sequence this delta applies to - absent on keyframes
+  t: number;                              // Server timestamp
+  r?: number;                             // Tick rate - absent = unchanged
+  p?: Record<string, Partial<PlayerState>>; // Players new or changed since the baseline (changed fields only)
+  x?: string[];                           // Players gone since the baseline
+  v?: string[];                           // Ids of visiblePlayers - absent = unchanged
+  w?: Record<string, WallState>;          // Whole walls: every wall on keyframes, new walls on deltas
+  ws?: WallSliceChange[];                 // Slices whose health changed since the baseline
+  m?: Uint8Array;                         // Tile vision bitmask, bit i = tile index i visible - absent = unchanged
+  ma?: number;                            // Tile vision view angle
+  mo?: Vector2;                           // Tile vision origin
+  mp?: PolygonVision;                     // Polygon vision, whole - absent = unchanged
+  j?: ProjectileState[];                  // Projectiles this tick - never delta'd, they live for a few frames
+  z?: SmokeZoneState[];                   // Active smoke zones, whole - absent = unchanged
+  e?: Record<string, unknown>;            // Other JSON game:state fields (flashbang effects, ...) by name, each whole - absent = unchanged, null = gone
+}
@@ -0,0 +1,165 @@
+// Runtime payload validation for inbound socket events.
+// Validators only check the fields the client actually dereferences - the
+// backend is free to send extra data. Each returns null when the payload is
+// usable, or a short description of what is wrong.
+import { ServerEventName } from './events';
+
+export type PayloadValidator = (payload: unknown) => string | null;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function isVector2(value: unknown): boolean {
+  return isObject(value) && isFiniteNumber(value.x) && isFiniteNumber(value.y);
+}
+
+type FieldCheck = 'string' | 'number' | 'boolean' | 'vector' | 'array' | 'object';
+
+function checkField(value: unknown, check: FieldCheck): boolean {
+  switch (check) {
+    case 'string': return typeof value === 'string';
+    case 'number': return isFiniteNumber(value);
+    case 'boolean': return typeof value === 'boolean';
+    case 'vector': return isVector2(value);
+    case 'array': return Array.isArray(value);
+    case 'object': return isObject(value);
+  }
+}
+
+/**
+ * Build a validator from required and optional field checks.
+ * Optional fields may be missing/null but must have the right type when present.
+ */
+function shape(
+  required: Record<string, FieldCheck>,
+  optional: Record<string, FieldCheck> = {}
+): PayloadValidator {
+  return (payload: unknown) => {
+    if (!isObject(payload)) {
+      return `expected object, got ${payload === null ? 'null' : typeof payload}`;
+    }
+    for (const [field, check] of Object.entries(required)) {
+      if (!checkField(payload[field], check)) {
+        return `field '${field}' must be ${check}`;
+      }
+    }
+    for (const [field, check] of Object.entries(optional)) {
+      const value = payload[field];
+      if (value !== undefined && value !== null && !checkField(value, check)) {
+        return `optional field '${field}' must be ${check}`;
+      }
+    }
+    return null;
+  };
+}
+
+const stringPayload: PayloadValidator = (payload) =>
+  typeof payload === 'string' ? null : `expected string, got ${typeof payload}`;
+
+const playerDied = shape({ playerId: 'string' }, { killerId: 'string', position: 'vector' });
+const playerRespawned = shape({ playerId: 'string' }, { position: 'vector', health: 'number', invulnerableUntil: 'number' });
+const collision = shape({ playerId: 'string', position: 'vector' });
+const reason = shape({}, { reason: 'string' });
+
+const gameState: PayloadValidator = (payload) => {
+  if (!isObject(payload)) return `expected object, got ${typeof payload}`;
+  if (payload.players !== undefined && !isObject(payload.players) && !(payload.players instanceof Map)) {
+    return `field 'players' must be object`;
+  }
+  if (payload.visiblePlayers !== undefined && !Array.isArray(payload.visiblePlayers)) {
+    return `field 'visiblePlayers' must be array`;
+  }
+  if (payload.walls !== undefined && !isObject(payload.walls) && !(payload.walls instanceof Map)) {
+    return `field 'walls' must be object`;
+  }
+  if (payload.vision !== undefined && payload.vision !== null && !isObject(payload.vision)) {
+    return `field 'vision' must be object`;
+  }
+  return null;
+};
+
+const flashbangEffect: PayloadValidator = (payload) => {
+  const base = shape({ affectedPlayers: 'array' })(payload);
+  if (base) return base;
+  const affected = (payload as { affectedPlayers: unknown[] }).affectedPlayers;
+  for (const entry of affected) {
+    const problem = shape({ playerId: 'string', intensity: 'number', duration: 'number', phases: 'object' })(entry);
+    if (problem) return `affectedPlayers entry: ${problem}`;
+  }
+  return null;
+};
+
+const matchEnded: PayloadValidator = (payload) => {
+  const base = shape({ lobbyId: 'string', winnerTeam: 'string' }, { redKills: 'number', blueKills: 'number', duration: 'number', playerStats: 'array' })(payload);
+  if (base) return base;
+  const team = (payload as { winnerTeam: string }).winnerTeam;
+  return team === 'red' || team === 'blue' ? null : `field 'winnerTeam' must be 'red' or 'blue'`;
+};
+
+// Events without an entry here are passed through unchecked
+export const SERVER_EVENT_VALIDATORS: Partial<Record<ServerEventName, PayloadValidator>> = {
+  'auth-failed': stringPayload,
+  'player:join:failed': reason,
+  'game:state': gameState,
+  'weapon:fired': shape({ playerId: 'string', weaponType: 'string', position: 'vector', direction: 'number' }, { sequence: 'number', timestamp: 'number' }),
+  'weapon:hit': shape({ playerId: 'string', position: 'vector' }, { startPosition: 'vector', weaponType: 'string' }),
+  'weapon:miss': shape({ playerId: 'string', direction: 'number' }, { position: 'vector', weaponType: 'string' }),
+  'weapon:reloaded': shape({ weaponType: 'string' }),
+  'weapon:heat:update': shape({ weaponType: 'string' }, { heatLevel: 'number', isOverheated: 'boolean' }),
+  'weapon:switched': shape({ toWeapon: 'string' }),
+  'player:damaged': shape({ playerId: 'string', damage: 'number', newHealth: 'number' }, { attackerId: 'string' }),
+  'player:killed': shape({ playerId: 'string' }, { killerId: 'string', position: 'vector' }),
+  'player_died': playerDied,
+  'player:died': playerDied,
+  'backend:player:died': playerDied,
+  'player_respawned': playerRespawned,
+  'player:respawned': playerRespawned,
+  'backend:player:respawned': playerRespawned,
+  'respawn_success': playerRespawned,
+  'wall:damaged': shape({ wallId: 'string', sliceIndex: 'number' }, { newHealth: 'number', position: 'vector', material: 'string' }),
+  'wall:destroyed': shape({ wallId: 'string', sliceIndex: 'number' }),
+  'projectile:created': shape({ id: 'string', type: 'string', position: 'vector' }, { velocity: 'vector', lifetime: 'number' }),
+  'projectile:updated': shape({ id: 'string', position: 'vector' }),
+  'projectile:exploded': shape({ id: 'string', position: 'vector', radius: 'number' }),
+  'explosion:created': shape({ position: 'vector' }, { radius: 'number', damagedWalls: 'array' }),
+  'FLASHBANG_EFFECT': flashbangEffect,
+  'player:collision': collision,
+  'collision:detected': collision,
+  'game:restarting': shape({}, { countdown: 'number', message: 'string' }),
+  'lobby:state': shape({ lobbyId: 'string', playerCount: 'number', maxPlayers: 'number', players: 'array', status: 'string' }),
+  'lobby_joined': shape({ lobbyId: 'string' }, { playerCount: 'number', maxPlayers: 'number' }),
+  'player_joined_lobby': shape({}, { lobbyId: 'string', playerCount: 'number' }),
+  'player_left_lobby': shape({}, { lobbyId: 'string', playerCount: 'number' }),
+  'match_starting': shape({}, { countdown: 'number' }),
+  'match_start_cancelled': reason,
+  'match_started': shape({ lobbyId: 'string' }, { killTarget: 'number' }),
+  'match_ended': matchEnded,
+  'lobby_list': shape({ lobbies: 'array' }, { totalCount: 'number' }),
+  'lobby_join_failed': reason,
+  'lobby_creation_failed': reason,
+  'lobby_error': reason,
+  'matchmaking_failed': reason,
+  'spectator_joined': shape({ lobbyId: 'string' }, { status: 'string', killTarget: 'number' }),
+  'spectator_denied': reason,
+  'spawn_position': shape({ position: 'vector' }),
+  'time:sync:response': shape({ clientTime: 'number', serverTime: 'number' })
+};
+
+/**
+ * Validate an inbound payload against the contract.
+ * Returns null when valid (or when the event has no validator).
+ */
+export function validateServerPayload(event: ServerEventName, payload: unknown): string | null {
+  const validator = SERVER_EVENT_VALIDATORS[event];
+  if (!validator) return null;
+  try {
+    return validator(payload);
+  } catch (error) {
+    return `validator threw: ${error}`;
+  }
+}
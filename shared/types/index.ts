@@ -29,6 +29,18 @@ export interface WallState {
   sliceHealth: number[];
 }
 
+// Smoke grenade cloud - grows to maxRadius over expansionTime, gone after duration
+export interface SmokeZoneState {
+  id: string;
+  position: Vector2;
+  radius: number;
+  maxRadius: number;
+  density?: number;       // 0-1 opacity at full strength
+  createdAt: number;
+  duration?: number;      // ms
+  expansionTime?: number; // ms
+}
+
 export interface ProjectileState {
   id: string;
   position: Vector2;
@@ -51,6 +63,7 @@ export interface GameState {
   tickRate: number;
   visionMask?: number[];
   vision?: TileVision | PolygonVision;
+  smokeZones?: SmokeZoneState[];
 }
 
 // Tile-based vision (legacy)
@@ -0,0 +1,104 @@
+import { Vector2 } from './index';
+
+// Level file format - see LEVEL_FORMAT_SPECIFICATION.md
+export interface LevelData {
+  // Metadata
+  id: string;
+  name: string;
+  version: string;
+  author: string;
+  description: string;
+
+  // Map dimensions
+  width: number;  // in tiles
+  height: number; // in tiles
+  tileSize: number; // pixels per tile (10 matches the wall slice grid)
+
+  layers: Layer[];
+  tilesets: Tileset[];
+  spawns: SpawnPoint[];
+  objects: GameObject[];
+
+  // Environment
+  lighting: LightingConfig;
+  audio: AudioConfig;
+}
+
+export type LayerType = 'floor' | 'walls' | 'decoration' | 'collision';
+
+export interface Layer {
+  id: string;
+  name: string;
+  type: LayerType;
+  visible: boolean;
+  opacity: number;
+  data: number[]; // Flattened 2D array of global tile IDs, 0 = empty
+}
+
+export interface Tileset {
+  name: string;
+  firstGid: number; // First global ID
+  image: string;    // Path to image
+  tileWidth: number;
+  tileHeight: number;
+  tileCount: number;
+  columns: number;
+
+  // Tile properties
+  tiles: TileProperties[];
+}
+
+export type WallMaterial = 'concrete' | 'wood' | 'metal' | 'glass' | 'none';
+
+export interface TileProperties {
+  id: number; // Local tile ID
+  type: TileType;
+  material: WallMaterial;
+  health?: number;
+  destructible: boolean;
+  bulletPenetration: number; // 0-1
+  explosionResistance: number; // 0-1
+  customProperties?: Record<string, any>;
+}
+
+export enum TileType {
+  EMPTY = 'empty',
+  FLOOR = 'floor',
+  WALL = 'wall',
+  WINDOW = 'window',
+  DOOR = 'door',
+  SPAWN = 'spawn',
+  OBJECTIVE = 'objective'
+}
+
+export type SpawnTeam = 'red' | 'blue' | 'neutral';
+
+export interface SpawnPoint {
+  id: string;
+  team: SpawnTeam;
+  position: Vector2;
+  radius: number;
+  priority: number; // For spawn selection
+}
+
+export type GameObjectType = 'weapon' | 'ammo' | 'health' | 'armor' | 'objective';
+
+export interface GameObject {
+  id: string;
+  type: GameObjectType;
+  position: Vector2;
+  properties: Record<string, any>;
+}
+
+export interface LightingConfig {
+  ambientColor: string; // Hex color
+  ambientIntensity: number; // 0-1
+  shadows: boolean;
+  fogOfWar: boolean;
+}
+
+export interface AudioConfig {
+  ambientSound?: string;
+  reverbType: 'none' | 'small' | 'medium' | 'large';
+  volume: number; // 0-1
+}
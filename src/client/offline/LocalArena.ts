@@ -0,0 +1,152 @@
+import { GAME_CONFIG } from '../../../shared/constants/index';
+import { Vector2, WallState, PolygonVision } from '../../../shared/types/index';
+import { LevelData } from '../../../shared/types/level';
+import { MapLoader } from '../systems/MapLoader';
+import { SLICE_HEALTH, raycastWalls } from '../utils/wallGeometry';
+
+/**
+ * LocalArena - Map data and geometry queries for the offline LocalServer
+ *
+ * Walls use the same 5-slice layout DestructionRenderer and CollisionSystem
+ * expect, so damage applied here renders exactly like backend damage.
+ */
+
+export interface ArenaWall extends WallState {
+  orientation: 'horizontal' | 'vertical';
+  // Level walls can opt out of damage; they still stop bullets
+  indestructible?: boolean;
+}
+
+export interface ArenaSpawns {
+  red: Vector2[];
+  blue: Vector2[];
+}
+
+// Vision cone roughly matching what the backend sends
+export const VISION_FOV = 2.094; // 120 degrees
+export const VISION_DISTANCE = 160;
+const VISION_RAYS = 48;
+
+// Mirrored layout so neither team gets better cover
+const DEFAULT_LAYOUT: Array<{ x: number; y: number; w: number; h: number; material: string }> = [
+  { x: 120, y: 40, w: 10, h: 50, material: 'concrete' },
+  { x: 350, y: 180, w: 10, h: 50, material: 'concrete' },
+  { x: 60, y: 120, w: 50, h: 10, material: 'wood' },
+  { x: 370, y: 140, w: 50, h: 10, material: 'wood' },
+  { x: 190, y: 90, w: 100, h: 10, material: 'concrete' },
+  { x: 190, y: 170, w: 100, h: 10, material: 'concrete' },
+  { x: 235, y: 120, w: 10, h: 10, material: 'concrete' },
+  { x: 160, y: 200, w: 10, h: 50, material: 'wood' },
+  { x: 310, y: 20, w: 10, h: 50, material: 'wood' }
+];
+
+export const DEFAULT_SPAWNS: ArenaSpawns = {
+  red: [{ x: 420, y: 50 }, { x: 440, y: 110 }, { x: 420, y: 230 }, { x: 450, y: 160 }],
+  blue: [{ x: 60, y: 220 }, { x: 40, y: 160 }, { x: 60, y: 40 }, { x: 30, y: 100 }]
+};
+
+export function createDefaultWalls(): Map<string, ArenaWall> {
+  const walls = new Map<string, ArenaWall>();
+  DEFAULT_LAYOUT.forEach((def, index) => {
+    const id = `local_wall_${index}`;
+    walls.set(id, createWall(id, def.x, def.y, def.w, def.h, def.material));
+  });
+  return walls;
+}
+
+export function createWall(id: string, x: number, y: number, width: number, height: number, material: string): ArenaWall {
+  const sliceMax = SLICE_HEALTH[material] || SLICE_HEALTH.concrete;
+  return {
+    id,
+    position: { x, y },
+    width,
+    height,
+    orientation: width > height ? 'horizontal' : 'vertical',
+    material,
+    health: sliceMax * 5,
+    maxHealth: sliceMax,
+    sliceHealth: [sliceMax, sliceMax, sliceMax, sliceMax, sliceMax],
+    destructionMask: [0, 0, 0, 0, 0]
+  };
+}
+
+/**
+ * Walls and spawns from a loaded level file, in the arena's format
+ */
+export function createLevelWalls(level: LevelData): Map<string, ArenaWall> {
+  const walls = new Map<string, ArenaWall>();
+  MapLoader.extractWalls(level).forEach(wall => {
+    walls.set(wall.id, {
+      id: wall.id,
+      position: { ...wall.position },
+      width: wall.width,
+      height: wall.height,
+      orientation: wall.orientation,
+      material: wall.material,
+      health: wall.sliceHealth.reduce((sum, health) => sum + health, 0),
+      maxHealth: wall.maxHealth,
+      sliceHealth: [...wall.sliceHealth],
+      destructionMask: [...wall.destructionMask],
+      indestructible: !wall.destructible
+    });
+  });
+  return walls;
+}
+
+/**
+ * Client-side wall record (DestructionRenderer) in the arena's format - health is the slice total
+ */
+export function toArenaWall(wall: Omit<ArenaWall, 'health'>): ArenaWall {
+  return { ...wall, health: wall.sliceHealth.reduce((sum, health) => sum + health, 0) };
+}
+
+export function getLevelSpawns(level: LevelData): ArenaSpawns {
+  const positions = (team: 'red' | 'blue') => MapLoader.getSpawnPoints(level, team).map(spawn => ({ ...spawn.position }));
+  return { red: positions('red'), blue: positions('blue') };
+}
+
+export function hasLineOfSight(walls: Iterable<ArenaWall>, from: Vector2, to: Vector2): boolean {
+  const distance = Math.hypot(to.x - from.x, to.y - from.y);
+  const angle = Math.atan2(to.y - from.y, to.x - from.x);
+  return raycastWalls(walls, from, angle, distance) === null;
+}
+
+/**
+ * Vision cone clipped by intact wall slices, in the backend's polygon format
+ */
+export function computeVisionPolygon(walls: Iterable<ArenaWall>, position: Vector2, direction: number): PolygonVision {
+  const wallList = Array.from(walls);
+  const polygon: Vector2[] = [{ x: position.x, y: position.y }];
+
+  for (let i = 0; i <= VISION_RAYS; i++) {
+    const angle = direction - VISION_FOV / 2 + (VISION_FOV * i) / VISION_RAYS;
+    const hit = raycastWalls(wallList, position, angle, VISION_DISTANCE);
+    const distance = hit ? hit.distance : VISION_DISTANCE;
+    polygon.push({
+      x: Phaser.Math.Clamp(position.x + Math.cos(angle) * distance, 0, GAME_CONFIG.GAME_WIDTH),
+      y: Phaser.Math.Clamp(position.y + Math.sin(angle) * distance, 0, GAME_CONFIG.GAME_HEIGHT)
+    });
+  }
+
+  return {
+    type: 'polygon',
+    polygon,
+    viewAngle: VISION_FOV,
+    viewDirection: direction,
+    viewDistance: VISION_DISTANCE,
+    position: { x: position.x, y: position.y }
+  };
+}
+
+/**
+ * Same visibility rule the polygon encodes: inside the cone, in range, unobstructed
+ */
+export function isInVisionCone(walls: Iterable<ArenaWall>, viewer: Vector2, direction: number, target: Vector2): boolean {
+  const distance = Math.hypot(target.x - viewer.x, target.y - viewer.y);
+  if (distance > VISION_DISTANCE) return false;
+
+  const angleToTarget = Math.atan2(target.y - viewer.y, target.x - viewer.x);
+  if (Math.abs(Phaser.Math.Angle.Wrap(angleToTarget - direction)) > VISION_FOV / 2) return false;
+
+  return hasLineOfSight(walls, viewer, target);
+}
@@ -0,0 +1,437 @@
+import { GAME_CONFIG } from '../../../shared/constants/index';
+import { WEAPON_CONFIGS, PlayerLoadout } from '../../../shared/constants/weapons';
+import { Vector2 } from '../../../shared/types/index';
+import type { LocalPlayer } from './LocalServer';
+import { ArenaWall, hasLineOfSight, isInVisionCone } from './LocalArena';
+
+/**
+ * LocalBot - AI brain for one server-controlled player in offline mode
+ *
+ * Bots only know what their own vision cone shows them (the same rule the
+ * server uses to build the fog-of-war polygon), plus where they were last shot
+ * from. They act through the same movement and weapon paths as humans, so
+ * every kill and hit produces the normal protocol events.
+ */
+
+export type BotDifficulty = 'recruit' | 'regular' | 'veteran';
+
+export interface BotProfile {
+  label: string;
+  reactionTime: number;   // ms a target must be in view before the first shot
+  aimError: number;       // max random angle error per shot (radians)
+  turnRate: number;       // radians per second
+  burstLength: number;    // shots before pausing
+  burstPause: number;     // ms between bursts
+  grenadeChance: number;  // chance to grenade a target that ducked out of view
+  retreatHealth: number;  // health below which the bot looks for cover
+}
+
+export const BOT_DIFFICULTIES: Record<BotDifficulty, BotProfile> = {
+  recruit: {
+    label: 'RECRUIT',
+    reactionTime: 750,
+    aimError: 0.16,
+    turnRate: 3.5,
+    burstLength: 3,
+    burstPause: 700,
+    grenadeChance: 0.15,
+    retreatHealth: 0
+  },
+  regular: {
+    label: 'REGULAR',
+    reactionTime: 400,
+    aimError: 0.08,
+    turnRate: 6,
+    burstLength: 5,
+    burstPause: 400,
+    grenadeChance: 0.35,
+    retreatHealth: 35
+  },
+  veteran: {
+    label: 'VETERAN',
+    reactionTime: 200,
+    aimError: 0.035,
+    turnRate: 10,
+    burstLength: 8,
+    burstPause: 250,
+    grenadeChance: 0.6,
+    retreatHealth: 50
+  }
+};
+
+export const BOT_DIFFICULTY_ORDER: BotDifficulty[] = ['recruit', 'regular', 'veteran'];
+
+/**
+ * What a bot may ask of the simulation - implemented by LocalServer
+ */
+export interface BotWorld {
+  getPlayers(): Iterable<LocalPlayer>;
+  getWalls(): Iterable<ArenaWall>;
+  isBlocked(position: Vector2): boolean;
+  movePlayer(player: LocalPlayer, direction: Vector2, speedMultiplier: number, deltaTime: number): void;
+  fireWeapon(player: LocalPlayer, weaponType: string, direction: number, targetPosition: Vector2): void;
+}
+
+type BotState = 'patrol' | 'engage' | 'cover' | 'search';
+
+const SEARCH_MEMORY = 4000;
+const COVER_HOLD_TIME = 2500;
+const COVER_SEARCH_RADIUS = 150;
+const GRENADE_COOLDOWN = 8000;
+const GRENADE_MIN_RANGE = 50;
+const GRENADE_MAX_RANGE = 170;
+const STUCK_TIMEOUT = 600;
+const AIM_TOLERANCE = 0.2;
+
+// Distance each weapon likes to fight at
+const PREFERRED_RANGE: Record<string, number> = {
+  shotgun: 45,
+  smg: 70,
+  sniperrifle: 150,
+  antimaterialrifle: 150,
+  battlerifle: 110
+};
+
+const CALLSIGNS = ['Alpha', 'Bravo', 'Charlie', 'Delta', 'Echo', 'Foxtrot', 'Golf', 'Hotel'];
+
+export function getBotName(index: number): string {
+  return `Bot ${CALLSIGNS[index % CALLSIGNS.length]}`;
+}
+
+/**
+ * Random loadout built from WEAPON_CONFIGS, always carrying frag grenades
+ */
+export function createBotLoadout(team: 'red' | 'blue'): PlayerLoadout {
+  const pick = (category: string) => {
+    const options = Object.values(WEAPON_CONFIGS).filter(config => config.category === category);
+    return options[Math.floor(Math.random() * options.length)].id;
+  };
+
+  return {
+    primary: pick('primary'),
+    secondary: pick('secondary'),
+    support: ['grenade'],
+    team
+  };
+}
+
+function angleDifference(a: number, b: number): number {
+  return Math.atan2(Math.sin(a - b), Math.cos(a - b));
+}
+
+function distance(a: Vector2, b: Vector2): number {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+export class LocalBot {
+  readonly player: LocalPlayer;
+  private profile: BotProfile;
+  private state: BotState = 'patrol';
+
+  private target: LocalPlayer | null = null;
+  private targetSeenSince: number = 0;
+  private lastSeenPosition: Vector2 | null = null;
+  private lastSeenAt: number = 0;
+
+  private waypoint: Vector2 | null = null;
+  private coverPoint: Vector2 | null = null;
+  private coverUntil: number = 0;
+  private strafeSign: number = 1;
+  private nextStrafeFlip: number = 0;
+
+  private nextShotAt: number = 0;
+  private shotsInBurst: number = 0;
+  private grenades: number = 0;
+  private nextGrenadeAt: number = 0;
+  private grenadeRolled: boolean = false;
+
+  private lastPosition: Vector2 = { x: 0, y: 0 };
+  private stuckSince: number = 0;
+
+  constructor(player: LocalPlayer, difficulty: BotDifficulty) {
+    this.player = player;
+    this.profile = BOT_DIFFICULTIES[difficulty];
+    this.onRespawn();
+  }
+
+  setDifficulty(difficulty: BotDifficulty): void {
+    this.profile = BOT_DIFFICULTIES[difficulty];
+  }
+
+  onRespawn(): void {
+    this.state = 'patrol';
+    this.target = null;
+    this.lastSeenPosition = null;
+    this.waypoint = null;
+    this.coverPoint = null;
+    this.shotsInBurst = 0;
+    this.grenades = (this.player.loadout?.support || []).filter(weapon => weapon === 'grenade').length * 2;
+    this.lastPosition = { ...this.player.position };
+    this.stuckSince = 0;
+  }
+
+  /**
+   * Getting shot reveals the shooter's position, even from behind
+   */
+  onDamaged(attacker: LocalPlayer, now: number): void {
+    if (this.target) return;
+    this.lastSeenPosition = { ...attacker.position };
+    this.lastSeenAt = now;
+  }
+
+  update(world: BotWorld, now: number, deltaTime: number): void {
+    if (!this.player.isAlive) return;
+
+    const walls = Array.from(world.getWalls());
+    this.perceive(world, walls, now);
+    this.decide(world, walls, now);
+
+    const moveTarget = this.getMoveTarget(world, now);
+    const lookTarget = this.getLookTarget(moveTarget);
+    if (lookTarget) {
+      this.turnTowards(lookTarget, deltaTime);
+    }
+
+    if (moveTarget) {
+      this.moveTowards(world, moveTarget, now, deltaTime);
+    } else {
+      world.movePlayer(this.player, { x: 0, y: 0 }, 1, deltaTime);
+    }
+
+    this.tryShoot(world, now);
+    this.tryGrenade(world, now);
+  }
+
+  // ===== PERCEPTION =====
+
+  private perceive(world: BotWorld, walls: ArenaWall[], now: number): void {
+    let nearest: LocalPlayer | null = null;
+    let nearestDistance = Infinity;
+
+    for (const other of world.getPlayers()) {
+      if (other === this.player || !other.isAlive || other.team === this.player.team) continue;
+      if (!isInVisionCone(walls, this.player.position, this.player.angle, other.position)) continue;
+
+      const d = distance(this.player.position, other.position);
+      if (d < nearestDistance) {
+        nearest = other;
+        nearestDistance = d;
+      }
+    }
+
+    if (nearest !== this.target) {
+      this.target = nearest;
+      this.targetSeenSince = now;
+      this.shotsInBurst = 0;
+    }
+
+    if (this.target) {
+      this.lastSeenPosition = { ...this.target.position };
+      this.lastSeenAt = now;
+      this.grenadeRolled = false;
+    }
+  }
+
+  // ===== DECISIONS =====
+
+  private decide(world: BotWorld, walls: ArenaWall[], now: number): void {
+    if (this.state === 'cover' && now < this.coverUntil) return;
+
+    if (this.target) {
+      if (this.player.health < this.profile.retreatHealth) {
+        const cover = this.findCover(world, walls, this.target.position);
+        if (cover) {
+          this.state = 'cover';
+          this.coverPoint = cover;
+          this.coverUntil = now + COVER_HOLD_TIME;
+          return;
+        }
+      }
+      this.state = 'engage';
+      return;
+    }
+
+    if (this.lastSeenPosition && now - this.lastSeenAt < SEARCH_MEMORY) {
+      this.state = 'search';
+      return;
+    }
+
+    this.state = 'patrol';
+    this.lastSeenPosition = null;
+  }
+
+  /**
+   * Nearest spot next to an intact wall that the threat can't see
+   */
+  private findCover(world: BotWorld, walls: ArenaWall[], threat: Vector2): Vector2 | null {
+    let best: Vector2 | null = null;
+    let bestDistance = COVER_SEARCH_RADIUS;
+
+    for (const wall of walls) {
+      const intactSlices = wall.destructionMask.filter(mask => mask === 0).length;
+      if (intactSlices < 3) continue;
+
+      const centerX = wall.position.x + wall.width / 2;
+      const centerY = wall.position.y + wall.height / 2;
+      const candidates = [
+        { x: wall.position.x - 9, y: centerY },
+        { x: wall.position.x + wall.width + 9, y: centerY },
+        { x: centerX, y: wall.position.y - 9 },
+        { x: centerX, y: wall.position.y + wall.height + 9 }
+      ];
+
+      for (const candidate of candidates) {
+        const d = distance(this.player.position, candidate);
+        if (d >= bestDistance || world.isBlocked(candidate)) continue;
+        if (hasLineOfSight(walls, threat, candidate)) continue;
+        best = candidate;
+        bestDistance = d;
+      }
+    }
+
+    return best;
+  }
+
+  // ===== MOVEMENT =====
+
+  private getMoveTarget(world: BotWorld, now: number): Vector2 | null {
+    switch (this.state) {
+      case 'cover':
+        return this.coverPoint;
+
+      case 'search':
+        return this.lastSeenPosition;
+
+      case 'engage': {
+        if (!this.target) return null;
+        const preferred = PREFERRED_RANGE[this.player.weaponType] || 90;
+        const d = distance(this.player.position, this.target.position);
+        const toTarget = Math.atan2(this.target.position.y - this.player.position.y, this.target.position.x - this.player.position.x);
+
+        if (d > preferred + 20) return this.target.position;
+        if (d < preferred - 20) {
+          return {
+            x: this.player.position.x - Math.cos(toTarget) * 20,
+            y: this.player.position.y - Math.sin(toTarget) * 20
+          };
+        }
+
+        // In range - strafe to be harder to hit
+        if (now >= this.nextStrafeFlip) {
+          this.strafeSign = Math.random() < 0.5 ? -1 : 1;
+          this.nextStrafeFlip = now + 800 + Math.random() * 1200;
+        }
+        const strafe = toTarget + this.strafeSign * Math.PI / 2;
+        return {
+          x: this.player.position.x + Math.cos(strafe) * 20,
+          y: this.player.position.y + Math.sin(strafe) * 20
+        };
+      }
+
+      case 'patrol':
+      default:
+        if (!this.waypoint || distance(this.player.position, this.waypoint) < 8) {
+          this.waypoint = this.pickWaypoint(world);
+        }
+        return this.waypoint;
+    }
+  }
+
+  private getLookTarget(moveTarget: Vector2 | null): Vector2 | null {
+    if (this.target) return this.target.position;
+    if (this.state === 'search' && this.lastSeenPosition) return this.lastSeenPosition;
+    return moveTarget;
+  }
+
+  private moveTowards(world: BotWorld, destination: Vector2, now: number, deltaTime: number): void {
+    const dx = destination.x - this.player.position.x;
+    const dy = destination.y - this.player.position.y;
+    const length = Math.hypot(dx, dy);
+
+    if (length < 2) {
+      world.movePlayer(this.player, { x: 0, y: 0 }, 1, deltaTime);
+      return;
+    }
+
+    const speed = this.state === 'cover' ? 1.5 : 1.0;
+    world.movePlayer(this.player, { x: dx / length, y: dy / length }, speed, deltaTime);
+
+    // Blocked by geometry the straight line can't get around - pick somewhere else
+    const moved = distance(this.player.position, this.lastPosition);
+    this.lastPosition = { ...this.player.position };
+    if (moved > 0.5) {
+      this.stuckSince = 0;
+    } else if (this.stuckSince === 0) {
+      this.stuckSince = now;
+    } else if (now - this.stuckSince > STUCK_TIMEOUT) {
+      this.stuckSince = 0;
+      this.waypoint = this.pickWaypoint(world);
+      if (this.state !== 'engage') {
+        this.state = 'patrol';
+        this.lastSeenPosition = null;
+        this.coverUntil = 0;
+      }
+    }
+  }
+
+  private pickWaypoint(world: BotWorld): Vector2 {
+    for (let attempt = 0; attempt < 20; attempt++) {
+      const point = {
+        x: 20 + Math.random() * (GAME_CONFIG.GAME_WIDTH - 40),
+        y: 20 + Math.random() * (GAME_CONFIG.GAME_HEIGHT - 40)
+      };
+      if (!world.isBlocked(point)) return point;
+    }
+    return { x: GAME_CONFIG.GAME_WIDTH / 2, y: GAME_CONFIG.GAME_HEIGHT / 2 };
+  }
+
+  private turnTowards(point: Vector2, deltaTime: number): void {
+    const desired = Math.atan2(point.y - this.player.position.y, point.x - this.player.position.x);
+    const diff = angleDifference(desired, this.player.angle);
+    const maxTurn = this.profile.turnRate * deltaTime;
+    this.player.angle += Math.max(-maxTurn, Math.min(maxTurn, diff));
+  }
+
+  // ===== COMBAT =====
+
+  private tryShoot(world: BotWorld, now: number): void {
+    if (this.state !== 'engage' || !this.target) return;
+    if (now - this.targetSeenSince < this.profile.reactionTime || now < this.nextShotAt) return;
+
+    const desired = Math.atan2(this.target.position.y - this.player.position.y, this.target.position.x - this.player.position.x);
+    if (Math.abs(angleDifference(desired, this.player.angle)) > AIM_TOLERANCE) return;
+
+    const weaponType = this.player.weaponType;
+    const direction = this.player.angle + (Math.random() * 2 - 1) * this.profile.aimError;
+    world.fireWeapon(this.player, weaponType, direction, this.target.position);
+
+    const fireRate = WEAPON_CONFIGS[weaponType]?.fireRate || 300;
+    this.shotsInBurst++;
+    if (this.shotsInBurst >= this.profile.burstLength) {
+      this.shotsInBurst = 0;
+      this.nextShotAt = now + Math.max(this.profile.burstPause, 60000 / fireRate);
+    } else {
+      this.nextShotAt = now + 60000 / fireRate;
+    }
+  }
+
+  /**
+   * Flush out a target that just ducked behind cover
+   */
+  private tryGrenade(world: BotWorld, now: number): void {
+    if (this.state !== 'search' || !this.lastSeenPosition || this.grenades <= 0) return;
+    if (now < this.nextGrenadeAt || this.grenadeRolled) return;
+
+    const d = distance(this.player.position, this.lastSeenPosition);
+    if (d < GRENADE_MIN_RANGE || d > GRENADE_MAX_RANGE) return;
+
+    // One roll per lost contact so bots don't spam
+    this.grenadeRolled = true;
+    if (Math.random() >= this.profile.grenadeChance) return;
+
+    const direction = Math.atan2(this.lastSeenPosition.y - this.player.position.y, this.lastSeenPosition.x - this.player.position.x);
+    world.fireWeapon(this.player, 'grenade', direction, this.lastSeenPosition);
+    this.grenades--;
+    this.nextGrenadeAt = now + GRENADE_COOLDOWN;
+  }
+}
@@ -0,0 +1,1131 @@
+import { GAME_CONFIG } from '../../../shared/constants/index';
+import { WEAPON_CONFIGS, PlayerLoadout } from '../../../shared/constants/weapons';
+import { Vector2, PlayerState, GameState } from '../../../shared/types/index';
+import { LevelData } from '../../../shared/types/level';
+import { getMovementDirection, getMovementMode, getSpeedMultiplier, stepMovement } from '../../../shared/movement/index';
+import type {
+  ClientToServerEvents,
+  LobbyStatePayload,
+  LobbyJoinedPayload,
+  MatchPlayerStats,
+  ServerEventArgs,
+  ServerEventName
+} from '../../../shared/protocol/index';
+import { CollisionSystem } from '../systems/CollisionSystem';
+import { LocalSocket } from './LocalSocket';
+import { LocalBot, BotDifficulty, BotWorld, createBotLoadout, getBotName } from './LocalBot';
+import {
+  ArenaWall,
+  ArenaSpawns,
+  DEFAULT_SPAWNS,
+  computeVisionPolygon,
+  createDefaultWalls,
+  createLevelWalls,
+  getLevelSpawns,
+  hasLineOfSight,
+  isInVisionCone
+} from './LocalArena';
+import { getSliceRect, rayCircle, raycastWalls, PLAYER_HIT_RADIUS, HITSCAN_RANGE } from '../utils/wallGeometry';
+
+/**
+ * LocalServer - Offline simulation of the game backend
+ *
+ * Speaks the same socket protocol as the real server so every scene can run
+ * without a backend: connection handshake, a single always-available lobby,
+ * match countdown, authoritative movement (same CollisionSystem the client
+ * predicts with), hitscan weapons against players and wall slices, frag
+ * grenades, AI bots, kill tracking, spectators and match_ended. Rockets,
+ * launchers and smoke/flash utility are not simulated.
+ */
+
+export interface LocalPlayer {
+  id: string;
+  name: string;
+  team: 'red' | 'blue';
+  loadout: PlayerLoadout | null;
+  position: Vector2;
+  velocity: Vector2;
+  angle: number;
+  health: number;
+  isAlive: boolean;
+  kills: number;
+  deaths: number;
+  damageDealt: number;
+  weaponType: string;
+  movementState: 'idle' | 'walking' | 'running' | 'sneaking';
+  isADS: boolean;
+  lastProcessedInput: number;
+  invulnerableUntil: number;
+  respawnAvailableAt: number;
+  // null for server-controlled players (bots)
+  socket: LocalSocket | null;
+}
+
+export interface LocalServerOptions {
+  killTarget?: number;
+  botsPerTeam?: number;
+  botDifficulty?: BotDifficulty;
+}
+
+interface LocalProjectile {
+  id: string;
+  type: string;
+  ownerId: string;
+  position: Vector2;
+  velocity: Vector2;
+  remainingDistance: number;
+  explodeAt: number;
+}
+
+type MatchStatus = 'idle' | 'starting' | 'in_progress' | 'finished';
+
+const RESPAWN_DELAY = 3000;
+const SPAWN_PROTECTION = 1500;
+const MATCH_COUNTDOWN = 3;
+const RELOAD_TIME = 1500;
+const SHOTGUN_SPREAD = 0.3;
+
+const GRENADE_FUSE = 2000;
+const GRENADE_TRAVEL_TIME = 0.8;
+const GRENADE_BASE_RANGE = 60;
+const GRENADE_RANGE_PER_CHARGE = 30;
+const GRENADE_RADIUS = 40;
+const GRENADE_WALL_DAMAGE = 120;
+
+// Weapons that create projectiles or thrown utility on the real backend
+const NON_HITSCAN_WEAPONS = new Set(['smokegrenade', 'flashbang', 'grenadelauncher', 'rocket']);
+
+export const LOCAL_SERVER_INFO = {
+  game: 'Trespasser',
+  status: 'offline',
+  players: 0,
+  maxPlayers: 8,
+  passwordRequired: false,
+  uptime: 0
+};
+
+export class LocalServer implements BotWorld {
+  private clients: Map<string, LocalSocket> = new Map();
+  private lobbyMembers: Set<string> = new Set();
+  // Observers get every broadcast and a full-visibility game:state, but never a player
+  private spectators: Set<string> = new Set();
+  private players: Map<string, LocalPlayer> = new Map();
+  private bots: Map<string, LocalBot> = new Map();
+  private projectiles: Map<string, LocalProjectile> = new Map();
+  private nextProjectileId: number = 0;
+  private level: LevelData | null = null;
+  private spawns: ArenaSpawns = DEFAULT_SPAWNS;
+  private walls: Map<string, ArenaWall> = createDefaultWalls();
+  private collisionSystem: CollisionSystem = new CollisionSystem();
+  private options: Required<LocalServerOptions>;
+
+  private lobbyId: string;
+  private status: MatchStatus = 'idle';
+  private isPrivate: boolean = false;
+  private gameMode: string = 'deathmatch';
+  private matchStartedAt: number = 0;
+  private tickTimer: ReturnType<typeof setInterval> | null = null;
+  private matchTimers: ReturnType<typeof setTimeout>[] = [];
+  private spawnCursor = { red: 0, blue: 0 };
+  private warnedEvents: Set<string> = new Set();
+
+  constructor(options: LocalServerOptions = {}) {
+    this.options = {
+      killTarget: options.killTarget ?? 10,
+      botsPerTeam: options.botsPerTeam ?? 3,
+      botDifficulty: options.botDifficulty ?? 'regular'
+    };
+    this.lobbyId = `offline_${Math.random().toString(36).substring(2, 8)}`;
+    this.syncCollisionWalls();
+  }
+
+  // ===== CONNECTION =====
+
+  addClient(socket: LocalSocket): void {
+    this.clients.set(socket.id, socket);
+    console.log(`🧪 LocalServer: Client ${socket.id} connected`);
+  }
+
+  removeClient(socket: LocalSocket): void {
+    this.leaveLobby(socket);
+    this.clients.delete(socket.id);
+    console.log(`🧪 LocalServer: Client ${socket.id} disconnected`);
+  }
+
+  handleClientEvent(socket: LocalSocket, event: string, payload: unknown): void {
+    switch (event) {
+      case 'client:ready':
+        this.send(socket, 'server:ready');
+        break;
+
+      case 'authenticate':
+        // No passwords offline - every attempt succeeds
+        this.send(socket, 'authenticated', { playerId: socket.id, message: 'Offline server' });
+        break;
+
+      case 'time:sync':
+        this.send(socket, 'time:sync:response', {
+          clientTime: payload as ClientToServerEvents['time:sync'],
+          serverTime: Date.now()
+        });
+        break;
+
+      case 'find_match':
+      case 'join_lobby':
+      case 'request_rematch':
+        this.joinLobby(socket, false);
+        break;
+
+      case 'create_private_lobby':
+        this.joinLobby(socket, true);
+        break;
+
+      case 'request_spectator':
+        this.addSpectator(socket, payload as ClientToServerEvents['request_spectator']);
+        break;
+
+      case 'get_lobby_list':
+        this.sendLobbyList(socket);
+        break;
+
+      case 'leave_lobby':
+      case 'cancel_matchmaking':
+        this.leaveLobby(socket);
+        this.send(socket, 'left_lobby');
+        break;
+
+      case 'leave_game':
+        this.removePlayer(socket.id);
+        break;
+
+      case 'player:join':
+        this.handlePlayerJoin(socket, payload as ClientToServerEvents['player:join']);
+        break;
+
+      case 'request_game_state':
+        if (this.status === 'in_progress') {
+          this.send(socket, 'game:state', this.buildGameState(this.players.get(socket.id) || null));
+        }
+        break;
+
+      case 'request_spawn_position': {
+        const player = this.players.get(socket.id);
+        if (player) {
+          this.send(socket, 'spawn_position', { position: { ...player.position }, team: player.team });
+        }
+        break;
+      }
+
+      case 'player:input':
+        this.handleInput(socket.id, payload as ClientToServerEvents['player:input']);
+        break;
+
+      case 'weapon:fire':
+        this.handleFire(socket.id, payload as ClientToServerEvents['weapon:fire']);
+        break;
+
+      case 'weapon:switch':
+        this.handleWeaponSwitch(socket.id, payload as ClientToServerEvents['weapon:switch']);
+        break;
+
+      case 'weapon:reload':
+        this.handleReload(socket, payload as ClientToServerEvents['weapon:reload']);
+        break;
+
+      case 'ads:toggle': {
+        const player = this.players.get(socket.id);
+        const data = payload as ClientToServerEvents['ads:toggle'];
+        if (player && typeof data?.isADS === 'boolean') player.isADS = data.isADS;
+        break;
+      }
+
+      // The client sends every respawn alias at once - the first one wins
+      case 'player:respawn':
+      case 'respawn':
+      case 'player_respawn':
+      case 'request_respawn':
+        this.handleRespawnRequest(socket.id);
+        break;
+
+      case 'admin:authenticate':
+        this.send(socket, 'admin:authenticated');
+        break;
+
+      case 'admin:restart_game':
+        this.restartGame(socket, payload as ClientToServerEvents['admin:restart_game']);
+        break;
+
+      default:
+        if (!this.warnedEvents.has(event)) {
+          this.warnedEvents.add(event);
+          console.log(`🧪 LocalServer: Ignoring unsupported event '${event}'`);
+        }
+    }
+  }
+
+  // ===== LOBBY & MATCH FLOW =====
+
+  private joinLobby(socket: LocalSocket, isPrivate: boolean): void {
+    if (this.status === 'finished') {
+      this.resetMatch();
+    }
+
+    if (this.lobbyMembers.size === 0) {
+      this.isPrivate = isPrivate;
+    }
+    // A spectator who picks "play" stops watching
+    this.spectators.delete(socket.id);
+    this.lobbyMembers.add(socket.id);
+
+    const joined: LobbyJoinedPayload = {
+      lobbyId: this.lobbyId,
+      playerCount: this.lobbyMembers.size,
+      maxPlayers: LOCAL_SERVER_INFO.maxPlayers,
+      status: this.status === 'in_progress' ? 'playing' : 'waiting',
+      gameMode: this.gameMode,
+      isPrivate: this.isPrivate,
+      inviteCode: this.isPrivate ? this.lobbyId : undefined
+    };
+    this.send(socket, isPrivate ? 'private_lobby_created' : 'lobby_joined', joined);
+    this.broadcast('player_joined_lobby', { lobbyId: this.lobbyId, playerCount: this.lobbyMembers.size, playerId: socket.id });
+    this.broadcast('lobby:state', this.buildLobbyState());
+
+    if (this.status === 'in_progress') {
+      // Late join - straight into the running match
+      this.send(socket, 'match_started', {
+        lobbyId: this.lobbyId,
+        killTarget: this.options.killTarget,
+        gameMode: this.gameMode,
+        isLateJoin: true
+      });
+    } else if (this.status === 'idle') {
+      this.startCountdown();
+    }
+  }
+
+  private leaveLobby(socket: LocalSocket): void {
+    if (this.spectators.delete(socket.id)) {
+      console.log(`👁️ LocalServer: Spectator ${socket.id} left`);
+    } else if (this.lobbyMembers.delete(socket.id)) {
+      this.removePlayer(socket.id);
+      this.broadcast('player_left_lobby', { lobbyId: this.lobbyId, playerCount: this.lobbyMembers.size, playerId: socket.id });
+    } else {
+      return;
+    }
+
+    if (this.lobbyMembers.size === 0 && this.spectators.size === 0) {
+      console.log('🧪 LocalServer: Lobby empty, stopping match');
+      this.resetMatch();
+    }
+  }
+
+  /**
+   * Watch the lobby without playing. With nobody to watch, the bots play an exhibition match.
+   */
+  private addSpectator(socket: LocalSocket, data: ClientToServerEvents['request_spectator']): void {
+    if (data?.lobbyId && data.lobbyId !== this.lobbyId) {
+      this.send(socket, 'spectator_denied', { reason: 'Lobby not found' });
+      return;
+    }
+    if (this.isPrivate && this.lobbyMembers.size > 0) {
+      this.send(socket, 'spectator_denied', { reason: 'Private matches cannot be spectated' });
+      return;
+    }
+    if (this.lobbyMembers.has(socket.id)) {
+      this.send(socket, 'spectator_denied', { reason: 'Already playing in this lobby' });
+      return;
+    }
+
+    if (this.status === 'finished' && this.lobbyMembers.size === 0) {
+      this.resetMatch();
+    }
+
+    this.spectators.add(socket.id);
+    console.log(`👁️ LocalServer: Spectator ${socket.id} joined (${this.spectators.size} watching)`);
+    this.send(socket, 'spectator_joined', {
+      lobbyId: this.lobbyId,
+      status: this.status === 'in_progress' ? 'playing' : 'waiting',
+      gameMode: this.gameMode,
+      killTarget: this.options.killTarget
+    });
+
+    if (this.status === 'idle') {
+      this.startCountdown();
+    }
+  }
+
+  private startCountdown(): void {
+    this.status = 'starting';
+    this.schedule(() => {
+      this.broadcast('match_starting', { lobbyId: this.lobbyId, countdown: MATCH_COUNTDOWN });
+      this.broadcast('lobby:state', this.buildLobbyState());
+      this.schedule(() => this.startMatch(), MATCH_COUNTDOWN * 1000);
+    }, 500);
+  }
+
+  private startMatch(): void {
+    this.status = 'in_progress';
+    this.matchStartedAt = Date.now();
+    this.walls = this.createArenaWalls();
+    this.syncCollisionWalls();
+
+    if (this.lobbyMembers.size === 0) {
+      this.ensureBots(null);
+    }
+
+    console.log(`🧪 LocalServer: Match started (first to ${this.options.killTarget} kills)`);
+    this.broadcast('match_started', {
+      lobbyId: this.lobbyId,
+      killTarget: this.options.killTarget,
+      gameMode: this.gameMode
+    });
+
+    if (this.tickTimer) clearInterval(this.tickTimer);
+    this.tickTimer = setInterval(() => this.tick(), 1000 / GAME_CONFIG.NETWORK_RATE);
+  }
+
+  private endMatch(winnerTeam: 'red' | 'blue'): void {
+    const { red, blue } = this.getTeamKills();
+    const playerStats: MatchPlayerStats[] = Array.from(this.players.values()).map(player => ({
+      playerId: player.id,
+      playerName: player.name,
+      team: player.team,
+      kills: player.kills,
+      deaths: player.deaths,
+      damageDealt: player.damageDealt
+    }));
+
+    console.log(`🧪 LocalServer: Match ended - ${winnerTeam.toUpperCase()} wins (${red}-${blue})`);
+    this.broadcast('match_ended', {
+      lobbyId: this.lobbyId,
+      winnerTeam,
+      redKills: red,
+      blueKills: blue,
+      duration: Date.now() - this.matchStartedAt,
+      playerStats
+    });
+
+    this.status = 'finished';
+    this.stopTimers();
+  }
+
+  private resetMatch(): void {
+    this.stopTimers();
+    this.status = 'idle';
+    this.players.clear();
+    this.bots.clear();
+    this.projectiles.clear();
+    this.walls = this.createArenaWalls();
+    this.syncCollisionWalls();
+    this.spawnCursor = { red: 0, blue: 0 };
+  }
+
+  private restartGame(socket: LocalSocket, data: ClientToServerEvents['admin:restart_game']): void {
+    if (this.status !== 'in_progress') {
+      this.send(socket, 'game:restart_failed', { message: 'No match in progress' });
+      return;
+    }
+
+    const countdown = data?.countdown ?? 3;
+    this.broadcast('game:restarting', { countdown, adminId: socket.id });
+    this.schedule(() => {
+      this.walls = this.createArenaWalls();
+      this.syncCollisionWalls();
+      this.projectiles.clear();
+      this.players.forEach(player => {
+        player.kills = 0;
+        player.deaths = 0;
+        player.damageDealt = 0;
+        this.respawnPlayer(player);
+      });
+      this.broadcast('game:restarted', {});
+    }, countdown * 1000);
+  }
+
+  private stopTimers(): void {
+    if (this.tickTimer) {
+      clearInterval(this.tickTimer);
+      this.tickTimer = null;
+    }
+    this.matchTimers.forEach(timer => clearTimeout(timer));
+    this.matchTimers = [];
+  }
+
+  private schedule(callback: () => void, delay: number): void {
+    const timer = setTimeout(() => {
+      this.matchTimers = this.matchTimers.filter(t => t !== timer);
+      callback();
+    }, delay);
+    this.matchTimers.push(timer);
+  }
+
+  private sendLobbyList(socket: LocalSocket): void {
+    const lobbies = (this.lobbyMembers.size > 0 || this.spectators.size > 0) && !this.isPrivate ? [{
+      id: this.lobbyId,
+      playerCount: this.lobbyMembers.size,
+      maxPlayers: LOCAL_SERVER_INFO.maxPlayers,
+      gameMode: this.gameMode,
+      status: this.status === 'in_progress' ? 'playing' : 'waiting',
+      isPrivate: false,
+      mapName: 'Offline Arena',
+      createdAt: this.matchStartedAt || Date.now(),
+      lastActivity: Date.now()
+    }] : [];
+
+    this.send(socket, 'lobby_list', { lobbies, totalCount: lobbies.length });
+  }
+
+  private buildLobbyState(): LobbyStatePayload {
+    return {
+      lobbyId: this.lobbyId,
+      playerCount: this.lobbyMembers.size,
+      maxPlayers: LOCAL_SERVER_INFO.maxPlayers,
+      players: Array.from(this.lobbyMembers).map(id => {
+        const player = this.players.get(id);
+        return {
+          id,
+          name: player?.name || `Player ${id.substring(6, 10)}`,
+          team: player?.team || 'blue',
+          isReady: true
+        };
+      }),
+      status: this.status === 'idle' ? 'waiting' : this.status,
+      gameMode: this.gameMode,
+      mapName: 'Offline Arena',
+      isPrivate: this.isPrivate,
+      hostId: this.lobbyMembers.values().next().value,
+      minimumPlayers: 1
+    };
+  }
+
+  // ===== PLAYERS =====
+
+  private handlePlayerJoin(socket: LocalSocket, data: ClientToServerEvents['player:join']): void {
+    if (this.status !== 'in_progress') {
+      this.send(socket, 'player:join:failed', { reason: 'No match in progress' });
+      return;
+    }
+
+    const team = data?.loadout?.team || data?.preferredTeam || 'blue';
+    const existing = this.players.get(socket.id);
+    const player = existing || this.createPlayer(socket.id, data?.playerName || 'Player', team, socket);
+    player.loadout = data?.loadout || null;
+    player.team = team;
+    player.weaponType = data?.loadout?.primary || data?.loadout?.secondary || 'rifle';
+    this.players.set(player.id, player);
+
+    if (!existing) {
+      this.respawnPlayer(player, false);
+    }
+
+    this.send(socket, 'player:join:success', { playerId: player.id, team: player.team });
+    this.broadcast('player:joined', { playerId: player.id, position: { ...player.position }, team: player.team, health: player.health }, socket.id);
+
+    this.ensureBots(team);
+  }
+
+  private createPlayer(id: string, name: string, team: 'red' | 'blue', socket: LocalSocket | null): LocalPlayer {
+    return {
+      id,
+      name,
+      team,
+      loadout: null,
+      position: { x: 0, y: 0 },
+      velocity: { x: 0, y: 0 },
+      angle: 0,
+      health: GAME_CONFIG.PLAYER_HEALTH,
+      isAlive: true,
+      kills: 0,
+      deaths: 0,
+      damageDealt: 0,
+      weaponType: 'rifle',
+      movementState: 'idle',
+      isADS: false,
+      lastProcessedInput: 0,
+      invulnerableUntil: 0,
+      respawnAvailableAt: 0,
+      socket
+    };
+  }
+
+  /**
+   * Fill both teams around the first human: teammates on their side, a full squad against them.
+   * Without a human (spectated exhibition) both sides get a full squad.
+   */
+  private ensureBots(humanTeam: 'red' | 'blue' | null): void {
+    if (this.bots.size > 0) return;
+
+    const allyTeam = humanTeam || 'blue';
+    const enemyTeam = allyTeam === 'red' ? 'blue' : 'red';
+    const teams: Array<'red' | 'blue'> = [
+      ...Array(Math.max(0, this.options.botsPerTeam - (humanTeam ? 1 : 0))).fill(allyTeam),
+      ...Array(this.options.botsPerTeam).fill(enemyTeam)
+    ];
+
+    teams.forEach((team, index) => {
+      const player = this.createPlayer(`bot_${index}`, getBotName(index), team, null);
+      player.loadout = createBotLoadout(team);
+      player.weaponType = player.loadout.primary || 'rifle';
+      this.players.set(player.id, player);
+      this.respawnPlayer(player, false);
+      this.bots.set(player.id, new LocalBot(player, this.options.botDifficulty));
+    });
+
+    console.log(`🤖 LocalServer: Spawned ${teams.length} ${this.options.botDifficulty} bots`);
+  }
+
+  setBotDifficulty(difficulty: BotDifficulty): void {
+    this.options.botDifficulty = difficulty;
+    this.bots.forEach(bot => bot.setDifficulty(difficulty));
+  }
+
+  getBotDifficulty(): BotDifficulty {
+    return this.options.botDifficulty;
+  }
+
+  /**
+   * Play on a loaded level instead of the built-in arena (null restores it).
+   * Takes effect immediately between matches, otherwise at the next match start.
+   */
+  setLevel(level: LevelData | null): void {
+    this.level = level;
+    this.spawns = level ? getLevelSpawns(level) : DEFAULT_SPAWNS;
+    this.spawnCursor = { red: 0, blue: 0 };
+    console.log(`🧪 LocalServer: Using ${level ? `level '${level.name}'` : 'built-in arena'}`);
+
+    if (this.status !== 'in_progress') {
+      this.walls = this.createArenaWalls();
+      this.syncCollisionWalls();
+    }
+  }
+
+  getLevel(): LevelData | null {
+    return this.level;
+  }
+
+  private removePlayer(playerId: string): void {
+    const player = this.players.get(playerId);
+    if (!player) return;
+
+    this.players.delete(playerId);
+    this.broadcast('player:left', { playerId });
+
+    // Bots only exist for the humans - or for whoever is watching
+    const humansLeft = Array.from(this.players.values()).some(p => p.socket);
+    if (!humansLeft && this.spectators.size === 0) {
+      this.bots.forEach((_bot, id) => this.players.delete(id));
+      this.bots.clear();
+    }
+  }
+
+  private nextSpawn(team: 'red' | 'blue'): Vector2 {
+    const spawns = this.spawns[team];
+    const spawn = spawns[this.spawnCursor[team] % spawns.length];
+    this.spawnCursor[team]++;
+    return { x: spawn.x, y: spawn.y };
+  }
+
+  private respawnPlayer(player: LocalPlayer, announce: boolean = true): void {
+    player.position = this.nextSpawn(player.team);
+    player.velocity = { x: 0, y: 0 };
+    player.angle = player.team === 'red' ? Math.PI : 0;
+    player.health = GAME_CONFIG.PLAYER_HEALTH;
+    player.isAlive = true;
+    player.isADS = false;
+    player.invulnerableUntil = Date.now() + SPAWN_PROTECTION;
+    this.bots.get(player.id)?.onRespawn();
+
+    if (announce) {
+      this.broadcast('player:respawned', {
+        playerId: player.id,
+        position: { ...player.position },
+        health: player.health,
+        team: player.team,
+        invulnerableUntil: player.invulnerableUntil
+      });
+    }
+  }
+
+  private handleRespawnRequest(playerId: string): void {
+    const player = this.players.get(playerId);
+    if (!player || player.isAlive || this.status !== 'in_progress') return;
+    if (Date.now() < player.respawnAvailableAt) return;
+
+    this.respawnPlayer(player);
+  }
+
+  // ===== MOVEMENT =====
+
+  /**
+   * One input packet = one 1/60s step, exactly what ClientPrediction replays
+   */
+  private handleInput(playerId: string, input: ClientToServerEvents['player:input']): void {
+    const player = this.players.get(playerId);
+    if (!player || !input?.keys) return;
+
+    player.lastProcessedInput = Math.max(player.lastProcessedInput, input.sequence || 0);
+
+    if (input.mouse) {
+      player.angle = Math.atan2(input.mouse.y - player.position.y, input.mouse.x - player.position.x);
+    }
+
+    if (!player.isAlive || this.status !== 'in_progress') return;
+
+    const { keys } = input;
+    const speed = getSpeedMultiplier(keys, { angle: player.angle, isADS: player.isADS });
+    // ADS slows the player without changing the gait - an aimed walk is still a walk
+    const mode = getMovementMode(keys, player.angle);
+    const state = mode === 'sneak' ? 'sneaking' : mode === 'run' ? 'running' : 'walking';
+    this.movePlayer(player, getMovementDirection(keys), speed, 1 / 60, state);
+  }
+
+  /**
+   * Shared movement step for humans and bots - direction is a unit vector (or zero)
+   */
+  movePlayer(player: LocalPlayer, direction: Vector2, speedMultiplier: number, deltaTime: number, gait?: LocalPlayer['movementState']): void {
+    const result = stepMovement(player.position, direction, speedMultiplier, deltaTime, this.collisionSystem);
+    player.position = result.position;
+    player.velocity = result.velocity;
+
+    if (direction.x === 0 && direction.y === 0) {
+      player.movementState = 'idle';
+    } else if (gait) {
+      player.movementState = gait;
+    } else if (speedMultiplier < 1) {
+      player.movementState = 'sneaking';
+    } else if (speedMultiplier > 1) {
+      player.movementState = 'running';
+    } else {
+      player.movementState = 'walking';
+    }
+  }
+
+  // ===== COMBAT =====
+
+  private handleFire(playerId: string, data: ClientToServerEvents['weapon:fire']): void {
+    const shooter = this.players.get(playerId);
+    if (!shooter || !data) return;
+
+    const direction = typeof data.direction === 'number' ? data.direction : shooter.angle;
+    this.fireWeapon(shooter, data.weaponType, direction, data.targetPosition, data);
+  }
+
+  isBlocked(position: Vector2): boolean {
+    return this.collisionSystem.checkCollision(position);
+  }
+
+  getPlayers(): Iterable<LocalPlayer> {
+    return this.players.values();
+  }
+
+  getWalls(): Iterable<ArenaWall> {
+    return this.walls.values();
+  }
+
+  /**
+   * Fire from the player's authoritative position. Used by human input and bots alike.
+   */
+  fireWeapon(
+    shooter: LocalPlayer,
+    weaponType: string,
+    direction: number,
+    targetPosition: Vector2,
+    extras: Partial<ClientToServerEvents['weapon:fire']> = {}
+  ): void {
+    if (!shooter.isAlive || this.status !== 'in_progress') return;
+
+    const origin = { ...shooter.position };
+
+    if (weaponType === 'grenade') {
+      this.throwGrenade(shooter, targetPosition || origin, extras.chargeLevel || 3);
+      return;
+    }
+
+    this.broadcast('weapon:fired', {
+      playerId: shooter.id,
+      weaponType,
+      position: origin,
+      direction,
+      sequence: extras.sequence,
+      timestamp: extras.timestamp ?? Date.now()
+    });
+
+    if (NON_HITSCAN_WEAPONS.has(weaponType)) {
+      if (!this.warnedEvents.has(`fire:${weaponType}`)) {
+        this.warnedEvents.add(`fire:${weaponType}`);
+        console.log(`🧪 LocalServer: '${weaponType}' is not simulated offline`);
+      }
+      return;
+    }
+
+    const baseDamage = WEAPON_CONFIGS[weaponType]?.damage ?? 25;
+    const pellets = weaponType === 'shotgun' ? (extras.pelletCount || 8) : 1;
+
+    for (let i = 0; i < pellets; i++) {
+      const angle = pellets > 1 ? direction + (Math.random() - 0.5) * SHOTGUN_SPREAD : direction;
+      this.traceShot(shooter, origin, angle, weaponType, baseDamage / pellets);
+    }
+  }
+
+  private traceShot(shooter: LocalPlayer, origin: Vector2, angle: number, weaponType: string, damage: number): void {
+    const wallHit = raycastWalls(this.walls.values(), origin, angle, HITSCAN_RANGE);
+    const maxDistance = wallHit ? wallHit.distance : HITSCAN_RANGE;
+
+    let target: LocalPlayer | null = null;
+    let targetDistance = maxDistance;
+    for (const player of this.players.values()) {
+      if (player === shooter || !player.isAlive || player.team === shooter.team) continue;
+      const distance = rayCircle(origin, angle, player.position, PLAYER_HIT_RADIUS, targetDistance);
+      if (distance !== null && distance < targetDistance) {
+        target = player;
+        targetDistance = distance;
+      }
+    }
+
+    if (target) {
+      const point = {
+        x: origin.x + Math.cos(angle) * targetDistance,
+        y: origin.y + Math.sin(angle) * targetDistance
+      };
+      this.broadcast('weapon:hit', {
+        playerId: shooter.id,
+        position: point,
+        weaponType,
+        targetId: target.id,
+        damage,
+        startPosition: origin
+      });
+      this.applyDamage(target, damage, shooter, weaponType);
+      return;
+    }
+
+    if (wallHit) {
+      this.damageWall(wallHit.wall, wallHit.sliceIndex, damage, shooter, weaponType, wallHit.point);
+      return;
+    }
+
+    this.broadcast('weapon:miss', {
+      playerId: shooter.id,
+      direction: angle,
+      weaponType,
+      position: {
+        x: origin.x + Math.cos(angle) * HITSCAN_RANGE,
+        y: origin.y + Math.sin(angle) * HITSCAN_RANGE
+      }
+    });
+  }
+
+  private applyDamage(target: LocalPlayer, damage: number, attacker: LocalPlayer, weaponType: string): void {
+    if (Date.now() < target.invulnerableUntil) return;
+
+    const dealt = Math.min(target.health, damage);
+    target.health = Math.max(0, Math.round((target.health - damage) * 10) / 10);
+    attacker.damageDealt += dealt;
+    this.bots.get(target.id)?.onDamaged(attacker, Date.now());
+
+    this.broadcast('player:damaged', {
+      playerId: target.id,
+      damage: dealt,
+      newHealth: target.health,
+      attackerId: attacker.id,
+      damageType: weaponType
+    });
+
+    if (target.health <= 0) {
+      this.killPlayer(target, attacker, weaponType);
+    }
+  }
+
+  private killPlayer(victim: LocalPlayer, killer: LocalPlayer, weaponType: string): void {
+    victim.isAlive = false;
+    victim.health = 0;
+    victim.velocity = { x: 0, y: 0 };
+    victim.deaths++;
+    victim.respawnAvailableAt = Date.now() + RESPAWN_DELAY;
+    killer.kills++;
+
+    const position = { ...victim.position };
+    this.broadcast('player:killed', {
+      playerId: victim.id,
+      killerId: killer.id,
+      killerTeam: killer.team,
+      victimTeam: victim.team,
+      weaponType,
+      position
+    });
+    this.broadcast('player:died', {
+      playerId: victim.id,
+      killerId: killer.id,
+      damageType: weaponType,
+      position
+    });
+
+    // Server-controlled players don't ask to respawn
+    if (!victim.socket) {
+      this.schedule(() => {
+        if (this.players.get(victim.id) === victim && !victim.isAlive) {
+          this.respawnPlayer(victim);
+        }
+      }, RESPAWN_DELAY);
+    }
+
+    const teamKills = this.getTeamKills()[killer.team];
+    if (teamKills >= this.options.killTarget) {
+      this.endMatch(killer.team);
+    }
+  }
+
+  private damageWall(wall: ArenaWall, sliceIndex: number, damage: number, attacker: LocalPlayer, weaponType: string, point: Vector2): void {
+    if (wall.indestructible) return;
+
+    const newHealth = Math.max(0, wall.sliceHealth[sliceIndex] - damage);
+    wall.sliceHealth[sliceIndex] = newHealth;
+    wall.health = wall.sliceHealth.reduce((sum, health) => sum + health, 0);
+
+    const isDestroyed = newHealth <= 0;
+    if (isDestroyed) {
+      wall.destructionMask[sliceIndex] = 1;
+      this.syncCollisionWalls();
+    }
+
+    this.broadcast('wall:damaged', {
+      wallId: wall.id,
+      sliceIndex,
+      newHealth,
+      position: point,
+      material: wall.material,
+      playerId: attacker.id,
+      weaponType,
+      isDestroyed
+    });
+
+    if (isDestroyed) {
+      this.broadcast('wall:destroyed', {
+        wallId: wall.id,
+        sliceIndex,
+        position: point,
+        material: wall.material
+      });
+    }
+  }
+
+  private handleWeaponSwitch(playerId: string, data: ClientToServerEvents['weapon:switch']): void {
+    const player = this.players.get(playerId);
+    if (!player || !data?.toWeapon) return;
+
+    const fromWeapon = player.weaponType;
+    player.weaponType = data.toWeapon;
+    this.broadcast('weapon:switched', { playerId, fromWeapon, toWeapon: data.toWeapon });
+  }
+
+  private handleReload(socket: LocalSocket, data: ClientToServerEvents['weapon:reload']): void {
+    if (!data?.weaponType) return;
+    this.schedule(() => {
+      this.send(socket, 'weapon:reloaded', { playerId: socket.id, weaponType: data.weaponType });
+    }, RELOAD_TIME);
+  }
+
+  private getTeamKills(): { red: number; blue: number } {
+    const totals = { red: 0, blue: 0 };
+    this.players.forEach(player => {
+      totals[player.team] += player.kills;
+    });
+    return totals;
+  }
+
+  // ===== PROJECTILES =====
+
+  private throwGrenade(thrower: LocalPlayer, targetPosition: Vector2, chargeLevel: number): void {
+    const origin = { ...thrower.position };
+    const dx = targetPosition.x - origin.x;
+    const dy = targetPosition.y - origin.y;
+    const length = Math.hypot(dx, dy) || 1;
+    const range = Math.min(length, GRENADE_BASE_RANGE + chargeLevel * GRENADE_RANGE_PER_CHARGE);
+    const speed = range / GRENADE_TRAVEL_TIME;
+
+    const projectile: LocalProjectile = {
+      id: `local_projectile_${this.nextProjectileId++}`,
+      type: 'grenade',
+      ownerId: thrower.id,
+      position: origin,
+      velocity: { x: (dx / length) * speed, y: (dy / length) * speed },
+      remainingDistance: range,
+      explodeAt: Date.now() + GRENADE_FUSE
+    };
+    this.projectiles.set(projectile.id, projectile);
+
+    this.broadcast('projectile:created', {
+      id: projectile.id,
+      type: projectile.type,
+      position: { ...projectile.position },
+      velocity: { ...projectile.velocity },
+      ownerId: thrower.id,
+      lifetime: GRENADE_FUSE + 500
+    });
+  }
+
+  private updateProjectiles(now: number, deltaTime: number): void {
+    this.projectiles.forEach(projectile => {
+      if (projectile.remainingDistance > 0) {
+        const speed = Math.hypot(projectile.velocity.x, projectile.velocity.y);
+        const step = Math.min(speed * deltaTime, projectile.remainingDistance);
+        const next = {
+          x: projectile.position.x + (projectile.velocity.x / speed) * step,
+          y: projectile.position.y + (projectile.velocity.y / speed) * step
+        };
+
+        // Grenades stop dead against walls rather than bouncing
+        if (this.collisionSystem.checkCollision(next)) {
+          projectile.remainingDistance = 0;
+        } else {
+          projectile.position = next;
+          projectile.remainingDistance -= step;
+        }
+        this.broadcast('projectile:updated', { id: projectile.id, position: { ...projectile.position } });
+      }
+
+      if (now >= projectile.explodeAt) {
+        this.projectiles.delete(projectile.id);
+        this.explodeGrenade(projectile);
+      }
+    });
+  }
+
+  private explodeGrenade(projectile: LocalProjectile): void {
+    const center = projectile.position;
+    this.broadcast('projectile:exploded', { id: projectile.id, position: { ...center }, radius: GRENADE_RADIUS });
+
+    const owner = this.players.get(projectile.ownerId);
+    if (!owner) return;
+
+    const walls = Array.from(this.walls.values());
+    const playerDamage = WEAPON_CONFIGS.grenade.damage ?? 100;
+
+    // Walls shield players from the blast
+    this.players.forEach(player => {
+      if (!player.isAlive || (player.team === owner.team && player !== owner)) return;
+      const d = Math.hypot(player.position.x - center.x, player.position.y - center.y);
+      if (d > GRENADE_RADIUS || !hasLineOfSight(walls, center, player.position)) return;
+      this.applyDamage(player, playerDamage * (1 - d / GRENADE_RADIUS), owner, 'grenade');
+    });
+
+    walls.forEach(wall => {
+      for (let i = 0; i < 5; i++) {
+        if (wall.destructionMask[i] === 1) continue;
+        const rect = getSliceRect(wall, i);
+        const sliceCenter = { x: rect.x + rect.width / 2, y: rect.y + rect.height / 2 };
+        const d = Math.hypot(sliceCenter.x - center.x, sliceCenter.y - center.y);
+        if (d <= GRENADE_RADIUS) {
+          this.damageWall(wall, i, GRENADE_WALL_DAMAGE * (1 - d / GRENADE_RADIUS), owner, 'grenade', sliceCenter);
+        }
+      }
+    });
+  }
+
+  // ===== STATE BROADCAST =====
+
+  private tick(): void {
+    if (this.status !== 'in_progress') return;
+
+    const now = Date.now();
+    const deltaTime = 1 / GAME_CONFIG.NETWORK_RATE;
+    this.bots.forEach(bot => bot.update(this, now, deltaTime));
+    this.updateProjectiles(now, deltaTime);
+
+    // A bot kill or grenade may have just ended the match
+    if (this.status !== 'in_progress') return;
+
+    this.lobbyMembers.forEach(id => {
+      const socket = this.clients.get(id);
+      if (socket) {
+        this.send(socket, 'game:state', this.buildGameState(this.players.get(id) || null));
+      }
+    });
+
+    if (this.spectators.size > 0) {
+      const fullState = this.buildGameState(null);
+      this.spectators.forEach(id => {
+        const socket = this.clients.get(id);
+        if (socket) {
+          this.send(socket, 'game:state', fullState);
+        }
+      });
+    }
+  }
+
+  private buildGameState(viewer: LocalPlayer | null): GameState {
+    const players: { [key: string]: PlayerState } = {};
+    this.players.forEach(player => {
+      players[player.id] = this.serializePlayer(player);
+    });
+
+    const walls: { [key: string]: ArenaWall } = {};
+    this.walls.forEach(wall => {
+      walls[wall.id] = wall;
+    });
+
+    const state: GameState = {
+      players,
+      walls,
+      projectiles: [],
+      timestamp: Date.now(),
+      tickRate: GAME_CONFIG.NETWORK_RATE
+    };
+
+    if (viewer) {
+      state.vision = computeVisionPolygon(this.walls.values(), viewer.position, viewer.angle);
+      state.visiblePlayers = Array.from(this.players.values())
+        .filter(player =>
+          player === viewer ||
+          player.team === viewer.team ||
+          isInVisionCone(this.walls.values(), viewer.position, viewer.angle, player.position)
+        )
+        .map(player => players[player.id]);
+    }
+
+    return state;
+  }
+
+  private serializePlayer(player: LocalPlayer): PlayerState {
+    // Extra fields mirror what the backend sends alongside the shared PlayerState shape
+    return {
+      id: player.id,
+      position: { ...player.position },
+      velocity: { ...player.velocity },
+      health: player.health,
+      team: player.team,
+      isAlive: player.isAlive,
+      angle: player.angle,
+      weaponType: player.weaponType,
+      movementState: player.movementState,
+      kills: player.kills,
+      deaths: player.deaths,
+      lastProcessedInput: player.lastProcessedInput,
+      invulnerableUntil: player.invulnerableUntil
+    } as PlayerState;
+  }
+
+  private createArenaWalls(): Map<string, ArenaWall> {
+    return this.level ? createLevelWalls(this.level) : createDefaultWalls();
+  }
+
+  private syncCollisionWalls(): void {
+    this.collisionSystem.updateWalls(Array.from(this.walls.values()));
+  }
+
+  // ===== TRANSPORT =====
+
+  private send<K extends ServerEventName>(socket: LocalSocket, event: K, ...args: ServerEventArgs<K>): void {
+    socket.deliver(event, args[0]);
+  }
+
+  private broadcast<K extends ServerEventName>(event: K, payload?: ServerEventArgs<K>[0], exceptId?: string): void {
+    [...this.lobbyMembers, ...this.spectators].forEach(id => {
+      if (id === exceptId) return;
+      const socket = this.clients.get(id);
+      if (socket) {
+        socket.deliver(event, payload);
+      }
+    });
+  }
+}
@@ -0,0 +1,206 @@
+import type { LocalServer } from './LocalServer';
+
+/**
+ * LocalSocket - In-browser stand-in for the socket.io client socket
+ *
+ * Implements the slice of the socket.io Socket API the client actually uses
+ * (on/off/once/onAny/emit/connect/disconnect, plus the listener helpers
+ * LobbyEventCoordinator relies on) and routes every emit to a LocalServer
+ * instead of the network. Delivery is always asynchronous in both directions
+ * so listener ordering matches a real connection.
+ */
+
+export const LOCAL_SERVER_URL = 'local://offline';
+
+export function isLocalServerUrl(url: string | null | undefined): boolean {
+  return !!url && url.startsWith('local://');
+}
+
+type Listener = (...args: any[]) => void;
+
+// Lifecycle events never reach onAny listeners on a real socket
+const RESERVED_EVENTS = new Set(['connect', 'connect_error', 'disconnect', 'disconnecting']);
+
+// Copy payloads the way the wire would, so neither side can mutate the other's objects
+function cloneForWire<T>(payload: T): T {
+  return payload === undefined ? payload : JSON.parse(JSON.stringify(payload));
+}
+
+export class LocalSocket {
+  id: string;
+  connected: boolean = false;
+  disconnected: boolean = true;
+  // NetworkSystem reads io.uri when logging the active server
+  io = { uri: LOCAL_SERVER_URL, engine: { transport: { name: 'local' } } };
+
+  private server: LocalServer;
+  private eventListeners: Map<string, Listener[]> = new Map();
+  private anyListeners: Listener[] = [];
+  // socket.io buffers emits made before the connection opens - so do we
+  private sendBuffer: Array<{ event: string; args: any[] }> = [];
+
+  constructor(server: LocalServer) {
+    this.server = server;
+    this.id = `local_${Math.random().toString(36).substring(2, 10)}`;
+  }
+
+  getServer(): LocalServer {
+    return this.server;
+  }
+
+  on(event: string, listener: Listener): this {
+    const list = this.eventListeners.get(event) || [];
+    list.push(listener);
+    this.eventListeners.set(event, list);
+    return this;
+  }
+
+  once(event: string, listener: Listener): this {
+    const wrapper: Listener = (...args) => {
+      this.off(event, wrapper);
+      listener(...args);
+    };
+    (wrapper as any).originalListener = listener;
+    return this.on(event, wrapper);
+  }
+
+  off(event?: string, listener?: Listener): this {
+    if (event === undefined) {
+      this.eventListeners.clear();
+      return this;
+    }
+
+    if (!listener) {
+      this.eventListeners.delete(event);
+      return this;
+    }
+
+    const list = this.eventListeners.get(event);
+    if (list) {
+      const remaining = list.filter(fn => fn !== listener && (fn as any).originalListener !== listener);
+      if (remaining.length > 0) {
+        this.eventListeners.set(event, remaining);
+      } else {
+        this.eventListeners.delete(event);
+      }
+    }
+    return this;
+  }
+
+  removeAllListeners(event?: string): this {
+    return this.off(event);
+  }
+
+  hasListeners(event: string): boolean {
+    return (this.eventListeners.get(event)?.length || 0) > 0;
+  }
+
+  listenerCount(event: string): number {
+    return this.eventListeners.get(event)?.length || 0;
+  }
+
+  listeners(event: string): Listener[] {
+    return [...(this.eventListeners.get(event) || [])];
+  }
+
+  onAny(listener: Listener): this {
+    this.anyListeners.push(listener);
+    return this;
+  }
+
+  offAny(listener?: Listener): this {
+    this.anyListeners = listener ? this.anyListeners.filter(fn => fn !== listener) : [];
+    return this;
+  }
+
+  /**
+   * Client -> server. Queued until connected, then handed to the server on the next tick.
+   */
+  emit(event: string, ...args: any[]): this {
+    if (!this.connected) {
+      this.sendBuffer.push({ event, args });
+      return this;
+    }
+
+    const payload = cloneForWire(args[0]);
+    setTimeout(() => {
+      if (this.connected) {
+        this.server.handleClientEvent(this, event, payload);
+      }
+    }, 0);
+    return this;
+  }
+
+  connect(): this {
+    if (this.connected) return this;
+
+    setTimeout(() => {
+      this.connected = true;
+      this.disconnected = false;
+      this.server.addClient(this);
+      this.dispatch('connect');
+
+      const buffered = this.sendBuffer;
+      this.sendBuffer = [];
+      buffered.forEach(({ event, args }) => this.emit(event, ...args));
+    }, 0);
+    return this;
+  }
+
+  // socket.io alias
+  open(): this {
+    return this.connect();
+  }
+
+  disconnect(): this {
+    if (!this.connected) return this;
+
+    this.connected = false;
+    this.disconnected = true;
+    this.server.removeClient(this);
+    this.dispatch('disconnect', 'io client disconnect');
+    return this;
+  }
+
+  close(): this {
+    return this.disconnect();
+  }
+
+  /**
+   * Server -> client. Called by LocalServer; listeners run on the next tick.
+   */
+  deliver(event: string, data?: unknown): void {
+    const payload = cloneForWire(data);
+    setTimeout(() => {
+      if (!this.connected) return;
+      if (payload === undefined) {
+        this.dispatch(event);
+      } else {
+        this.dispatch(event, payload);
+      }
+    }, 0);
+  }
+
+  private dispatch(event: string, ...args: any[]): void {
+    // Same order as socket.io: catch-all listeners first
+    const anyListeners = RESERVED_EVENTS.has(event) ? [] : [...this.anyListeners];
+    anyListeners.forEach(listener => {
+      try {
+        listener(event, ...args);
+      } catch (error) {
+        console.error(`❌ LocalSocket: onAny listener failed for '${event}':`, error);
+      }
+    });
+
+    const list = this.eventListeners.get(event);
+    if (!list) return;
+
+    [...list].forEach(listener => {
+      try {
+        listener(...args);
+      } catch (error) {
+        console.error(`❌ LocalSocket: Listener failed for '${event}':`, error);
+      }
+    });
+  }
+}
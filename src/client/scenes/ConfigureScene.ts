@@ -12,6 +12,10 @@ import {
 import NetworkSystemSingleton from '../systems/NetworkSystemSingleton';
 import { ConnectionState } from '../systems/NetworkSystem';
 import LobbyEventCoordinator from '../systems/LobbyEventCoordinator';
+import { BOT_DIFFICULTIES, BOT_DIFFICULTY_ORDER, BotDifficulty } from '../offline/LocalBot';
+import { GamepadMenuNavigator } from '../ui/GamepadMenuNavigator';
+import { padHitAreaForTouch } from '../utils/touchHitArea';
+import { playerProfile, MAX_PRESETS } from '../systems/PlayerProfile';
 
 export class ConfigureScene extends Phaser.Scene {
   private loadout: PlayerLoadout = { ...DEFAULT_LOADOUT };
@@ -32,6 +36,10 @@ export class ConfigureScene extends Phaser.Scene {
   private blueTeamButton!: Phaser.GameObjects.Text;
   private teamPreview!: Phaser.GameObjects.Rectangle;
   
+  // Bot difficulty (offline mode only)
+  private botDifficultyButtons: { [key: string]: Phaser.GameObjects.Text } = {};
+  private botDifficulty: BotDifficulty = 'regular';
+  
   // Weapon Selection
   private tabButtons: { [key: string]: Phaser.GameObjects.Text } = {};
   private weaponButtons: { [key: string]: Phaser.GameObjects.Container } = {};
@@ -52,6 +60,10 @@ export class ConfigureScene extends Phaser.Scene {
   // Navigation
   private backButton!: Phaser.GameObjects.Text;
   private startGameButton!: Phaser.GameObjects.Text;
+  
+  // Saved presets (PlayerProfile)
+  private activePresetId: string | null = null;
+  private presetLabel?: Phaser.GameObjects.Text;
 
   constructor() {
     super({ key: 'ConfigureScene' });
@@ -184,17 +196,39 @@ export class ConfigureScene extends Phaser.Scene {
     // Keep rightPanel reference for backward compatibility, point to top panel
     this.rightPanel = this.topRightPanel;
 
+    // Start from this session's loadout, else the last saved preset, else defaults
+    const sessionLoadout: PlayerLoadout | undefined = this.game.registry.get('playerLoadout');
+    const lastPreset = playerProfile.getLastPreset();
+    this.activePresetId = lastPreset?.id || null;
+    this.applyLoadout(sessionLoadout || lastPreset?.loadout || DEFAULT_LOADOUT);
+    if (!this.loadout.team) {
+      this.loadout.team = playerProfile.getPreferredTeam();
+    }
+
     // Create UI sections
     this.createTeamSelection();
     this.createWeaponConfiguration();
     this.createSelectedLoadoutDisplay();
     this.createWeaponStatsDisplay();
     this.createNavigationButtons();
+    this.createPresetBar();
     
     // Initialize with team tab active - let user choose their team
+    if (this.loadout.team) {
+      this.selectTeam(this.loadout.team);
+    }
     this.showTab('team');
     
+    // Controller users move between buttons with the d-pad, B goes back
+    new GamepadMenuNavigator(this, () => this.handleBack());
+    
     // Already registered with LobbyEventCoordinator early in create()
+    
+    // Quick-play with a saved preset skips straight past this screen
+    if (lastPreset && this.game.registry.get('playNowMode')) {
+      console.log(`🚀 ConfigureScene: Play Now with last preset "${lastPreset.name}"`);
+      this.handleStartGame();
+    }
   }
 
   private createTeamSelection(): void {
@@ -248,6 +282,61 @@ export class ConfigureScene extends Phaser.Scene {
 
     this.teamContainer.add([teamTitle, this.redTeamButton, this.blueTeamButton, redPlayerSprite, bluePlayerSprite, this.teamPreview]);
     this.leftPanel.add(this.teamContainer);
+    
+    // Offline matches are against bots - let the player pick how hard they are
+    if (NetworkSystemSingleton.hasInstance() && NetworkSystemSingleton.getInstance(this).getLocalServer()) {
+      this.createBotDifficultySelection();
+    }
+  }
+
+  private createBotDifficultySelection(): void {
+    const localServer = NetworkSystemSingleton.getInstance(this).getLocalServer()!;
+    this.botDifficultyButtons = {};
+    this.botDifficulty = this.game.registry.get('botDifficulty') || localServer.getBotDifficulty();
+    localServer.setBotDifficulty(this.botDifficulty);
+
+    const botsLabel = this.add.text(0, 98, 'Bot Difficulty:', {
+      fontSize: '10px',
+      color: '#cccccc',
+      fontFamily: 'monospace'
+    }).setOrigin(0.5);
+    this.teamContainer.add(botsLabel);
+
+    BOT_DIFFICULTY_ORDER.forEach((difficulty, index) => {
+      const button = this.add.text((index - 1) * 80, 118, BOT_DIFFICULTIES[difficulty].label, {
+        fontSize: '10px',
+        color: '#ffffff',
+        backgroundColor: '#333333',
+        padding: { x: 6, y: 3 },
+        fontFamily: 'monospace'
+      }).setOrigin(0.5);
+
+      button.setInteractive({ useHandCursor: true });
+      button.on('pointerover', () => button.setStyle({ backgroundColor: '#555555' }));
+      button.on('pointerout', () => this.updateBotDifficultyStyles());
+      button.on('pointerdown', () => this.selectBotDifficulty(difficulty));
+
+      this.botDifficultyButtons[difficulty] = button;
+      this.teamContainer.add(button);
+    });
+
+    this.updateBotDifficultyStyles();
+  }
+
+  private selectBotDifficulty(difficulty: BotDifficulty): void {
+    console.log(`🤖 Bot difficulty set to ${difficulty}`);
+    this.botDifficulty = difficulty;
+    this.game.registry.set('botDifficulty', difficulty);
+    NetworkSystemSingleton.getInstance(this).getLocalServer()?.setBotDifficulty(difficulty);
+    this.updateBotDifficultyStyles();
+  }
+
+  private updateBotDifficultyStyles(): void {
+    Object.entries(this.botDifficultyButtons).forEach(([difficulty, button]) => {
+      button.setStyle({
+        backgroundColor: this.botDifficulty === difficulty ? '#00aa00' : '#333333'
+      });
+    });
   }
 
   private createWeaponConfiguration(): void {
@@ -375,6 +464,115 @@ export class ConfigureScene extends Phaser.Scene {
     this.startGameButton.on('pointerdown', () => this.handleStartGame());
   }
 
+  private createPresetBar(): void {
+    const BUTTON_Y = GAME_CONFIG.GAME_HEIGHT - 18;
+    const style = {
+      fontSize: '9px',
+      color: '#ffffff',
+      backgroundColor: '#333333',
+      padding: { x: 5, y: 4 },
+      fontFamily: 'monospace'
+    };
+
+    const addButton = (x: number, label: string, callback: () => void): Phaser.GameObjects.Text => {
+      const button = this.add.text(x, BUTTON_Y, label, style).setOrigin(0.5).setDepth(10);
+      button.setInteractive({ useHandCursor: true });
+      button.on('pointerover', () => button.setStyle({ backgroundColor: '#555555' }));
+      button.on('pointerout', () => button.setStyle({ backgroundColor: '#333333' }));
+      button.on('pointerdown', callback);
+      return button;
+    };
+
+    addButton(122, '<', () => this.cyclePreset(-1));
+    this.presetLabel = this.add.text(180, BUTTON_Y, '', {
+      fontSize: '9px',
+      color: '#cccccc',
+      fontFamily: 'monospace'
+    }).setOrigin(0.5).setDepth(10);
+    addButton(238, '>', () => this.cyclePreset(1));
+    addButton(272, 'SAVE', () => this.savePreset(false));
+    addButton(308, 'NEW', () => this.savePreset(true));
+    addButton(340, 'DEL', () => this.deletePreset());
+
+    this.updatePresetBar();
+  }
+
+  private updatePresetBar(): void {
+    if (!this.presetLabel) return;
+
+    const preset = this.activePresetId ? playerProfile.getPreset(this.activePresetId) : null;
+    if (!preset) {
+      this.presetLabel.setText('No presets');
+      this.presetLabel.setColor('#888888');
+      return;
+    }
+
+    // Unsaved edits are marked so SAVE isn't a surprise
+    const modified = JSON.stringify(preset.loadout) !== JSON.stringify(this.loadout);
+    this.presetLabel.setText(`${preset.name.substring(0, 12)}${modified ? '*' : ''}`);
+    this.presetLabel.setColor(modified ? '#ffaa00' : '#00ff00');
+  }
+
+  private cyclePreset(direction: number): void {
+    const presets = playerProfile.getPresets();
+    if (presets.length === 0) return;
+
+    const index = presets.findIndex(preset => preset.id === this.activePresetId);
+    const next = presets[(index + direction + presets.length) % presets.length];
+    this.activePresetId = next.id;
+    playerProfile.selectPreset(next.id);
+    this.applyLoadout(next.loadout);
+
+    if (this.loadout.team) {
+      this.selectTeam(this.loadout.team);
+    } else {
+      this.updateTeamButtonStyles();
+    }
+    this.showTab(this.currentTab);
+  }
+
+  private savePreset(asNew: boolean): void {
+    if (!isValidLoadout(this.loadout)) return;
+
+    const existing = !asNew && this.activePresetId ? playerProfile.getPreset(this.activePresetId) : null;
+    let name = existing?.name;
+    if (!existing) {
+      if (playerProfile.getPresets().length >= MAX_PRESETS) {
+        this.flashPresetLabel(`Max ${MAX_PRESETS} presets`);
+        return;
+      }
+      const input = prompt('Preset name:', `${(this.loadout.primary || 'Loadout').toUpperCase()} ${this.loadout.team ? this.loadout.team.toUpperCase() : ''}`.trim());
+      if (input === null) return; // Cancelled
+      name = input;
+    }
+
+    const saved = playerProfile.savePreset(name || '', this.loadout, existing?.id);
+    if (saved) {
+      this.activePresetId = saved.id;
+      console.log(`💾 ConfigureScene: Saved preset "${saved.name}"`);
+    }
+    this.updatePresetBar();
+  }
+
+  private deletePreset(): void {
+    if (!this.activePresetId) return;
+
+    playerProfile.deletePreset(this.activePresetId);
+    this.activePresetId = playerProfile.getLastPreset()?.id || null;
+    this.updatePresetBar();
+  }
+
+  private flashPresetLabel(message: string): void {
+    if (!this.presetLabel) return;
+    this.presetLabel.setText(message);
+    this.presetLabel.setColor('#ff4444');
+    this.time.delayedCall(1200, () => this.updatePresetBar());
+  }
+
+  private applyLoadout(loadout: PlayerLoadout): void {
+    this.loadout = { ...loadout, support: [...loadout.support] };
+  }
+
   private showTab(tab: 'team' | 'primary' | 'secondary' | 'support'): void {
     this.currentTab = tab;
     
@@ -466,6 +664,8 @@ export class ConfigureScene extends Phaser.Scene {
 
       // Make interactive
       background.setInteractive({ useHandCursor: true });
+      // Close the gaps between cells so a tap between two weapons still lands on one
+      padHitAreaForTouch(background, GAP_X / 2, GAP_Y / 2);
       background.on('pointerover', () => {
         this.highlightWeapon(weaponId);
         this.showWeaponStats(weaponId);
@@ -622,6 +822,8 @@ export class ConfigureScene extends Phaser.Scene {
     }).setOrigin(0, 0.5);
     
     this.selectedSupportDisplay.add(slotsText);
+    
+    this.updatePresetBar();
   }
 
   private showWeaponStats(weaponId: string): void {
@@ -749,13 +951,10 @@ export class ConfigureScene extends Phaser.Scene {
     // Store loadout for GameScene to use
     this.game.registry.set('playerLoadout', this.loadout);
     
-    // SENIOR DEV REVIEW: Generate player name if not set
-    // In production, this would come from a UI input field
-    const existingName = this.game.registry.get('playerName');
-    if (!existingName) {
-      const generatedName = `Player${Math.floor(Math.random() * 9999)}`;
-      this.game.registry.set('playerName', generatedName);
-      console.log(`🏷️ Generated player name: ${generatedName}`);
+    // First loadout ever played becomes a preset so the next session starts from it
+    if (!this.activePresetId) {
+      const preset = playerProfile.savePreset('Default', this.loadout);
+      this.activePresetId = preset?.id || null;
     }
     
     console.log('🎮 ConfigureScene: Saved loadout to GAME registry:', this.loadout);
@@ -9,30 +9,60 @@ import { WeaponUI } from '../ui/WeaponUI';
 import { ClientPrediction } from '../systems/ClientPrediction';
 import { VisionRenderer } from '../systems/VisionRenderer';
 import { PlayerManager } from '../systems/PlayerManager';
+import { InterpolationSystem } from '../systems/InterpolationSystem';
 import { ScreenShakeSystem } from '../systems/ScreenShakeSystem';
 import { GAME_CONFIG } from '../../../shared/constants/index';
-import { GameState, CollisionEvent, Vector2, PolygonVision } from '../../../shared/types/index';
+import { GameState, CollisionEvent, Vector2, PolygonVision, SmokeZoneState } from '../../../shared/types/index';
+import { onServerEvent, MatchEndedPayload, PlayerDiedPayload, PlayerRespawnedPayload, PlayerDamagedPayload, FlashbangEffectPayload, ResumedSessionPayload, WeaponFiredPayload, WeaponMissPayload, WallDamagedPayload } from '../../../shared/protocol/index';
 
 import { AssetManager } from '../utils/AssetManager';
 import { audioManager } from '../systems/AudioManager';
-import { initializeGameAudio, fireWeapon, playUIClick, throwWeapon } from '../systems/AudioIntegration';
+import { initializeGameAudio, fireWeapon, playUIClick, throwWeapon, playExplosion, playImpactSound } from '../systems/AudioIntegration';
 import { audioTest } from '../systems/AudioTest';
+import { spatialAudio } from '../systems/SpatialAudio';
+import { musicManager } from '../systems/MusicManager';
 import { NotificationSystem } from '../systems/NotificationSystem';
 import { RestartSystem } from '../systems/RestartSystem';
 import { PerformanceMonitor } from '../systems/PerformanceMonitor';
 import { LobbyStateManager } from '../systems/LobbyStateManager';
 import { RespawnManager } from '../systems/RespawnManager';
+import { ReplayRecorder } from '../systems/ReplayRecorder';
+import { MapLoader } from '../systems/MapLoader';
+import { KillcamSystem, KILLCAM_VIEWPORT } from '../systems/KillcamSystem';
+import { describeAction } from '../systems/KeyBindings';
+import { TouchControls } from '../ui/TouchControls';
+import { InterpolationDebugGraph } from '../ui/InterpolationDebugGraph';
+import { NetworkHUD } from '../ui/NetworkHUD';
+import { Scoreboard } from '../ui/Scoreboard';
+import { FootstepIndicator } from '../ui/FootstepIndicator';
+import { FootstepSystem } from '../systems/FootstepSystem';
+import { ShotPredictor } from '../systems/ShotPredictor';
+import { playerProfile } from '../systems/PlayerProfile';
+import { isTouchDevice } from '../utils/touchHitArea';
+import { settingsStore } from '../systems/SettingsStore';
+import { graphicsQuality } from '../systems/GraphicsQuality';
+import { GAMEPAD_BUTTONS } from '../systems/GamepadInput';
+import { REDUCED_FLASH_ALPHA } from '../systems/VisualEffectsSystem';
 
 export class GameScene extends Phaser.Scene {
   private inputSystem!: InputSystem;
   private networkSystem!: NetworkSystem;
   private visualEffectsSystem!: VisualEffectsSystem;
   private destructionRenderer!: DestructionRenderer;
+  killcamSystem!: KillcamSystem;
   private weaponUI!: WeaponUI;
+  private touchControls: TouchControls | null = null;
   private respawnManager!: RespawnManager;
   private clientPrediction!: ClientPrediction;
   private visionRenderer!: VisionRenderer;
   private playerManager!: PlayerManager;
+  private interpolationSystem!: InterpolationSystem;
+  private interpolationDebugGraph?: InterpolationDebugGraph;
+  private networkHUD?: NetworkHUD;
+  private scoreboard?: Scoreboard;
+  private footstepSystem?: FootstepSystem;
+  private footstepIndicator?: FootstepIndicator;
+  private shotPredictor?: ShotPredictor;
   private screenShakeSystem!: ScreenShakeSystem;
   private assetManager!: AssetManager;
   private notificationSystem!: NotificationSystem;
@@ -66,6 +96,11 @@ export class GameScene extends Phaser.Scene {
   private matchData: any = null;
   private killCounterContainer!: Phaser.GameObjects.Container;
   private isMatchEnding: boolean = false; // Prevent duplicate match end transitions
+  private isReconnecting: boolean = false; // Connection dropped, NetworkSystem is resuming the session
+  private resumeSyncPending: boolean = false; // Re-sync our player from the first game state after a resume
+  private reconnectOverlay?: Phaser.GameObjects.Container;
+  private settingsOpen: boolean = false; // SettingsScene is up as the pause menu - input frozen
+  private settingsClosedFrame: number = -1;
   private matchStartTime: number = 0; // Track actual match start time
   
   // Phaser UI elements
@@ -81,6 +116,7 @@ export class GameScene extends Phaser.Scene {
   
   // Test mode properties
   private backgroundSprite?: Phaser.GameObjects.TileSprite;
+  private mapLoader?: MapLoader;
   private playerLoadout?: any;
   
   // Server position indicator visibility flag
@@ -196,10 +232,15 @@ export class GameScene extends Phaser.Scene {
     
     this.visualEffectsSystem = new VisualEffectsSystem(this);
     this.destructionRenderer = new DestructionRenderer(this);
+    this.killcamSystem = new KillcamSystem(this, this.visualEffectsSystem, this.destructionRenderer);
     this.weaponUI = new WeaponUI(this);
     this.clientPrediction = new ClientPrediction(this);
     this.visionRenderer = new VisionRenderer(this);
     this.playerManager = new PlayerManager(this);
+    // Remote players render ~100ms behind server time between buffered snapshots
+    this.interpolationSystem = new InterpolationSystem(() => this.networkSystem ? this.networkSystem.getServerTime() : Date.now());
+    settingsStore.watchInScene(this, 'network', 'interpolationDelay', delay => this.interpolationSystem.setDelay(delay));
+    this.playerManager.setInterpolationSystem(this.interpolationSystem);
     this.screenShakeSystem = new ScreenShakeSystem(this);
     
     // Initialize RespawnManager for bulletproof respawn system
@@ -244,6 +285,7 @@ export class GameScene extends Phaser.Scene {
     
     // Set up audio event listeners
     this.setupAudioListeners();
+    musicManager.setState('combat');
     
     // Check if this is a late join - if so, use simplified setup
     const isLateJoin = this.matchData?.isLateJoin || false;
@@ -328,13 +370,56 @@ export class GameScene extends Phaser.Scene {
 
     // Initialize input system only if we have a valid network connection
     this.inputSystem.initialize();
+    if (isTouchDevice(this)) {
+      this.touchControls = new TouchControls(this);
+      this.inputSystem.setTouchControls(this.touchControls);
+      console.log('📱 GameScene: Touch device detected - on-screen controls enabled');
+    }
     this.visualEffectsSystem.initialize();
+    // Hitscan hits show immediately against interpolated players, then get confirmed by the backend
+    this.shotPredictor = new ShotPredictor(this, this.visualEffectsSystem, {
+      getLocalPlayerId: () => this.localPlayerId || this.networkSystem?.getSocket()?.id || null,
+      getLocalTeam: () => this.playerLoadout?.team,
+      getAimDirection: () => this.inputSystem.getAimDirection(),
+      getTargets: () => this.playerManager.getShotTargets(),
+      getWalls: () => this.destructionRenderer.getWallsData(true)
+    });
+    this.visualEffectsSystem.setShotPredictor(this.shotPredictor);
+    // Positional sounds are heard from the local player, muffled by the walls in between
+    spatialAudio.setSource({
+      getListenerPosition: () => this.playerPosition,
+      getWalls: () => this.destructionRenderer.getWallsData(true)
+    });
     this.destructionRenderer.initialize();
+    this.killcamSystem.initialize();
     this.weaponUI.initialize();
     this.screenShakeSystem.initialize();
     this.notificationSystem.initialize();
     this.restartSystem.initialize();
     this.performanceMonitor.initialize();
+    this.performanceMonitor.setPredictionMetricsSource(() => this.clientPrediction.getMetrics());
+    this.performanceMonitor.setSnapshotStatsSource(() => this.networkSystem.getSnapshotStats());
+    this.performanceMonitor.setShotPredictionSource(() => this.shotPredictor!.getStats());
+    this.interpolationDebugGraph = new InterpolationDebugGraph(this, this.interpolationSystem);
+    this.networkHUD = new NetworkHUD(this, () => this.networkSystem.getConnectionQuality());
+    this.scoreboard = new Scoreboard(this, {
+      getPlayers: () => Object.values(this.currentGameState?.players || {}),
+      getLocalPlayerId: () => this.localPlayerId,
+      getLocalPing: () => this.networkSystem.getConnectionQuality().rtt
+    });
+    // Footsteps come from every player in the state, seen or not
+    this.footstepSystem = new FootstepSystem(this, {
+      getPlayers: () => Object.values(this.currentGameState?.players || {}),
+      getLocalPlayerId: () => this.localPlayerId,
+      getLocalTeam: () => this.playerLoadout?.team,
+      isPlayerVisible: (id) => this.isPlayerVisible(id),
+      // Only offline matches have a level file to read floors from - see FootstepSystem
+      getSurface: (position) => {
+        const level = this.networkSystem.getLocalServer()?.getLevel();
+        return (level && MapLoader.getFloorSurface(level, position)) || 'concrete';
+      }
+    });
+    this.footstepIndicator = new FootstepIndicator(this, () => this.playerPosition);
     
     // Initialize smoke and flashbang graphics
     this.smokeZoneGraphics = this.add.graphics();
@@ -455,21 +540,18 @@ export class GameScene extends Phaser.Scene {
     
 
     
-    // Add ESC key to leave game and return to main menu
-    this.input.keyboard?.on('keydown-ESC', () => {
-      // Clean up game state properly
-      console.log('🚪 ESC pressed - returning to main menu');
-      
-      // Disconnect from current game
-      const socket = this.networkSystem.getSocket();
-      if (socket) {
-        socket.emit('leave_game');
-        socket.emit('leave_lobby');
-      }
-      
-      // Return to main menu
-      SceneManager.transition(this, 'MenuScene');
+    // ESC (or START on a controller) opens settings as the pause menu - leaving the match is in there
+    this.input.keyboard?.on('keydown-ESC', () => this.openSettings());
+    this.input.gamepad?.on('down', (_pad: Phaser.Input.Gamepad.Gamepad, button: Phaser.Input.Gamepad.Button) => {
+      if (button.index === GAMEPAD_BUTTONS.START) this.openSettings();
     });
+    // Scene events outlive a restart - drop the previous match's handlers and pause state
+    this.settingsOpen = false;
+    this.events.off('settings:closed');
+    this.events.off('settings:leave');
+    this.events.on('settings:closed', () => this.handleSettingsClosed());
+    this.events.on('settings:leave', () => this.leaveMatch());
+    this.events.once(Phaser.Scenes.Events.SHUTDOWN, () => this.finishReplayOnExit());
     
     // DEBUG: Force respawn (F5)
     this.input.keyboard?.on('keydown-F5', () => {
@@ -493,6 +575,11 @@ export class GameScene extends Phaser.Scene {
       this.resetAllSystems();
     });
     
+    // Replay recording toggle (F8) - stopping downloads the recording
+    this.input.keyboard?.on('keydown-F8', () => {
+      this.toggleReplayRecording();
+    });
+    
     // Development: Add test mode button (only for development)
     if (this.game.config.physics?.arcade?.debug) {
       const testButton = this.add.text(GAME_CONFIG.GAME_WIDTH - 5, 5, '🧪 DEV MODE', {
@@ -565,14 +652,13 @@ export class GameScene extends Phaser.Scene {
     // Send player:join to backend now that scene is ready
     const finalLoadout = this.game.registry.get('playerLoadout');
     if (finalLoadout && this.networkSystem.getSocket()?.connected) {
-      // SENIOR DEV REVIEW: Include player name for scoreboard display
-      const playerName = this.game.registry.get('playerName') || 
-                        `Player${Math.floor(Math.random() * 9999)}`;
+      // Name, accent colour and preferred team come from the saved profile
+      const profile = playerProfile.getJoinInfo();
       
-      console.log(`📤 Sending player:join with loadout and name: ${playerName}`);
+      console.log(`📤 Sending player:join with loadout and name: ${profile.playerName}`);
       this.networkSystem.emit('player:join', {
         loadout: finalLoadout,
-        playerName: playerName,  // Backend expects this for display
+        ...profile,
         timestamp: this.networkSystem.getServerTime()
       });
       
@@ -621,8 +707,10 @@ export class GameScene extends Phaser.Scene {
       return;
     }
     
-    // Update local player movement FIRST for immediate feedback
-    this.updateLocalPlayer(delta);
+    // Update local player movement FIRST for immediate feedback - frozen while reconnecting
+    if (!this.isReconnecting) {
+      this.updateLocalPlayer(delta);
+    }
 
     // Update player position in InputSystem BEFORE processing input
     this.inputSystem.setPlayerPosition(this.playerPosition.x, this.playerPosition.y);
@@ -684,13 +772,21 @@ export class GameScene extends Phaser.Scene {
     // Update systems
     this.inputSystem.update(delta);
     this.networkSystem.update(delta);
+    this.playerManager.update();
     this.visualEffectsSystem.update(delta);
     this.destructionRenderer.update(delta);
+    this.killcamSystem.update(delta);
     this.weaponUI.update(delta);
     this.screenShakeSystem.update(delta);
     this.notificationSystem.update(delta);
     this.restartSystem.update(delta);
     this.performanceMonitor.update(delta);
+    this.interpolationDebugGraph?.update();
+    this.networkHUD?.update();
+    this.scoreboard?.update();
+    this.footstepSystem?.update();
+    this.footstepIndicator?.update();
+    this.updateMusicIntensity();
 
     // Update UI elements
     this.updatePhaserUI();
@@ -960,6 +1056,29 @@ export class GameScene extends Phaser.Scene {
       this.connectionStatus.setColor('#ff0000');
     });
 
+    // Dropped connection - NetworkSystem retries with backoff and resumes our session
+    this.events.on('network:reconnecting', (data: { attempt: number; maxAttempts: number }) => {
+      if (!this.isReconnecting) {
+        this.isReconnecting = true;
+        this.inputSystem?.setFrozen(true);
+      }
+      this.showReconnectOverlay(`Attempt ${data.attempt}/${data.maxAttempts}`);
+      this.connectionStatus.setText('Reconnecting...');
+      this.connectionStatus.setColor('#ffaa00');
+    });
+
+    this.events.on('network:resumed', (session: ResumedSessionPayload) => {
+      this.restoreResumedSession(session);
+    });
+
+    this.events.on('network:resumeFailed', (reason: string) => {
+      console.warn(`🚪 Could not get back into the match (${reason}) - returning to lobby menu`);
+      this.isReconnecting = false;
+      this.hideReconnectOverlay();
+      this.cleanupForMatchEnd();
+      SceneManager.transition(this, 'LobbyMenuScene', { error: `Disconnected from match: ${reason}` });
+    });
+
     // Game ready event (when authenticated and ready to play)
     this.events.on('network:gameReady', () => {
       this.connectionStatus.setText('Connected to server');
@@ -999,7 +1118,7 @@ export class GameScene extends Phaser.Scene {
     // Handle spawn position for late joins
     const socket = this.networkSystem.getSocket();
     if (socket) {
-      socket.on('spawn_position', (data: any) => {
+      onServerEvent(socket, 'spawn_position', (data) => {
         console.log('📍 Received spawn position from backend:', data);
         if (data.position) {
           this.playerPosition = { x: data.position.x, y: data.position.y };
@@ -1071,10 +1190,11 @@ export class GameScene extends Phaser.Scene {
       const myPlayerId = this.networkSystem.getSocket()?.id;
       if (myPlayerId) {
         this.playerManager.setLocalPlayerId(myPlayerId);
+        this.killcamSystem.setLocalPlayerId(myPlayerId);
         
         // Check if we need to sync our position and team with backend (for both normal and late joins)
         const shouldSyncWithBackend = this.matchData?.isLateJoin && !this.playerSprite.visible;
-        const isFirstGameState = !this.localPlayerId; // First time receiving game state
+        const isFirstGameState = !this.localPlayerId || this.resumeSyncPending; // First time receiving game state (or since a resume)
         
         if (shouldSyncWithBackend || isFirstGameState) {
           try {
@@ -1147,6 +1267,7 @@ export class GameScene extends Phaser.Scene {
               // Store the player ID if this is the first game state
               if (isFirstGameState) {
                 this.localPlayerId = myPlayerId;
+                this.resumeSyncPending = false;
                 console.log('📌 Stored local player ID:', this.localPlayerId);
               }
               
@@ -1223,7 +1344,7 @@ export class GameScene extends Phaser.Scene {
           }
           playersObj[player.id] = player;
         });
-        this.playerManager.updatePlayers(playersObj);
+        this.playerManager.updatePlayers(playersObj, gameState.timestamp);
       } else if (gameState.players) {
         // TEMPORARY WORKAROUND: Use all players until backend implements visibility filtering
         // Convert players object/map to proper format
@@ -1271,7 +1392,7 @@ export class GameScene extends Phaser.Scene {
           };
         }
         
-        this.playerManager.updatePlayers(fixedPlayers);
+        this.playerManager.updatePlayers(fixedPlayers, gameState.timestamp);
       }
       
       // Apply server position to local player
@@ -1358,8 +1479,8 @@ export class GameScene extends Phaser.Scene {
       }
       
       // Handle smoke zones from game state
-      if ((gameState as any).smokeZones && Array.isArray((gameState as any).smokeZones)) {
-        this.renderSmokeZones((gameState as any).smokeZones);
+      if (Array.isArray(gameState.smokeZones)) {
+        this.renderSmokeZones(gameState.smokeZones);
       }
     });
     
@@ -1413,7 +1534,7 @@ export class GameScene extends Phaser.Scene {
   
         
         // Optional: Small screen shake
-        this.cameras.main.shake(50, 0.002);
+        this.screenShakeSystem.customShake(50, 0.002, 'collision');
       }
     });
 
@@ -1430,7 +1551,7 @@ export class GameScene extends Phaser.Scene {
     });
     
     // Listen for flashbang effects
-    this.events.on('backend:flashbang:effect', (data: any) => {
+    this.events.on('backend:flashbang:effect', (data: FlashbangEffectPayload) => {
       this.handleFlashbangEffect(data);
     });
     
@@ -1475,7 +1596,7 @@ export class GameScene extends Phaser.Scene {
     // ===== PLAYER LIFECYCLE EVENT HANDLERS =====
     
     // Handle player death events (new death system)
-    this.events.on('backend:player:died', (data: any) => {
+    this.events.on('backend:player:died', (data: PlayerDiedPayload) => {
       const localSocketId = this.networkSystem.getSocket()?.id;
       
       if (data.playerId === localSocketId || data.playerId === this.localPlayerId) {
@@ -1489,7 +1610,7 @@ export class GameScene extends Phaser.Scene {
     });
 
     // Handle player respawn events (new respawn system)
-    this.events.on('backend:player:respawned', (data: any) => {
+    this.events.on('backend:player:respawned', (data: PlayerRespawnedPayload) => {
       const localSocketId = this.networkSystem.getSocket()?.id;
       
       // Check multiple sources for player ID
@@ -1619,7 +1740,7 @@ export class GameScene extends Phaser.Scene {
     });
 
     // Handle player damage events
-    this.events.on('backend:player:damaged', (data: any) => {
+    this.events.on('backend:player:damaged', (data: PlayerDamagedPayload) => {
       const localSocketId = this.networkSystem.getSocket()?.id;
       console.log('🩹 Player damaged event:', data);
       
@@ -1686,10 +1807,10 @@ export class GameScene extends Phaser.Scene {
     // 3. Show death screen
     this.showDeathScreen(deathData.killerId || 'Unknown', deathData.damageType || 'damage', deathData.position);
     
-    // 4. Set respawn cooldown (3 seconds)
+    // 4. Set respawn cooldown (3 seconds) - a running killcam holds it until playback ends
     (this as any).canRespawn = false;
     this.time.delayedCall(3000, () => {
-      if (this.scene && this.scene.isActive()) {
+      if (this.scene && this.scene.isActive() && !this.killcamSystem.isPlaying()) {
         (this as any).canRespawn = true;
         console.log('✅ Respawn cooldown complete - player can now respawn');
       }
@@ -1705,6 +1826,9 @@ export class GameScene extends Phaser.Scene {
   private forceCleanupDeathState(): void {
     console.log('🧹 Force cleaning up any existing death state');
     
+    // Killcam camera and layer live outside the container
+    this.killcamSystem?.stop();
+    
     // Kill ALL death-related tweens
     if ((this as any).deathContainer) {
       console.log('   Found existing death container, removing it');
@@ -1770,7 +1894,7 @@ export class GameScene extends Phaser.Scene {
     deathContainer.add(killerText);
     
     // Respawn instructions (initially hidden)
-    const respawnText = this.add.text(0, 20, 'Press SPACE or ENTER to respawn', {
+    const respawnText = this.add.text(0, 20, `Press ${describeAction('respawn')} to respawn`, {
       fontSize: '12px',
       color: '#00ff00',
       align: 'center'
@@ -1792,9 +1916,66 @@ export class GameScene extends Phaser.Scene {
     deathContainer.setAlpha(1);
     console.log('💀 Death screen set to visible (alpha 1)');
     
-    // Show respawn button after 3 seconds
-    this.time.delayedCall(3000, () => {
-      console.log('💀 3 second delay complete, enabling respawn');
+    // Killcam first when the killer was in sight - the respawn prompt waits for it
+    const clip = this.killcamSystem.createClip(killerId);
+    if (clip) {
+      const deathTexts = [deathText, killerText, respawnText, countdownText];
+      deathTexts.forEach(text => text.setVisible(false));
+      
+      // Container is centered on screen - convert the killcam viewport into its space
+      const { x, y, width, height } = KILLCAM_VIEWPORT;
+      const left = x - GAME_CONFIG.GAME_WIDTH / 2;
+      const top = y - GAME_CONFIG.GAME_HEIGHT / 2;
+      
+      const killcamFrame = this.add.rectangle(left - 1, top - 1, width + 2, height + 2);
+      killcamFrame.setOrigin(0);
+      killcamFrame.setStrokeStyle(1, 0xffffff, 0.6);
+      
+      const killcamTitle = this.add.text(0, top - 10, `KILLCAM - Killed by ${killerId}`, {
+        fontSize: '10px',
+        color: '#ff4444',
+        align: 'center',
+        fontStyle: 'bold'
+      });
+      killcamTitle.setOrigin(0.5);
+      
+      const killcamHint = this.add.text(0, top + height + 10, `Press ${describeAction('respawn')} to skip`, {
+        fontSize: '8px',
+        color: '#aaaaaa',
+        align: 'center'
+      });
+      killcamHint.setOrigin(0.5);
+      
+      const killcamUI = [killcamFrame, killcamTitle, killcamHint];
+      deathContainer.add(killcamUI);
+      
+      this.killcamSystem.play(clip, () => {
+        if ((this as any).deathContainer !== deathContainer || !this.isPlayerDead) return;
+        killcamUI.forEach(object => object.destroy());
+        deathTexts.forEach(text => text.setVisible(true));
+        this.startRespawnPrompt(respawnText, countdownText, 0);
+      });
+    } else {
+      this.startRespawnPrompt(respawnText, countdownText, 3000);
+    }
+    
+      console.log('💀 Death screen setup complete - should be visible now');
+    } catch (error) {
+      console.error('❌ Failed to create death screen:', error);
+      console.error('Error details:', error);
+      // RespawnManager will handle recovery
+      this.isPlayerDead = true;
+      console.log('💀 Death screen failed but RespawnManager will handle respawn');
+    }
+  }
+
+  /**
+   * Reveal the respawn prompt after a delay and start the auto-respawn countdown
+   */
+  private startRespawnPrompt(respawnText: Phaser.GameObjects.Text, countdownText: Phaser.GameObjects.Text, promptDelay: number): void {
+    // Show respawn button once the delay is up
+    this.time.delayedCall(promptDelay, () => {
+      console.log('💀 Respawn delay complete, enabling respawn');
       
       // Check if death container still exists before tweening
       if ((this as any).deathContainer && respawnText && respawnText.scene) {
@@ -1840,15 +2021,6 @@ export class GameScene extends Phaser.Scene {
     
     // Store timer reference for cleanup
     (this as any).respawnTimer = countdownTimer;
-    
-      console.log('💀 Death screen setup complete - should be visible now');
-    } catch (error) {
-      console.error('❌ Failed to create death screen:', error);
-      console.error('Error details:', error);
-      // RespawnManager will handle recovery
-      this.isPlayerDead = true;
-      console.log('💀 Death screen failed but RespawnManager will handle respawn');
-    }
   }
 
   /**
@@ -2026,6 +2198,8 @@ export class GameScene extends Phaser.Scene {
       console.warn('⚠️ No death container to hide');
     }
     
+    this.killcamSystem?.stop();
+    
     // Clear respawn timer (including auto-respawn countdown)
     const respawnTimer = (this as any).respawnTimer;
     if (respawnTimer) {
@@ -2155,12 +2329,94 @@ export class GameScene extends Phaser.Scene {
   /**
    * Set the local player ID for proper identification
    */
+  private showReconnectOverlay(detail: string): void {
+    if (!this.reconnectOverlay) {
+      const overlay = this.add.container(GAME_CONFIG.GAME_WIDTH / 2, GAME_CONFIG.GAME_HEIGHT / 2);
+      overlay.setDepth(10001); // Above the death screen
+      overlay.setScrollFactor(0);
+      
+      const background = this.add.rectangle(0, 0, GAME_CONFIG.GAME_WIDTH, GAME_CONFIG.GAME_HEIGHT, 0x000000, 0.7);
+      const title = this.add.text(0, -16, 'Reconnecting…', {
+        fontSize: '18px',
+        color: '#ffaa00',
+        fontStyle: 'bold'
+      }).setOrigin(0.5);
+      const detailText = this.add.text(0, 8, '', {
+        fontSize: '10px',
+        color: '#cccccc'
+      }).setOrigin(0.5);
+      const hint = this.add.text(0, 28, 'ESC for menu / leave match', {
+        fontSize: '8px',
+        color: '#888888'
+      }).setOrigin(0.5);
+      
+      overlay.add([background, title, detailText, hint]);
+      overlay.setData('detailText', detailText);
+      this.tweens.add({ targets: title, alpha: 0.4, duration: 600, yoyo: true, repeat: -1 });
+      this.reconnectOverlay = overlay;
+    }
+    
+    (this.reconnectOverlay.getData('detailText') as Phaser.GameObjects.Text).setText(detail);
+  }
+
+  private hideReconnectOverlay(): void {
+    if (this.reconnectOverlay) {
+      this.tweens.killTweensOf(this.reconnectOverlay.list);
+      this.reconnectOverlay.destroy();
+      this.reconnectOverlay = undefined;
+    }
+  }
+
+  /**
+   * Back in the match after a dropped connection. The game state requested
+   * on resume re-syncs position, health and the kill counter; loadout, ammo
+   * and lobby come with the resume itself.
+   */
+  private restoreResumedSession(session: ResumedSessionPayload): void {
+    console.log('🔁 Session resumed, restoring match state:', session);
+    this.isReconnecting = false;
+    this.hideReconnectOverlay();
+    this.inputSystem?.setFrozen(this.settingsOpen);
+    
+    // New socket, new id - our player is re-synced from the next game state
+    this.setLocalPlayerId(session.playerId);
+    this.resumeSyncPending = true;
+    this.previousKillCounts = {};
+    
+    if (session.loadout) {
+      this.playerLoadout = session.loadout;
+      this.game.registry.set('playerLoadout', session.loadout);
+      this.inputSystem.setLoadout(session.loadout);
+    }
+    
+    if (session.weapons) {
+      for (const [weaponType, ammo] of Object.entries(session.weapons)) {
+        this.weaponUI.updateWeaponData(weaponType, ammo.currentAmmo, ammo.reserveAmmo, ammo.isReloading || false);
+      }
+    }
+    
+    if (session.killTarget) {
+      this.killTarget = session.killTarget;
+    }
+    
+    if (session.lobby) {
+      this.matchData = { ...this.matchData, lobbyId: session.lobby.lobbyId, status: session.lobby.status, killTarget: this.killTarget };
+      // MatchResultsScene offers the rematch from this lobby
+      LobbyStateManager.getInstance().updateState(session.lobby);
+    }
+    
+    this.connectionStatus.setText('Connected to server');
+    this.connectionStatus.setColor('#00ff00');
+    this.notificationSystem.success('Reconnected');
+  }
+
   setLocalPlayerId(playerId: string): void {
     this.localPlayerId = playerId;
     console.log(`🎮 Local player ID set to: ${playerId}`);
     
     // Pass to PlayerManager for proper local player identification
     this.playerManager.setLocalPlayerId(playerId);
+    this.killcamSystem.setLocalPlayerId(playerId);
   }
 
   /**
@@ -2254,17 +2510,16 @@ export class GameScene extends Phaser.Scene {
       console.log('  - Wall count:', this.wallSliceSprites.size);
     }
    
-    // Apply input through client prediction for server sync
-    if (inputState.sequence > 0) { // Only apply if we have a valid sequence
-      // Add movement data to inputState for client prediction
-      const inputWithMovement = {
+    // Apply input through client prediction for server sync - only inputs that were
+    // actually sent, since the server steps once per packet rather than once per frame
+    if (inputState.sequence > 0 && inputState.sequence === this.inputSystem.getLastSentSequence()) {
+      const predictedInput = {
         ...inputState,
-        movement,
-        movementSpeed: speed
+        isADS: this.inputSystem.isAimingDownSights()
       };
       
       try {
-        this.clientPrediction.applyInput(inputWithMovement, inputState.sequence);
+        this.clientPrediction.applyInput(predictedInput, inputState.sequence);
       } catch (error) {
         console.error('❌ Error applying input to client prediction:', error);
       }
@@ -2295,6 +2550,13 @@ export class GameScene extends Phaser.Scene {
     floorBackground.setScale(scaleX, scaleY);
     
     this.floorSprites.push(floorBackground);
+
+    // Offline matches on a custom map (editor playtest) get the map's floor art too
+    const level = this.networkSystem.getLocalServer()?.getLevel();
+    if (level) {
+      this.mapLoader = new MapLoader(this);
+      this.mapLoader.buildLayers(level);
+    }
   }
 
   private createUI(): void {
@@ -2350,25 +2612,37 @@ export class GameScene extends Phaser.Scene {
     const accuracy = weaponAccuracy[currentWeapon] || weaponAccuracy.rifle;
     const spread = isADS ? accuracy.ads : accuracy.base;
     
-    // Color based on ADS state
-    const color = isADS ? 0x00ff00 : 0xffffff;
+    // Player's colour - the default white still turns green while aiming down sights
+    const style = settingsStore.get('gameplay', 'crosshairStyle');
+    const chosenColor = settingsStore.get('gameplay', 'crosshairColor');
+    const color = isADS && chosenColor === '#ffffff' ? 0x00ff00 : Phaser.Display.Color.HexStringToColor(chosenColor).color;
     const alpha = 0.8;
     
     // Draw center pixel
     this.crosshair.fillStyle(color, alpha);
     this.crosshair.fillRect(mouseX - 0.5, mouseY - 0.5, 1, 1);
     
-    // Draw cardinal direction pixels
-    if (spread > 0) {
-      // Top pixel
-      this.crosshair.fillRect(mouseX - 0.5, mouseY - spread - 0.5, 1, 1);
-      // Bottom pixel  
-      this.crosshair.fillRect(mouseX - 0.5, mouseY + spread - 0.5, 1, 1);
-      // Left pixel
-      this.crosshair.fillRect(mouseX - spread - 0.5, mouseY - 0.5, 1, 1);
-      // Right pixel
-      this.crosshair.fillRect(mouseX + spread - 0.5, mouseY - 0.5, 1, 1);
+    if (spread <= 0 || style === 'dot') return;
+    
+    if (style === 'cross') {
+      // Short lines starting at the spread
+      const length = 3;
+      this.crosshair.fillRect(mouseX - 0.5, mouseY - spread - length - 0.5, 1, length);
+      this.crosshair.fillRect(mouseX - 0.5, mouseY + spread + 0.5, 1, length);
+      this.crosshair.fillRect(mouseX - spread - length - 0.5, mouseY - 0.5, length, 1);
+      this.crosshair.fillRect(mouseX + spread + 0.5, mouseY - 0.5, length, 1);
+      return;
     }
+    
+    // Draw cardinal direction pixels
+    // Top pixel
+    this.crosshair.fillRect(mouseX - 0.5, mouseY - spread - 0.5, 1, 1);
+    // Bottom pixel  
+    this.crosshair.fillRect(mouseX - 0.5, mouseY + spread - 0.5, 1, 1);
+    // Left pixel
+    this.crosshair.fillRect(mouseX - spread - 0.5, mouseY - 0.5, 1, 1);
+    // Right pixel
+    this.crosshair.fillRect(mouseX + spread - 0.5, mouseY - 0.5, 1, 1);
   }
 
   private createHealthBar(current: number, max: number): string {
@@ -2388,10 +2662,89 @@ export class GameScene extends Phaser.Scene {
     }
   }
 
+  /**
+   * Settings as the pause menu. The match can't stop for one player, so it
+   * keeps running underneath with our input frozen.
+   */
+  private openSettings(): void {
+    // The ESC that closed the menu can reach this scene later in the same frame
+    if (this.settingsOpen || this.settingsClosedFrame === this.game.getFrame()) return;
+
+    this.settingsOpen = true;
+    this.inputSystem?.setFrozen(true);
+    this.scene.launch('SettingsScene', { returnTo: this.scene.key, inMatch: true });
+  }
+
+  private handleSettingsClosed(): void {
+    this.settingsOpen = false;
+    this.settingsClosedFrame = this.game.getFrame();
+    // A dropped connection keeps input frozen until the session resumes
+    if (!this.isReconnecting) {
+      this.inputSystem?.setFrozen(false);
+    }
+  }
+
+  private leaveMatch(): void {
+    console.log('🚪 Leaving match - returning to main menu');
+    this.settingsOpen = false;
+    
+    // Leaving while reconnecting - stop trying to get back in
+    this.networkSystem.cancelResume();
+    
+    // Disconnect from current game
+    const socket = this.networkSystem.getSocket();
+    if (socket) {
+      socket.emit('leave_game');
+      socket.emit('leave_lobby');
+    }
+    
+    // Return to main menu
+    SceneManager.transition(this, 'MenuScene');
+  }
+
+  /**
+   * Start recording inbound server events, or stop and download the recording
+   */
+  private toggleReplayRecording(): void {
+    if (!this.networkSystem) return;
+    
+    if (!this.networkSystem.isRecordingReplay()) {
+      this.networkSystem.startReplayRecording();
+      this.notificationSystem?.info('Replay recording started (F8 to stop)', 2000);
+      return;
+    }
+    
+    const recording = this.networkSystem.stopReplayRecording();
+    if (recording) {
+      ReplayRecorder.download(recording);
+      this.notificationSystem?.success(`Replay saved (${recording.events.length} events)`, 3000);
+    } else {
+      this.notificationSystem?.warning('Replay stopped - nothing was recorded', 3000);
+    }
+  }
+
+  /**
+   * Stop an in-progress recording when the match ends or the player leaves -
+   * it's only downloaded if the player turned on gameplay.saveReplayOnExit
+   */
+  private finishReplayOnExit(): void {
+    if (!this.networkSystem?.isRecordingReplay()) return;
+    
+    const recording = this.networkSystem.stopReplayRecording();
+    if (recording && settingsStore.get('gameplay', 'saveReplayOnExit')) {
+      ReplayRecorder.download(recording);
+    } else if (recording) {
+      console.log(`🎬 Replay discarded on exit (${recording.events.length} events) - press F8 to save during a match`);
+    }
+  }
+
   shutdown(): void {
     // Reset match state flags
     this.isMatchEnding = false;
     this.matchStartTime = 0;
+    this.isReconnecting = false;
+    this.resumeSyncPending = false;
+    this.hideReconnectOverlay();
     
     // Clean up RespawnManager
     if (this.respawnManager) {
@@ -2422,8 +2775,13 @@ export class GameScene extends Phaser.Scene {
     
     // Clean up systems
     if (this.inputSystem) {
+      this.inputSystem.setTouchControls(null);
       this.inputSystem.destroy();
     }
+    if (this.touchControls) {
+      this.touchControls.destroy();
+      this.touchControls = null;
+    }
     
     // DO NOT destroy NetworkSystem - it's a singleton that should persist!
     // The NetworkSystemSingleton manages its lifecycle
@@ -2434,6 +2792,9 @@ export class GameScene extends Phaser.Scene {
     if (this.destructionRenderer) {
       this.destructionRenderer.destroy();
     }
+    if (this.killcamSystem) {
+      this.killcamSystem.destroy();
+    }
     if (this.weaponUI) {
       this.weaponUI.destroy();
     }
@@ -2443,6 +2804,32 @@ export class GameScene extends Phaser.Scene {
     if (this.playerManager) {
       this.playerManager.destroy();
     }
+    if (this.interpolationDebugGraph) {
+      this.interpolationDebugGraph.destroy();
+      this.interpolationDebugGraph = undefined;
+    }
+    if (this.networkHUD) {
+      this.networkHUD.destroy();
+      this.networkHUD = undefined;
+    }
+    if (this.scoreboard) {
+      this.scoreboard.destroy();
+      this.scoreboard = undefined;
+    }
+    if (this.footstepSystem) {
+      this.footstepSystem.destroy();
+      this.footstepSystem = undefined;
+    }
+    if (this.footstepIndicator) {
+      this.footstepIndicator.destroy();
+      this.footstepIndicator = undefined;
+    }
+    if (this.shotPredictor) {
+      this.visualEffectsSystem?.setShotPredictor(null);
+      this.shotPredictor.destroy();
+      this.shotPredictor = undefined;
+    }
+    spatialAudio.setSource(null);
     if (this.screenShakeSystem) {
       this.screenShakeSystem.destroy();
     }
@@ -2453,22 +2840,122 @@ export class GameScene extends Phaser.Scene {
     
     this.floorSprites.forEach(sprite => sprite.destroy());
     this.floorSprites.length = 0;
+    this.mapLoader?.destroy();
+    this.mapLoader = undefined;
   }
 
 
 
+  /**
+   * Whether a player is on screen for us - in the backend's filtered list
+   * when it sends one, otherwise inside the vision polygon
+   */
+  private isPlayerVisible(id: string): boolean {
+    const visiblePlayers = this.currentGameState?.visiblePlayers;
+    if (Array.isArray(visiblePlayers)) {
+      return visiblePlayers.some((player: any) => player?.id === id);
+    }
+
+    const position = this.currentGameState?.players?.[id]?.position;
+    const polygon = this.visionRenderer?.getCurrentPolygon();
+    if (!position || !polygon || polygon.length < 3) return true;
+    return Phaser.Geom.Polygon.Contains(new Phaser.Geom.Polygon(polygon), position.x, position.y);
+  }
+
   private setupAudioListeners(): void {
+    // Scene events outlive a restart and other systems share these names - remove exactly these on shutdown
+    const listen = <T>(event: string, handler: (data: T) => void) => {
+      this.events.on(event, handler);
+      this.events.once(Phaser.Scenes.Events.SHUTDOWN, () => this.events.off(event, handler));
+    };
+
     // Listen for weapon firing
-    this.events.on('weapon:fire', (data: any) => {
+    listen('weapon:fire', (data: any) => {
       // Play weapon fire sound
       fireWeapon(data.weaponType, data.position);
+      musicManager.addIntensity(0.06);
     });
     
     // Listen for weapon throwing
-    this.events.on('weapon:throw', (data: any) => {
+    listen('weapon:throw', (data: any) => {
       // Play throw sound
       throwWeapon(data.weaponType);
     });
+
+    // Other players' shots, heard from where they were fired
+    listen('backend:weapon:fired', (data: WeaponFiredPayload) => {
+      const localPlayerId = this.localPlayerId || this.networkSystem?.getSocket()?.id;
+      if (data.playerId !== localPlayerId && data.weaponType && data.position) {
+        fireWeapon(data.weaponType, data.position);
+        this.bumpMusicIntensity(data.position, 0.2, 300);
+      }
+    });
+
+    listen('explosion:effect', (data: any) => {
+      if (data.position) {
+        playExplosion(data.weaponType === 'rocket' ? 'rocket' : 'grenade', data.position);
+        this.bumpMusicIntensity(data.position, 0.35, 400);
+      }
+    });
+
+    listen('backend:player:damaged', (data: PlayerDamagedPayload) => {
+      if (data.playerId === this.localPlayerId || data.playerId === this.networkSystem?.getSocket()?.id) {
+        musicManager.addIntensity(0.3);
+      }
+    });
+
+    // Bullet impacts on walls and on the floor
+    listen('backend:wall:damaged', (data: WallDamagedPayload) => {
+      if (data.position) {
+        playImpactSound({ material: data.material || 'concrete', position: data.position });
+      }
+    });
+    listen('backend:weapon:miss', (data: WeaponMissPayload) => {
+      if (data.position) {
+        playImpactSound({ material: 'concrete', position: data.position });
+      }
+    });
+  }
+
+  /**
+   * Raise combat music intensity for something that happened near us, more the closer it was
+   */
+  private bumpMusicIntensity(position: { x: number; y: number }, amount: number, range: number): void {
+    const distance = Phaser.Math.Distance.Between(position.x, position.y, this.playerPosition.x, this.playerPosition.y);
+    if (distance < range) {
+      musicManager.addIntensity(amount * (1 - distance / range));
+    }
+  }
+
+  /**
+   * Keep combat music up while we're hurt or either team is close to the kill target
+   */
+  private updateMusicIntensity(): void {
+    const players: any[] = Object.values(this.currentGameState?.players || {});
+    const local = players.find(player => player.id === this.localPlayerId);
+
+    let floor = 0;
+    if (local && local.isAlive !== false && typeof local.health === 'number' && local.health < 50) {
+      floor = (1 - local.health / 50) * 0.7;
+    }
+
+    if (this.killTarget > 0) {
+      const teamKills = { red: 0, blue: 0 };
+      players.forEach(player => {
+        if ((player.team === 'red' || player.team === 'blue') && typeof player.kills === 'number') {
+          teamKills[player.team as 'red' | 'blue'] += player.kills;
+        }
+      });
+      // "Close" is the last tenth of the race, and at least the last couple of kills
+      const closeWithin = Math.max(2, Math.ceil(this.killTarget * 0.1));
+      const remaining = Math.max(0, this.killTarget - Math.max(teamKills.red, teamKills.blue));
+      if (remaining <= closeWithin) {
+        floor = Math.max(floor, 0.4 + 0.5 * (1 - remaining / closeWithin));
+      }
+    }
+
+    musicManager.setIntensityFloor(floor);
+    musicManager.update();
   }
 
   /**
@@ -2545,7 +3032,7 @@ export class GameScene extends Phaser.Scene {
     console.log('🎯 Setting up match lifecycle listeners');
 
     // Store the handler so we can remove it later
-    (this as any).matchEndedHandler = (data: any) => {
+    (this as any).matchEndedHandler = (data: MatchEndedPayload) => {
       console.log('🏁 Match ended event received:', data);
       
       // Validate we haven't already transitioned
@@ -2585,16 +3072,17 @@ export class GameScene extends Phaser.Scene {
       SceneManager.transition(this, 'MatchResultsScene', { matchResults });
     };
     
-    socket.on('match_ended', (this as any).matchEndedHandler);
+    // Keep the validating wrapper so shutdown() removes the listener actually registered
+    (this as any).matchEndedHandler = onServerEvent(socket, 'match_ended', (this as any).matchEndedHandler);
 
     // Match starting countdown (if applicable)
-    socket.on('match_starting', (data: any) => {
+    onServerEvent(socket, 'match_starting', (data) => {
       console.log('⏱️ Match starting:', data);
       // Could show countdown overlay if needed
     });
 
     // Kill target reached notification
-    socket.on('kill_target_reached', (data: any) => {
+    onServerEvent(socket, 'kill_target_reached', (data) => {
       console.log('🎯 Kill target reached:', data);
       // Match should end soon, no action needed
     });
@@ -3004,9 +3492,10 @@ export class GameScene extends Phaser.Scene {
   }
   
   // Render smoke zones from game state
-  private renderSmokeZones(smokeZones: any[]): void {
+  private renderSmokeZones(smokeZones: SmokeZoneState[]): void {
     // Clear previous smoke graphics
     this.smokeZoneGraphics.clear();
+    const preset = graphicsQuality.getPreset();
     
     // Iterate through each smoke zone
     for (const smoke of smokeZones) {
@@ -3046,9 +3535,14 @@ export class GameScene extends Phaser.Scene {
       // Draw main circular smoke cloud with gradient effect
       // Center is denser, edges are lighter
       const layers = 5; // Multiple layers for depth
-      for (let layer = layers - 1; layer >= 0; layer--) {
+      // Lower quality draws a spread of the layers, each thick enough to stand in
+      // for the ones skipped so the cloud hides just as much
+      const drawnLayers = Math.max(2, Math.min(layers, preset.smokeLayers));
+      const coverage = layers / drawnLayers;
+      for (let drawn = drawnLayers - 1; drawn >= 0; drawn--) {
+        const layer = Math.round(drawn * (layers - 1) / (drawnLayers - 1));
         const layerScale = 1 - (layer * 0.15); // Each layer is smaller
-        const layerOpacity = opacity * (0.3 + (layer * 0.14)); // Outer layers more transparent
+        const layerOpacity = 1 - Math.pow(1 - opacity * (0.3 + (layer * 0.14)), coverage); // Outer layers more transparent
         const layerRadius = currentRadius * (1 + (layer * 0.08)); // Outer layers slightly larger
         
         // Animated offset for this layer
@@ -3069,7 +3563,7 @@ export class GameScene extends Phaser.Scene {
       }
       
       // Add animated wispy circles around the edge for organic look
-      const wisps = 6;
+      const wisps = preset.smokeWisps;
       for (let i = 0; i < wisps; i++) {
         const wispAngle = (Math.PI * 2 * i) / wisps + timeOffset;
         const wispDist = currentRadius * 0.6;
@@ -3106,12 +3600,12 @@ export class GameScene extends Phaser.Scene {
   }
   
   // Handle flashbang effect from backend
-  private handleFlashbangEffect(data: any): void {
+  private handleFlashbangEffect(data: FlashbangEffectPayload): void {
     const myPlayerId = this.networkSystem.getSocket()?.id;
     if (!myPlayerId) return;
     
     // Find if local player was affected
-    const myEffect = data.affectedPlayers.find((p: any) => p.playerId === myPlayerId);
+    const myEffect = data.affectedPlayers.find(p => p.playerId === myPlayerId);
     
     if (myEffect) {
       console.log('⚡ Local player flashbanged!', myEffect);
@@ -3127,13 +3621,14 @@ export class GameScene extends Phaser.Scene {
     
     const phases = effect.phases;
     
-    // PHASE 1: BLIND (white screen)
-    this.flashbangOverlay.setAlpha(effect.intensity * 0.95);
+    // PHASE 1: BLIND (white screen) - capped when the player asked for reduced flashes
+    const maxAlpha = settingsStore.get('accessibility', 'reduceFlashes') ? REDUCED_FLASH_ALPHA : 0.95;
+    this.flashbangOverlay.setAlpha(effect.intensity * maxAlpha);
     this.flashbangOverlay.setVisible(true);
     
     // Camera shake based on intensity
     if (effect.intensity > 0.5) {
-      this.cameras.main.shake(500, 0.01 * effect.intensity);
+      this.screenShakeSystem.customShake(500, 0.01 * effect.intensity, 'flashbang');
     }
     
     // Play ringing sound (if audio system available)
@@ -3144,7 +3639,7 @@ export class GameScene extends Phaser.Scene {
       // Reduce white overlay opacity
       this.tweens.add({
         targets: this.flashbangOverlay,
-        alpha: effect.intensity * 0.5,
+        alpha: effect.intensity * Math.min(0.5, maxAlpha),
         duration: 300,
         ease: 'Power2'
       });
@@ -3194,9 +3689,9 @@ export class GameScene extends Phaser.Scene {
   private playFlashbangAudio(intensity: number): void {
     // Reduce game volume
     if (audioManager) {
-      // Store original volume (default to 1 if not previously stored)
+      // Store original volume so the player's own setting comes back afterwards
       if ((this as any).originalAudioVolume === undefined) {
-        (this as any).originalAudioVolume = 1;
+        (this as any).originalAudioVolume = audioManager.getMasterVolume();
       }
       
       // Set reduced volume
@@ -3236,12 +3731,13 @@ export class GameScene extends Phaser.Scene {
     const particles: any[] = [];
     
     // Create more particles for better effect
-    for (let i = 0; i < 15; i++) {
+    const count = graphicsQuality.getPreset().smokeParticles;
+    for (let i = 0; i < count; i++) {
       const particle = this.add.graphics();
       particle.setDepth(44);
       
       // Random starting position in a circle
-      const angle = (Math.PI * 2 * i) / 15 + Math.random() * 0.5;
+      const angle = (Math.PI * 2 * i) / count + Math.random() * 0.5;
       const dist = Math.random() * 15;
       const x = smoke.position.x + Math.cos(angle) * dist;
       const y = smoke.position.y + Math.sin(angle) * dist;
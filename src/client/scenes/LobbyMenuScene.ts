@@ -1,6 +1,14 @@
 import { GAME_CONFIG } from '../../../shared/constants/index';
 import { NetworkSystem } from '../systems/NetworkSystem';
 import NetworkSystemSingleton from '../systems/NetworkSystemSingleton';
+import { ServerEventListeners } from '../../../shared/protocol/index';
+import { GamepadMenuNavigator } from '../ui/GamepadMenuNavigator';
+import { serverDirectory, AUTO_REGION } from '../systems/ServerDirectory';
+import { drawPingBars, PING_BARS_WIDTH } from '../ui/PingBars';
+import { musicManager } from '../systems/MusicManager';
+
+// Servers without spectator support never answer request_spectator
+const SPECTATE_TIMEOUT_MS = 5000;
 
 export class LobbyMenuScene extends Phaser.Scene {
   private networkSystem!: NetworkSystem;
@@ -16,16 +24,31 @@ export class LobbyMenuScene extends Phaser.Scene {
   private privateButton!: Phaser.GameObjects.Text;
   private joinLobbyButton!: Phaser.GameObjects.Text;
   private joinByIdButton!: Phaser.GameObjects.Text;
+  private spectateButton!: Phaser.GameObjects.Text;
+  private regionButton!: Phaser.GameObjects.Text;
+  private regionPicker?: Phaser.GameObjects.Container;
   
   // State
   private isConnected: boolean = false;
   private isAuthenticated: boolean = false;
+  private spectateTimer?: Phaser.Time.TimerEvent;
+  private spectatorListeners?: ServerEventListeners;
+  private pendingError: string | null = null; // Why we were sent back here, shown once the UI exists
+  private isSwitchingServer: boolean = false; // Lobby listeners live on the old socket until we restart
+  private unsubscribeProbes?: () => void;
 
   constructor() {
     super({ key: 'LobbyMenuScene' });
   }
 
+  init(data?: { error?: string }): void {
+    this.pendingError = data?.error || null;
+  }
+
   create(): void {
+    // Back from a lobby or a match - menu music again
+    musicManager.setState('menu');
+
     // Create atmospheric background from main menu
     this.createAtmosphericBackground();
     
@@ -48,13 +71,26 @@ export class LobbyMenuScene extends Phaser.Scene {
     // Create the main UI
     this.createUI();
     
+    // Controller users move between buttons with the d-pad, B goes back
+    new GamepadMenuNavigator(this, () => this.scene.start('MenuScene'));
+    
     // Check connection status
     this.checkConnectionStatus();
+    
+    if (this.pendingError) {
+      this.showError(this.pendingError);
+      this.pendingError = null;
+    }
   }
 
   private setupNetworkListeners(): void {
     // Connection events
     this.events.on('network:authenticated', () => {
+      if (this.isSwitchingServer) {
+        this.isSwitchingServer = false;
+        this.scene.restart();
+        return;
+      }
       this.isAuthenticated = true;
       this.updateConnectionStatus();
     });
@@ -92,6 +128,28 @@ export class LobbyMenuScene extends Phaser.Scene {
       this.showError(`Failed to join lobby: ${data.reason}`);
       this.enableButtons();
     });
+    
+    // ServerBrowserScene listens for these too - Phaser never calls shutdown(),
+    // so drop this scene's handlers (and only those) when it stops
+    const socket = this.networkSystem.getSocket();
+    if (!socket) return;
+    this.spectatorListeners?.removeAll();
+    this.spectatorListeners = new ServerEventListeners(socket)
+      .on('spectator_joined', (data) => {
+        console.log('👁️ Spectating lobby:', data);
+        this.spectateTimer?.destroy();
+        this.scene.start('SpectatorScene', { spectatorData: data });
+      })
+      .on('spectator_denied', (data) => {
+        console.warn('👁️ Spectate request declined:', data.reason);
+        this.spectateTimer?.destroy();
+        this.showError(`Cannot spectate: ${data.reason || 'declined by server'}`);
+        this.updateConnectionStatus();
+      });
+    this.events.once('shutdown', () => {
+      this.spectatorListeners?.removeAll();
+      this.spectatorListeners = undefined;
+    });
   }
 
   private createUI(): void {
@@ -158,11 +216,23 @@ export class LobbyMenuScene extends Phaser.Scene {
       fontFamily: 'monospace'
     }).setOrigin(0.5);
 
-    // Join by ID button - for joining friend's games
+    // Join by ID button - for joining friend's games (shares its row with WATCH)
+    const joinByIdWidth = 132;
+    const spectateWidth = buttonWidth - joinByIdWidth - 4;
     const joinByIdBg = this.add.graphics();
     joinByIdBg.fillStyle(0x444444);
-    joinByIdBg.fillRect(-buttonWidth/2, 55 - secondaryHeight/2, buttonWidth, secondaryHeight);
-    this.joinByIdButton = this.add.text(0, 55, 'JOIN BY CODE', {
+    joinByIdBg.fillRect(-buttonWidth/2, 55 - secondaryHeight/2, joinByIdWidth, secondaryHeight);
+    this.joinByIdButton = this.add.text(-buttonWidth/2 + joinByIdWidth/2, 55, 'JOIN BY CODE', {
+      fontSize: '12px',
+      color: '#ffffff',
+      fontFamily: 'monospace'
+    }).setOrigin(0.5);
+
+    // Watch by ID button - spectate a friend's game without taking a slot
+    const spectateBg = this.add.graphics();
+    spectateBg.fillStyle(0x444466);
+    spectateBg.fillRect(buttonWidth/2 - spectateWidth, 55 - secondaryHeight/2, spectateWidth, secondaryHeight);
+    this.spectateButton = this.add.text(buttonWidth/2 - spectateWidth/2, 55, 'WATCH', {
       fontSize: '12px',
       color: '#ffffff',
       fontFamily: 'monospace'
@@ -173,9 +243,10 @@ export class LobbyMenuScene extends Phaser.Scene {
     this.setupButton(this.privateButton, '#444444', '#666666', () => this.openServerBrowser());
     this.setupButton(this.joinLobbyButton, '#444444', '#666666', () => this.createPrivateLobby());
     this.setupButton(this.joinByIdButton, '#444444', '#666666', () => this.joinLobbyById());
+    this.setupButton(this.spectateButton, '#444466', '#666688', () => this.spectateLobbyById());
 
     // Add to container (backgrounds first, then text)
-    this.mainContainer.add([menuBorder, findMatchBg, this.findMatchButton, privateBg, this.privateButton, joinBg, this.joinLobbyButton, joinByIdBg, this.joinByIdButton]);
+    this.mainContainer.add([menuBorder, findMatchBg, this.findMatchButton, privateBg, this.privateButton, joinBg, this.joinLobbyButton, joinByIdBg, this.joinByIdButton, spectateBg, this.spectateButton]);
 
     // Status text - positioned below the adjusted container
     this.statusText = this.add.text(GAME_CONFIG.GAME_WIDTH / 2, GAME_CONFIG.GAME_HEIGHT / 2 + 100, 'Connecting...', {
@@ -209,6 +280,26 @@ export class LobbyMenuScene extends Phaser.Scene {
       this.scene.start('MenuScene');
     });
 
+    // Region picker - pinned region or AUTO (lowest latency)
+    this.regionButton = this.add.text(GAME_CONFIG.GAME_WIDTH - 10, GAME_CONFIG.GAME_HEIGHT - 20, '', {
+      fontSize: '10px',
+      color: '#ffffff',
+      backgroundColor: '#333333',
+      padding: { x: 10, y: 5 },
+      fontFamily: 'monospace'
+    }).setOrigin(1, 0.5);
+    this.regionButton.setDepth(3);
+    this.setupButton(this.regionButton, '#333333', '#555555', () => this.toggleRegionPicker());
+    this.updateRegionButton();
+
+    this.unsubscribeProbes = serverDirectory.onProbed(() => {
+      this.updateRegionButton();
+      if (this.regionPicker) this.showRegionPicker();
+    });
+    if (serverDirectory.hasMultipleServers()) {
+      serverDirectory.probeAll(this.networkSystem);
+    }
+
     // Instructions at bottom
     const instructions = this.add.text(GAME_CONFIG.GAME_WIDTH / 2, GAME_CONFIG.GAME_HEIGHT - 10, 
       'Instant Play for quick matches • Server Browser to find games • Create Private for friends', {
@@ -287,7 +378,7 @@ export class LobbyMenuScene extends Phaser.Scene {
     
     try {
       // Get default public server URL
-      const publicServerUrl = this.getDefaultServerUrl();
+      const publicServerUrl = await serverDirectory.resolveServerUrl(this.networkSystem);
       console.log('🚀 Auto-connecting to public server:', publicServerUrl);
       
       // Connect without password (public server)
@@ -305,7 +396,7 @@ export class LobbyMenuScene extends Phaser.Scene {
     
     // Add helpful debug info
     const debugText = this.add.text(GAME_CONFIG.GAME_WIDTH / 2, GAME_CONFIG.GAME_HEIGHT / 2 + 85, 
-      'Expected: Backend at http://localhost:3000\nCheck backend server status and try again', {
+      `Expected: Backend at ${serverDirectory.getPreferredServer().url}\nCheck backend server status and try again`, {
       fontSize: '8px',
       color: '#888888',
       align: 'center',
@@ -343,24 +434,150 @@ export class LobbyMenuScene extends Phaser.Scene {
     });
   }
 
-  private getDefaultServerUrl(): string {
-    // Use environment variable if available (for production)
-    const envBackendUrl = import.meta.env.VITE_BACKEND_URL;
-    if (envBackendUrl) {
-      return envBackendUrl;
-    }
+  private updateRegionButton(): void {
+    const selection = serverDirectory.getSelection();
+    const pinned = serverDirectory.getServer(selection);
+    const fastest = serverDirectory.getFastestServer();
     
-    // Check if we're on production domain
-    const hostname = window.location.hostname;
-    if (hostname === 'trespass.gg' || hostname === 'www.trespass.gg') {
-      // PRODUCTION FALLBACK - Update this with your actual Railway URL!
-      const productionUrl = 'https://trespasser-backend-production.up.railway.app';
-      console.warn('⚠️ No VITE_BACKEND_URL set, using production fallback:', productionUrl);
-      return productionUrl;
+    let label = 'AUTO';
+    if (pinned) {
+      label = pinned.region;
+    } else if (fastest && serverDirectory.hasMultipleServers()) {
+      label = `AUTO (${fastest.region})`;
+    }
+    this.regionButton.setText(`🌍 ${label}`);
+  }
+
+  private toggleRegionPicker(): void {
+    if (this.regionPicker) {
+      this.closeRegionPicker();
+      return;
     }
+    this.showRegionPicker();
+    serverDirectory.probeAll(this.networkSystem);
+  }
+
+  private closeRegionPicker(): void {
+    this.regionPicker?.destroy();
+    this.regionPicker = undefined;
+  }
+
+  /**
+   * (Re)build the picker - called again whenever probe results land
+   */
+  private showRegionPicker(): void {
+    this.closeRegionPicker();
+    
+    const servers = serverDirectory.getServers();
+    const selection = serverDirectory.getSelection();
+    const rowHeight = 16;
+    const width = 280;
+    const height = 44 + (servers.length + 1) * rowHeight;
+    
+    const picker = this.add.container(GAME_CONFIG.GAME_WIDTH / 2, GAME_CONFIG.GAME_HEIGHT / 2);
+    picker.setDepth(10);
+    this.regionPicker = picker;
+    
+    // Swallow clicks so the menu underneath doesn't react
+    const background = this.add.rectangle(0, 0, width, height, 0x111111, 0.97)
+      .setStrokeStyle(1, 0x00aa00)
+      .setInteractive();
+    const title = this.add.text(0, -height / 2 + 10, 'SELECT REGION', {
+      fontSize: '11px',
+      color: '#00ff00',
+      fontStyle: 'bold',
+      fontFamily: 'monospace'
+    }).setOrigin(0.5);
+    const bars = this.add.graphics();
+    picker.add([background, title, bars]);
+    
+    const left = -width / 2 + 10;
+    const right = width / 2 - 10;
+    const fastest = serverDirectory.getFastestServer();
+    const rows: Array<{ id: string; label: string; ping: number | null | undefined; favourite: boolean | null }> = [
+      { id: AUTO_REGION, label: fastest ? `AUTO - fastest (${fastest.region})` : 'AUTO - fastest', ping: fastest ? serverDirectory.getProbe(fastest.id)?.latency : undefined, favourite: null },
+      ...servers.map(server => ({
+        id: server.id,
+        label: `${server.region} - ${server.name}`,
+        ping: serverDirectory.getProbe(server.id)?.latency,
+        favourite: serverDirectory.isFavourite(server.id)
+      }))
+    ];
+    
+    rows.forEach((row, index) => {
+      const y = -height / 2 + 26 + index * rowHeight;
+      const isSelected = row.id === selection;
+      
+      // Favourite toggle (AUTO has none)
+      if (row.favourite !== null) {
+        const star = this.add.text(left, y, row.favourite ? '★' : '☆', {
+          fontSize: '10px',
+          color: row.favourite ? '#ffff00' : '#666666',
+          fontFamily: 'monospace'
+        }).setOrigin(0, 0.5).setInteractive({ useHandCursor: true });
+        star.on('pointerdown', () => {
+          serverDirectory.toggleFavourite(row.id);
+          this.showRegionPicker();
+        });
+        picker.add(star);
+      }
+      
+      const label = this.add.text(left + 14, y, `${isSelected ? '> ' : ''}${row.label}`, {
+        fontSize: '9px',
+        color: isSelected ? '#00ff00' : '#cccccc',
+        fontFamily: 'monospace'
+      }).setOrigin(0, 0.5).setInteractive({ useHandCursor: true });
+      label.on('pointerover', () => label.setColor('#ffffff'));
+      label.on('pointerout', () => label.setColor(isSelected ? '#00ff00' : '#cccccc'));
+      label.on('pointerdown', () => this.selectRegion(row.id));
+      
+      const latencyLabel = row.ping === undefined ? '...' : row.ping === null ? 'offline' : `${Math.round(row.ping)}ms`;
+      const latency = this.add.text(right - PING_BARS_WIDTH - 4, y, latencyLabel, {
+        fontSize: '8px',
+        color: row.ping === null ? '#ff4444' : '#888888',
+        fontFamily: 'monospace'
+      }).setOrigin(1, 0.5);
+      picker.add([label, latency]);
+      
+      drawPingBars(bars, right - PING_BARS_WIDTH, y - 4, row.ping);
+    });
     
-    // Fallback to localhost for development
-    return 'http://localhost:3000';
+    const close = this.add.text(0, height / 2 - 10, 'CLOSE', {
+      fontSize: '9px',
+      color: '#ffffff',
+      backgroundColor: '#333333',
+      padding: { x: 10, y: 2 },
+      fontFamily: 'monospace'
+    }).setOrigin(0.5);
+    this.setupButton(close, '#333333', '#555555', () => this.closeRegionPicker());
+    picker.add(close);
+  }
+
+  private async selectRegion(id: string): Promise<void> {
+    serverDirectory.setSelection(id);
+    this.closeRegionPicker();
+    this.updateRegionButton();
+    
+    const serverUrl = await serverDirectory.resolveServerUrl(this.networkSystem);
+    if (!this.scene.isActive() || serverUrl === this.networkSystem.getCurrentServerUrl()) return;
+    
+    // Different server - reconnect, then rebuild the scene against the new socket
+    console.log('🌍 Switching server to', serverUrl);
+    this.clearError();
+    this.disableButtons();
+    this.isConnected = false;
+    this.isAuthenticated = false;
+    this.isSwitchingServer = true;
+    this.statusText.setText('🌍 Switching server...');
+    this.statusText.setColor('#ffaa00');
+    
+    try {
+      await this.networkSystem.connectToServer(serverUrl, '');
+    } catch (error) {
+      console.error('❌ Server switch failed:', error);
+      this.isSwitchingServer = false;
+      this.showConnectionFallback();
+    }
   }
 
   private updateConnectionStatus(): void {
@@ -382,11 +599,13 @@ export class LobbyMenuScene extends Phaser.Scene {
     this.privateButton.setAlpha(1);
     this.joinLobbyButton.setAlpha(1);
     this.joinByIdButton.setAlpha(1);
+    this.spectateButton.setAlpha(1);
     
     this.findMatchButton.setData('enabled', true);
     this.privateButton.setData('enabled', true);
     this.joinLobbyButton.setData('enabled', true);
     this.joinByIdButton.setData('enabled', true);
+    this.spectateButton.setData('enabled', true);
   }
 
   private disableButtons(): void {
@@ -394,11 +613,13 @@ export class LobbyMenuScene extends Phaser.Scene {
     this.privateButton.setAlpha(0.5);
     this.joinLobbyButton.setAlpha(0.5);
     this.joinByIdButton.setAlpha(0.5);
+    this.spectateButton.setAlpha(0.5);
     
     this.findMatchButton.setData('enabled', false);
     this.privateButton.setData('enabled', false);
     this.joinLobbyButton.setData('enabled', false);
     this.joinByIdButton.setData('enabled', false);
+    this.spectateButton.setData('enabled', false);
   }
 
   private instantPlay(): void {
@@ -497,6 +718,39 @@ export class LobbyMenuScene extends Phaser.Scene {
     }
   }
 
+  private spectateLobbyById(): void {
+    console.log('👁️ Spectate lobby by ID...');
+    this.clearError();
+    
+    const lobbyId = prompt('Enter Lobby ID to watch:');
+    if (!lobbyId || !lobbyId.trim()) {
+      this.showError('Lobby ID is required');
+      return;
+    }
+    
+    const password = prompt('Enter lobby password (leave empty if no password):') || '';
+    
+    const socket = this.networkSystem.getSocket();
+    if (socket) {
+      socket.emit('request_spectator', {
+        lobbyId: lobbyId.trim(),
+        password: password.trim() || undefined
+      });
+      
+      this.statusText.setText('👁️ Requesting spectator slot...');
+      this.statusText.setColor('#ffaa00');
+      this.disableButtons();
+      
+      this.spectateTimer?.destroy();
+      this.spectateTimer = this.time.delayedCall(SPECTATE_TIMEOUT_MS, () => {
+        this.showError('Server did not respond - spectating may not be supported');
+        this.updateConnectionStatus();
+      });
+    } else {
+      this.showError('Not connected to server');
+    }
+  }
+
   private showError(message: string): void {
     this.errorText.setText(message);
     this.errorText.setVisible(true);
@@ -526,6 +780,13 @@ export class LobbyMenuScene extends Phaser.Scene {
       socket.off('lobby_creation_failed');
       socket.off('lobby_join_failed');
     }
+    this.spectatorListeners?.removeAll();
+    this.spectatorListeners = undefined;
+    this.spectateTimer?.destroy();
+    this.unsubscribeProbes?.();
+    this.unsubscribeProbes = undefined;
+    this.regionPicker = undefined;
+    this.isSwitchingServer = false;
     
     // NetworkSystem is a singleton, preserve it
   }
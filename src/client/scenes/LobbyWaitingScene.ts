@@ -1,11 +1,14 @@
 import { GAME_CONFIG } from '../../../shared/constants/index';
 import { NetworkSystem } from '../systems/NetworkSystem';
 import NetworkSystemSingleton from '../systems/NetworkSystemSingleton';
-import { LobbyStateManager, LobbyState } from '../systems/LobbyStateManager';
+import { LobbyStateManager, LobbyState, PlayerInfo } from '../systems/LobbyStateManager';
 import { SceneManager } from '../utils/SceneManager';
 import { SceneDebugger } from '../systems/SceneDebugger';
 import { DebugOverlay } from '../ui/DebugOverlay';
 import LobbyEventCoordinator from '../systems/LobbyEventCoordinator';
+import { drawPingBars, PING_BARS_WIDTH } from '../ui/PingBars';
+import { musicManager } from '../systems/MusicManager';
+import { ServerEventListeners } from '../../../shared/protocol/index';
 
 interface LobbyData {
   lobbyId: string;
@@ -31,12 +34,16 @@ export class LobbyWaitingScene extends Phaser.Scene {
   private inviteCodeText!: Phaser.GameObjects.Text;
   private lobbyIdText!: Phaser.GameObjects.Text;
   private copyNotification!: Phaser.GameObjects.Text;
+  private playerListContainer!: Phaser.GameObjects.Container;
+  private playerListGraphics!: Phaser.GameObjects.Graphics;
+  private playerListRows: Phaser.GameObjects.Text[] = [];
   
   // State
   private lobbyData!: LobbyData;
   private isPrivate: boolean = false;
   private countdown: number | null = null;
   private countdownTimer!: Phaser.Time.TimerEvent;
+  private lobbyPlayers: PlayerInfo[] = [];
   
   // State management
   private lobbyStateManager?: LobbyStateManager;
@@ -64,6 +71,8 @@ export class LobbyWaitingScene extends Phaser.Scene {
     this.add.rectangle(0, 0, GAME_CONFIG.GAME_WIDTH, GAME_CONFIG.GAME_HEIGHT, 0x111111)
       .setOrigin(0, 0);
 
+    musicManager.setState('lobby');
+
     // Force cleanup any conflicting scenes (prevents multiple scene issues)
     const sceneDebugger = new SceneDebugger(this);
     sceneDebugger.forceCleanup();
@@ -123,23 +132,24 @@ export class LobbyWaitingScene extends Phaser.Scene {
   private setupNetworkListeners(): void {
     const socket = this.networkSystem.getSocket();
     if (!socket) return;
+    const listeners = new ServerEventListeners(socket);
 
     // Player joined lobby (update count)
-    socket.on('lobby_joined', (data: any) => {
+    listeners.on('lobby_joined', (data) => {
       console.log('🏢 Player joined lobby:', data);
       this.lobbyData.playerCount = data.playerCount;
       this.updatePlayerCount();
     });
 
     // Player left lobby (update count)
-    socket.on('player_left_lobby', (data: any) => {
+    listeners.on('player_left_lobby', (data) => {
       console.log('👋 Player left lobby:', data);
       this.lobbyData.playerCount = data.playerCount;
       this.updatePlayerCount();
     });
 
     // Match starting countdown
-    socket.on('match_starting', (data: any) => {
+    listeners.on('match_starting', (data) => {
       console.log('⏱️ Match starting countdown:', data.countdown);
       
       // Stop any existing countdown before starting new one (handles timer resets)
@@ -161,9 +171,10 @@ export class LobbyWaitingScene extends Phaser.Scene {
     });
     
     // Handle match start cancellation (when players drop below 2)
-    socket.on('match_start_cancelled', (data: any) => {
+    listeners.on('match_start_cancelled', (data) => {
       console.log('❌ Match start cancelled:', data.reason);
       this.stopCountdown();
+      musicManager.setState('lobby');
       this.statusText.setText(data.reason || 'Not enough players');
       this.statusText.setColor('#ff6600');
       this.countdownText.setVisible(false);
@@ -178,16 +189,23 @@ export class LobbyWaitingScene extends Phaser.Scene {
     // Don't listen for game:state here - NetworkSystem handles it
 
     // Handle disconnection
-    socket.on('disconnect', () => {
+    const handleDisconnect = () => {
       console.log('❌ Disconnected from lobby');
       SceneManager.transition(this, 'LobbyMenuScene');
-    });
+    };
+    socket.on('disconnect', handleDisconnect);
 
     // Error handling
-    socket.on('lobby_error', (data: any) => {
+    listeners.on('lobby_error', (data) => {
       console.error('🚨 Lobby error:', data);
       SceneManager.transition(this, 'LobbyMenuScene');
     });
+
+    // Clean up on scene shutdown - only ours, NetworkSystem listens to some of these too
+    this.events.once('shutdown', () => {
+      listeners.removeAll();
+      socket.off('disconnect', handleDisconnect);
+    });
   }
 
   private createUI(): void {
@@ -345,10 +363,64 @@ export class LobbyWaitingScene extends Phaser.Scene {
       fontFamily: 'monospace'
     }).setOrigin(0.5);
 
+    // Player list with ping bars, right of the info box
+    this.createPlayerList();
+
     // Initial update
     this.updatePlayerCount();
   }
 
+  private createPlayerList(): void {
+    this.playerListContainer = this.add.container(GAME_CONFIG.GAME_WIDTH / 2 + 155, GAME_CONFIG.GAME_HEIGHT / 2 - 60);
+
+    const border = this.add.graphics();
+    border.lineStyle(1, 0x444444);
+    border.fillStyle(0x1a1a1a);
+    border.fillRect(0, 0, 84, 120);
+    border.strokeRect(0, 0, 84, 120);
+
+    const header = this.add.text(4, 4, 'PLAYERS', {
+      fontSize: '8px',
+      color: '#888888',
+      fontFamily: 'monospace'
+    });
+
+    this.playerListGraphics = this.add.graphics();
+    this.playerListContainer.add([border, header, this.playerListGraphics]);
+
+    this.lobbyPlayers = this.lobbyStateManager?.getState()?.players || [];
+    this.updatePlayerList();
+
+    // Our own ping is measured locally, so keep the bars moving between lobby updates
+    this.time.addEvent({ delay: 1000, loop: true, callback: () => this.updatePlayerList() });
+  }
+
+  private updatePlayerList(): void {
+    if (!this.playerListContainer || !this.playerListContainer.scene) return;
+
+    this.playerListRows.forEach(row => row.destroy());
+    this.playerListRows = [];
+    this.playerListGraphics.clear();
+
+    const localId = this.networkSystem.getSocket()?.id;
+    const localPing = this.networkSystem.getConnectionQuality().rtt;
+
+    this.lobbyPlayers.slice(0, 10).forEach((player, index) => {
+      const y = 16 + index * 10;
+      const isLocal = player.id === localId;
+      const row = this.add.text(4, y, (player.name || player.id).substring(0, 12), {
+        fontSize: '7px',
+        color: isLocal ? '#ffff00' : player.team === 'red' ? '#ff6666' : '#6699ff',
+        fontFamily: 'monospace'
+      });
+      this.playerListContainer.add(row);
+      this.playerListRows.push(row);
+
+      const ping = player.ping ?? (isLocal ? localPing : null);
+      drawPingBars(this.playerListGraphics, 80 - PING_BARS_WIDTH, y, ping);
+    });
+  }
+
   private setupButton(button: Phaser.GameObjects.Text, normalColor: string, hoverColor: string, callback: () => void): void {
     button.setInteractive({ useHandCursor: true });
     
@@ -537,9 +609,12 @@ export class LobbyWaitingScene extends Phaser.Scene {
     this.lobbyData.playerCount = state.playerCount;
     this.lobbyData.maxPlayers = state.maxPlayers;
     
+    this.lobbyPlayers = state.players || [];
+    
     // Update UI only if scene is still active
     if (this.scene.isActive()) {
       this.updatePlayerCount();
+      this.updatePlayerList();
     }
     
     // Handle status changes
@@ -637,6 +712,7 @@ export class LobbyWaitingScene extends Phaser.Scene {
     if (this.countdown === null) return;
 
     this.countdownText.setVisible(true);
+    musicManager.setState('countdown');
     
     // Check if this is immediate start or normal countdown
     if (this.countdown === 1) {
@@ -797,18 +873,7 @@ export class LobbyWaitingScene extends Phaser.Scene {
       this.debugOverlay = undefined;
     }
     
-    // Clean up network listeners
-    const socket = this.networkSystem.getSocket();
-    if (socket) {
-      socket.off('lobby_joined');
-      socket.off('player_left_lobby');
-      socket.off('match_starting');
-      socket.off('match_start_cancelled');
-      socket.off('match_started');
-      // Don't remove game:state - that's owned by NetworkSystem
-      socket.off('disconnect');
-      socket.off('lobby_error');
-    }
+    // Network listeners are removed by the shutdown handler in setupNetworkListeners
     
     // Clean up tweens
     this.tweens.killAll();
@@ -0,0 +1,877 @@
+import { GAME_CONFIG } from '../../../shared/constants/index';
+import { VISION_CONSTANTS } from '../../../shared/types/index';
+import { LevelData, Tileset, TileProperties, TileType, WallMaterial, SpawnPoint, GameObject, LightingConfig, AudioConfig } from '../../../shared/types/level';
+import { AssetManager } from '../utils/AssetManager';
+import { DestructionRenderer } from '../systems/DestructionRenderer';
+import { MapLoader, LevelWall, DEFAULT_LIGHTING, DEFAULT_AUDIO } from '../systems/MapLoader';
+import NetworkSystemSingleton from '../systems/NetworkSystemSingleton';
+import { LOCAL_SERVER_URL } from '../offline/LocalSocket';
+import { SLICE_HEALTH } from '../utils/wallGeometry';
+
+// Walls are painted on the 10px grid DestructionRenderer snaps to, so the preview can't drift
+const CELL_SIZE = 10;
+const COLS = GAME_CONFIG.GAME_WIDTH / CELL_SIZE;
+const ROWS = GAME_CONFIG.GAME_HEIGHT / CELL_SIZE;
+// Spawns snap to the centre of a fog-of-war tile
+const VISION_TILE = VISION_CONSTANTS.TILE_SIZE;
+
+const MAX_UNDO = 100;
+const TOOLBAR_HEIGHT = 12;
+
+type EditorTool = 'floor' | 'wall' | 'boundary' | 'red_spawn' | 'blue_spawn' | 'erase';
+
+const TOOLS: Array<{ tool: EditorTool; label: string }> = [
+  { tool: 'floor', label: '1 FLOOR' },
+  { tool: 'wall', label: '2 WALL' },
+  { tool: 'boundary', label: '3 BOUNDARY' },
+  { tool: 'red_spawn', label: '4 RED' },
+  { tool: 'blue_spawn', label: '5 BLUE' },
+  { tool: 'erase', label: '6 ERASE' }
+];
+
+const FLOOR_VARIANTS: Array<{ name: string; material: WallMaterial; color: string }> = [
+  { name: 'CONCRETE', material: 'concrete', color: '#5a5a5a' },
+  { name: 'METAL', material: 'metal', color: '#4a5866' },
+  { name: 'WOOD', material: 'wood', color: '#6e4c2c' },
+  { name: 'TILE', material: 'none', color: '#6a6a60' }
+];
+
+const WALL_MATERIALS: WallMaterial[] = ['concrete', 'wood', 'metal', 'glass'];
+const MATERIAL_COLORS: Record<string, number> = {
+  concrete: 0xaaaaaa,
+  wood: 0xc08040,
+  metal: 0x66aadd,
+  glass: 0x99ffff
+};
+
+// Palette layout: floor variants, then destructible walls, then indestructible walls
+const EDITOR_TILESET_NAME = 'editor_tiles';
+const FLOOR_GID_START = 1;
+const WALL_GID_START = FLOOR_GID_START + FLOOR_VARIANTS.length;
+const BOUNDARY_GID_START = WALL_GID_START + WALL_MATERIALS.length;
+const EDITOR_TILE_COUNT = BOUNDARY_GID_START + WALL_MATERIALS.length - 1;
+
+interface EditorSnapshot {
+  floor: number[];
+  walls: number[];
+  spawns: SpawnPoint[];
+}
+
+// Parts of an imported level the editor doesn't touch but must not lose on export
+interface LevelMeta {
+  id: string;
+  name: string;
+  version: string;
+  author: string;
+  description: string;
+  objects: GameObject[];
+  lighting: LightingConfig;
+  audio: AudioConfig;
+}
+
+function createEditorTileset(): Tileset {
+  const tiles: TileProperties[] = [];
+
+  FLOOR_VARIANTS.forEach((variant, i) => {
+    tiles.push({
+      id: FLOOR_GID_START - 1 + i,
+      type: TileType.FLOOR,
+      material: variant.material,
+      destructible: false,
+      bulletPenetration: 1,
+      explosionResistance: 0
+    });
+  });
+
+  [false, true].forEach(indestructible => {
+    WALL_MATERIALS.forEach((material, i) => {
+      tiles.push({
+        id: (indestructible ? BOUNDARY_GID_START : WALL_GID_START) - 1 + i,
+        type: material === 'glass' ? TileType.WINDOW : TileType.WALL,
+        material,
+        health: SLICE_HEALTH[material],
+        destructible: !indestructible,
+        bulletPenetration: material === 'glass' ? 0.8 : material === 'wood' ? 0.3 : 0,
+        explosionResistance: material === 'metal' ? 0.9 : material === 'wood' ? 0.3 : 0.7
+      });
+    });
+  });
+
+  return {
+    name: EDITOR_TILESET_NAME,
+    firstGid: 1,
+    image: '',
+    tileWidth: CELL_SIZE,
+    tileHeight: CELL_SIZE,
+    tileCount: EDITOR_TILE_COUNT,
+    columns: EDITOR_TILE_COUNT,
+    tiles
+  };
+}
+
+/**
+ * MapEditorScene - Paint LevelData maps in the client
+ *
+ * Floor tiles, walls of each material, indestructible boundaries and team
+ * spawns on the 480x270 play area. Walls go through MapLoader into a
+ * DestructionRenderer and are drawn with the same slice sprites GameScene
+ * uses, so the preview is what a match will show. Maps export/import as
+ * LevelData JSON and can be playtested against the offline LocalServer.
+ */
+export class MapEditorScene extends Phaser.Scene {
+  private assetManager!: AssetManager;
+  private destructionRenderer!: DestructionRenderer;
+  private mapLoader!: MapLoader;
+  private tileset: Tileset = createEditorTileset();
+
+  // Level contents
+  private floor: number[] = [];
+  private walls: number[] = [];
+  private spawns: SpawnPoint[] = [];
+  private meta!: LevelMeta;
+
+  // Editing state
+  private tool: EditorTool = 'wall';
+  private materialIndex: number = 0;
+  private floorVariant: number = 0;
+  private showVisionGrid: boolean = false;
+  private undoStack: EditorSnapshot[] = [];
+  private redoStack: EditorSnapshot[] = [];
+  private strokeStart: EditorSnapshot | null = null;
+  private floorDirty: boolean = true;
+  private wallsDirty: boolean = true;
+  private overlayDirty: boolean = true;
+  private previewWalls: LevelWall[] = [];
+
+  // Rendering / UI
+  private wallSprites: Phaser.GameObjects.Sprite[] = [];
+  private overlayGraphics!: Phaser.GameObjects.Graphics;
+  private cursorGraphics!: Phaser.GameObjects.Graphics;
+  private toolButtons: Map<EditorTool, Phaser.GameObjects.Text> = new Map();
+  private statusText!: Phaser.GameObjects.Text;
+  private messageText!: Phaser.GameObjects.Text;
+  private messageTimer: Phaser.Time.TimerEvent | null = null;
+
+  constructor() {
+    super({ key: 'MapEditorScene' });
+  }
+
+  init(data: { level?: LevelData }): void {
+    this.floor = new Array(COLS * ROWS).fill(0);
+    this.walls = new Array(COLS * ROWS).fill(0);
+    this.spawns = [];
+    this.meta = MapEditorScene.createMeta();
+    this.tool = 'wall';
+    this.undoStack = [];
+    this.redoStack = [];
+    this.strokeStart = null;
+    this.floorDirty = true;
+    this.wallsDirty = true;
+    this.overlayDirty = true;
+    this.wallSprites = [];
+    this.toolButtons.clear();
+
+    if (data?.level) {
+      try {
+        this.loadLevel(data.level);
+      } catch (error) {
+        console.error('❌ MapEditorScene: Could not open level:', error);
+      }
+    }
+  }
+
+  create(): void {
+    this.assetManager = new AssetManager(this);
+    this.createFloorBackground();
+    this.createEditorTexture();
+
+    this.destructionRenderer = new DestructionRenderer(this);
+    this.destructionRenderer.initialize();
+    this.mapLoader = new MapLoader(this);
+
+    // Tiles and walls sit at depth 0-10; editor overlays go on top of them
+    this.overlayGraphics = this.add.graphics().setDepth(50);
+    this.cursorGraphics = this.add.graphics().setDepth(60);
+
+    this.createUI();
+    this.setupControls();
+
+    this.events.once('shutdown', () => this.shutdown());
+  }
+
+  update(): void {
+    if (!this.floorDirty && !this.wallsDirty && !this.overlayDirty) return;
+
+    const level = this.buildLevel();
+    if (this.floorDirty) {
+      this.mapLoader.buildLayers(level);
+    }
+    if (this.wallsDirty) {
+      this.rebuildWalls(level);
+    }
+    this.floorDirty = false;
+    this.wallsDirty = false;
+    this.overlayDirty = false;
+
+    this.drawOverlay();
+    this.updateStatus();
+  }
+
+  private static createMeta(): LevelMeta {
+    return {
+      id: `custom_${Date.now().toString(36)}`,
+      name: 'Untitled Map',
+      version: '1.0.0',
+      author: '',
+      description: '',
+      objects: [],
+      lighting: { ...DEFAULT_LIGHTING },
+      audio: { ...DEFAULT_AUDIO }
+    };
+  }
+
+  // ===== SETUP =====
+
+  private createFloorBackground(): void {
+    try {
+      const floor = this.assetManager.createFloorTile(GAME_CONFIG.GAME_WIDTH / 2, GAME_CONFIG.GAME_HEIGHT / 2);
+      floor.setDepth(0);
+      floor.setScale(GAME_CONFIG.GAME_WIDTH / floor.width, GAME_CONFIG.GAME_HEIGHT / floor.height);
+    } catch (error) {
+      console.error('❌ MapEditorScene: Failed to create floor background:', error);
+      this.add.rectangle(0, 0, GAME_CONFIG.GAME_WIDTH, GAME_CONFIG.GAME_HEIGHT, 0x1a1a1a).setOrigin(0, 0).setDepth(0);
+    }
+  }
+
+  /**
+   * Draw the palette strip MapLoader uses for the floor layer. Textures are global,
+   * so GameScene can render editor floors during a playtest too.
+   */
+  private createEditorTexture(): void {
+    const key = MapLoader.getTilesetKey(this.tileset);
+    if (this.textures.exists(key)) return;
+
+    const texture = this.textures.createCanvas(key, EDITOR_TILE_COUNT * CELL_SIZE, CELL_SIZE);
+    if (!texture) return;
+    const ctx = texture.getContext();
+
+    FLOOR_VARIANTS.forEach((variant, i) => {
+      const x = i * CELL_SIZE;
+      ctx.globalAlpha = 0.75;
+      ctx.fillStyle = variant.color;
+      ctx.fillRect(x, 0, CELL_SIZE, CELL_SIZE);
+      ctx.globalAlpha = 0.35;
+      ctx.fillStyle = '#000000';
+      if (variant.name === 'WOOD') {
+        ctx.fillRect(x, 3, CELL_SIZE, 1);
+        ctx.fillRect(x, 7, CELL_SIZE, 1);
+      } else if (variant.name === 'METAL') {
+        ctx.fillRect(x + 1, 1, 1, 1);
+        ctx.fillRect(x + 8, 8, 1, 1);
+        ctx.fillRect(x, CELL_SIZE - 1, CELL_SIZE, 1);
+      } else if (variant.name === 'TILE') {
+        ctx.fillRect(x, 0, 5, 5);
+        ctx.fillRect(x + 5, 5, 5, 5);
+      } else {
+        ctx.fillRect(x + 2, 6, 1, 1);
+        ctx.fillRect(x + 7, 2, 1, 1);
+      }
+    });
+
+    // Wall swatches - never drawn as floor, but keep the strip complete for other tools
+    ctx.globalAlpha = 1;
+    [WALL_GID_START, BOUNDARY_GID_START].forEach(start => {
+      WALL_MATERIALS.forEach((material, i) => {
+        ctx.fillStyle = `#${MATERIAL_COLORS[material].toString(16).padStart(6, '0')}`;
+        ctx.fillRect((start - 1 + i) * CELL_SIZE, 0, CELL_SIZE, CELL_SIZE);
+      });
+    });
+
+    texture.refresh();
+  }
+
+  private createUI(): void {
+    let x = 2;
+    TOOLS.forEach(({ tool, label }) => {
+      const button = this.add.text(x, 1, label, {
+        fontSize: '7px',
+        color: '#ffffff',
+        fontFamily: 'monospace',
+        backgroundColor: '#333333',
+        padding: { x: 3, y: 1 }
+      }).setDepth(200);
+      button.setInteractive({ useHandCursor: true });
+      button.on('pointerdown', () => this.selectTool(tool));
+      this.toolButtons.set(tool, button);
+      x += button.width + 2;
+    });
+
+    this.add.text(GAME_CONFIG.GAME_WIDTH - 2, 1, 'Q/E material  G fog grid  B border  C clear  N name', {
+      fontSize: '7px',
+      color: '#aaaaaa',
+      fontFamily: 'monospace',
+      backgroundColor: '#000000aa',
+      padding: { x: 3, y: 1 }
+    }).setOrigin(1, 0).setDepth(200);
+
+    this.add.text(GAME_CONFIG.GAME_WIDTH - 2, GAME_CONFIG.GAME_HEIGHT - 1, 'Ctrl+Z/Y undo/redo  S save  L load  P playtest  ESC menu', {
+      fontSize: '7px',
+      color: '#aaaaaa',
+      fontFamily: 'monospace',
+      backgroundColor: '#000000aa',
+      padding: { x: 3, y: 1 }
+    }).setOrigin(1, 1).setDepth(200);
+
+    this.statusText = this.add.text(2, GAME_CONFIG.GAME_HEIGHT - 1, '', {
+      fontSize: '7px',
+      color: '#ffffff',
+      fontFamily: 'monospace',
+      backgroundColor: '#000000aa',
+      padding: { x: 3, y: 1 }
+    }).setOrigin(0, 1).setDepth(200);
+
+    this.messageText = this.add.text(GAME_CONFIG.GAME_WIDTH / 2, GAME_CONFIG.GAME_HEIGHT / 2, '', {
+      fontSize: '8px',
+      color: '#ffffff',
+      fontFamily: 'monospace',
+      align: 'center',
+      backgroundColor: '#000000cc',
+      padding: { x: 6, y: 4 },
+      wordWrap: { width: GAME_CONFIG.GAME_WIDTH - 40 }
+    }).setOrigin(0.5).setDepth(210).setVisible(false);
+
+    this.selectTool(this.tool);
+  }
+
+  private setupControls(): void {
+    this.input.mouse?.disableContextMenu();
+
+    this.input.on('pointerdown', (pointer: Phaser.Input.Pointer, over: Phaser.GameObjects.GameObject[]) => {
+      if (over.length > 0 || pointer.y < TOOLBAR_HEIGHT) return;
+      this.strokeStart = this.snapshot();
+      this.applyTool(pointer, true);
+    });
+
+    this.input.on('pointermove', (pointer: Phaser.Input.Pointer) => {
+      if (this.strokeStart && pointer.isDown) {
+        this.applyTool(pointer, false);
+      }
+      this.drawCursor(pointer);
+    });
+
+    this.input.on('pointerup', () => this.commitStroke());
+    this.input.on('gameout', () => this.commitStroke());
+
+    this.input.keyboard?.on('keydown', (event: KeyboardEvent) => {
+      const key = event.key.toLowerCase();
+
+      if (event.ctrlKey || event.metaKey) {
+        if (key === 'z' && !event.shiftKey) this.undo();
+        else if (key === 'y' || (key === 'z' && event.shiftKey)) this.redo();
+        else if (key === 's') this.exportLevel();
+        else if (key === 'o') this.openFilePicker();
+        else return;
+        event.preventDefault();
+        return;
+      }
+
+      const toolIndex = parseInt(key, 10) - 1;
+      if (toolIndex >= 0 && toolIndex < TOOLS.length) {
+        this.selectTool(TOOLS[toolIndex].tool);
+        return;
+      }
+
+      switch (key) {
+        case 'q': this.cycleMaterial(-1); break;
+        case 'e': this.cycleMaterial(1); break;
+        case 'g':
+          this.showVisionGrid = !this.showVisionGrid;
+          this.overlayDirty = true;
+          break;
+        case 'b': this.addBorder(); break;
+        case 'c': this.clearLevel(); break;
+        case 'n': this.renameLevel(); break;
+        case 's': this.exportLevel(); break;
+        case 'l': this.openFilePicker(); break;
+        case 'p': this.playtest(); break;
+        case 'escape': this.scene.start('MenuScene'); break;
+      }
+    });
+  }
+
+  // ===== EDITING =====
+
+  private selectTool(tool: EditorTool): void {
+    this.tool = tool;
+    this.toolButtons.forEach((button, buttonTool) => {
+      button.setBackgroundColor(buttonTool === tool ? '#006600' : '#333333');
+    });
+    this.updateStatus();
+  }
+
+  private cycleMaterial(direction: number): void {
+    if (this.tool === 'floor') {
+      this.floorVariant = Phaser.Math.Wrap(this.floorVariant + direction, 0, FLOOR_VARIANTS.length);
+    } else {
+      this.materialIndex = Phaser.Math.Wrap(this.materialIndex + direction, 0, WALL_MATERIALS.length);
+    }
+    this.updateStatus();
+  }
+
+  /**
+   * Left button paints with the current tool, right button erases what it paints.
+   * Spawns are placed per click rather than dragged.
+   */
+  private applyTool(pointer: Phaser.Input.Pointer, isClick: boolean): void {
+    const erasing = pointer.rightButtonDown();
+
+    if (this.tool === 'red_spawn' || this.tool === 'blue_spawn') {
+      if (!isClick) return;
+      if (erasing) {
+        this.removeSpawnNear(pointer.x, pointer.y);
+      } else {
+        this.placeSpawn(this.tool === 'red_spawn' ? 'red' : 'blue', pointer.x, pointer.y);
+      }
+      return;
+    }
+
+    const col = Math.floor(pointer.x / CELL_SIZE);
+    const row = Math.floor(pointer.y / CELL_SIZE);
+    if (col < 0 || row < 0 || col >= COLS || row >= ROWS) return;
+    const index = row * COLS + col;
+
+    switch (this.tool) {
+      case 'floor':
+        this.setFloor(index, erasing ? 0 : FLOOR_GID_START + this.floorVariant);
+        break;
+      case 'wall':
+        this.setWall(index, erasing ? 0 : WALL_GID_START + this.materialIndex);
+        break;
+      case 'boundary':
+        this.setWall(index, erasing ? 0 : BOUNDARY_GID_START + this.materialIndex);
+        break;
+      case 'erase':
+        // Walls come off first, then the floor underneath
+        if (this.walls[index] !== 0) {
+          this.setWall(index, 0);
+        } else {
+          this.setFloor(index, 0);
+        }
+        break;
+    }
+  }
+
+  private setFloor(index: number, gid: number): void {
+    if (this.floor[index] === gid) return;
+    this.floor[index] = gid;
+    this.floorDirty = true;
+  }
+
+  private setWall(index: number, gid: number): void {
+    if (this.walls[index] === gid) return;
+    this.walls[index] = gid;
+    this.wallsDirty = true;
+  }
+
+  private placeSpawn(team: 'red' | 'blue', x: number, y: number): void {
+    const position = {
+      x: Math.floor(x / VISION_TILE) * VISION_TILE + VISION_TILE / 2,
+      y: Math.floor(y / VISION_TILE) * VISION_TILE + VISION_TILE / 2
+    };
+    if (this.spawns.some(spawn => spawn.position.x === position.x && spawn.position.y === position.y)) return;
+
+    this.spawns.push({ id: '', team, position, radius: VISION_TILE, priority: 1 });
+    this.overlayDirty = true;
+  }
+
+  private removeSpawnNear(x: number, y: number): void {
+    let nearest = -1;
+    let nearestDistance: number = VISION_TILE;
+    this.spawns.forEach((spawn, i) => {
+      const distance = Math.hypot(spawn.position.x - x, spawn.position.y - y);
+      if (distance <= nearestDistance) {
+        nearest = i;
+        nearestDistance = distance;
+      }
+    });
+
+    if (nearest >= 0) {
+      this.spawns.splice(nearest, 1);
+      this.overlayDirty = true;
+    }
+  }
+
+  /**
+   * Ring the map edge with indestructible walls of the current material
+   */
+  private addBorder(): void {
+    this.strokeStart = this.snapshot();
+    const gid = BOUNDARY_GID_START + this.materialIndex;
+    for (let col = 0; col < COLS; col++) {
+      this.setWall(col, gid);
+      this.setWall((ROWS - 1) * COLS + col, gid);
+    }
+    for (let row = 0; row < ROWS; row++) {
+      this.setWall(row * COLS, gid);
+      this.setWall(row * COLS + COLS - 1, gid);
+    }
+    this.commitStroke();
+  }
+
+  private clearLevel(): void {
+    this.strokeStart = this.snapshot();
+    this.floor.fill(0);
+    this.walls.fill(0);
+    this.spawns = [];
+    this.floorDirty = true;
+    this.wallsDirty = true;
+    this.overlayDirty = true;
+    this.commitStroke();
+  }
+
+  private renameLevel(): void {
+    const name = prompt('Map name:', this.meta.name);
+    if (!name || !name.trim()) return;
+
+    this.meta.name = name.trim();
+    this.meta.id = this.meta.name.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '') || this.meta.id;
+    this.updateStatus();
+  }
+
+  // ===== UNDO / REDO =====
+
+  private snapshot(): EditorSnapshot {
+    return {
+      floor: [...this.floor],
+      walls: [...this.walls],
+      spawns: this.spawns.map(spawn => ({ ...spawn, position: { ...spawn.position } }))
+    };
+  }
+
+  private restore(snapshot: EditorSnapshot): void {
+    this.floor = [...snapshot.floor];
+    this.walls = [...snapshot.walls];
+    this.spawns = snapshot.spawns.map(spawn => ({ ...spawn, position: { ...spawn.position } }));
+    this.floorDirty = true;
+    this.wallsDirty = true;
+    this.overlayDirty = true;
+  }
+
+  /**
+   * One undo step per stroke (press to release), and only if it changed something
+   */
+  private commitStroke(): void {
+    const before = this.strokeStart;
+    this.strokeStart = null;
+    if (!before) return;
+
+    const changed = before.spawns.length !== this.spawns.length ||
+      before.floor.some((gid, i) => gid !== this.floor[i]) ||
+      before.walls.some((gid, i) => gid !== this.walls[i]) ||
+      before.spawns.some((spawn, i) => spawn.position.x !== this.spawns[i].position.x || spawn.position.y !== this.spawns[i].position.y);
+    if (!changed) return;
+
+    this.undoStack.push(before);
+    if (this.undoStack.length > MAX_UNDO) this.undoStack.shift();
+    this.redoStack = [];
+    this.updateStatus();
+  }
+
+  private undo(): void {
+    const previous = this.undoStack.pop();
+    if (!previous) return;
+    this.redoStack.push(this.snapshot());
+    this.restore(previous);
+  }
+
+  private redo(): void {
+    const next = this.redoStack.pop();
+    if (!next) return;
+    this.undoStack.push(this.snapshot());
+    this.restore(next);
+  }
+
+  // ===== LEVEL DATA =====
+
+  private buildLevel(): LevelData {
+    const teamCounts = { red: 0, blue: 0, neutral: 0 };
+    return {
+      id: this.meta.id,
+      name: this.meta.name,
+      version: this.meta.version,
+      author: this.meta.author,
+      description: this.meta.description,
+      width: COLS,
+      height: ROWS,
+      tileSize: CELL_SIZE,
+      layers: [
+        { id: 'floor', name: 'Floor', type: 'floor', visible: true, opacity: 1, data: [...this.floor] },
+        { id: 'walls', name: 'Walls', type: 'walls', visible: true, opacity: 1, data: [...this.walls] }
+      ],
+      tilesets: [this.tileset],
+      spawns: this.spawns.map(spawn => ({
+        ...spawn,
+        id: `${spawn.team}_spawn_${++teamCounts[spawn.team]}`,
+        position: { ...spawn.position }
+      })),
+      objects: this.meta.objects,
+      lighting: this.meta.lighting,
+      audio: this.meta.audio
+    };
+  }
+
+  /**
+   * Take over a parsed level. Walls are re-expressed with the editor palette so any
+   * LevelData (or Tiled export) at 480x270 with 10px tiles can be edited.
+   */
+  private loadLevel(level: LevelData): void {
+    if (level.width !== COLS || level.height !== ROWS || level.tileSize !== CELL_SIZE) {
+      throw new Error(`The editor works on ${COLS}x${ROWS} maps with ${CELL_SIZE}px tiles (this one is ${level.width}x${level.height} at ${level.tileSize}px)`);
+    }
+
+    const floor = new Array(COLS * ROWS).fill(0);
+    const walls = new Array(COLS * ROWS).fill(0);
+    let droppedFloor = 0;
+
+    level.layers.forEach(layer => {
+      layer.data.forEach((gid, i) => {
+        if (gid === 0) return;
+        const tile = MapLoader.getTileProperties(level, gid);
+        if (!tile) return;
+
+        if (layer.type === 'walls' && (tile.type === TileType.WALL || tile.type === TileType.WINDOW)) {
+          const materialIndex = Math.max(0, WALL_MATERIALS.indexOf(tile.material));
+          walls[i] = (tile.destructible ? WALL_GID_START : BOUNDARY_GID_START) + materialIndex;
+        } else if (layer.type === 'floor') {
+          const tileset = MapLoader.findTileset(level, gid);
+          if (tileset?.name === EDITOR_TILESET_NAME) {
+            floor[i] = gid - tileset.firstGid + 1;
+          } else {
+            droppedFloor++;
+          }
+        }
+      });
+    });
+
+    if (droppedFloor > 0) {
+      console.warn(`⚠️ MapEditorScene: ${droppedFloor} floor tiles use a tileset the editor can't paint - they were left blank`);
+    }
+
+    this.floor = floor;
+    this.walls = walls;
+    this.spawns = level.spawns.map(spawn => ({ ...spawn, position: { ...spawn.position } }));
+    this.meta = {
+      id: level.id,
+      name: level.name,
+      version: level.version,
+      author: level.author,
+      description: level.description,
+      objects: level.objects,
+      lighting: level.lighting,
+      audio: level.audio
+    };
+    this.undoStack = [];
+    this.redoStack = [];
+    this.floorDirty = true;
+    this.wallsDirty = true;
+    this.overlayDirty = true;
+  }
+
+  private exportLevel(): void {
+    const level = this.buildLevel();
+    const errors = MapLoader.validate(level);
+    if (errors.length > 0) {
+      this.showMessage(`Can't save yet:\n${errors.join('\n')}`);
+      return;
+    }
+
+    const blob = new Blob([JSON.stringify(level)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${level.id}.json`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+
+    console.log(`🗺️ MapEditorScene: Exported '${level.name}'`);
+    this.showMessage(`Saved ${level.id}.json`);
+  }
+
+  private openFilePicker(): void {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = '.json,application/json';
+    input.onchange = () => {
+      const file = input.files?.[0];
+      if (!file) return;
+
+      file.text().then(text => {
+        try {
+          this.loadLevel(MapLoader.parse(text));
+          console.log(`🗺️ MapEditorScene: Loaded ${file.name}`);
+          this.showMessage(`Loaded '${this.meta.name}'`);
+        } catch (error) {
+          console.error('❌ MapEditorScene: Failed to load map:', error);
+          this.showMessage((error as Error).message);
+        }
+      }).catch(error => {
+        console.error('❌ MapEditorScene: Failed to read map file:', error);
+        this.showMessage('Could not read file');
+      });
+    };
+    input.click();
+  }
+
+  /**
+   * Hand the map to the offline server and drop into a Play Now match on it
+   */
+  private async playtest(): Promise<void> {
+    const level = this.buildLevel();
+    const errors = MapLoader.validate(level);
+    if (errors.length > 0) {
+      this.showMessage(`Can't playtest yet:\n${errors.join('\n')}`);
+      return;
+    }
+
+    const networkSystem = NetworkSystemSingleton.getInstance(this);
+    if (!networkSystem.isOfflineMode() || !networkSystem.isSocketConnected()) {
+      await networkSystem.connectToServer(LOCAL_SERVER_URL);
+    }
+
+    const localServer = networkSystem.getLocalServer();
+    if (!localServer) {
+      this.showMessage('Offline server failed to start');
+      return;
+    }
+
+    localServer.setLevel(level);
+    this.game.registry.set('playNowMode', true);
+    console.log(`🗺️ MapEditorScene: Playtesting '${level.name}'`);
+    this.scene.start('ConfigureScene');
+  }
+
+  // ===== RENDERING =====
+
+  /**
+   * Feed the walls through DestructionRenderer, then draw them slice by slice
+   * exactly like GameScene.updateWallsFromDestructionRenderer
+   */
+  private rebuildWalls(level: LevelData): void {
+    this.previewWalls = MapLoader.extractWalls(level);
+    this.destructionRenderer.clearAllWalls();
+    this.previewWalls.forEach(wall => this.destructionRenderer.addWall(wall));
+
+    this.wallSprites.forEach(sprite => sprite.destroy());
+    this.wallSprites = [];
+
+    this.destructionRenderer.getWallsData(true).forEach(wall => {
+      const isPillar = wall.width === 10 && wall.height === 10;
+
+      for (let i = 0; i < 5; i++) {
+        let sliceX: number, sliceY: number;
+        if (isPillar) {
+          sliceX = wall.position.x + wall.width / 2;
+          sliceY = wall.position.y + i * 2 + 2;
+        } else if (wall.orientation === 'horizontal') {
+          const sliceWidth = wall.width / 5;
+          sliceX = wall.position.x + i * sliceWidth + sliceWidth / 2;
+          sliceY = wall.position.y + wall.height;
+        } else {
+          const sliceHeight = wall.height / 5;
+          sliceX = wall.position.x + wall.width / 2;
+          sliceY = wall.position.y + i * sliceHeight + sliceHeight;
+        }
+
+        const sprite = this.assetManager.createWall(sliceX, sliceY, wall.material === 'wood' ? 'wood' : 'concrete');
+        sprite.setDepth(10);
+        this.wallSprites.push(sprite);
+      }
+    });
+  }
+
+  private drawOverlay(): void {
+    const g = this.overlayGraphics;
+    g.clear();
+
+    // Wall grid
+    g.lineStyle(1, 0xffffff, 0.06);
+    for (let x = CELL_SIZE; x < GAME_CONFIG.GAME_WIDTH; x += CELL_SIZE) g.lineBetween(x, 0, x, GAME_CONFIG.GAME_HEIGHT);
+    for (let y = CELL_SIZE; y < GAME_CONFIG.GAME_HEIGHT; y += CELL_SIZE) g.lineBetween(0, y, GAME_CONFIG.GAME_WIDTH, y);
+
+    // Fog-of-war tiles, to line cover up with what players will actually see
+    if (this.showVisionGrid) {
+      g.lineStyle(1, 0x00ffff, 0.15);
+      for (let x = VISION_TILE; x < GAME_CONFIG.GAME_WIDTH; x += VISION_TILE) g.lineBetween(x, 0, x, GAME_CONFIG.GAME_HEIGHT);
+      for (let y = VISION_TILE; y < GAME_CONFIG.GAME_HEIGHT; y += VISION_TILE) g.lineBetween(0, y, GAME_CONFIG.GAME_WIDTH, y);
+    }
+
+    // Sprites only distinguish wood/concrete, so outline the real material
+    this.previewWalls.forEach(wall => {
+      if (wall.destructible) {
+        g.lineStyle(1, MATERIAL_COLORS[wall.material] ?? 0xffffff, 0.6);
+      } else {
+        g.lineStyle(1, 0xff3333, 0.9);
+      }
+      g.strokeRect(wall.position.x + 0.5, wall.position.y + 0.5, wall.width - 1, wall.height - 1);
+    });
+
+    this.spawns.forEach(spawn => {
+      const color = spawn.team === 'red' ? 0xff4444 : spawn.team === 'blue' ? 0x4488ff : 0xffffff;
+      g.fillStyle(color, 0.9);
+      g.fillCircle(spawn.position.x, spawn.position.y, 3);
+      g.lineStyle(1, color, 0.5);
+      g.strokeCircle(spawn.position.x, spawn.position.y, spawn.radius);
+    });
+  }
+
+  private drawCursor(pointer: Phaser.Input.Pointer): void {
+    const g = this.cursorGraphics;
+    g.clear();
+    if (pointer.y < TOOLBAR_HEIGHT) return;
+
+    if (this.tool === 'red_spawn' || this.tool === 'blue_spawn') {
+      const x = Math.floor(pointer.x / VISION_TILE) * VISION_TILE;
+      const y = Math.floor(pointer.y / VISION_TILE) * VISION_TILE;
+      g.lineStyle(1, this.tool === 'red_spawn' ? 0xff4444 : 0x4488ff, 1);
+      g.strokeRect(x + 0.5, y + 0.5, VISION_TILE - 1, VISION_TILE - 1);
+      return;
+    }
+
+    const x = Math.floor(pointer.x / CELL_SIZE) * CELL_SIZE;
+    const y = Math.floor(pointer.y / CELL_SIZE) * CELL_SIZE;
+    g.lineStyle(1, this.tool === 'erase' ? 0xff0000 : 0x00ff00, 1);
+    g.strokeRect(x + 0.5, y + 0.5, CELL_SIZE - 1, CELL_SIZE - 1);
+  }
+
+  private updateStatus(): void {
+    if (!this.statusText) return;
+
+    let brush = '';
+    if (this.tool === 'floor') brush = ` [${FLOOR_VARIANTS[this.floorVariant].name}]`;
+    if (this.tool === 'wall' || this.tool === 'boundary') brush = ` [${WALL_MATERIALS[this.materialIndex].toUpperCase()}]`;
+
+    const red = this.spawns.filter(spawn => spawn.team === 'red').length;
+    const blue = this.spawns.filter(spawn => spawn.team === 'blue').length;
+    this.statusText.setText(
+      `${this.meta.name}  ${this.tool.replace('_', ' ').toUpperCase()}${brush}  walls ${this.previewWalls.length}  spawns ${red}/${blue}  undo ${this.undoStack.length}`
+    );
+  }
+
+  private showMessage(message: string): void {
+    this.messageText.setText(message);
+    this.messageText.setVisible(true);
+    this.messageTimer?.remove();
+    this.messageTimer = this.time.delayedCall(3000, () => this.messageText.setVisible(false));
+  }
+
+  shutdown(): void {
+    this.commitStroke();
+    this.wallSprites.forEach(sprite => sprite.destroy());
+    this.wallSprites = [];
+    this.mapLoader?.destroy();
+    this.destructionRenderer?.destroy();
+    this.messageTimer = null;
+  }
+}
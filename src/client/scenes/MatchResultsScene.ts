@@ -2,6 +2,7 @@ import { GAME_CONFIG } from '../../../shared/constants/index';
 import { NetworkSystem } from '../systems/NetworkSystem';
 import NetworkSystemSingleton from '../systems/NetworkSystemSingleton';
 import { LobbyStateManager } from '../systems/LobbyStateManager';
+import { musicManager } from '../systems/MusicManager';
 
 interface MatchResults {
   lobbyId: string;
@@ -87,6 +88,8 @@ export class MatchResultsScene extends Phaser.Scene {
       
       // Create the UI
       this.createUI();
+
+      musicManager.playStinger(this.didLocalTeamWin() === false ? 'defeat' : 'victory');
       
       // Start auto-return countdown
       this.startAutoReturnTimer();
@@ -101,6 +104,16 @@ export class MatchResultsScene extends Phaser.Scene {
     }
   }
 
+  /**
+   * Null when we weren't on a team (spectating, or missing from the stats)
+   */
+  private didLocalTeamWin(): boolean | null {
+    const localId = this.networkSystem?.getSocket()?.id;
+    const team = this.matchResults.playerStats.find(stats => stats.playerId === localId)?.team
+      || this.game.registry.get('playerLoadout')?.team;
+    return team ? team === this.matchResults.winnerTeam : null;
+  }
+
   private createUI(): void {
     // Victory banner
     this.createVictoryBanner();
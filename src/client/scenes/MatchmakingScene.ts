@@ -3,6 +3,7 @@ import { NetworkSystem } from '../systems/NetworkSystem';
 import NetworkSystemSingleton from '../systems/NetworkSystemSingleton';
 import { LobbyStateManager, LobbyState } from '../systems/LobbyStateManager';
 import { DebugOverlay } from '../ui/DebugOverlay';
+import { ServerEventListeners } from '../../../shared/protocol/index';
 
 export class MatchmakingScene extends Phaser.Scene {
   private networkSystem!: NetworkSystem;
@@ -81,8 +82,10 @@ export class MatchmakingScene extends Phaser.Scene {
     const socket = this.networkSystem.getSocket();
     if (!socket) return;
     
+    const listeners = new ServerEventListeners(socket);
+    
     // Lobby events
-    socket.on('lobby_joined', (data: any) => {
+    listeners.on('lobby_joined', (data) => {
       console.log('🏢 Lobby joined from matchmaking:', data);
       this.lobbyId = data.lobbyId;
       this.playerCount = data.playerCount || 1;
@@ -120,7 +123,7 @@ export class MatchmakingScene extends Phaser.Scene {
     });
     
     // Player joined/left updates (for instant play mode)
-    socket.on('player_joined_lobby', (data: any) => {
+    listeners.on('player_joined_lobby', (data) => {
       if (this.instantPlay && data.lobbyId === this.lobbyId) {
         this.playerCount = data.playerCount;
         this.updatePlayerCount();
@@ -138,7 +141,7 @@ export class MatchmakingScene extends Phaser.Scene {
       }
     });
     
-    socket.on('player_left_lobby', (data: any) => {
+    listeners.on('player_left_lobby', (data) => {
       if (this.instantPlay && data.lobbyId === this.lobbyId) {
         this.playerCount = data.playerCount;
         this.updatePlayerCount();
@@ -151,7 +154,7 @@ export class MatchmakingScene extends Phaser.Scene {
     // If we need to know about game state, we should listen to Phaser events instead
     
     // Match starting countdown
-    socket.on('match_starting', (data: any) => {
+    listeners.on('match_starting', (data) => {
       console.log('⏱️ Match starting soon:', data);
       
       // Handle immediate start for full lobbies
@@ -166,13 +169,13 @@ export class MatchmakingScene extends Phaser.Scene {
     });
     
     // Handle match start cancellation
-    socket.on('match_start_cancelled', (data: any) => {
+    listeners.on('match_start_cancelled', (data) => {
       console.log('❌ Match start cancelled:', data.reason);
       this.statusText.setText(data.reason || 'Not enough players');
       this.statusText.setColor('#ff6600');
     });
     
-    socket.on('matchmaking_failed', (data: any) => {
+    listeners.on('matchmaking_failed', (data) => {
       console.error('❌ Matchmaking failed:', data.reason);
       this.stopLoadingAnimation();
       this.scene.start('LobbyMenuScene');
@@ -180,20 +183,16 @@ export class MatchmakingScene extends Phaser.Scene {
     });
     
     // Handle disconnection
-    socket.on('disconnect', () => {
+    const handleDisconnect = () => {
       this.stopLoadingAnimation();
       this.scene.start('LobbyMenuScene');
-    });
+    };
+    socket.on('disconnect', handleDisconnect);
     
-    // Clean up listeners on scene shutdown
+    // Clean up listeners on scene shutdown - only ours, NetworkSystem listens to some of these too
     this.events.once('shutdown', () => {
-      socket.off('lobby_joined');
-      socket.off('player_joined_lobby');
-      socket.off('player_left_lobby');
-      socket.off('match_starting');
-      socket.off('match_start_cancelled');
-      socket.off('matchmaking_failed');
-      socket.off('disconnect');
+      listeners.removeAll();
+      socket.off('disconnect', handleDisconnect);
     });
   }
   
@@ -495,17 +494,6 @@ export class MatchmakingScene extends Phaser.Scene {
       this.debugOverlay = undefined;
     }
     
-    // Clean up network listeners
-    const socket = this.networkSystem.getSocket();
-    if (socket) {
-      socket.off('lobby_joined');
-      socket.off('player_joined_lobby');
-      socket.off('player_left_lobby');
-      socket.off('match_starting');
-      // Note: match_started handled by LobbyEventCoordinator
-      // Don't remove game:state - that's owned by NetworkSystem
-      socket.off('matchmaking_failed');
-      socket.off('disconnect');
-    }
+    // Network listeners are removed by the shutdown handler in setupNetworkListeners
   }
 }
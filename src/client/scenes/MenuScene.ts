@@ -1,23 +1,46 @@
 import { GAME_CONFIG } from '../../../shared/constants/index';
 import { NetworkSystem } from '../systems/NetworkSystem';
 import NetworkSystemSingleton from '../systems/NetworkSystemSingleton';
+import { LOCAL_SERVER_URL } from '../offline/LocalSocket';
+import { serverDirectory } from '../systems/ServerDirectory';
+import { playerProfile, ACCENT_COLORS, PreferredTeam } from '../systems/PlayerProfile';
+import { GamepadMenuNavigator } from '../ui/GamepadMenuNavigator';
+import { keyBindings, describeBinding, describeAction } from '../systems/KeyBindings';
+import { padHitAreaForTouch } from '../utils/touchHitArea';
+import { musicManager } from '../systems/MusicManager';
+import { graphicsQuality } from '../systems/GraphicsQuality';
 
 export class MenuScene extends Phaser.Scene {
   // UI elements
   private connectionContainer!: Phaser.GameObjects.Container;
   private wallPositions: Array<{x: number, y: number, width: number, height: number}> = [];
+  private controlsHint!: Phaser.GameObjects.Text;
+  private loadoutStatus!: Phaser.GameObjects.Text;
+  private menuNavigator!: GamepadMenuNavigator;
 
   constructor() {
     super({ key: 'MenuScene' });
   }
 
   create(): void {
+    // A new session starts from the last saved preset
+    const lastPreset = playerProfile.getLastPreset();
+    if (lastPreset && !this.game.registry.get('playerLoadout')) {
+      this.game.registry.set('playerLoadout', lastPreset.loadout);
+    }
+    
+    // Starts on the first click or key press if audio is still locked
+    musicManager.setState('menu');
+
     // Create atmospheric background FIRST
     this.createAtmosphericBackground();
 
     // Create main menu UI AFTER background
     this.createConnectionUI();
     
+    // Controller users move between buttons with the d-pad
+    this.menuNavigator = new GamepadMenuNavigator(this);
+    
     // 🚀 NEW: Auto-connect to public server in background
     this.autoConnectToPublicServer();
   }
@@ -94,11 +117,12 @@ export class MenuScene extends Phaser.Scene {
       this.scene.start('LobbyMenuScene');
     });
 
-    // Configure button (fixed width rectangle)
+    // Loadout and Profile share a row (half width each)
+    const halfWidth = buttonWidth / 2 - 2;
     const configButtonBg = this.add.graphics();
     configButtonBg.fillStyle(0x333333);
-    configButtonBg.fillRect(-buttonWidth/2, 50 - secondaryHeight/2, buttonWidth, secondaryHeight);
-    const configureButton = this.add.text(0, 50, 'LOADOUT', {
+    configButtonBg.fillRect(-buttonWidth/2, 50 - secondaryHeight/2, halfWidth, secondaryHeight);
+    const configureButton = this.add.text(-buttonWidth/4, 50, 'LOADOUT', {
       fontSize: '12px',
       color: '#ffffff',
       fontFamily: 'monospace'
@@ -108,18 +132,58 @@ export class MenuScene extends Phaser.Scene {
       this.scene.start('ConfigureScene');
     });
 
-    // Settings button (fixed width rectangle)
+    const profileButtonBg = this.add.graphics();
+    profileButtonBg.fillStyle(0x333333);
+    profileButtonBg.fillRect(buttonWidth/2 - halfWidth, 50 - secondaryHeight/2, halfWidth, secondaryHeight);
+    const profileButton = this.add.text(buttonWidth/4, 50, 'PROFILE', {
+      fontSize: '12px',
+      color: '#ffffff',
+      fontFamily: 'monospace'
+    }).setOrigin(0.5);
+
+    this.setupButton(profileButton, '#333333', '#555555', () => {
+      this.openProfileModal();
+    });
+
+    // Settings, Replay and Editor buttons share the last row (third width each)
+    const thirdWidth = buttonWidth / 3 - 2;
     const settingsButtonBg = this.add.graphics();
     settingsButtonBg.fillStyle(0x444444);
-    settingsButtonBg.fillRect(-buttonWidth/2, 75 - secondaryHeight/2, buttonWidth, secondaryHeight);
-    const settingsButton = this.add.text(0, 75, 'CONFIG', {
+    settingsButtonBg.fillRect(-buttonWidth/2, 75 - secondaryHeight/2, thirdWidth, secondaryHeight);
+    const settingsButton = this.add.text(-buttonWidth/3, 75, 'CONFIG', {
       fontSize: '12px',
       color: '#ffffff',
       fontFamily: 'monospace'
     }).setOrigin(0.5);
 
     this.setupButton(settingsButton, '#444444', '#666666', () => {
-      this.openSettingsModal();
+      this.openSettings();
+    });
+
+    const replayButtonBg = this.add.graphics();
+    replayButtonBg.fillStyle(0x444444);
+    replayButtonBg.fillRect(-thirdWidth/2, 75 - secondaryHeight/2, thirdWidth, secondaryHeight);
+    const replayButton = this.add.text(0, 75, 'REPLAY', {
+      fontSize: '12px',
+      color: '#ffffff',
+      fontFamily: 'monospace'
+    }).setOrigin(0.5);
+
+    this.setupButton(replayButton, '#444444', '#666666', () => {
+      this.scene.start('ReplayScene');
+    });
+
+    const editorButtonBg = this.add.graphics();
+    editorButtonBg.fillStyle(0x444444);
+    editorButtonBg.fillRect(buttonWidth/2 - thirdWidth, 75 - secondaryHeight/2, thirdWidth, secondaryHeight);
+    const editorButton = this.add.text(buttonWidth/3, 75, 'EDITOR', {
+      fontSize: '12px',
+      color: '#ffffff',
+      fontFamily: 'monospace'
+    }).setOrigin(0.5);
+
+    this.setupButton(editorButton, '#444444', '#666666', () => {
+      this.scene.start('MapEditorScene');
     });
 
     // 🧪 HIDDEN TEST MODE: Hold Shift+T+E+S+T for 2 seconds to activate
@@ -160,42 +224,34 @@ export class MenuScene extends Phaser.Scene {
       directButtonBg, playNowButton,
       lobbyButtonBg, lobbySystemButton,
       configButtonBg, configureButton,
-      settingsButtonBg, settingsButton
+      profileButtonBg, profileButton,
+      settingsButtonBg, settingsButton,
+      replayButtonBg, replayButton,
+      editorButtonBg, editorButton
     ]);
 
     // Loadout status display (enhanced)
-    const loadoutStatus = this.add.text(0, 105, '', {
+    this.loadoutStatus = this.add.text(0, 105, '', {
       fontSize: '9px',
       color: '#888888',
       align: 'center',
       fontFamily: 'monospace'
     }).setOrigin(0.5);
-    
-    // Check if loadout is configured
-    const savedLoadout = this.game.registry.get('playerLoadout');
-    if (savedLoadout) {
-      const primary = savedLoadout.primary || 'None';
-      const team = savedLoadout.team || 'None';
-      loadoutStatus.setText(`✓ ${team.toUpperCase()} team, ${primary.toUpperCase()}`);
-      loadoutStatus.setColor('#00aa00');
-    } else {
-      loadoutStatus.setText('⚠ No loadout configured');
-      loadoutStatus.setColor('#ffaa00');
-    }
+    this.updateLoadoutStatus();
 
     // Add all elements to container
     this.connectionContainer.add([
-      menuBorder, title, subtitle, version, playNowButton, lobbySystemButton, configureButton, settingsButton, loadoutStatus
+      menuBorder, title, subtitle, version, playNowButton, lobbySystemButton, configureButton, profileButton, settingsButton, replayButton, editorButton, this.loadoutStatus
     ]);
 
-    // Instructions at bottom
-    this.add.text(GAME_CONFIG.GAME_WIDTH / 2, GAME_CONFIG.GAME_HEIGHT - 10, 
-      'Controls: WASD - Move, Ctrl - Sneak, Shift+W - Run, Mouse - Aim', {
+    // Instructions at bottom - follows the player's keymap
+    this.controlsHint = this.add.text(GAME_CONFIG.GAME_WIDTH / 2, GAME_CONFIG.GAME_HEIGHT - 10, '', {
       fontSize: '8px',
       color: '#888888',
       align: 'center',
       fontFamily: 'monospace'
     }).setOrigin(0.5);
+    this.updateControlsHint();
 
     // Add subtle pulsing animation to title
     this.tweens.add({
@@ -209,8 +265,34 @@ export class MenuScene extends Phaser.Scene {
     });
   }
 
+  private updateLoadoutStatus(): void {
+    // Check if loadout is configured
+    const savedLoadout = this.game.registry.get('playerLoadout');
+    const name = playerProfile.getDisplayName();
+    if (savedLoadout) {
+      const primary = savedLoadout.primary || 'None';
+      const team = savedLoadout.team || 'None';
+      this.loadoutStatus.setText(`✓ ${name} - ${team.toUpperCase()} team, ${primary.toUpperCase()}`);
+      this.loadoutStatus.setColor(playerProfile.getAccentColor());
+    } else {
+      this.loadoutStatus.setText(`${name} - ⚠ No loadout configured`);
+      this.loadoutStatus.setColor('#ffaa00');
+    }
+  }
+
+  private updateControlsHint(): void {
+    const move = (['moveUp', 'moveLeft', 'moveDown', 'moveRight'] as const)
+      .map(action => describeBinding(keyBindings.getBindings(action)[0]));
+    const moveText = move.every(label => label.length === 1) ? move.join('') : move.join('/');
+    this.controlsHint.setText(
+      `Controls: ${moveText} - Move, ${describeAction('sneak')} - Sneak, ${describeAction('sprint')} - Run, Mouse - Aim`
+    );
+  }
+
   private setupButton(button: Phaser.GameObjects.Text, normalColor: string, hoverColor: string, callback: () => void): void {
     button.setInteractive({ useHandCursor: true });
+    // Menu rows are 25px apart - 24px tall targets fill the gap without overlapping
+    padHitAreaForTouch(button, 8, 4, 24);
     
     button.on('pointerover', () => {
       button.setStyle({ backgroundColor: hoverColor });
@@ -248,96 +330,115 @@ export class MenuScene extends Phaser.Scene {
     });
   }
 
-  private openSettingsModal(): void {
-    // Create a simple in-game settings overlay
+  private openSettings(): void {
+    // The menu waits underneath until SettingsScene closes
+    this.events.once('settings:closed', () => {
+      this.scene.resume();
+      this.updateControlsHint();
+    });
+    this.scene.pause();
+    this.scene.launch('SettingsScene', { returnTo: this.scene.key });
+  }
+
+  private openProfileModal(): void {
     const overlay = this.add.graphics();
     overlay.fillStyle(0x000000, 0.8);
     overlay.fillRect(0, 0, GAME_CONFIG.GAME_WIDTH, GAME_CONFIG.GAME_HEIGHT);
     overlay.setDepth(1000);
 
-    const settingsContainer = this.add.container(GAME_CONFIG.GAME_WIDTH / 2, GAME_CONFIG.GAME_HEIGHT / 2);
-    settingsContainer.setDepth(1001);
+    const profileContainer = this.add.container(GAME_CONFIG.GAME_WIDTH / 2, GAME_CONFIG.GAME_HEIGHT / 2);
+    profileContainer.setDepth(1001);
 
-    // Settings panel background
     const panelBg = this.add.graphics();
     panelBg.fillStyle(0x222222);
     panelBg.lineStyle(2, 0x444444);
     panelBg.fillRect(-150, -100, 300, 200);
     panelBg.strokeRect(-150, -100, 300, 200);
 
-    // Settings title
-    const settingsTitle = this.add.text(0, -80, 'SETTINGS', {
+    const profileTitle = this.add.text(0, -80, 'PROFILE', {
       fontSize: '16px',
       color: '#00ff00',
       fontStyle: 'bold',
       fontFamily: 'monospace'
     }).setOrigin(0.5);
 
-    // Graphics quality setting
-    const graphicsLabel = this.add.text(-120, -40, 'Graphics Quality:', {
-      fontSize: '10px',
-      color: '#ffffff',
-      fontFamily: 'monospace'
-    });
-
-    const currentQuality = localStorage.getItem('graphics_quality') || 'medium';
-    const qualityButton = this.add.text(20, -40, currentQuality.toUpperCase(), {
+    const labelStyle = { fontSize: '10px', color: '#ffffff', fontFamily: 'monospace' };
+    const valueStyle = {
       fontSize: '10px',
       color: '#ffffff',
       backgroundColor: '#333333',
       padding: { x: 10, y: 4 },
       fontFamily: 'monospace'
-    });
-
-    this.setupButton(qualityButton, '#333333', '#555555', () => {
-      const qualities = ['low', 'medium', 'high'];
-      const currentIndex = qualities.indexOf(currentQuality);
-      const nextQuality = qualities[(currentIndex + 1) % qualities.length];
-      qualityButton.setText(nextQuality.toUpperCase());
-      localStorage.setItem('graphics_quality', nextQuality);
-    });
-
-    // Audio volume setting
-    const audioLabel = this.add.text(-120, -10, 'Master Volume:', {
-      fontSize: '10px',
-      color: '#ffffff',
-      fontFamily: 'monospace'
-    });
+    };
 
-    const currentVolume = localStorage.getItem('master_volume') || '100';
-    const volumeText = this.add.text(20, -10, `${currentVolume}%`, {
-      fontSize: '10px',
-      color: '#ffffff',
-      backgroundColor: '#333333',
-      padding: { x: 10, y: 4 },
-      fontFamily: 'monospace'
+    // Display name - what everyone else sees on the scoreboard
+    const nameLabel = this.add.text(-120, -50, 'Name:', labelStyle);
+    const nameButton = this.add.text(-20, -50, playerProfile.getDisplayName(), valueStyle);
+    const nameError = this.add.text(-20, -36, '', { fontSize: '8px', color: '#ff4444', fontFamily: 'monospace' });
+    this.setupButton(nameButton, '#333333', '#555555', () => {
+      const input = prompt('Display name:', playerProfile.getDisplayName());
+      if (input === null) return;
+      if (playerProfile.setDisplayName(input)) {
+        nameButton.setText(playerProfile.getDisplayName());
+        nameError.setText('');
+      } else {
+        nameError.setText('Letters, numbers, space _ - . only');
+      }
     });
 
-    // FPS Counter toggle
-    const fpsLabel = this.add.text(-120, 20, 'Show FPS:', {
-      fontSize: '10px',
-      color: '#ffffff',
-      fontFamily: 'monospace'
+    // Accent colour swatches
+    const colorLabel = this.add.text(-120, -20, 'Colour:', labelStyle);
+    const swatches = this.add.graphics();
+    const drawSwatches = () => {
+      swatches.clear();
+      ACCENT_COLORS.forEach((color, index) => {
+        const x = -20 + index * 18;
+        swatches.fillStyle(Phaser.Display.Color.HexStringToColor(color).color);
+        swatches.fillRect(x, -19, 12, 12);
+        if (color === playerProfile.getAccentColor()) {
+          swatches.lineStyle(1, 0xffffff);
+          swatches.strokeRect(x - 2, -21, 16, 16);
+        }
+      });
+      nameButton.setColor(playerProfile.getAccentColor());
+    };
+    const swatchHitAreas = ACCENT_COLORS.map((color, index) => {
+      const hitArea = this.add.rectangle(-20 + index * 18, -19, 12, 12, 0x000000, 0).setOrigin(0, 0);
+      hitArea.setInteractive({ useHandCursor: true });
+      hitArea.on('pointerdown', () => {
+        playerProfile.setAccentColor(color);
+        drawSwatches();
+      });
+      return hitArea;
     });
-
-    const showFps = localStorage.getItem('show_fps') === 'true';
-    const fpsButton = this.add.text(20, 20, showFps ? 'ON' : 'OFF', {
-      fontSize: '10px',
-      color: '#ffffff',
-      backgroundColor: showFps ? '#006600' : '#333333',
-      padding: { x: 10, y: 4 },
-      fontFamily: 'monospace'
+    drawSwatches();
+
+    // Preferred team - used when a loadout has none and as a balancing hint
+    const teamLabel = this.add.text(-120, 10, 'Preferred Team:', labelStyle);
+    const teamOrder: PreferredTeam[] = [null, 'red', 'blue'];
+    const describeTeam = (team: PreferredTeam) => team ? team.toUpperCase() : 'ANY';
+    const teamButton = this.add.text(20, 10, describeTeam(playerProfile.getPreferredTeam()), valueStyle);
+    this.setupButton(teamButton, '#333333', '#555555', () => {
+      const next = teamOrder[(teamOrder.indexOf(playerProfile.getPreferredTeam()) + 1) % teamOrder.length];
+      playerProfile.setPreferredTeam(next);
+      teamButton.setText(describeTeam(next));
     });
 
-    this.setupButton(fpsButton, showFps ? '#006600' : '#333333', showFps ? '#008800' : '#555555', () => {
-      const newState = !showFps;
-      fpsButton.setText(newState ? 'ON' : 'OFF');
-      fpsButton.setStyle({ backgroundColor: newState ? '#006600' : '#333333' });
-      localStorage.setItem('show_fps', newState.toString());
+    // Which saved preset quick-play and the loadout screen start from
+    const presetLabel = this.add.text(-120, 40, 'Quick-play Preset:', labelStyle);
+    const describePreset = () => playerProfile.getLastPreset()?.name || 'NONE';
+    const presetButton = this.add.text(20, 40, describePreset(), valueStyle);
+    this.setupButton(presetButton, '#333333', '#555555', () => {
+      const presets = playerProfile.getPresets();
+      if (presets.length === 0) return;
+      const index = presets.findIndex(preset => preset.id === playerProfile.getLastPreset()?.id);
+      const next = presets[(index + 1) % presets.length];
+      playerProfile.selectPreset(next.id);
+      this.game.registry.set('playerLoadout', next.loadout);
+      presetButton.setText(describePreset());
     });
 
-    // Close button
-    const closeButton = this.add.text(0, 70, 'CLOSE', {
+    const closeButton = this.add.text(0, 80, 'CLOSE', {
       fontSize: '12px',
       color: '#ffffff',
       backgroundColor: '#666666',
@@ -346,14 +447,17 @@ export class MenuScene extends Phaser.Scene {
     }).setOrigin(0.5);
 
     this.setupButton(closeButton, '#666666', '#888888', () => {
+      this.menuNavigator.popScope(profileContainer);
       overlay.destroy();
-      settingsContainer.destroy();
+      profileContainer.destroy();
+      this.updateLoadoutStatus();
     });
 
-    settingsContainer.add([
-      panelBg, settingsTitle, graphicsLabel, qualityButton, 
-      audioLabel, volumeText, fpsLabel, fpsButton, closeButton
+    profileContainer.add([
+      panelBg, profileTitle, nameLabel, nameButton, nameError, colorLabel, swatches, ...swatchHitAreas,
+      teamLabel, teamButton, presetLabel, presetButton, closeButton
     ]);
+    this.menuNavigator.pushScope(profileContainer);
   }
 
   private createAtmosphericBackground(): void {
@@ -463,6 +567,7 @@ export class MenuScene extends Phaser.Scene {
     
     // Convert angle to radians
     const angleRad = Phaser.Math.DegToRad(angle);
+    const preset = graphicsQuality.getPreset();
     
     // Create the cone flash graphics
     const coneGraphics = this.add.graphics();
@@ -488,7 +593,7 @@ export class MenuScene extends Phaser.Scene {
       const endAngle = angleRad + Phaser.Math.DegToRad(layer.spread);
       
       // Draw cone edges with more points for smoother curve
-      const steps = 20;
+      const steps = preset.menuConeSteps;
       for (let i = 0; i <= steps; i++) {
         const currentAngle = startAngle + (endAngle - startAngle) * (i / steps);
         const px = Math.cos(currentAngle) * layer.distance;
@@ -508,8 +613,10 @@ export class MenuScene extends Phaser.Scene {
     core.fillCircle(0, 0, 6);
     flashContainer.add(core);
     
-    // Illuminate with proper directional occlusion
-    this.illuminateDirectionalFlash(x, y, angle, 80, 25);
+    // Illuminate with proper directional occlusion - the ray casting is skipped at low quality
+    if (preset.menuLightRays > 0) {
+      this.illuminateDirectionalFlash(x, y, angle, 80, 25, preset.menuLightRays);
+    }
     
     // Animate the flash with recoil effect
     this.tweens.add({
@@ -542,15 +649,14 @@ export class MenuScene extends Phaser.Scene {
     });
   }
   
-  private illuminateDirectionalFlash(flashX: number, flashY: number, angle: number, maxDistance: number, spread: number): void {
+  private illuminateDirectionalFlash(flashX: number, flashY: number, angle: number, maxDistance: number, spread: number, rayCount: number): void {
     const illumination = this.add.graphics();
     illumination.setDepth(-5);
     
     // Convert angle to radians
     const angleRad = Phaser.Math.DegToRad(angle);
     
-    // Cast rays in a cone pattern
-    const rayCount = 32; // More rays for better precision
+    // Cast rays in a cone pattern - more rays for better precision
     const startAngle = angleRad - Phaser.Math.DegToRad(spread);
     const endAngle = angleRad + Phaser.Math.DegToRad(spread);
     
@@ -1071,7 +1177,7 @@ export class MenuScene extends Phaser.Scene {
       }
       
       // Get default public server URL
-      const publicServerUrl = this.getDefaultServerUrl();
+      const publicServerUrl = await this.getDefaultServerUrl(networkSystem);
       console.log('🌐 Auto-connecting to public server from main menu:', publicServerUrl);
       
       // Add a small delay to ensure the scene is fully loaded
@@ -1087,35 +1193,20 @@ export class MenuScene extends Phaser.Scene {
     }
   }
 
-  private getDefaultServerUrl(): string {
-    // Use environment variable if available (for production)
-    const envBackendUrl = import.meta.env.VITE_BACKEND_URL;
-    console.log('🔍 DEBUG: VITE_BACKEND_URL =', envBackendUrl);
-    
-    if (envBackendUrl) {
-      console.log('🔍 DEBUG: Using environment URL:', envBackendUrl);
-      return envBackendUrl;
+  private async getDefaultServerUrl(networkSystem: NetworkSystem): Promise<string> {
+    // ?offline runs the whole client against the in-browser LocalServer (designers, CI)
+    if (new URLSearchParams(window.location.search).has('offline')) {
+      console.log('🧪 Offline mode requested via URL, using local server');
+      return LOCAL_SERVER_URL;
     }
     
-    // Check if we're on production domain
-    const hostname = window.location.hostname;
-    if (hostname === 'trespass.gg' || hostname === 'www.trespass.gg') {
-      // PRODUCTION FALLBACK - Update this with your actual Railway URL!
-      const productionUrl = 'https://trespasser-backend-production.up.railway.app';
-      console.warn('⚠️ No VITE_BACKEND_URL set, using production fallback:', productionUrl);
-      console.warn('⚠️ Please set VITE_BACKEND_URL in Vercel environment variables!');
-      return productionUrl;
-    }
-    
-    // Fallback to localhost for development
-    const localUrl = 'http://localhost:3000';
-    console.log('🔍 DEBUG: Using localhost fallback:', localUrl);
-    return localUrl;
+    // Pinned region, or whichever configured server answers fastest
+    return serverDirectory.resolveServerUrl(networkSystem);
   }
 
   // 🧪 SECRET TEST MODE: Launch game directly with test loadout
-  private launchTestMode(): void {
-    console.log('🧪 LAUNCHING TEST MODE: Bypassing all connections');
+  private async launchTestMode(): Promise<void> {
+    console.log('🧪 LAUNCHING TEST MODE: Switching to offline local server');
     
     // Set a default test loadout
     const testLoadout = {
@@ -1129,7 +1220,14 @@ export class MenuScene extends Phaser.Scene {
     this.game.registry.set('playerLoadout', testLoadout);
     this.game.registry.set('testMode', true);
     
-    // Go to configure scene for test mode
+    // Test games run against the in-browser server so no backend is needed
+    const networkSystem = NetworkSystemSingleton.getInstance(this);
+    if (!networkSystem.isOfflineMode() || !networkSystem.isSocketConnected()) {
+      await networkSystem.connectToServer(LOCAL_SERVER_URL);
+    }
+    
+    // Play Now flow: confirming the loadout drops straight into an offline match
+    this.game.registry.set('playNowMode', true);
     console.log('Test mode: Going to ConfigureScene with test loadout');
     this.scene.start('ConfigureScene');
   }
@@ -0,0 +1,526 @@
+import { GAME_CONFIG } from '../../../shared/constants/index';
+import { GameState } from '../../../shared/types/index';
+import { ServerEventName, validateServerPayload } from '../../../shared/protocol/index';
+import { AssetManager } from '../utils/AssetManager';
+import { VisualEffectsSystem } from '../systems/VisualEffectsSystem';
+import { DestructionRenderer } from '../systems/DestructionRenderer';
+import { VisionRenderer } from '../systems/VisionRenderer';
+import { PlayerManager } from '../systems/PlayerManager';
+import { ReplayRecorder, ReplayRecording, ReplayEvent } from '../systems/ReplayRecorder';
+
+// Recorded server events that map 1:1 onto the scene events GameScene systems listen for
+const SCENE_EVENT_ROUTES: Partial<Record<ServerEventName, string>> = {
+  'weapon:fired': 'backend:weapon:fired',
+  'weapon:hit': 'backend:weapon:hit',
+  'weapon:miss': 'backend:weapon:miss',
+  'wall:damaged': 'backend:wall:damaged',
+  'wall:destroyed': 'backend:wall:destroyed',
+  'projectile:created': 'backend:projectile:created',
+  'projectile:updated': 'backend:projectile:updated',
+  'projectile:exploded': 'backend:projectile:exploded',
+  'explosion:created': 'backend:explosion:created',
+  'player:damaged': 'backend:player:damaged',
+  'player:killed': 'backend:player:killed'
+};
+
+const DEATH_EVENTS: ServerEventName[] = ['player_died', 'player:died', 'backend:player:died'];
+const RESPAWN_EVENTS: ServerEventName[] = ['player_respawned', 'player:respawned', 'backend:player:respawned', 'respawn_success'];
+
+const PLAYBACK_SPEEDS = [0.25, 0.5, 1, 2, 4];
+const SEEK_STEP_MS = 5000;
+const PROJECTILE_DEFAULT_LIFETIME_MS = 5000; // VisualEffectsSystem's fallback when created without one
+
+const TIMELINE_X = 40;
+const TIMELINE_Y = GAME_CONFIG.GAME_HEIGHT - 12;
+const TIMELINE_WIDTH = GAME_CONFIG.GAME_WIDTH - 100;
+
+/**
+ * ReplayScene - Plays back a recording made by ReplayRecorder
+ *
+ * Feeds recorded server events through the same systems GameScene uses
+ * (PlayerManager, DestructionRenderer, VisualEffectsSystem, VisionRenderer),
+ * so death/respawn and wall-sync bugs can be reproduced without a backend.
+ */
+export class ReplayScene extends Phaser.Scene {
+  private assetManager!: AssetManager;
+  private visualEffectsSystem!: VisualEffectsSystem;
+  private destructionRenderer!: DestructionRenderer;
+  private visionRenderer!: VisionRenderer;
+  private playerManager!: PlayerManager;
+
+  // UI
+  private wallGraphics!: Phaser.GameObjects.Graphics;
+  private timelineGraphics!: Phaser.GameObjects.Graphics;
+  private statusText!: Phaser.GameObjects.Text;
+  private timeText!: Phaser.GameObjects.Text;
+  private promptText!: Phaser.GameObjects.Text;
+  private bannerText!: Phaser.GameObjects.Text;
+
+  // Playback state
+  private recording: ReplayRecording | null = null;
+  private playhead: number = 0;
+  private nextEventIndex: number = 0;
+  private isPlaying: boolean = false;
+  private speedIndex: number = 2; // 1x
+  private frameCount: number = 0;
+  private skippedEvents: number = 0;
+
+  constructor() {
+    super({ key: 'ReplayScene' });
+  }
+
+  init(data: { recording?: ReplayRecording }): void {
+    this.recording = data?.recording || null;
+    this.playhead = 0;
+    this.nextEventIndex = 0;
+    this.isPlaying = false;
+    this.speedIndex = 2;
+    this.frameCount = 0;
+    this.skippedEvents = 0;
+  }
+
+  create(): void {
+    this.assetManager = new AssetManager(this);
+    this.createFloorBackground();
+
+    this.wallGraphics = this.add.graphics();
+    this.wallGraphics.setDepth(10);
+
+    this.visualEffectsSystem = new VisualEffectsSystem(this);
+    this.destructionRenderer = new DestructionRenderer(this);
+    this.visionRenderer = new VisionRenderer(this);
+    this.playerManager = new PlayerManager(this);
+    this.playerManager.setVisionRenderer(this.visionRenderer);
+
+    this.visualEffectsSystem.initialize();
+    this.destructionRenderer.initialize();
+
+    this.createUI();
+    this.setupControls();
+
+    this.events.once('shutdown', () => this.shutdown());
+
+    if (this.recording) {
+      this.startPlayback();
+    } else {
+      this.showPrompt('Click or press L to load a replay file');
+    }
+  }
+
+  update(_time: number, delta: number): void {
+    this.frameCount++;
+
+    if (this.recording && this.isPlaying) {
+      this.playhead = Math.min(this.playhead + delta * this.getSpeed(), this.recording.durationMs);
+      this.dispatchUntil(this.playhead);
+
+      if (this.playhead >= this.recording.durationMs) {
+        this.setPlaying(false);
+      }
+    }
+
+    // Phaser timers already run at timeScale, so effects use the raw frame delta
+    this.visualEffectsSystem.update(delta);
+    this.destructionRenderer.update(delta);
+
+    if (this.frameCount % 10 === 0) {
+      this.renderWalls();
+    }
+
+    this.updateUI();
+  }
+
+  private createFloorBackground(): void {
+    try {
+      const floor = this.assetManager.createFloorTile(GAME_CONFIG.GAME_WIDTH / 2, GAME_CONFIG.GAME_HEIGHT / 2);
+      floor.setDepth(0);
+      floor.setScale(GAME_CONFIG.GAME_WIDTH / floor.width, GAME_CONFIG.GAME_HEIGHT / floor.height);
+    } catch (error) {
+      console.error('❌ ReplayScene: Failed to create floor background:', error);
+      this.add.rectangle(0, 0, GAME_CONFIG.GAME_WIDTH, GAME_CONFIG.GAME_HEIGHT, 0x1a1a1a).setOrigin(0, 0).setDepth(0);
+    }
+  }
+
+  private createUI(): void {
+    // Everything here sits above the fog layer (depth 90)
+    this.statusText = this.add.text(5, 5, '', {
+      fontSize: '8px',
+      color: '#ffffff',
+      fontFamily: 'monospace',
+      backgroundColor: '#000000aa',
+      padding: { x: 3, y: 2 }
+    }).setDepth(200);
+
+    this.add.text(GAME_CONFIG.GAME_WIDTH - 5, 5, 'SPACE play/pause  ←/→ seek  ↑/↓ speed  L load  ESC menu', {
+      fontSize: '7px',
+      color: '#aaaaaa',
+      fontFamily: 'monospace',
+      backgroundColor: '#000000aa',
+      padding: { x: 3, y: 2 }
+    }).setOrigin(1, 0).setDepth(200);
+
+    this.timeText = this.add.text(TIMELINE_X + TIMELINE_WIDTH + 4, TIMELINE_Y, '', {
+      fontSize: '7px',
+      color: '#ffffff',
+      fontFamily: 'monospace'
+    }).setOrigin(0, 0.5).setDepth(200);
+
+    this.timelineGraphics = this.add.graphics();
+    this.timelineGraphics.setDepth(200);
+
+    // Invisible hit area over the timeline for click/drag seeking
+    const timelineZone = this.add.zone(TIMELINE_X, TIMELINE_Y - 6, TIMELINE_WIDTH, 12).setOrigin(0, 0);
+    timelineZone.setDepth(201);
+    timelineZone.setInteractive({ useHandCursor: true });
+    timelineZone.on('pointerdown', (pointer: Phaser.Input.Pointer) => this.seekToPointer(pointer));
+    timelineZone.on('pointermove', (pointer: Phaser.Input.Pointer) => {
+      if (pointer.isDown) this.seekToPointer(pointer);
+    });
+
+    const playButton = this.add.text(5, TIMELINE_Y, '▶/❚❚', {
+      fontSize: '8px',
+      color: '#ffffff',
+      fontFamily: 'monospace',
+      backgroundColor: '#333333',
+      padding: { x: 3, y: 1 }
+    }).setOrigin(0, 0.5).setDepth(200);
+    playButton.setInteractive({ useHandCursor: true });
+    playButton.on('pointerdown', () => this.togglePlaying());
+
+    this.promptText = this.add.text(GAME_CONFIG.GAME_WIDTH / 2, GAME_CONFIG.GAME_HEIGHT / 2, '', {
+      fontSize: '10px',
+      color: '#ffffff',
+      fontFamily: 'monospace',
+      align: 'center',
+      backgroundColor: '#000000cc',
+      padding: { x: 8, y: 6 }
+    }).setOrigin(0.5).setDepth(210).setVisible(false);
+    this.promptText.setInteractive({ useHandCursor: true });
+    // pointerup so the browser treats the file picker as user-initiated
+    this.promptText.on('pointerup', () => this.openFilePicker());
+
+    this.bannerText = this.add.text(GAME_CONFIG.GAME_WIDTH / 2, 40, '', {
+      fontSize: '16px',
+      color: '#ffffff',
+      fontFamily: 'monospace',
+      fontStyle: 'bold',
+      stroke: '#000000',
+      strokeThickness: 3
+    }).setOrigin(0.5).setDepth(210).setVisible(false);
+  }
+
+  private setupControls(): void {
+    this.input.keyboard?.on('keydown-SPACE', () => this.togglePlaying());
+    this.input.keyboard?.on('keydown-LEFT', () => this.seek(this.playhead - SEEK_STEP_MS));
+    this.input.keyboard?.on('keydown-RIGHT', () => this.seek(this.playhead + SEEK_STEP_MS));
+    this.input.keyboard?.on('keydown-UP', () => this.changeSpeed(1));
+    this.input.keyboard?.on('keydown-DOWN', () => this.changeSpeed(-1));
+    this.input.keyboard?.on('keydown-L', () => this.openFilePicker());
+    this.input.keyboard?.on('keydown-ESC', () => {
+      this.scene.start('MenuScene');
+    });
+  }
+
+  private openFilePicker(): void {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = '.json,application/json';
+    input.onchange = () => {
+      const file = input.files?.[0];
+      if (!file) return;
+
+      file.text().then(text => {
+        try {
+          this.recording = ReplayRecorder.parse(text);
+          console.log(`🎬 ReplayScene: Loaded ${file.name} (${this.recording.events.length} events)`);
+          this.startPlayback();
+        } catch (error) {
+          console.error('❌ ReplayScene: Failed to load replay:', error);
+          this.showPrompt(`${(error as Error).message}\nClick or press L to try another file`);
+        }
+      }).catch(error => {
+        console.error('❌ ReplayScene: Failed to read replay file:', error);
+        this.showPrompt('Could not read file\nClick or press L to try another file');
+      });
+    };
+    input.click();
+  }
+
+  private showPrompt(message: string): void {
+    this.promptText.setText(message);
+    this.promptText.setVisible(true);
+  }
+
+  private startPlayback(): void {
+    this.promptText.setVisible(false);
+    this.bannerText.setVisible(false);
+    this.skippedEvents = 0;
+    this.seek(0);
+    this.setPlaying(true);
+  }
+
+  private getSpeed(): number {
+    return PLAYBACK_SPEEDS[this.speedIndex];
+  }
+
+  private togglePlaying(): void {
+    if (!this.recording) return;
+
+    // Restart from the top when play is pressed at the end
+    if (!this.isPlaying && this.playhead >= this.recording.durationMs) {
+      this.seek(0);
+    }
+    this.setPlaying(!this.isPlaying);
+  }
+
+  private setPlaying(playing: boolean): void {
+    this.isPlaying = playing;
+    // Freeze tweens/timers so effects hold still while paused
+    const scale = playing ? this.getSpeed() : 0;
+    this.time.timeScale = scale;
+    this.tweens.timeScale = scale;
+  }
+
+  private changeSpeed(direction: number): void {
+    this.speedIndex = Phaser.Math.Clamp(this.speedIndex + direction, 0, PLAYBACK_SPEEDS.length - 1);
+    if (this.isPlaying) {
+      this.setPlaying(true);
+    }
+  }
+
+  private seekToPointer(pointer: Phaser.Input.Pointer): void {
+    if (!this.recording) return;
+    const ratio = Phaser.Math.Clamp((pointer.x - TIMELINE_X) / TIMELINE_WIDTH, 0, 1);
+    this.seek(ratio * this.recording.durationMs);
+  }
+
+  /**
+   * Jump to a point in the recording.
+   * Restores the latest game state that carried walls, replays wall damage since
+   * then, rebuilds projectiles still in flight and finishes with the latest game
+   * state for players - transient effects (trails, impacts) are not replayed.
+   */
+  private seek(target: number): void {
+    if (!this.recording) return;
+    const events = this.recording.events;
+    target = Phaser.Math.Clamp(target, 0, this.recording.durationMs);
+
+    this.visualEffectsSystem.clearAllEffects();
+    this.playerManager.clearAllPlayers();
+    this.destructionRenderer.clearAllWalls();
+    this.bannerText.setVisible(false);
+
+    // First event strictly after the target
+    let low = 0;
+    let high = events.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (events[mid][0] <= target) low = mid + 1;
+      else high = mid;
+    }
+    this.nextEventIndex = low;
+    this.playhead = target;
+
+    let latestState: ReplayEvent | null = null;
+    let wallStateIndex = -1;
+    for (let i = low - 1; i >= 0 && !(latestState && wallStateIndex >= 0); i--) {
+      const entry = events[i];
+      if (entry[1] !== 'game:state') continue;
+      if (!latestState) latestState = entry;
+      if (wallStateIndex < 0 && (entry[2] as GameState | null)?.walls) wallStateIndex = i;
+    }
+
+    if (wallStateIndex >= 0) {
+      this.applyEvent(events[wallStateIndex]);
+    }
+    for (let i = wallStateIndex + 1; i < low; i++) {
+      if (events[i][1] === 'wall:damaged' || events[i][1] === 'wall:destroyed') {
+        this.applyEvent(events[i]);
+      }
+    }
+    // Catching up on wall damage spawns impact effects the viewer never saw happen
+    this.visualEffectsSystem.clearAllEffects();
+
+    this.restoreProjectiles(low, target);
+    if (latestState) {
+      this.applyEvent(latestState);
+    }
+    this.renderWalls();
+  }
+
+  /**
+   * Recreate projectiles created before `endIndex` that hadn't exploded or
+   * outlived their lifetime by `time`, at their last recorded position
+   */
+  private restoreProjectiles(endIndex: number, time: number): void {
+    if (!this.recording) return;
+    const inFlight = new Map<string, ReplayEvent>();
+    const lastPositions = new Map<string, ReplayEvent>();
+
+    for (let i = 0; i < endIndex; i++) {
+      const entry = this.recording.events[i];
+      const id = (entry[2] as { id?: unknown } | null)?.id;
+      if (typeof id !== 'string') continue;
+
+      if (entry[1] === 'projectile:created') {
+        inFlight.set(id, entry);
+        lastPositions.delete(id);
+      } else if (entry[1] === 'projectile:updated') {
+        lastPositions.set(id, entry);
+      } else if (entry[1] === 'projectile:exploded') {
+        inFlight.delete(id);
+        lastPositions.delete(id);
+      }
+    }
+
+    inFlight.forEach((created, id) => {
+      const lifetime = (created[2] as { lifetime?: number }).lifetime ?? PROJECTILE_DEFAULT_LIFETIME_MS;
+      if (time - created[0] > lifetime) return;
+      this.applyEvent(created);
+      const update = lastPositions.get(id);
+      if (update) this.applyEvent(update);
+    });
+  }
+
+  private dispatchUntil(time: number): void {
+    if (!this.recording) return;
+    const events = this.recording.events;
+
+    while (this.nextEventIndex < events.length && events[this.nextEventIndex][0] <= time) {
+      this.applyEvent(events[this.nextEventIndex]);
+      this.nextEventIndex++;
+    }
+  }
+
+  private applyEvent([, event, payload]: ReplayEvent): void {
+    // Recordings are raw traffic - hold them to the same contract as live play
+    const problem = validateServerPayload(event, payload);
+    if (problem) {
+      this.skippedEvents++;
+      console.warn(`⚠️ ReplayScene: Skipping malformed '${event}' (${problem})`);
+      return;
+    }
+
+    const data = payload as any;
+
+    if (event === 'game:state') {
+      this.applyGameState(data as GameState);
+    } else if (DEATH_EVENTS.includes(event)) {
+      this.playerManager.handlePlayerDeath(data.playerId, data.position);
+    } else if (RESPAWN_EVENTS.includes(event)) {
+      this.playerManager.handlePlayerRespawn(data.playerId, data.position, data.invulnerableUntil);
+    } else if (event === 'match_ended') {
+      this.bannerText.setText(`${String(data.winnerTeam).toUpperCase()} TEAM WINS`);
+      this.bannerText.setColor(data.winnerTeam === 'red' ? '#ff4444' : '#4488ff');
+      this.bannerText.setVisible(true);
+    } else {
+      const sceneEvent = SCENE_EVENT_ROUTES[event];
+      if (sceneEvent) {
+        this.events.emit(sceneEvent, data);
+      }
+    }
+  }
+
+  private applyGameState(gameState: GameState): void {
+    // DestructionRenderer picks walls up from this event
+    this.events.emit('network:gameState', gameState);
+
+    if (gameState.vision) {
+      this.visionRenderer.updateVisionFromBackend(gameState.vision);
+    }
+
+    const allPlayers: { [key: string]: any } = gameState.players instanceof Map
+      ? Object.fromEntries(gameState.players)
+      : (gameState.players || {});
+
+    // Show exactly what the recording client saw, plus the recording client itself
+    let players: { [key: string]: any };
+    if (gameState.visiblePlayers && gameState.visiblePlayers.length > 0) {
+      players = {};
+      gameState.visiblePlayers.forEach(player => {
+        players[player.id] = player;
+      });
+    } else {
+      players = { ...allPlayers };
+    }
+
+    const localId = this.recording?.localPlayerId;
+    if (localId && !players[localId] && allPlayers[localId]) {
+      players[localId] = allPlayers[localId];
+    }
+
+    this.playerManager.updatePlayers(players);
+  }
+
+  private renderWalls(): void {
+    this.wallGraphics.clear();
+
+    for (const wall of this.destructionRenderer.getWallsData()) {
+      const isPillar = wall.width === 10 && wall.height === 10;
+      const baseColor = wall.material === 'wood' ? 0x8b5a2b : 0x808080;
+
+      for (let i = 0; i < 5; i++) {
+        if (wall.destructionMask[i] === 1) continue;
+
+        let x: number, y: number, w: number, h: number;
+        if (isPillar || wall.orientation === 'vertical') {
+          w = wall.width;
+          h = wall.height / 5;
+          x = wall.position.x;
+          y = wall.position.y + i * h;
+        } else {
+          w = wall.width / 5;
+          h = wall.height;
+          x = wall.position.x + i * w;
+          y = wall.position.y;
+        }
+
+        const healthPercent = wall.sliceHealth[i] / wall.maxHealth;
+        const alpha = healthPercent <= 0.25 ? 0.6 : healthPercent <= 0.75 ? 0.8 : 1.0;
+        this.wallGraphics.fillStyle(baseColor, alpha);
+        this.wallGraphics.fillRect(x, y, w, h);
+      }
+    }
+  }
+
+  private updateUI(): void {
+    if (!this.recording) {
+      this.statusText.setText('REPLAY - no file loaded');
+      this.timeText.setText('');
+      this.timelineGraphics.clear();
+      return;
+    }
+
+    const state = this.isPlaying ? '▶' : '❚❚';
+    const skipped = this.skippedEvents > 0 ? `  ${this.skippedEvents} skipped` : '';
+    this.statusText.setText(`REPLAY ${state} x${this.getSpeed()}  ${this.nextEventIndex}/${this.recording.events.length} events${skipped}`);
+    this.timeText.setText(`${this.formatTime(this.playhead)}/${this.formatTime(this.recording.durationMs)}`);
+
+    const progress = this.recording.durationMs > 0 ? this.playhead / this.recording.durationMs : 0;
+    this.timelineGraphics.clear();
+    this.timelineGraphics.fillStyle(0x333333, 0.9);
+    this.timelineGraphics.fillRect(TIMELINE_X, TIMELINE_Y - 2, TIMELINE_WIDTH, 4);
+    this.timelineGraphics.fillStyle(0x00ff00, 1);
+    this.timelineGraphics.fillRect(TIMELINE_X, TIMELINE_Y - 2, TIMELINE_WIDTH * progress, 4);
+    this.timelineGraphics.fillStyle(0xffffff, 1);
+    this.timelineGraphics.fillRect(TIMELINE_X + TIMELINE_WIDTH * progress - 1, TIMELINE_Y - 4, 2, 8);
+  }
+
+  private formatTime(ms: number): string {
+    const totalSeconds = Math.floor(ms / 1000);
+    const minutes = Math.floor(totalSeconds / 60);
+    const seconds = totalSeconds % 60;
+    return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+  }
+
+  shutdown(): void {
+    this.time.timeScale = 1;
+    this.tweens.timeScale = 1;
+
+    this.visualEffectsSystem?.destroy();
+    this.destructionRenderer?.destroy();
+    this.visionRenderer?.destroy();
+    this.playerManager?.destroy();
+    this.recording = null;
+  }
+}
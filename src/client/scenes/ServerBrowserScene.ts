@@ -1,6 +1,8 @@
 import { GAME_CONFIG } from '../../../shared/constants/index';
 import { NetworkSystem } from '../systems/NetworkSystem';
 import NetworkSystemSingleton from '../systems/NetworkSystemSingleton';
+import { isTouchDevice, padHitAreaForTouch } from '../utils/touchHitArea';
+import { ServerEventListeners } from '../../../shared/protocol/index';
 
 interface LobbyInfo {
   id: string;
@@ -15,10 +17,8 @@ interface LobbyInfo {
   lastActivity: number;
 }
 
-interface LobbyListResponse {
-  lobbies: LobbyInfo[];
-  totalCount: number;
-}
+// Servers without spectator support never answer request_spectator
+const SPECTATE_TIMEOUT_MS = 5000;
 
 export class ServerBrowserScene extends Phaser.Scene {
   private networkSystem!: NetworkSystem;
@@ -51,7 +51,9 @@ export class ServerBrowserScene extends Phaser.Scene {
     showInProgress: true  // Default to showing in-progress games
   };
   private refreshTimer?: Phaser.Time.TimerEvent;
+  private spectateTimer?: Phaser.Time.TimerEvent;
   private lobbyCards: Phaser.GameObjects.Container[] = [];
+  private serverListeners?: ServerEventListeners;
 
   constructor() {
     super({ key: 'ServerBrowserScene' });
@@ -225,23 +227,27 @@ export class ServerBrowserScene extends Phaser.Scene {
     const socket = this.networkSystem.getSocket();
     if (!socket) return;
 
+    // Phaser never calls shutdown() itself - remove only the handlers added here
+    this.serverListeners = new ServerEventListeners(socket);
+    this.events.once('shutdown', () => this.shutdown());
+
     // Listen for lobby list response
-    socket.on('lobby_list', (data: LobbyListResponse) => {
+    this.serverListeners.on('lobby_list', (data) => {
       console.log(`📋 Received ${data.totalCount} lobbies`);
-      this.lobbies = data.lobbies;
+      this.lobbies = data.lobbies as LobbyInfo[];
       this.applyFilters();
       this.statusText.setText(`Found ${data.totalCount} lobbies${this.searchTerm ? ` (${this.filteredLobbies.length} matching search)` : ''}`);
       this.statusText.setColor('#00aa00');
     });
 
     // Listen for join failures
-    socket.on('lobby_join_failed', (data: any) => {
+    this.serverListeners.on('lobby_join_failed', (data) => {
       console.error('❌ Failed to join lobby:', data.reason);
       this.showError(data.reason);
     });
 
     // Listen for successful join
-    socket.on('lobby_joined', (data: any) => {
+    this.serverListeners.on('lobby_joined', (data) => {
       console.log('✅ Joined lobby:', data);
       
       // Check if the lobby is already playing
@@ -249,6 +255,18 @@ export class ServerBrowserScene extends Phaser.Scene {
       console.log(`📝 ALL players get loadout configuration - going to LobbyWaitingScene (status: ${data.status})`);
       this.scene.start('LobbyWaitingScene', { lobbyData: data });
     });
+
+    this.serverListeners.on('spectator_joined', (data) => {
+      console.log('👁️ Spectating lobby:', data);
+      this.spectateTimer?.destroy();
+      this.scene.start('SpectatorScene', { spectatorData: data });
+    });
+
+    this.serverListeners.on('spectator_denied', (data) => {
+      console.warn('👁️ Spectate request declined:', data.reason);
+      this.spectateTimer?.destroy();
+      this.showError(`Cannot spectate: ${data.reason || 'declined by server'}`);
+    });
   }
 
   private openSearchDialog(): void {
@@ -422,8 +440,29 @@ export class ServerBrowserScene extends Phaser.Scene {
       });
     }
 
+    // Watch button - spectating doesn't take a player slot, so full lobbies are fine
+    const watchButton = this.add.text(cardWidth/2 - 80 - joinButton.width/2 - 8, 0, 'WATCH', {
+      fontSize: '11px',
+      color: '#ffffff',
+      backgroundColor: '#444466',
+      padding: { x: 10, y: 5 },
+      fontFamily: 'monospace'
+    }).setOrigin(1, 0.5);
+    this.setupButton(watchButton, '#444466', '#666688', () => {
+      this.spectateLobby(lobby);
+    });
+
     // Add all elements to container
-    container.add([bg, titleText, gameIdText, playerText, joinButton]);
+    container.add([bg, titleText, gameIdText, playerText]);
+
+    // On touch screens the whole card joins - the buttons sit above it and still win their own taps
+    if (canJoin && isTouchDevice(this)) {
+      const tapZone = this.add.zone(0, 0, cardWidth, cardHeight).setInteractive();
+      tapZone.on('pointerup', () => this.joinLobby(lobby));
+      container.add(tapZone);
+    }
+
+    container.add([joinButton, watchButton]);
     
     return container;
   }
@@ -456,8 +495,36 @@ export class ServerBrowserScene extends Phaser.Scene {
     this.statusText.setColor('#ffaa00');
   }
 
+  private spectateLobby(lobby: LobbyInfo): void {
+    const socket = this.networkSystem.getSocket();
+    if (!socket || !socket.connected) {
+      this.showError('Not connected to server');
+      return;
+    }
+
+    let password: string | undefined;
+    if (lobby.passwordRequired) {
+      const input = prompt('This lobby requires a password:');
+      if (input === null) return; // User cancelled
+      password = input.trim();
+    }
+
+    console.log(`👁️ Requesting to spectate lobby ${lobby.id}`);
+    socket.emit('request_spectator', { lobbyId: lobby.id, password });
+
+    this.statusText.setText('Requesting spectator slot...');
+    this.statusText.setColor('#ffaa00');
+
+    this.spectateTimer?.destroy();
+    this.spectateTimer = this.time.delayedCall(SPECTATE_TIMEOUT_MS, () => {
+      this.showError('Server did not respond - spectating may not be supported');
+    });
+  }
+
   private setupButton(button: Phaser.GameObjects.Text, normalColor: string, hoverColor: string, callback: () => void): void {
     button.setInteractive({ useHandCursor: true });
+    // Join and watch sit 8px apart on lobby cards - 4px each keeps them from overlapping
+    padHitAreaForTouch(button, 4);
     
     button.on('pointerover', () => {
       button.setBackgroundColor(hoverColor);
@@ -472,6 +539,7 @@ export class ServerBrowserScene extends Phaser.Scene {
 
   private setupToggle(toggle: Phaser.GameObjects.Text, callback: () => void): void {
     toggle.setInteractive({ useHandCursor: true });
+    padHitAreaForTouch(toggle, 4);
     
     toggle.on('pointerover', () => {
       toggle.setColor('#ffff00');
@@ -499,13 +567,10 @@ export class ServerBrowserScene extends Phaser.Scene {
     if (this.refreshTimer) {
       this.refreshTimer.destroy();
     }
+    this.spectateTimer?.destroy();
 
     // Clean up socket listeners
-    const socket = this.networkSystem?.getSocket();
-    if (socket) {
-      socket.off('lobby_list');
-      socket.off('lobby_join_failed');
-      socket.off('lobby_joined');
-    }
+    this.serverListeners?.removeAll();
+    this.serverListeners = undefined;
   }
 }
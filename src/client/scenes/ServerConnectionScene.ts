@@ -1,6 +1,7 @@
 import { GAME_CONFIG } from '../../../shared/constants/index';
 import { NetworkSystem, ConnectionState, ServerInfo } from '../systems/NetworkSystem';
 import NetworkSystemSingleton from '../systems/NetworkSystemSingleton';
+import { serverDirectory } from '../systems/ServerDirectory';
 
 export class ServerConnectionScene extends Phaser.Scene {
   private networkSystem!: NetworkSystem;
@@ -373,23 +374,8 @@ export class ServerConnectionScene extends Phaser.Scene {
   }
 
   private getDefaultServerUrl(): string {
-    // Use environment variable if available (for production)
-    const envBackendUrl = import.meta.env.VITE_BACKEND_URL;
-    if (envBackendUrl) {
-      return envBackendUrl;
-    }
-    
-    // Fallback to dynamic detection for local development
-    const hostname = window.location.hostname;
-    let serverUrl: string;
-    
-    if (hostname === 'localhost' || hostname === '127.0.0.1') {
-      serverUrl = 'http://localhost:3000';
-    } else {
-      serverUrl = `http://${hostname}:3000`;
-    }
-    
-    return serverUrl;
+    // Pinned region, or the fastest server probed so far
+    return serverDirectory.getPreferredServer().url;
   }
 
   update(): void {
@@ -1,6 +1,7 @@
 import { GAME_CONFIG } from '../../../shared/constants/index';
 import { NetworkSystem, ConnectionState, ServerInfo } from '../systems/NetworkSystem';
 import NetworkSystemSingleton from '../systems/NetworkSystemSingleton';
+import { serverDirectory } from '../systems/ServerDirectory';
 
 export class ServerConnectionSceneText extends Phaser.Scene {
   private networkSystem!: NetworkSystem;
@@ -419,19 +420,8 @@ export class ServerConnectionSceneText extends Phaser.Scene {
   }
 
   private getDefaultServerUrl(): string {
-    // Use environment variable if available (for production)
-    const envBackendUrl = import.meta.env.VITE_BACKEND_URL;
-    if (envBackendUrl) {
-      return envBackendUrl;
-    }
-    
-    // Fallback to dynamic detection for local development
-    const hostname = window.location.hostname;
-    if (hostname === 'localhost' || hostname === '127.0.0.1') {
-      return 'http://localhost:3000';
-    } else {
-      return `http://${hostname}:3000`;
-    }
+    // Pinned region, or the fastest server probed so far
+    return serverDirectory.getPreferredServer().url;
   }
 
   shutdown(): void {
@@ -0,0 +1,416 @@
+import { GAME_CONFIG } from '../../../shared/constants/index';
+import {
+  settingsStore,
+  SettingsCategory,
+  SettingId,
+  SETTINGS_CATEGORIES,
+  SETTING_OPTIONS,
+  SETTING_RANGES
+} from '../systems/SettingsStore';
+import { ControlsPanel } from '../ui/ControlsPanel';
+import { GamepadMenuNavigator } from '../ui/GamepadMenuNavigator';
+import { padHitAreaForTouch } from '../utils/touchHitArea';
+
+/**
+ * SettingsScene - Tabbed settings overlay
+ *
+ * Launched on top of the scene that opened it: MenuScene pauses underneath,
+ * GameScene keeps running with input frozen (the match can't stop for one
+ * player) and gets a LEAVE MATCH button here. Every control writes straight
+ * to SettingsStore, which the systems watch, so changes apply immediately.
+ * Closing emits 'settings:closed' on the opener's events; leaving emits
+ * 'settings:leave'.
+ */
+
+export interface SettingsSceneData {
+  returnTo: string;  // Scene key that opened us
+  inMatch?: boolean;
+}
+
+type Row =
+  | { kind: 'options'; label: string; id: SettingId<string>; labels: Record<string, string> }
+  | { kind: 'slider'; label: string; id: SettingId<number>; unit: string }
+  | { kind: 'toggle'; label: string; id: SettingId<boolean> }
+  | { kind: 'action'; label: string; text: string; onClick: () => void };
+
+const TAB_LABELS: Record<SettingsCategory, string> = {
+  video: 'VIDEO',
+  audio: 'AUDIO',
+  controls: 'CONTROLS',
+  gameplay: 'GAMEPLAY',
+  accessibility: 'ACCESS',
+  network: 'NETWORK'
+};
+
+const CROSSHAIR_COLOR_LABELS: Record<string, string> = {
+  '#ffffff': 'WHITE',
+  '#00ff00': 'GREEN',
+  '#00ffff': 'CYAN',
+  '#ffff00': 'YELLOW',
+  '#ff66cc': 'PINK'
+};
+
+const PANEL_WIDTH = 440;
+const PANEL_HEIGHT = 250;
+const TAB_WIDTH = 68;
+const ROWS_TOP = 76;
+const ROW_HEIGHT = 24;
+const LABEL_X = 44;
+const CONTROL_X = 250; // Left edge of every row's control
+const VALUE_WIDTH = 84;
+const TRACK_WIDTH = 100;
+
+const BUTTON_STYLE = {
+  fontSize: '9px',
+  color: '#ffffff',
+  backgroundColor: '#333333',
+  padding: { x: 6, y: 3 },
+  fontFamily: 'monospace',
+  align: 'center'
+};
+
+export class SettingsScene extends Phaser.Scene {
+  private returnTo: string = 'MenuScene';
+  private inMatch: boolean = false;
+  private activeTab: SettingsCategory = 'video';
+  private tabButtons: Map<SettingsCategory, Phaser.GameObjects.Text> = new Map();
+  private rowObjects: Phaser.GameObjects.GameObject[] = [];
+  private rowRefreshers: Array<() => void> = [];
+  private controlsPanel: ControlsPanel | null = null;
+  private menuNavigator!: GamepadMenuNavigator;
+  private unsubscribe: (() => void) | null = null;
+  // Slider being dragged, by the setting it controls
+  private dragging: { id: SettingId<number>; left: number } | null = null;
+
+  constructor() {
+    super({ key: 'SettingsScene' });
+  }
+
+  init(data: SettingsSceneData): void {
+    this.returnTo = data?.returnTo || 'MenuScene';
+    this.inMatch = data?.inMatch === true;
+  }
+
+  create(): void {
+    this.tabButtons.clear();
+    this.rowObjects = [];
+    this.rowRefreshers = [];
+    this.controlsPanel = null;
+    this.dragging = null;
+
+    // Swallows clicks meant for whatever is underneath
+    this.add.rectangle(0, 0, GAME_CONFIG.GAME_WIDTH, GAME_CONFIG.GAME_HEIGHT, 0x000000, 0.8)
+      .setOrigin(0, 0)
+      .setInteractive();
+
+    const left = (GAME_CONFIG.GAME_WIDTH - PANEL_WIDTH) / 2;
+    const top = (GAME_CONFIG.GAME_HEIGHT - PANEL_HEIGHT) / 2;
+    const panelBg = this.add.graphics();
+    panelBg.fillStyle(0x222222);
+    panelBg.lineStyle(2, 0x444444);
+    panelBg.fillRect(left, top, PANEL_WIDTH, PANEL_HEIGHT);
+    panelBg.strokeRect(left, top, PANEL_WIDTH, PANEL_HEIGHT);
+
+    this.add.text(GAME_CONFIG.GAME_WIDTH / 2, top + 14, this.inMatch ? 'PAUSED' : 'SETTINGS', {
+      fontSize: '14px',
+      color: '#00ff00',
+      fontStyle: 'bold',
+      fontFamily: 'monospace'
+    }).setOrigin(0.5);
+
+    if (this.inMatch) {
+      this.add.text(GAME_CONFIG.GAME_WIDTH / 2, top + 27, 'The match keeps running', {
+        fontSize: '7px',
+        color: '#888888',
+        fontFamily: 'monospace'
+      }).setOrigin(0.5);
+    }
+
+    this.createTabs(top + 44);
+    this.createFooter(top + PANEL_HEIGHT - 16);
+    this.showTab(this.activeTab);
+
+    // Something else changed a setting (F3, F4, another tab's reset) - keep the rows honest
+    this.unsubscribe = settingsStore.onChange(() => this.rowRefreshers.forEach(refresh => refresh()));
+
+    this.input.on('pointermove', this.handleDrag, this);
+    this.input.on('pointerup', this.endDrag, this);
+    this.input.keyboard?.on('keydown-ESC', this.handleEscape, this);
+
+    this.menuNavigator = new GamepadMenuNavigator(this, () => this.close());
+    this.events.once(Phaser.Scenes.Events.SHUTDOWN, this.shutdown, this);
+  }
+
+  private shutdown(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    this.input.off('pointermove', this.handleDrag, this);
+    this.input.off('pointerup', this.endDrag, this);
+    this.input.keyboard?.off('keydown-ESC', this.handleEscape, this);
+  }
+
+  private createTabs(y: number): void {
+    const gap = 3;
+    const totalWidth = SETTINGS_CATEGORIES.length * TAB_WIDTH + (SETTINGS_CATEGORIES.length - 1) * gap;
+    const firstX = (GAME_CONFIG.GAME_WIDTH - totalWidth) / 2 + TAB_WIDTH / 2;
+
+    SETTINGS_CATEGORIES.forEach((category, index) => {
+      const tab = this.add.text(firstX + index * (TAB_WIDTH + gap), y, TAB_LABELS[category], {
+        ...BUTTON_STYLE,
+        fontSize: '8px',
+        fixedWidth: TAB_WIDTH - 12
+      }).setOrigin(0.5);
+
+      this.setupButton(tab, () => this.showTab(category), () => category === this.activeTab ? '#006600' : '#333333');
+      this.tabButtons.set(category, tab);
+    });
+  }
+
+  private createFooter(y: number): void {
+    const resetButton = this.add.text(GAME_CONFIG.GAME_WIDTH / 2 - 130, y, 'RESET TAB', { ...BUTTON_STYLE, backgroundColor: '#663300' })
+      .setOrigin(0.5);
+    this.setupButton(resetButton, () => settingsStore.resetCategory(this.activeTab), () => '#663300', '#884400');
+
+    const closeButton = this.add.text(GAME_CONFIG.GAME_WIDTH / 2, y, this.inMatch ? 'RESUME' : 'CLOSE', { ...BUTTON_STYLE, backgroundColor: '#666666' })
+      .setOrigin(0.5);
+    this.setupButton(closeButton, () => this.close(), () => '#666666', '#888888');
+
+    if (this.inMatch) {
+      const leaveButton = this.add.text(GAME_CONFIG.GAME_WIDTH / 2 + 130, y, 'LEAVE MATCH', { ...BUTTON_STYLE, backgroundColor: '#660000' })
+        .setOrigin(0.5);
+      this.setupButton(leaveButton, () => this.leaveMatch(), () => '#660000', '#880000');
+    }
+  }
+
+  private showTab(category: SettingsCategory): void {
+    this.activeTab = category;
+    this.endDrag();
+    this.rowObjects.forEach(object => object.destroy());
+    this.rowObjects = [];
+    this.rowRefreshers = [];
+
+    this.tabButtons.forEach((tab, tabCategory) => {
+      tab.setStyle({ backgroundColor: tabCategory === category ? '#006600' : '#333333' });
+    });
+
+    this.getRows(category).forEach((row, index) => this.createRow(row, ROWS_TOP + index * ROW_HEIGHT));
+  }
+
+  private getRows(category: SettingsCategory): Row[] {
+    switch (category) {
+      case 'video':
+        return [
+          { kind: 'options', label: 'Graphics quality', id: 'video.quality', labels: { auto: 'AUTO', low: 'LOW', medium: 'MEDIUM', high: 'HIGH' } },
+          { kind: 'toggle', label: 'Show FPS (F3)', id: 'video.showFps' }
+        ];
+      case 'audio':
+        return [
+          { kind: 'slider', label: 'Master volume', id: 'audio.master', unit: '%' },
+          { kind: 'slider', label: 'Effects volume', id: 'audio.sfx', unit: '%' },
+          { kind: 'slider', label: 'Music volume', id: 'audio.music', unit: '%' }
+        ];
+      case 'controls':
+        return [
+          { kind: 'action', label: 'Keyboard and mouse', text: 'REBIND', onClick: () => this.openControlsPanel() },
+          { kind: 'slider', label: 'Gamepad aim distance', id: 'controls.gamepadAimRadius', unit: 'px' }
+        ];
+      case 'gameplay':
+        return [
+          { kind: 'options', label: 'Crosshair', id: 'gameplay.crosshairStyle', labels: { dots: 'DOTS', cross: 'CROSS', dot: 'DOT' } },
+          { kind: 'options', label: 'Crosshair colour', id: 'gameplay.crosshairColor', labels: CROSSHAIR_COLOR_LABELS },
+          { kind: 'slider', label: 'Screen shake', id: 'gameplay.screenShake', unit: '%' },
+          { kind: 'toggle', label: 'Save replay when leaving', id: 'gameplay.saveReplayOnExit' }
+        ];
+      case 'accessibility':
+        return [
+          { kind: 'toggle', label: 'Reduce flashes', id: 'accessibility.reduceFlashes' },
+          { kind: 'toggle', label: 'Footstep direction cues', id: 'accessibility.footstepIndicator' }
+        ];
+      case 'network':
+        return [
+          { kind: 'toggle', label: 'Network HUD (F4)', id: 'network.showNetworkHud' },
+          { kind: 'slider', label: 'Interpolation delay', id: 'network.interpolationDelay', unit: 'ms' }
+        ];
+    }
+  }
+
+  private createRow(row: Row, y: number): void {
+    const label = this.add.text(LABEL_X, y, row.label, {
+      fontSize: '9px',
+      color: '#ffffff',
+      fontFamily: 'monospace'
+    }).setOrigin(0, 0.5);
+    this.rowObjects.push(label);
+
+    switch (row.kind) {
+      case 'options':
+        this.createOptions(row, y);
+        break;
+      case 'slider':
+        this.createSlider(row, y);
+        break;
+      case 'toggle':
+        this.createToggle(row, y);
+        break;
+      case 'action': {
+        const button = this.add.text(CONTROL_X, y, row.text, { ...BUTTON_STYLE, fixedWidth: VALUE_WIDTH }).setOrigin(0, 0.5);
+        this.setupButton(button, row.onClick);
+        this.rowObjects.push(button);
+        break;
+      }
+    }
+  }
+
+  /**
+   * < VALUE > - steps through the setting's allowed values, wrapping around
+   */
+  private createOptions(row: Extract<Row, { kind: 'options' }>, y: number): void {
+    const options: readonly string[] = SETTING_OPTIONS[row.id];
+    const current = () => settingsStore.getById(row.id);
+    const step = (direction: number) => {
+      const index = options.indexOf(current());
+      settingsStore.setById(row.id, options[(index + direction + options.length) % options.length]);
+    };
+
+    const previous = this.add.text(CONTROL_X, y, '<', BUTTON_STYLE).setOrigin(0, 0.5);
+    const value = this.add.text(CONTROL_X + 22, y, '', { ...BUTTON_STYLE, backgroundColor: '#1a1a1a', fixedWidth: VALUE_WIDTH - 12 })
+      .setOrigin(0, 0.5);
+    const next = this.add.text(CONTROL_X + 22 + VALUE_WIDTH, y, '>', BUTTON_STYLE).setOrigin(0, 0.5);
+    this.setupButton(previous, () => step(-1));
+    this.setupButton(next, () => step(1));
+
+    const refresh = () => {
+      const selected = current();
+      value.setText(row.labels[selected] || selected.toUpperCase());
+      // Colour choices preview themselves
+      value.setColor(selected.startsWith('#') ? selected : '#ffffff');
+    };
+    refresh();
+
+    this.rowObjects.push(previous, value, next);
+    this.rowRefreshers.push(refresh);
+  }
+
+  /**
+   * - [====    ] + with the value alongside. Drag or click the track; the
+   * buttons step by the setting's range step for gamepad users.
+   */
+  private createSlider(row: Extract<Row, { kind: 'slider' }>, y: number): void {
+    const range = SETTING_RANGES[row.id];
+    const trackLeft = CONTROL_X + 22;
+    const current = () => settingsStore.getById(row.id);
+
+    const minus = this.add.text(CONTROL_X, y, '-', BUTTON_STYLE).setOrigin(0, 0.5);
+    const plus = this.add.text(trackLeft + TRACK_WIDTH + 6, y, '+', BUTTON_STYLE).setOrigin(0, 0.5);
+    this.setupButton(minus, () => settingsStore.setById(row.id, current() - range.step));
+    this.setupButton(plus, () => settingsStore.setById(row.id, current() + range.step));
+
+    const track = this.add.graphics();
+    const hitZone = this.add.zone(trackLeft, y, TRACK_WIDTH, 14).setOrigin(0, 0.5).setInteractive({ useHandCursor: true });
+    hitZone.on('pointerdown', (pointer: Phaser.Input.Pointer) => {
+      // The gamepad navigator presses with a pointer that may be anywhere - only real clicks on the track count
+      if (!hitZone.getBounds().contains(pointer.x, pointer.y)) return;
+      this.dragging = { id: row.id, left: trackLeft };
+      this.handleDrag(pointer);
+    });
+
+    const value = this.add.text(trackLeft + TRACK_WIDTH + 28, y, '', {
+      fontSize: '9px',
+      color: '#aaaaaa',
+      fontFamily: 'monospace'
+    }).setOrigin(0, 0.5);
+
+    const refresh = () => {
+      const fraction = (current() - range.min) / (range.max - range.min);
+      track.clear();
+      track.fillStyle(0x111111);
+      track.fillRect(trackLeft, y - 3, TRACK_WIDTH, 6);
+      track.fillStyle(0x00aa00);
+      track.fillRect(trackLeft, y - 3, Math.round(TRACK_WIDTH * fraction), 6);
+      track.lineStyle(1, 0x555555);
+      track.strokeRect(trackLeft, y - 3, TRACK_WIDTH, 6);
+      value.setText(`${current()}${row.unit}`);
+    };
+    refresh();
+
+    this.rowObjects.push(minus, track, hitZone, plus, value);
+    this.rowRefreshers.push(refresh);
+  }
+
+  private createToggle(row: Extract<Row, { kind: 'toggle' }>, y: number): void {
+    const isOn = () => settingsStore.getById(row.id);
+    const button = this.add.text(CONTROL_X, y, '', { ...BUTTON_STYLE, fixedWidth: VALUE_WIDTH }).setOrigin(0, 0.5);
+    this.setupButton(button, () => settingsStore.setById(row.id, !isOn()),
+      () => isOn() ? '#006600' : '#333333', () => isOn() ? '#008800' : '#555555');
+
+    const refresh = () => {
+      button.setText(isOn() ? 'ON' : 'OFF');
+      button.setStyle({ backgroundColor: isOn() ? '#006600' : '#333333' });
+    };
+    refresh();
+
+    this.rowObjects.push(button);
+    this.rowRefreshers.push(refresh);
+  }
+
+  private handleDrag(pointer: Phaser.Input.Pointer): void {
+    if (!this.dragging) return;
+    if (!pointer.isDown) {
+      this.endDrag();
+      return;
+    }
+
+    const { id, left } = this.dragging;
+    const range = SETTING_RANGES[id];
+    const fraction = Phaser.Math.Clamp((pointer.x - left) / TRACK_WIDTH, 0, 1);
+    settingsStore.setById(id, range.min + fraction * (range.max - range.min));
+  }
+
+  private endDrag(): void {
+    this.dragging = null;
+  }
+
+  private openControlsPanel(): void {
+    if (this.controlsPanel) return;
+
+    this.controlsPanel = new ControlsPanel(this, () => {
+      if (this.controlsPanel) this.menuNavigator.popScope(this.controlsPanel.getContainer());
+      this.controlsPanel = null;
+    });
+    this.menuNavigator.pushScope(this.controlsPanel.getContainer());
+  }
+
+  private handleEscape(): void {
+    // The keymap editor uses ESC to cancel a rebind
+    if (this.controlsPanel) return;
+    this.close();
+  }
+
+  private close(): void {
+    if (this.controlsPanel) {
+      this.controlsPanel.close();
+    }
+    this.scene.get(this.returnTo)?.events.emit('settings:closed');
+    this.scene.stop();
+  }
+
+  private leaveMatch(): void {
+    this.scene.get(this.returnTo)?.events.emit('settings:leave');
+    this.scene.stop();
+  }
+
+  private setupButton(
+    button: Phaser.GameObjects.Text,
+    callback: () => void,
+    normalColor: () => string = () => '#333333',
+    hoverColor: string | (() => string) = '#555555'
+  ): void {
+    button.setInteractive({ useHandCursor: true });
+    // Rows are 24px apart - keep touch targets inside them
+    padHitAreaForTouch(button, 4, 4, 22);
+
+    button.on('pointerover', () => button.setStyle({ backgroundColor: typeof hoverColor === 'function' ? hoverColor() : hoverColor }));
+    button.on('pointerout', () => button.setStyle({ backgroundColor: normalColor() }));
+    button.on('pointerup', callback);
+  }
+}
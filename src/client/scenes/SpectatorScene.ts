@@ -0,0 +1,529 @@
+import { GAME_CONFIG } from '../../../shared/constants/index';
+import { GameState, PlayerState, Vector2 } from '../../../shared/types/index';
+import { onServerEvent, MatchEndedPayload, PlayerDiedPayload, PlayerRespawnedPayload, SpectatorJoinedPayload } from '../../../shared/protocol/index';
+import { NetworkSystem } from '../systems/NetworkSystem';
+import NetworkSystemSingleton from '../systems/NetworkSystemSingleton';
+import { LobbyEventCoordinator } from '../systems/LobbyEventCoordinator';
+import { AssetManager } from '../utils/AssetManager';
+import { SceneManager } from '../utils/SceneManager';
+import { VisualEffectsSystem } from '../systems/VisualEffectsSystem';
+import { DestructionRenderer } from '../systems/DestructionRenderer';
+import { VisionRenderer } from '../systems/VisionRenderer';
+import { PlayerManager } from '../systems/PlayerManager';
+import { MapLoader } from '../systems/MapLoader';
+import { ArenaWall, computeVisionPolygon, isInVisionCone, toArenaWall } from '../offline/LocalArena';
+
+type CameraMode = 'free' | 'follow';
+type ViewMode = 'full' | 'red' | 'blue';
+
+const VIEW_MODES: ViewMode[] = ['full', 'red', 'blue'];
+const VIEW_LABELS: Record<ViewMode, string> = { full: 'FULL MAP', red: 'RED TEAM', blue: 'BLUE TEAM' };
+
+const ZOOM_LEVELS = [1, 1.5, 2, 3];
+const FOLLOW_ZOOM_INDEX = 2;
+const PAN_SPEED = 200; // px/s at zoom 1
+const FOLLOW_LERP = 0.15;
+const VISION_REFRESH_MS = 100;
+
+const HUD_ROWS_PER_TEAM = 8;
+const HUD_ROW_HEIGHT = 11;
+const HUD_TOP = 20;
+const HEALTH_BAR_WIDTH = 24;
+
+/**
+ * SpectatorScene - Watch a live match without playing
+ *
+ * Entered after the server accepts a request_spectator. Renders the match with
+ * the same systems GameScene uses, from full-visibility game:state snapshots.
+ * Free and follow cameras, a per-team fog-of-war view (vision is rebuilt
+ * client-side from each team's positions) and a HUD with both rosters.
+ */
+export class SpectatorScene extends Phaser.Scene {
+  private networkSystem!: NetworkSystem;
+  private assetManager!: AssetManager;
+  private visualEffectsSystem!: VisualEffectsSystem;
+  private destructionRenderer!: DestructionRenderer;
+  private visionRenderer!: VisionRenderer;
+  private playerManager!: PlayerManager;
+  private mapLoader?: MapLoader;
+
+  // The HUD gets its own camera so it stays put while the world camera zooms
+  private hudCamera!: Phaser.Cameras.Scene2D.Camera;
+  private hudObjects: Phaser.GameObjects.GameObject[] = [];
+  private wallGraphics!: Phaser.GameObjects.Graphics;
+  private statusText!: Phaser.GameObjects.Text;
+  private waitingText!: Phaser.GameObjects.Text;
+  private healthBars!: Phaser.GameObjects.Graphics;
+  private teamHeaders: Record<'red' | 'blue', Phaser.GameObjects.Text> = {} as Record<'red' | 'blue', Phaser.GameObjects.Text>;
+  private teamRows: Record<'red' | 'blue', Phaser.GameObjects.Text[]> = { red: [], blue: [] };
+  private panKeys: Record<string, Phaser.Input.Keyboard.Key> = {};
+
+  // Spectator state
+  private spectatorData: SpectatorJoinedPayload | null = null;
+  private latestPlayers: { [key: string]: PlayerState } = {};
+  private cameraMode: CameraMode = 'free';
+  private viewMode: ViewMode = 'full';
+  private zoomIndex: number = 0;
+  private followId: string | null = null;
+  private lastVisionUpdate: number = 0;
+  private frameCount: number = 0;
+  private matchEndedHandler: ((payload?: unknown) => void) | null = null;
+
+  constructor() {
+    super({ key: 'SpectatorScene' });
+  }
+
+  init(data: { spectatorData?: SpectatorJoinedPayload }): void {
+    this.spectatorData = data?.spectatorData || null;
+    this.latestPlayers = {};
+    this.cameraMode = 'free';
+    this.viewMode = 'full';
+    this.zoomIndex = 0;
+    this.followId = null;
+    this.lastVisionUpdate = 0;
+    this.frameCount = 0;
+    this.hudObjects = [];
+    this.teamRows = { red: [], blue: [] };
+  }
+
+  create(): void {
+    this.networkSystem = NetworkSystemSingleton.getInstance(this);
+    this.assetManager = new AssetManager(this);
+    this.createFloorBackground();
+
+    this.wallGraphics = this.add.graphics();
+    this.wallGraphics.setDepth(10);
+
+    this.visualEffectsSystem = new VisualEffectsSystem(this);
+    this.destructionRenderer = new DestructionRenderer(this);
+    this.visionRenderer = new VisionRenderer(this);
+    // No setVisionRenderer - team views filter players instead of masking them to one polygon
+    this.playerManager = new PlayerManager(this);
+
+    this.visualEffectsSystem.initialize();
+    this.destructionRenderer.initialize();
+    this.visionRenderer.clearFog();
+
+    this.createHUD();
+    this.setupCameras();
+    this.setupControls();
+    this.setupNetworkListeners();
+
+    // match_started for the match we're watching must not pull us into ConfigureScene
+    LobbyEventCoordinator.getInstance().registerActiveScene(this);
+
+    this.events.once('shutdown', () => this.shutdown());
+
+    console.log(`👁️ SpectatorScene: Watching lobby ${this.spectatorData?.lobbyId || 'unknown'}`);
+    this.networkSystem.emit('request_game_state', {});
+  }
+
+  update(_time: number, delta: number): void {
+    this.frameCount++;
+
+    this.visualEffectsSystem.update(delta);
+    this.destructionRenderer.update(delta);
+
+    if (this.frameCount % 10 === 0) {
+      this.renderWalls();
+    }
+
+    this.updateCamera(delta);
+
+    if (this.frameCount % 5 === 0) {
+      this.updateHUD();
+    }
+  }
+
+  private createFloorBackground(): void {
+    try {
+      const floor = this.assetManager.createFloorTile(GAME_CONFIG.GAME_WIDTH / 2, GAME_CONFIG.GAME_HEIGHT / 2);
+      floor.setDepth(0);
+      floor.setScale(GAME_CONFIG.GAME_WIDTH / floor.width, GAME_CONFIG.GAME_HEIGHT / floor.height);
+    } catch (error) {
+      console.error('❌ SpectatorScene: Failed to create floor background:', error);
+      this.add.rectangle(0, 0, GAME_CONFIG.GAME_WIDTH, GAME_CONFIG.GAME_HEIGHT, 0x1a1a1a).setOrigin(0, 0).setDepth(0);
+    }
+
+    const level = this.networkSystem.getLocalServer()?.getLevel();
+    if (level) {
+      this.mapLoader = new MapLoader(this);
+      this.mapLoader.buildLayers(level);
+    }
+  }
+
+  private createHUD(): void {
+    const textStyle = {
+      fontSize: '7px',
+      color: '#ffffff',
+      fontFamily: 'monospace'
+    };
+
+    this.statusText = this.addHud(this.add.text(GAME_CONFIG.GAME_WIDTH / 2, 5, '', {
+      ...textStyle,
+      fontSize: '8px',
+      backgroundColor: '#000000aa',
+      padding: { x: 3, y: 2 }
+    }).setOrigin(0.5, 0));
+
+    this.addHud(this.add.text(GAME_CONFIG.GAME_WIDTH / 2, GAME_CONFIG.GAME_HEIGHT - 4,
+      'F camera  Q/E or TAB player  V view  WASD pan  wheel/+/- zoom  ESC leave', {
+      ...textStyle,
+      color: '#aaaaaa',
+      backgroundColor: '#000000aa',
+      padding: { x: 3, y: 2 }
+    }).setOrigin(0.5, 1));
+
+    this.waitingText = this.addHud(this.add.text(GAME_CONFIG.GAME_WIDTH / 2, GAME_CONFIG.GAME_HEIGHT / 2,
+      'Waiting for the match to start...', {
+      ...textStyle,
+      fontSize: '10px',
+      backgroundColor: '#000000cc',
+      padding: { x: 8, y: 6 }
+    }).setOrigin(0.5));
+
+    this.healthBars = this.addHud(this.add.graphics());
+
+    (['red', 'blue'] as const).forEach(team => {
+      const isRed = team === 'red';
+      const x = isRed ? 4 : GAME_CONFIG.GAME_WIDTH - 4;
+      const originX = isRed ? 0 : 1;
+
+      this.teamHeaders[team] = this.addHud(this.add.text(x, HUD_TOP, '', {
+        ...textStyle,
+        fontSize: '8px',
+        color: isRed ? '#ff4444' : '#4488ff',
+        fontStyle: 'bold'
+      }).setOrigin(originX, 0));
+
+      for (let i = 0; i < HUD_ROWS_PER_TEAM; i++) {
+        const row = this.add.text(x, HUD_TOP + HUD_ROW_HEIGHT * (i + 1), '', {
+          ...textStyle,
+          backgroundColor: '#000000aa',
+          padding: { x: 2, y: 1 }
+        }).setOrigin(originX, 0);
+        this.teamRows[team].push(this.addHud(row));
+      }
+    });
+
+    this.hudObjects.forEach(object => (object as any).setDepth?.(200));
+  }
+
+  private addHud<T extends Phaser.GameObjects.GameObject>(object: T): T {
+    this.hudObjects.push(object);
+    return object;
+  }
+
+  private setupCameras(): void {
+    const camera = this.cameras.main;
+    camera.setBounds(0, 0, GAME_CONFIG.GAME_WIDTH, GAME_CONFIG.GAME_HEIGHT);
+    camera.setZoom(ZOOM_LEVELS[this.zoomIndex]);
+    camera.ignore(this.hudObjects);
+
+    this.hudCamera = this.cameras.add(0, 0, GAME_CONFIG.GAME_WIDTH, GAME_CONFIG.GAME_HEIGHT);
+    this.children.list.forEach(child => this.hideFromHudCamera(child));
+    // World systems keep adding effects and sprites - keep them off the HUD camera as they appear
+    this.events.on(Phaser.Scenes.Events.ADDED_TO_SCENE, this.hideFromHudCamera, this);
+  }
+
+  private hideFromHudCamera(object: Phaser.GameObjects.GameObject): void {
+    if (!this.hudObjects.includes(object)) {
+      this.hudCamera.ignore(object);
+    }
+  }
+
+  private setupControls(): void {
+    const keyboard = this.input.keyboard;
+    if (keyboard) {
+      this.panKeys = keyboard.addKeys('W,A,S,D,UP,DOWN,LEFT,RIGHT') as Record<string, Phaser.Input.Keyboard.Key>;
+      keyboard.addCapture('TAB');
+    }
+
+    keyboard?.on('keydown-F', () => this.setCameraMode(this.cameraMode === 'free' ? 'follow' : 'free'));
+    keyboard?.on('keydown-E', () => this.cycleFollowTarget(1));
+    keyboard?.on('keydown-TAB', () => this.cycleFollowTarget(1));
+    keyboard?.on('keydown-Q', () => this.cycleFollowTarget(-1));
+    keyboard?.on('keydown-V', () => this.cycleViewMode());
+    keyboard?.on('keydown-PLUS', () => this.changeZoom(1));
+    keyboard?.on('keydown-NUMPAD_ADD', () => this.changeZoom(1));
+    keyboard?.on('keydown-MINUS', () => this.changeZoom(-1));
+    keyboard?.on('keydown-NUMPAD_SUBTRACT', () => this.changeZoom(-1));
+    keyboard?.on('keydown-ESC', () => this.leave());
+
+    this.input.on('wheel', (_pointer: Phaser.Input.Pointer, _objects: unknown, _dx: number, dy: number) => {
+      this.changeZoom(dy > 0 ? -1 : 1);
+    });
+  }
+
+  private setupNetworkListeners(): void {
+    this.events.on('network:gameState', this.handleGameState, this);
+
+    this.events.on('backend:player:died', (data: PlayerDiedPayload) => {
+      this.playerManager.handlePlayerDeath(data.playerId, data.position);
+    });
+
+    this.events.on('backend:player:respawned', (data: PlayerRespawnedPayload) => {
+      this.playerManager.handlePlayerRespawn(data.playerId, data.position, data.invulnerableUntil);
+    });
+
+    const socket = this.networkSystem.getSocket();
+    if (socket) {
+      this.matchEndedHandler = onServerEvent(socket, 'match_ended', (matchResults: MatchEndedPayload) => {
+        console.log('🏁 SpectatorScene: Match ended', matchResults);
+        SceneManager.transition(this, 'MatchResultsScene', { matchResults });
+      });
+    }
+  }
+
+  private handleGameState(gameState: GameState): void {
+    this.latestPlayers = gameState.players instanceof Map
+      ? Object.fromEntries(gameState.players)
+      : (gameState.players || {});
+
+    this.waitingText.setVisible(false);
+
+    if (this.followId && !this.latestPlayers[this.followId]) {
+      this.followId = null;
+      if (this.cameraMode === 'follow') {
+        this.cycleFollowTarget(1);
+      }
+    }
+
+    this.refreshView(false);
+  }
+
+  /**
+   * Show the players the current view allows. Team views only reveal enemies that
+   * one of that team's living players could see, with the same cone the server uses.
+   */
+  private refreshView(force: boolean): void {
+    if (this.viewMode === 'full') {
+      if (force) {
+        this.visionRenderer.clearFog();
+      }
+      this.playerManager.updatePlayers({ ...this.latestPlayers });
+      return;
+    }
+
+    const team = this.viewMode;
+    const walls = this.getVisionWalls();
+    const viewers = Object.values(this.latestPlayers).filter(player => player.team === team && player.isAlive);
+
+    if (force || this.time.now - this.lastVisionUpdate >= VISION_REFRESH_MS) {
+      this.lastVisionUpdate = this.time.now;
+      this.visionRenderer.updateSharedVision(
+        viewers.map(viewer => computeVisionPolygon(walls, viewer.position, viewer.angle ?? 0).polygon)
+      );
+    }
+
+    const visible: { [key: string]: PlayerState } = {};
+    Object.entries(this.latestPlayers).forEach(([id, player]) => {
+      const seen = player.team === team ||
+        viewers.some(viewer => isInVisionCone(walls, viewer.position, viewer.angle ?? 0, player.position));
+      if (seen) {
+        visible[id] = player;
+      }
+    });
+    this.playerManager.updatePlayers(visible);
+  }
+
+  private getVisionWalls(): ArenaWall[] {
+    return this.destructionRenderer.getWallsData().map(toArenaWall);
+  }
+
+  private setCameraMode(mode: CameraMode): void {
+    this.cameraMode = mode;
+
+    if (mode === 'follow') {
+      if (!this.followId) {
+        this.cycleFollowTarget(1);
+      }
+      if (this.zoomIndex < FOLLOW_ZOOM_INDEX) {
+        this.setZoomIndex(FOLLOW_ZOOM_INDEX);
+      }
+    }
+  }
+
+  /**
+   * Step through players in HUD order (red roster, then blue). Picking a player switches to follow.
+   */
+  private cycleFollowTarget(direction: number): void {
+    const order = this.getRoster('red').concat(this.getRoster('blue')).map(player => player.id);
+    if (order.length === 0) {
+      this.followId = null;
+      return;
+    }
+
+    let index = this.followId ? order.indexOf(this.followId) : -1;
+    if (index < 0) {
+      index = direction > 0 ? -1 : 0;
+    }
+    this.followId = order[(index + direction + order.length) % order.length];
+
+    if (this.cameraMode !== 'follow') {
+      this.setCameraMode('follow');
+    }
+  }
+
+  private cycleViewMode(): void {
+    const next = (VIEW_MODES.indexOf(this.viewMode) + 1) % VIEW_MODES.length;
+    this.viewMode = VIEW_MODES[next];
+    console.log(`👁️ SpectatorScene: View ${VIEW_LABELS[this.viewMode]}`);
+    this.refreshView(true);
+  }
+
+  private changeZoom(direction: number): void {
+    this.setZoomIndex(Phaser.Math.Clamp(this.zoomIndex + direction, 0, ZOOM_LEVELS.length - 1));
+  }
+
+  private setZoomIndex(index: number): void {
+    this.zoomIndex = index;
+    this.cameras.main.setZoom(ZOOM_LEVELS[index]);
+  }
+
+  private updateCamera(delta: number): void {
+    const camera = this.cameras.main;
+
+    if (this.cameraMode === 'follow') {
+      if (!this.followId) return;
+
+      // Sprite position is interpolated; fall back to the snapshot when the sprite is hidden
+      const target: Vector2 | undefined = this.playerManager.getInterpolatedPositions().get(this.followId) ||
+        this.latestPlayers[this.followId]?.position;
+      if (target) {
+        camera.centerOn(
+          Phaser.Math.Linear(camera.midPoint.x, target.x, FOLLOW_LERP),
+          Phaser.Math.Linear(camera.midPoint.y, target.y, FOLLOW_LERP)
+        );
+      }
+      return;
+    }
+
+    const keys = this.panKeys;
+    const dx = (keys.D?.isDown || keys.RIGHT?.isDown ? 1 : 0) - (keys.A?.isDown || keys.LEFT?.isDown ? 1 : 0);
+    const dy = (keys.S?.isDown || keys.DOWN?.isDown ? 1 : 0) - (keys.W?.isDown || keys.UP?.isDown ? 1 : 0);
+    if (dx === 0 && dy === 0) return;
+
+    const step = (PAN_SPEED * delta) / 1000 / camera.zoom;
+    camera.setScroll(camera.scrollX + dx * step, camera.scrollY + dy * step);
+  }
+
+  private getRoster(team: 'red' | 'blue'): PlayerState[] {
+    return Object.values(this.latestPlayers)
+      .filter(player => player.team === team)
+      .sort((a, b) => a.id.localeCompare(b.id));
+  }
+
+  private updateHUD(): void {
+    const following = this.cameraMode === 'follow' && this.followId
+      ? `FOLLOW ${this.getPlayerName(this.latestPlayers[this.followId])}`
+      : 'FREE CAM';
+    this.statusText.setText(`SPECTATING  ${following}  |  VIEW: ${VIEW_LABELS[this.viewMode]}  |  x${ZOOM_LEVELS[this.zoomIndex]}`);
+
+    this.healthBars.clear();
+
+    (['red', 'blue'] as const).forEach(team => {
+      const roster = this.getRoster(team);
+      const isRed = team === 'red';
+      const kills = roster.reduce((sum, player) => sum + ((player as any).kills || 0), 0);
+      const target = this.spectatorData?.killTarget;
+      this.teamHeaders[team].setText(`${team.toUpperCase()} ${kills}${target ? `/${target}` : ''}`);
+
+      this.teamRows[team].forEach((row, index) => {
+        const player = roster[index];
+        if (!player) {
+          row.setVisible(false);
+          return;
+        }
+
+        const marker = player.id === this.followId ? '▶' : ' ';
+        const name = this.getPlayerName(player).substring(0, 10).padEnd(10);
+        const weapon = (player.weaponType || '-').substring(0, 8).padEnd(8);
+        const health = player.isAlive ? `${Math.max(0, Math.round(player.health))}`.padStart(3) : 'DEAD';
+        row.setText(`${marker}${name} ${weapon} ${health}`);
+        row.setColor(player.isAlive ? '#ffffff' : '#777777');
+        row.setVisible(true);
+
+        // Health bar just inside the row, on the side facing the middle of the screen
+        const ratio = player.isAlive ? Phaser.Math.Clamp(player.health / GAME_CONFIG.PLAYER_HEALTH, 0, 1) : 0;
+        const barX = isRed ? row.x + row.width + 2 : row.x - row.width - 2 - HEALTH_BAR_WIDTH;
+        const barY = row.y + row.height / 2 - 1;
+        this.healthBars.fillStyle(0x333333, 0.9);
+        this.healthBars.fillRect(barX, barY, HEALTH_BAR_WIDTH, 3);
+        this.healthBars.fillStyle(ratio > 0.5 ? 0x00cc00 : ratio > 0.25 ? 0xffaa00 : 0xff3333, 1);
+        this.healthBars.fillRect(barX, barY, HEALTH_BAR_WIDTH * ratio, 3);
+      });
+    });
+  }
+
+  private getPlayerName(player: PlayerState | undefined): string {
+    if (!player) return '?';
+    return (player as any).playerName || (player as any).name || player.id.substring(0, 8);
+  }
+
+  private renderWalls(): void {
+    this.wallGraphics.clear();
+
+    for (const wall of this.destructionRenderer.getWallsData()) {
+      const isPillar = wall.width === 10 && wall.height === 10;
+      const baseColor = wall.material === 'wood' ? 0x8b5a2b : 0x808080;
+
+      for (let i = 0; i < 5; i++) {
+        if (wall.destructionMask[i] === 1) continue;
+
+        let x: number, y: number, w: number, h: number;
+        if (isPillar || wall.orientation === 'vertical') {
+          w = wall.width;
+          h = wall.height / 5;
+          x = wall.position.x;
+          y = wall.position.y + i * h;
+        } else {
+          w = wall.width / 5;
+          h = wall.height;
+          x = wall.position.x + i * w;
+          y = wall.position.y;
+        }
+
+        const healthPercent = wall.sliceHealth[i] / wall.maxHealth;
+        const alpha = healthPercent <= 0.25 ? 0.6 : healthPercent <= 0.75 ? 0.8 : 1.0;
+        this.wallGraphics.fillStyle(baseColor, alpha);
+        this.wallGraphics.fillRect(x, y, w, h);
+      }
+    }
+  }
+
+  private leave(): void {
+    console.log('👁️ SpectatorScene: Leaving');
+    this.networkSystem.emit('leave_lobby');
+    this.scene.start('LobbyMenuScene');
+  }
+
+  shutdown(): void {
+    this.events.off('network:gameState', this.handleGameState, this);
+    this.events.off('backend:player:died');
+    this.events.off('backend:player:respawned');
+    this.events.off(Phaser.Scenes.Events.ADDED_TO_SCENE, this.hideFromHudCamera, this);
+    this.input.off('wheel');
+
+    const socket = this.networkSystem?.getSocket();
+    if (socket && this.matchEndedHandler) {
+      socket.off('match_ended', this.matchEndedHandler);
+    }
+    this.matchEndedHandler = null;
+
+    LobbyEventCoordinator.getInstance().unregisterScene(this);
+
+    if (this.hudCamera) {
+      this.cameras.remove(this.hudCamera);
+    }
+    this.cameras.main.setZoom(1);
+    this.cameras.main.removeBounds();
+
+    this.visualEffectsSystem?.destroy();
+    this.destructionRenderer?.destroy();
+    this.visionRenderer?.destroy();
+    this.playerManager?.destroy();
+    this.mapLoader?.destroy();
+    this.mapLoader = undefined;
+  }
+}
@@ -5,6 +5,7 @@
 
 import { audioManager } from './AudioManager';
 import { audioTest } from './AudioTest';
+import { spatialAudio, SpatialParams } from './SpatialAudio';
 
 /**
  * Initialize audio system - call this after user clicks to start game
@@ -26,103 +27,125 @@ export async function initializeGameAudio(): Promise<void> {
 }
 
 /**
- * Play weapon sound - uses real audio if available, synthetic otherwise
+ * Where a positioned sound should sit in the mix - undefined plays it
+ * centred at full volume, null means it is out of earshot
+ */
+function spatialize(position?: { x: number, y: number }, range?: number): SpatialParams | undefined | null {
+  return position ? spatialAudio.compute(position, range) : undefined;
+}
+
+/**
+ * Per-weapon synthetic shot, or the generic test beep before AudioManager is up
+ */
+function playSyntheticShot(weaponType: string, spatial?: SpatialParams): void {
+  if (!audioManager.playSyntheticWeaponSound(weaponType, { spatial })) {
+    audioTest.playTestSound('shoot');
+  }
+}
+
+/**
+ * Play weapon sound - uses real audio if available, synthetic otherwise.
+ * With a position the shot is panned, attenuated and muffled by walls
+ * relative to the local player.
  */
 export function fireWeapon(weaponType: string, playerPosition?: { x: number, y: number }): void {
+  const spatial = spatialize(playerPosition);
+  if (spatial === null) return;
+
   switch (weaponType) {
     // Primary weapons
     case 'rifle':
-      if (audioManager.playWeaponSound('rifle', 'shot', { volume: 1.0 })) {
+      if (audioManager.playWeaponSound('rifle', 'shot', { volume: 1.0, spatial })) {
         audioManager.playShellDrop(0.15);
       } else {
-        audioTest.playTestSound('shoot');
+        playSyntheticShot(weaponType, spatial);
       }
       break;
       
     case 'smg':
-      if (audioManager.playWeaponSound('smg', 'shot', { volume: 0.7 })) {
+      if (audioManager.playWeaponSound('smg', 'shot', { volume: 0.7, spatial })) {
         audioManager.playShellDrop(0.1);
       } else {
-        audioTest.playTestSound('shoot');
+        playSyntheticShot(weaponType, spatial);
       }
       break;
       
     case 'shotgun':
-      if (audioManager.playWeaponSound('shotgun', 'shot', { volume: 1.2 })) {
+      if (audioManager.playWeaponSound('shotgun', 'shot', { volume: 1.2, spatial })) {
         audioManager.playShellDrop(0.25);
       } else {
-        audioTest.playTestSound('shoot');
+        playSyntheticShot(weaponType, spatial);
       }
       break;
       
     case 'battlerifle':
-      if (audioManager.playWeaponSound('battlerifle', 'shot', { volume: 1.1 })) {
+      if (audioManager.playWeaponSound('battlerifle', 'shot', { volume: 1.1, spatial })) {
         audioManager.playShellDrop(0.18);
       } else {
-        audioTest.playTestSound('shoot');
+        playSyntheticShot(weaponType, spatial);
       }
       break;
       
     case 'sniperrifle':
-      if (audioManager.playWeaponSound('sniperrifle', 'shot', { volume: 1.3 })) {
+      if (audioManager.playWeaponSound('sniperrifle', 'shot', { volume: 1.3, spatial })) {
         audioManager.playShellDrop(0.3);
       } else {
-        audioTest.playTestSound('shoot');
+        playSyntheticShot(weaponType, spatial);
       }
       break;
       
     // Secondary weapons
     case 'pistol':
-      if (audioManager.playWeaponSound('pistol', 'shot', { volume: 0.8 })) {
+      if (audioManager.playWeaponSound('pistol', 'shot', { volume: 0.8, spatial })) {
         audioManager.playShellDrop(0.2);
       } else {
-        audioTest.playTestSound('shoot');
+        playSyntheticShot(weaponType, spatial);
       }
       break;
       
     case 'revolver':
-      if (audioManager.playWeaponSound('revolver', 'shot', { volume: 1.0 })) {
+      if (audioManager.playWeaponSound('revolver', 'shot', { volume: 1.0, spatial })) {
         // No shell drop for revolver (keeps casings)
       } else {
-        audioTest.playTestSound('shoot');
+        playSyntheticShot(weaponType, spatial);
       }
       break;
       
     case 'suppressedpistol':
-      if (audioManager.playWeaponSound('suppressedpistol', 'shot', { volume: 0.3 })) {
+      if (audioManager.playWeaponSound('suppressedpistol', 'shot', { volume: 0.3, spatial })) {
         audioManager.playShellDrop(0.2);
       } else {
-        audioTest.playTestSound('shoot');
+        playSyntheticShot(weaponType, spatial);
       }
       break;
       
     // Support weapons
     case 'rocket':
     case 'rocketlauncher':
-      if (!audioManager.playWeaponSound('rocketlauncher', 'launch', { volume: 1.2 })) {
-        audioTest.playTestSound('explosion');
+      if (!audioManager.playWeaponSound('rocketlauncher', 'launch', { volume: 1.2, spatial })) {
+        playSyntheticShot('antimaterialrifle', spatial);
       }
       break;
       
     case 'grenadelauncher':
-      if (!audioManager.playWeaponSound('grenadelauncher', 'shot', { volume: 1.0 })) {
-        audioTest.playTestSound('shoot');
+      if (!audioManager.playWeaponSound('grenadelauncher', 'shot', { volume: 1.0, spatial })) {
+        playSyntheticShot('shotgun', spatial);
       }
       break;
       
     case 'machinegun':
-      if (audioManager.playWeaponSound('machinegun', 'shot', { volume: 1.1 })) {
+      if (audioManager.playWeaponSound('machinegun', 'shot', { volume: 1.1, spatial })) {
         audioManager.playShellDrop(0.12);
       } else {
-        audioTest.playTestSound('shoot');
+        playSyntheticShot(weaponType, spatial);
       }
       break;
       
     case 'antimaterialrifle':
-      if (audioManager.playWeaponSound('antimaterialrifle', 'shot', { volume: 1.5 })) {
+      if (audioManager.playWeaponSound('antimaterialrifle', 'shot', { volume: 1.5, spatial })) {
         audioManager.playShellDrop(0.4);
       } else {
-        audioTest.playTestSound('shoot');
+        playSyntheticShot(weaponType, spatial);
       }
       break;
       
@@ -135,7 +158,7 @@ export function fireWeapon(weaponType: string, playerPosition?: { x: number, y:
       
     default:
       console.warn(`Unknown weapon type: ${weaponType}`);
-      audioTest.playTestSound('shoot'); // Generic fallback
+      playSyntheticShot(weaponType, spatial); // Generic fallback
   }
 }
 
@@ -160,11 +183,16 @@ export function playImpactSound(hitInfo: { material: string, position: { x: numb
     audioMaterial = 'metal';
   } else if (hitInfo.material.includes('wood')) {
     audioMaterial = 'wood';
+  } else if (hitInfo.material.includes('glass')) {
+    audioMaterial = 'glass';
   }
   
-  if (!audioManager.playImpactSound(audioMaterial, { volume: 0.6 })) {
+  const spatial = spatialize(hitInfo.position);
+  if (spatial === null) return;
+
+  if (!audioManager.playImpactSound(audioMaterial, { volume: 0.6, spatial }) &&
+      !audioManager.playSyntheticImpact(audioMaterial, spatial)) {
     audioTest.playTestSound('click');
-    console.log('🔊 Using synthetic impact sound');
   }
 }
 
@@ -172,13 +200,30 @@ export function playImpactSound(hitInfo: { material: string, position: { x: numb
  * Example explosion integration (for rockets/grenades)
  */
 export function playExplosion(explosionType: 'rocket' | 'grenade', position: { x: number, y: number }): void {
+  const spatial = spatialize(position);
+  if (spatial === null) return;
+
   const soundName = `${explosionType}_explode`;
-  if (!audioManager.playSoundIfAvailable(soundName, { volume: 1.0 })) {
+  if (!audioManager.playSoundIfAvailable(soundName, { volume: 1.0, spatial }) &&
+      !audioManager.playSyntheticExplosion(explosionType, spatial)) {
     audioTest.playTestSound('explosion');
-    console.log('🔊 Using synthetic explosion sound');
   }
 }
 
+/**
+ * Footstep at a world position - real per-surface samples if loaded, synthetic
+ * otherwise. Returns how it was heard, or null when out of earshot.
+ */
+export function playFootstep(position: { x: number, y: number }, surface: string, volume: number, range: number): SpatialParams | null {
+  const spatial = spatialize(position, range);
+  if (!spatial) return null;
+
+  if (!audioManager.playSoundIfAvailable(`footstep_${surface}`, { volume: 0.5 * volume, spatial })) {
+    audioManager.playSyntheticFootstep(surface, spatial, volume);
+  }
+  return spatial;
+}
+
 /**
  * Thrown weapon sounds
  */
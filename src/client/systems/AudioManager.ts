@@ -1,3 +1,6 @@
+import type { SpatialParams } from './SpatialAudio';
+import { settingsStore } from './SettingsStore';
+
 /**
  * AudioManager - Handles all audio for the game
  * Supports realistic weapon sounds, spatial audio, and sound variations
@@ -9,6 +12,7 @@ interface AudioConfig {
   pitch?: number;
   fadeIn?: number;
   fadeOut?: number;
+  spatial?: SpatialParams; // From SpatialAudio.compute - omit for UI and the local player's own sounds
 }
 
 interface WeaponAudioConfig {
@@ -25,18 +29,28 @@ interface WeaponAudioConfig {
   noise: number;            // Noise level (0-1)
 }
 
+// Low-pass cutoff with nothing in the way vs behind walls that soak up everything
+const CLEAR_CUTOFF = 20000;
+const OCCLUDED_CUTOFF = 350;
+
 export class AudioManager {
   private audioContext: AudioContext;
   private sounds: Map<string, AudioBuffer[]> = new Map();
-  private activeSources: AudioBufferSourceNode[] = [];
+  private activeSources: AudioScheduledSourceNode[] = [];
   private masterVolume: number = 1.0;
   private sfxVolume: number = 0.8;
   private musicVolume: number = 0.5;
+  private musicBus: GainNode | null = null; // Everything MusicManager plays goes through here
   private isInitialized: boolean = false;
 
   constructor() {
     // Initialize AudioContext (will be created on first user interaction)
     this.audioContext = null as any;
+
+    // Volumes follow the settings, including changes made mid-match
+    settingsStore.watch('audio', 'master', percent => this.setMasterVolume(percent / 100));
+    settingsStore.watch('audio', 'sfx', percent => this.setSFXVolume(percent / 100));
+    settingsStore.watch('audio', 'music', percent => this.setMusicVolume(percent / 100));
   }
 
   /**
@@ -53,6 +67,10 @@ export class AudioManager {
         await this.audioContext.resume();
       }
 
+      this.musicBus = this.audioContext.createGain();
+      this.musicBus.gain.value = this.musicVolume * this.masterVolume;
+      this.musicBus.connect(this.audioContext.destination);
+
       this.isInitialized = true;
       console.log('AudioManager initialized successfully');
     } catch (error) {
@@ -223,7 +241,7 @@ export class AudioManager {
 
     // Connect audio graph
     source.connect(gainNode);
-    gainNode.connect(this.audioContext.destination);
+    this.connectOutput(gainNode, config.spatial);
 
     // Handle fade in
     if (config.fadeIn) {
@@ -251,7 +269,7 @@ export class AudioManager {
    */
   playWeaponSound(weapon: string, action: string, config?: Partial<AudioConfig>): boolean {
     const soundName = `${weapon}_${action}`;
-    return this.playSound(soundName, config) !== null;
+    return this.playSoundIfAvailable(soundName, config);
   }
 
   /**
@@ -263,8 +281,9 @@ export class AudioManager {
     duration?: number;    // Multiply base duration (1.0 = normal, 0.5 = half length)
     muffled?: boolean;    // Apply muffled effect (lower frequency, more filtering)
     distant?: boolean;    // Apply distance effect (lower volume, more filtering)
-  }): void {
-    if (!this.isInitialized) return;
+    spatial?: SpatialParams; // Pan, attenuate and occlude relative to the listener
+  }): boolean {
+    if (!this.isInitialized) return false;
 
     let config: Partial<WeaponAudioConfig> = {};
 
@@ -298,18 +317,92 @@ export class AudioManager {
       }
     }
 
-    this.generateWeaponSound(weaponType, config);
+    this.generateWeaponSound(weaponType, config, modifications?.spatial);
+    return true;
+  }
+
+  /**
+   * Synthetic explosion - a low rumble under a burst of noise
+   */
+  playSyntheticExplosion(size: 'rocket' | 'grenade', spatial?: SpatialParams): boolean {
+    if (!this.isInitialized) return false;
+
+    const now = this.audioContext.currentTime;
+    const duration = size === 'rocket' ? 1.2 : 0.9;
+    const volume = (size === 'rocket' ? 0.9 : 0.75) * this.sfxVolume * this.masterVolume;
+
+    const rumble = this.audioContext.createOscillator();
+    const rumbleGain = this.audioContext.createGain();
+    rumble.type = 'sine';
+    rumble.frequency.setValueAtTime(size === 'rocket' ? 80 : 110, now);
+    rumble.frequency.exponentialRampToValueAtTime(30, now + duration);
+    rumbleGain.gain.setValueAtTime(volume, now);
+    rumbleGain.gain.exponentialRampToValueAtTime(0.001, now + duration);
+    rumble.connect(rumbleGain);
+    this.connectOutput(rumbleGain, spatial);
+
+    const noiseSource = this.audioContext.createBufferSource();
+    const noiseFilter = this.audioContext.createBiquadFilter();
+    const noiseGain = this.audioContext.createGain();
+    noiseSource.buffer = this.createNoiseBuffer(duration);
+    noiseFilter.type = 'lowpass';
+    noiseFilter.frequency.setValueAtTime(3000, now);
+    noiseFilter.frequency.exponentialRampToValueAtTime(200, now + duration);
+    noiseGain.gain.setValueAtTime(volume * 0.8, now);
+    noiseGain.gain.exponentialRampToValueAtTime(0.001, now + duration * 0.8);
+    noiseSource.connect(noiseFilter);
+    noiseFilter.connect(noiseGain);
+    this.connectOutput(noiseGain, spatial);
+
+    rumble.start(now);
+    rumble.stop(now + duration);
+    noiseSource.start(now);
+    noiseSource.stop(now + duration);
+
+    this.activeSources.push(rumble);
+    this.activeSources.push(noiseSource);
+    return true;
+  }
+
+  /**
+   * Synthetic bullet impact - a short noise tick tuned by material
+   */
+  playSyntheticImpact(material: string, spatial?: SpatialParams): boolean {
+    const tones: { [key: string]: { frequency: number; duration: number; volume: number } } = {
+      concrete: { frequency: 1800, duration: 0.06, volume: 0.35 },
+      wood: { frequency: 700, duration: 0.08, volume: 0.35 },
+      metal: { frequency: 3200, duration: 0.15, volume: 0.3 },
+      glass: { frequency: 5000, duration: 0.12, volume: 0.25 }
+    };
+    return this.playNoiseBurst(tones[material] || tones.concrete, spatial);
+  }
+
+  /**
+   * Synthetic footstep - a soft, low thud tuned by floor surface
+   */
+  playSyntheticFootstep(surface: string, spatial?: SpatialParams, volume: number = 1): boolean {
+    const tones: { [key: string]: { frequency: number; duration: number; volume: number } } = {
+      concrete: { frequency: 500, duration: 0.05, volume: 0.2 },
+      wood: { frequency: 320, duration: 0.07, volume: 0.22 },
+      metal: { frequency: 900, duration: 0.09, volume: 0.2 },
+      grass: { frequency: 1400, duration: 0.06, volume: 0.12 },
+      dirt: { frequency: 260, duration: 0.06, volume: 0.15 }
+    };
+    const tone = tones[surface] || tones.concrete;
+    return this.playNoiseBurst({ ...tone, volume: tone.volume * volume }, spatial);
   }
 
   playImpactSound(material: string, config?: Partial<AudioConfig>): boolean {
     const soundName = `impact_${material}`;
-    return this.playSound(soundName, config) !== null;
+    return this.playSoundIfAvailable(soundName, config);
   }
 
   /**
-   * Play a sound and return whether it was successful
+   * Play a sound and return whether it was successful - quietly, since
+   * callers fall back to synthetic sounds
    */
   playSoundIfAvailable(soundName: string, config?: Partial<AudioConfig>): boolean {
+    if (!this.isInitialized || !this.sounds.has(soundName)) return false;
     return this.playSound(soundName, config) !== null;
   }
 
@@ -325,14 +418,14 @@ export class AudioManager {
   /**
    * Synthetic weapon sound generator with customizable properties
    */
-  generateWeaponSound(weaponType: string, config?: Partial<WeaponAudioConfig>): void {
+  generateWeaponSound(weaponType: string, config?: Partial<WeaponAudioConfig>, spatial?: SpatialParams): void {
     if (!this.isInitialized || !this.audioContext) {
       console.warn('AudioManager not initialized - cannot generate weapon sound');
       return;
     }
 
     const weaponConfig = this.getWeaponAudioConfig(weaponType, config);
-    this.playComplexWeaponSound(weaponConfig);
+    this.playComplexWeaponSound(weaponConfig, spatial);
   }
 
   private getWeaponAudioConfig(weaponType: string, override?: Partial<WeaponAudioConfig>): WeaponAudioConfig {
@@ -492,7 +585,7 @@ export class AudioManager {
     return { ...baseConfig, ...override };
   }
 
-  private playComplexWeaponSound(config: WeaponAudioConfig): void {
+  private playComplexWeaponSound(config: WeaponAudioConfig, spatial?: SpatialParams): void {
     const now = this.audioContext.currentTime;
     
     // Main oscillator for the core sound
@@ -508,12 +601,12 @@ export class AudioManager {
     // Connect main signal chain
     mainOsc.connect(filter);
     filter.connect(mainGain);
-    mainGain.connect(this.audioContext.destination);
+    this.connectOutput(mainGain, spatial);
     
     // Connect noise signal chain
     noiseSource.buffer = noiseBuffer;
     noiseSource.connect(noiseGain);
-    noiseGain.connect(this.audioContext.destination);
+    this.connectOutput(noiseGain, spatial);
     
     // Configure main oscillator
     mainOsc.type = config.waveType;
@@ -545,8 +638,66 @@ export class AudioManager {
     noiseSource.stop(now + config.duration);
     
     // Track active sources for cleanup
-    this.activeSources.push(mainOsc as any);
-    this.activeSources.push(noiseSource as any);
+    this.activeSources.push(mainOsc);
+    this.activeSources.push(noiseSource);
+  }
+
+  /**
+   * Band-passed noise with a fast decay - impacts and footsteps
+   */
+  private playNoiseBurst(tone: { frequency: number; duration: number; volume: number }, spatial?: SpatialParams): boolean {
+    if (!this.isInitialized) return false;
+
+    const now = this.audioContext.currentTime;
+    const source = this.audioContext.createBufferSource();
+    const filter = this.audioContext.createBiquadFilter();
+    const gain = this.audioContext.createGain();
+
+    source.buffer = this.createNoiseBuffer(tone.duration);
+    filter.type = 'bandpass';
+    filter.frequency.setValueAtTime(tone.frequency, now);
+    filter.Q.setValueAtTime(2, now);
+    gain.gain.setValueAtTime(tone.volume * this.sfxVolume * this.masterVolume, now);
+    gain.gain.exponentialRampToValueAtTime(0.001, now + tone.duration);
+
+    source.connect(filter);
+    filter.connect(gain);
+    this.connectOutput(gain, spatial);
+
+    source.start(now);
+    source.stop(now + tone.duration);
+    this.activeSources.push(source);
+    return true;
+  }
+
+  /**
+   * Route a finished voice to the speakers, through distance gain, occlusion
+   * low-pass and stereo pan when it has a position
+   */
+  private connectOutput(node: AudioNode, spatial?: SpatialParams): void {
+    if (!spatial) {
+      node.connect(this.audioContext.destination);
+      return;
+    }
+
+    const gain = this.audioContext.createGain();
+    gain.gain.value = spatial.gain;
+    node.connect(gain);
+
+    const lowpass = this.audioContext.createBiquadFilter();
+    lowpass.type = 'lowpass';
+    lowpass.frequency.value = CLEAR_CUTOFF * Math.pow(OCCLUDED_CUTOFF / CLEAR_CUTOFF, spatial.occlusion);
+    gain.connect(lowpass);
+
+    // StereoPannerNode is missing on some older Safari builds - play centred there
+    if (typeof this.audioContext.createStereoPanner === 'function') {
+      const panner = this.audioContext.createStereoPanner();
+      panner.pan.value = spatial.pan;
+      lowpass.connect(panner);
+      panner.connect(this.audioContext.destination);
+    } else {
+      lowpass.connect(this.audioContext.destination);
+    }
   }
 
   private createNoiseBuffer(duration: number): AudioBuffer {
@@ -567,6 +718,7 @@ export class AudioManager {
    */
   setMasterVolume(volume: number): void {
     this.masterVolume = Math.max(0, Math.min(1, volume));
+    this.updateMusicBus();
   }
 
   setSFXVolume(volume: number): void {
@@ -575,6 +727,39 @@ export class AudioManager {
 
   setMusicVolume(volume: number): void {
     this.musicVolume = Math.max(0, Math.min(1, volume));
+    this.updateMusicBus();
+  }
+
+  getMasterVolume(): number {
+    return this.masterVolume;
+  }
+
+  getMusicVolume(): number {
+    return this.musicVolume;
+  }
+
+  /**
+   * Audio context and music output for MusicManager - null until initialized
+   */
+  getContext(): AudioContext | null {
+    return this.isInitialized ? this.audioContext : null;
+  }
+
+  getMusicOutput(): AudioNode | null {
+    return this.musicBus;
+  }
+
+  /**
+   * First loaded variation of a sound, e.g. a real music track replacing a synthesized one
+   */
+  getSoundBuffer(soundName: string): AudioBuffer | null {
+    return this.sounds.get(soundName)?.[0] || null;
+  }
+
+  private updateMusicBus(): void {
+    if (!this.musicBus) return;
+    // Short ramp so dragging the volume doesn't click
+    this.musicBus.gain.setTargetAtTime(this.musicVolume * this.masterVolume, this.audioContext.currentTime, 0.05);
   }
 
   /**
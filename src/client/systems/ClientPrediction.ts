@@ -1,24 +1,44 @@
 import { Vector2 } from '../../../shared/types';
-import { GAME_CONFIG } from '../../../shared/constants';
+import { MovementKeys, MOVEMENT_STEP_SECONDS, simulateInput } from '../../../shared/movement/index';
 import { CollisionSystem } from './CollisionSystem';
 
 interface InputSnapshot {
   sequence: number;
-  input: any; // InputState from InputSystem
+  keys: MovementKeys;
+  mouse: Vector2 | null; // Aim point - facing is recomputed from it on replay, like the server does
+  isADS: boolean;
   timestamp: number;
   predictedPosition: Vector2;
-  processed: boolean;
 }
 
+export interface PredictionMetrics {
+  reconciliations: number;
+  pendingInputs: number;
+  // Distance between what we predicted for the acknowledged input and where the server put us
+  lastError: number;
+  averageError: number;
+  maxError: number;
+  // Reconciliations in the window that moved us by more than CORRECTION_THRESHOLD
+  corrections: number;
+}
+
+const METRICS_WINDOW = 60; // Reconciliations (~3s at 20Hz)
+const CORRECTION_THRESHOLD = 0.5;
+
 export class ClientPrediction {
   private inputBuffer: InputSnapshot[] = [];
   private lastAcknowledgedInput: number = 0;
+  private lastPredictedSequence: number = 0;
   private serverPosition: Vector2 = { x: 240, y: 135 };
   private predictedPosition: Vector2 = { x: 240, y: 135 };
+  private predictedAngle: number = 0;
   private smoothCorrection: Vector2 | null = null;
   private renderPosition: Vector2 = { x: 240, y: 135 };
   private collisionSystem: CollisionSystem = new CollisionSystem();
   private scene: Phaser.Scene | null = null;
+  private errorHistory: number[] = [];
+  private lastError: number = 0;
+  private reconciliationCount: number = 0;
   
   // Callback for position updates
   private onPositionUpdate: ((pos: Vector2) => void) | null = null;
@@ -62,39 +82,31 @@ export class ClientPrediction {
     }
   }
   
-  // Apply input locally for immediate response
+  /**
+   * Apply a sent input locally for immediate response. Call once per input
+   * packet - the server steps once per packet, not once per frame.
+   */
   applyInput(input: any, sequence: number): void {
+    if (sequence <= this.lastPredictedSequence) return;
+    this.lastPredictedSequence = sequence;
+
     // Update wall data for collision detection
     this.updateWallData();
     
-    // Calculate movement delta
-    const deltaTime = 1/60; // 16.67ms
-    const movement = this.calculateMovement(input);
-    
-    // Calculate new position before collision detection
-    const newPosition = {
-      x: this.predictedPosition.x + movement.x * deltaTime,
-      y: this.predictedPosition.y + movement.y * deltaTime
+    const snapshot: InputSnapshot = {
+      sequence: sequence,
+      keys: { ...input.keys },
+      mouse: input.mouse ? { x: input.mouse.x, y: input.mouse.y } : null,
+      isADS: !!input.isADS,
+      timestamp: Date.now(),
+      predictedPosition: { ...this.predictedPosition }
     };
     
-    // Apply collision detection and resolve movement
-    const resolvedPosition = this.collisionSystem.resolveMovement(this.predictedPosition, newPosition);
-    
-    // Update predicted position with resolved position
-    this.predictedPosition = resolvedPosition;
-    
-    // Clamp to game bounds as fallback
-    this.predictedPosition.x = Math.max(10, Math.min(GAME_CONFIG.GAME_WIDTH - 10, this.predictedPosition.x));
-    this.predictedPosition.y = Math.max(10, Math.min(GAME_CONFIG.GAME_HEIGHT - 10, this.predictedPosition.y));
+    this.predictedPosition = this.simulate(this.predictedPosition, snapshot);
+    snapshot.predictedPosition = { ...this.predictedPosition };
     
     // Store in buffer
-    this.inputBuffer.push({
-      sequence: sequence,
-      input: { ...input },
-      timestamp: Date.now(),
-      predictedPosition: { ...this.predictedPosition },
-      processed: false
-    });
+    this.inputBuffer.push(snapshot);
     
     // Keep buffer size reasonable (last 2 seconds)
     if (this.inputBuffer.length > 120) {
@@ -102,27 +114,27 @@ export class ClientPrediction {
     }
     
     // Update render position immediately
-    this.updateRenderPosition(deltaTime);
-    
-    // Notify callback
-    if (this.onPositionUpdate) {
-      this.onPositionUpdate(this.renderPosition);
-    }
+    this.updateRenderPosition(MOVEMENT_STEP_SECONDS);
   }
   
-  // Calculate movement from input
-  private calculateMovement(input: any): Vector2 {
-    const movement = { x: 0, y: 0 };
-    
-    if (input.movement) {
-      movement.x = input.movement.x * GAME_CONFIG.PLAYER_SPEED_WALK * input.movementSpeed;
-      movement.y = input.movement.y * GAME_CONFIG.PLAYER_SPEED_WALK * input.movementSpeed;
+  /**
+   * One input through the shared movement model - same step the server runs
+   */
+  private simulate(position: Vector2, snapshot: InputSnapshot): Vector2 {
+    if (snapshot.mouse) {
+      this.predictedAngle = Math.atan2(snapshot.mouse.y - position.y, snapshot.mouse.x - position.x);
     }
     
-    return movement;
+    return simulateInput(position, snapshot.keys, {
+      angle: this.predictedAngle,
+      isADS: snapshot.isADS
+    }, this.collisionSystem).position;
   }
   
-  // When receiving game state from server, reconcile predictions
+  /**
+   * Reconcile with an authoritative snapshot: rewind to the server position for
+   * the last input it processed, then replay every input it hasn't seen yet
+   */
   onGameStateReceived(serverPlayer: any): void {
     if (!serverPlayer) return;
     
@@ -133,72 +145,40 @@ export class ClientPrediction {
     const serverPos = this.extractServerPosition(serverPlayer);
     const lastProcessedInput = serverPlayer.lastProcessedInput || 0;
     
-    // Log reconciliation info
-    const unprocessedCount = this.inputBuffer.filter(s => s.sequence > lastProcessedInput).length;
-    if (unprocessedCount > 0) {
-
+    // Stale or duplicate snapshot - nothing new to learn
+    if (lastProcessedInput < this.lastAcknowledgedInput) return;
+    
+    // What we predicted for the input the server just acknowledged
+    const acknowledged = this.inputBuffer.find(snapshot => snapshot.sequence === lastProcessedInput);
+    if (acknowledged) {
+      this.recordError(Math.hypot(
+        acknowledged.predictedPosition.x - serverPos.x,
+        acknowledged.predictedPosition.y - serverPos.y
+      ));
     }
     
     // Update acknowledged input
     this.lastAcknowledgedInput = lastProcessedInput;
     
     // Server position is authoritative for that input
-    this.serverPosition = serverPos;
+    this.serverPosition = { ...serverPos };
     
     // Remove old acknowledged inputs
     this.inputBuffer = this.inputBuffer.filter(
       snapshot => snapshot.sequence > lastProcessedInput
     );
     
-    // If no unprocessed inputs, we're in sync!
-    if (this.inputBuffer.length === 0) {
-      const drift = Math.hypot(
-        this.predictedPosition.x - serverPos.x,
-        this.predictedPosition.y - serverPos.y
-      );
-      
-      if (drift > 0.1) {
-
-      }
-      
-      this.predictedPosition = { ...serverPos };
-      this.applySmoothCorrection();
-      return;
-    }
-    
-    // Re-apply unprocessed inputs from server position with collision detection
+    // Rewind, then re-simulate what the server hasn't processed yet
     let replayPosition = { ...serverPos };
+    if (typeof serverPlayer.angle === 'number') {
+      this.predictedAngle = serverPlayer.angle;
+    }
     
     for (const snapshot of this.inputBuffer) {
-      const movement = this.calculateMovement(snapshot.input);
-      const deltaTime = 1/60;
-      
-      // Calculate new position
-      const newPosition = {
-        x: replayPosition.x + movement.x * deltaTime,
-        y: replayPosition.y + movement.y * deltaTime
-      };
-      
-      // Apply collision detection
-      replayPosition = this.collisionSystem.resolveMovement(replayPosition, newPosition);
-      
-      // Clamp to bounds as fallback
-      replayPosition.x = Math.max(10, Math.min(GAME_CONFIG.GAME_WIDTH - 10, replayPosition.x));
-      replayPosition.y = Math.max(10, Math.min(GAME_CONFIG.GAME_HEIGHT - 10, replayPosition.y));
-      
+      replayPosition = this.simulate(replayPosition, snapshot);
       snapshot.predictedPosition = { ...replayPosition };
     }
     
-    // Calculate prediction error
-    const predictionError = Math.hypot(
-      this.predictedPosition.x - replayPosition.x,
-      this.predictedPosition.y - replayPosition.y
-    );
-    
-    if (predictionError > 1) {
-
-    }
-    
     // Update predicted position
     this.predictedPosition = replayPosition;
     
@@ -206,6 +186,30 @@ export class ClientPrediction {
     this.applySmoothCorrection();
   }
   
+  private recordError(error: number): void {
+    this.lastError = error;
+    this.reconciliationCount++;
+    this.errorHistory.push(error);
+    if (this.errorHistory.length > METRICS_WINDOW) {
+      this.errorHistory.shift();
+    }
+  }
+  
+  /**
+   * Misprediction stats for the performance overlay
+   */
+  getMetrics(): PredictionMetrics {
+    const total = this.errorHistory.reduce((sum, error) => sum + error, 0);
+    return {
+      reconciliations: this.reconciliationCount,
+      pendingInputs: this.inputBuffer.length,
+      lastError: this.lastError,
+      averageError: this.errorHistory.length > 0 ? total / this.errorHistory.length : 0,
+      maxError: this.errorHistory.reduce((max, error) => Math.max(max, error), 0),
+      corrections: this.errorHistory.filter(error => error > CORRECTION_THRESHOLD).length
+    };
+  }
+  
   // Extract position from various server formats
   private extractServerPosition(serverPlayer: any): Vector2 {
     if (serverPlayer.transform && serverPlayer.transform.position) {
@@ -0,0 +1,164 @@
+import { TimeSync } from './TimeSync';
+import { GAME_CONFIG } from '../../../shared/constants/index';
+
+/**
+ * ConnectionQualityMonitor - Rolling figures for the network HUD
+ *
+ * NetworkSystem reports every inbound and outbound event and every game
+ * state it applies. Loss is estimated from gaps in the game:state stream:
+ * binary snapshots carry a sequence number, JSON states are judged by their
+ * timestamps against the spacing we normally see between them. That spacing is
+ * not 1/tickRate - the server simulates faster than it broadcasts - so it is
+ * the median of recent gaps, or NETWORK_RATE until there are enough of them.
+ * RTT and jitter come from TimeSync, probed once a second.
+ */
+
+export interface ConnectionQualityStats {
+  rtt: number | null;
+  jitter: number;
+  inboundRate: number;   // Events per second
+  outboundRate: number;
+  loss: number;          // 0-1, game states missing over the last few seconds
+  tickRate: number;      // What the server says it simulates at
+  broadcastRate: number; // Game states per second we expect to arrive
+  snapshotRate: number;  // What actually arrives
+  timeSyncHealthy: boolean;
+  timeOffset: number;
+  rttHistory: number[];  // One sample per HISTORY_INTERVAL_MS, oldest first
+  snapshotRateHistory: number[];
+}
+
+const PROBE_INTERVAL_MS = 1000;
+const HISTORY_INTERVAL_MS = 500;
+const HISTORY_LENGTH = 60; // 30s
+const LOSS_WINDOW_MS = 5000;
+const SPACING_SAMPLES = 21; // Odd, so the median is a real gap
+
+export class ConnectionQualityMonitor {
+  private inboundCount: number = 0;
+  private outboundCount: number = 0;
+  private snapshotCount: number = 0;
+  private inboundRate: number = 0;
+  private outboundRate: number = 0;
+  private snapshotRate: number = 0;
+  private tickRate: number = 0;
+
+  private lastSequence: number | null = null;
+  private lastTimestamp: number | null = null;
+  private recentGaps: number[] = []; // ms between consecutive JSON state timestamps
+  private lossSamples: { time: number; received: number; missed: number }[] = [];
+
+  private rttHistory: number[] = [];
+  private snapshotRateHistory: number[] = [];
+  private lastProbe: number = 0;
+  private lastHistorySample: number = Date.now();
+
+  recordInbound(): void {
+    this.inboundCount++;
+  }
+
+  recordOutbound(): void {
+    this.outboundCount++;
+  }
+
+  /**
+   * A game state was applied - sequence is null for JSON states
+   */
+  recordSnapshot(sequence: number | null, timestamp: number, tickRate: number): void {
+    this.snapshotCount++;
+    if (tickRate > 0) this.tickRate = tickRate;
+
+    let missed = 0;
+    if (sequence !== null) {
+      if (this.lastSequence !== null && sequence > this.lastSequence) {
+        missed = sequence - this.lastSequence - 1;
+      }
+      this.lastSequence = sequence;
+    } else if (this.lastTimestamp !== null && timestamp > this.lastTimestamp) {
+      const gap = timestamp - this.lastTimestamp;
+      missed = Math.max(0, Math.round(gap / this.getExpectedInterval()) - 1);
+      this.recentGaps.push(gap);
+      if (this.recentGaps.length > SPACING_SAMPLES) this.recentGaps.shift();
+    }
+    this.lastTimestamp = Math.max(timestamp, this.lastTimestamp ?? 0);
+
+    this.lossSamples.push({ time: Date.now(), received: 1, missed });
+  }
+
+  /**
+   * New connection - sequence numbers and timestamps start over
+   */
+  reset(): void {
+    this.lastSequence = null;
+    this.lastTimestamp = null;
+    this.recentGaps = [];
+    this.lossSamples = [];
+  }
+
+  update(timeSync: TimeSync | null): void {
+    const now = Date.now();
+
+    if (timeSync && now - this.lastProbe >= PROBE_INTERVAL_MS) {
+      this.lastProbe = now;
+      timeSync.probe();
+    }
+
+    const elapsed = now - this.lastHistorySample;
+    if (elapsed < HISTORY_INTERVAL_MS) return;
+    this.lastHistorySample = now;
+
+    this.inboundRate = this.inboundCount * 1000 / elapsed;
+    this.outboundRate = this.outboundCount * 1000 / elapsed;
+    this.snapshotRate = this.snapshotCount * 1000 / elapsed;
+    this.inboundCount = 0;
+    this.outboundCount = 0;
+    this.snapshotCount = 0;
+
+    this.pushHistory(this.rttHistory, timeSync?.getLastRtt() ?? 0);
+    this.pushHistory(this.snapshotRateHistory, this.snapshotRate);
+
+    while (this.lossSamples.length > 0 && now - this.lossSamples[0].time > LOSS_WINDOW_MS) {
+      this.lossSamples.shift();
+    }
+  }
+
+  getStats(timeSync: TimeSync | null): ConnectionQualityStats {
+    const totals = this.lossSamples.reduce((sum, sample) => {
+      sum.received += sample.received;
+      sum.missed += sample.missed;
+      return sum;
+    }, { received: 0, missed: 0 });
+
+    return {
+      rtt: timeSync?.getLastRtt() ?? null,
+      jitter: timeSync?.getJitter() ?? 0,
+      inboundRate: this.inboundRate,
+      outboundRate: this.outboundRate,
+      loss: totals.received + totals.missed > 0 ? totals.missed / (totals.received + totals.missed) : 0,
+      tickRate: this.tickRate,
+      broadcastRate: 1000 / this.getExpectedInterval(),
+      snapshotRate: this.snapshotRate,
+      timeSyncHealthy: timeSync?.isHealthy() ?? false,
+      timeOffset: timeSync?.getOffset() ?? 0,
+      rttHistory: [...this.rttHistory],
+      snapshotRateHistory: [...this.snapshotRateHistory]
+    };
+  }
+
+  /**
+   * Usual ms between game states - a lost state shows up as one gap twice this
+   * long, which moves the median far less than it moves an average
+   */
+  private getExpectedInterval(): number {
+    if (this.recentGaps.length < SPACING_SAMPLES) return 1000 / GAME_CONFIG.NETWORK_RATE;
+    const sorted = [...this.recentGaps].sort((a, b) => a - b);
+    return Math.max(1, sorted[Math.floor(sorted.length / 2)]);
+  }
+
+  private pushHistory(history: number[], value: number): void {
+    history.push(value);
+    if (history.length > HISTORY_LENGTH) {
+      history.shift();
+    }
+  }
+}
@@ -486,7 +486,7 @@ export class DestructionRenderer implements IGameSystem {
       material: wallData.material,
       sliceHealth: wallData.sliceHealth || [100, 100, 100, 100, 100],
       destructionMask: destructionMask,
-      maxHealth: 100,
+      maxHealth: wallData.maxHealth || 100,
       needsUpdate: true
     };
     
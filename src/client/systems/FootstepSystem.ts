@@ -0,0 +1,132 @@
+import { GAME_CONFIG } from '../../../shared/constants/index';
+import { PlayerState, Vector2 } from '../../../shared/types/index';
+import { playFootstep } from './AudioIntegration';
+
+/**
+ * FootstepSystem - Remote players' footsteps from their movementState
+ *
+ * Walking and running players step at their own cadence; sneaking and idle
+ * ones are silent. Steps are played from every player in the game state,
+ * not just the ones the vision polygon shows, so an enemy around a corner
+ * can be heard before they are seen. Each step the local player hears emits
+ * 'footstep:heard' for the HUD's direction indicator.
+ *
+ * The floor surface under each step comes from the level file, which only
+ * offline matches have - the backend sends no floor data, so online every
+ * step sounds like concrete.
+ */
+
+type MovementState = NonNullable<PlayerState['movementState']>;
+
+export interface FootstepHeard {
+  playerId: string;
+  position: Vector2;
+  strength: number; // 0-1 gain the step was heard at
+  seen: boolean;
+  enemy: boolean;
+}
+
+// What FootstepSystem needs from GameScene
+export interface FootstepSource {
+  getPlayers(): PlayerState[];
+  getLocalPlayerId(): string | null;
+  getLocalTeam(): 'red' | 'blue' | undefined;
+  isPlayerVisible(id: string): boolean;
+  getSurface(position: Vector2): string;
+}
+
+interface Gait {
+  interval: number; // ms between steps
+  volume: number;
+  range: number;    // Pixels - running carries further than walking
+}
+
+const GAITS: Partial<Record<MovementState, Gait>> = {
+  walking: { interval: 450, volume: 0.6, range: 180 },
+  running: { interval: 300, volume: 1.0, range: 280 }
+};
+
+const CADENCE_JITTER = 0.1; // +-10% so two players never step in lockstep
+const TEAMMATE_VOLUME = 0.5;
+
+interface StepTracker {
+  nextStepAt: number;
+  leftFoot: boolean;
+}
+
+export class FootstepSystem {
+  private scene: Phaser.Scene;
+  private source: FootstepSource;
+  private trackers: Map<string, StepTracker> = new Map();
+
+  constructor(scene: Phaser.Scene, source: FootstepSource) {
+    this.scene = scene;
+    this.source = source;
+  }
+
+  update(): void {
+    const now = Date.now();
+    const localPlayerId = this.source.getLocalPlayerId();
+    const localTeam = this.source.getLocalTeam();
+    const present = new Set<string>();
+
+    this.source.getPlayers().forEach(player => {
+      if (!player?.id || player.id === localPlayerId || !player.position) return;
+      present.add(player.id);
+
+      const gait = player.isAlive === false ? undefined : GAITS[this.getMovementState(player)];
+      if (!gait) {
+        // Stopped or sneaking - the first step after moving again comes straight away
+        this.trackers.delete(player.id);
+        return;
+      }
+
+      let tracker = this.trackers.get(player.id);
+      if (!tracker) {
+        tracker = { nextStepAt: now, leftFoot: Math.random() < 0.5 };
+        this.trackers.set(player.id, tracker);
+      }
+      if (now < tracker.nextStepAt) return;
+
+      tracker.nextStepAt = now + gait.interval * (1 + (Math.random() * 2 - 1) * CADENCE_JITTER);
+      tracker.leftFoot = !tracker.leftFoot;
+
+      const enemy = !!localTeam && player.team !== localTeam;
+      // Alternate feet land a touch differently
+      const volume = gait.volume * (enemy ? 1 : TEAMMATE_VOLUME) * (tracker.leftFoot ? 1 : 0.85);
+      const heard = playFootstep(player.position, this.source.getSurface(player.position), volume, gait.range);
+      if (!heard) return;
+
+      const event: FootstepHeard = {
+        playerId: player.id,
+        position: { x: player.position.x, y: player.position.y },
+        strength: heard.gain,
+        seen: this.source.isPlayerVisible(player.id),
+        enemy
+      };
+      this.scene.events.emit('footstep:heard', event);
+    });
+
+    // Forget players who left the game state
+    for (const id of this.trackers.keys()) {
+      if (!present.has(id)) this.trackers.delete(id);
+    }
+  }
+
+  destroy(): void {
+    this.trackers.clear();
+  }
+
+  /**
+   * The backend's movementState, or a guess from velocity when it leaves it out
+   */
+  private getMovementState(player: PlayerState): MovementState {
+    if (player.movementState) return player.movementState;
+
+    const speed = Math.hypot(player.velocity?.x || 0, player.velocity?.y || 0);
+    if (speed < 5) return 'idle';
+    if (speed < GAME_CONFIG.PLAYER_SPEED_WALK * 0.75) return 'sneaking';
+    if (speed > GAME_CONFIG.PLAYER_SPEED_WALK * 1.25) return 'running';
+    return 'walking';
+  }
+}
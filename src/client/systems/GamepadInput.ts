@@ -0,0 +1,103 @@
+import { Vector2 } from '../../../shared/types/index';
+import { InputAction } from './KeyBindings';
+
+/**
+ * GamepadInput - Reads a standard-mapping controller through Phaser's gamepad plugin
+ *
+ * Sticks and triggers are analog; everything here is reduced to the same
+ * actions the keyboard drives, so InputSystem still sends the plain w/a/s/d
+ * InputState the backend expects. Aim comes back as a direction only - the
+ * caller places the aim point around the player.
+ */
+
+// W3C "standard" gamepad button indices (Xbox names)
+export const GAMEPAD_BUTTONS = {
+  A: 0, B: 1, X: 2, Y: 3,
+  LB: 4, RB: 5, LT: 6, RT: 7,
+  BACK: 8, START: 9, L3: 10, R3: 11,
+  UP: 12, DOWN: 13, LEFT: 14, RIGHT: 15
+} as const;
+
+// Button-driven actions; movement comes from the left stick, weapon cycling from the bumpers
+export const GAMEPAD_ACTIONS: Partial<Record<InputAction, number>> = {
+  fire: GAMEPAD_BUTTONS.RT,
+  ads: GAMEPAD_BUTTONS.LT,
+  sprint: GAMEPAD_BUTTONS.L3,
+  sneak: GAMEPAD_BUTTONS.B,
+  reload: GAMEPAD_BUTTONS.X,
+  grenade: GAMEPAD_BUTTONS.Y, // Hold to charge, release to throw
+  respawn: GAMEPAD_BUTTONS.A,
+  scoreboard: GAMEPAD_BUTTONS.BACK
+};
+
+const STICK_DEADZONE = 0.25;
+const MOVE_THRESHOLD = 0.4; // Stick travel on an axis before that direction counts as pressed
+const TRIGGER_THRESHOLD = 0.3;
+
+export interface GamepadFrame {
+  actions: Set<InputAction>;
+  // Unit vector from the right stick, or null while it rests in the deadzone
+  aim: Vector2 | null;
+  // -1 / +1 on the frame a bumper goes down
+  weaponCycle: number;
+}
+
+/**
+ * First connected pad, or null when the plugin is off or nothing is plugged in
+ */
+export function getActivePad(scene: Phaser.Scene): Phaser.Input.Gamepad.Gamepad | null {
+  const plugin = scene.input.gamepad;
+  if (!plugin || plugin.total === 0) return null;
+  return plugin.getAll().find(pad => pad.connected) || null;
+}
+
+export function isPadButtonDown(pad: Phaser.Input.Gamepad.Gamepad, index: number): boolean {
+  const button = pad.buttons[index];
+  if (!button) return false;
+  // Triggers report analog values; don't wait for the browser's own pressed threshold
+  return index === GAMEPAD_BUTTONS.LT || index === GAMEPAD_BUTTONS.RT
+    ? button.value > TRIGGER_THRESHOLD
+    : button.pressed;
+}
+
+export class GamepadInput {
+  private scene: Phaser.Scene;
+  private bumpersDown = { left: false, right: false };
+
+  constructor(scene: Phaser.Scene) {
+    this.scene = scene;
+  }
+
+  poll(): GamepadFrame | null {
+    const pad = getActivePad(this.scene);
+    if (!pad) {
+      this.bumpersDown = { left: false, right: false };
+      return null;
+    }
+
+    const actions = new Set<InputAction>();
+    (Object.keys(GAMEPAD_ACTIONS) as InputAction[]).forEach(action => {
+      if (isPadButtonDown(pad, GAMEPAD_ACTIONS[action]!)) {
+        actions.add(action);
+      }
+    });
+
+    // Analog to digital - each axis presses its direction past the threshold
+    const move = pad.leftStick;
+    if (move.y < -MOVE_THRESHOLD) actions.add('moveUp');
+    if (move.y > MOVE_THRESHOLD) actions.add('moveDown');
+    if (move.x < -MOVE_THRESHOLD) actions.add('moveLeft');
+    if (move.x > MOVE_THRESHOLD) actions.add('moveRight');
+
+    const stick = pad.rightStick;
+    const magnitude = Math.sqrt(stick.x * stick.x + stick.y * stick.y);
+    const aim = magnitude > STICK_DEADZONE ? { x: stick.x / magnitude, y: stick.y / magnitude } : null;
+
+    const left = isPadButtonDown(pad, GAMEPAD_BUTTONS.LB);
+    const right = isPadButtonDown(pad, GAMEPAD_BUTTONS.RB);
+    const weaponCycle = (right && !this.bumpersDown.right ? 1 : 0) - (left && !this.bumpersDown.left ? 1 : 0);
+    this.bumpersDown = { left, right };
+
+    return { actions, aim, weaponCycle };
+  }
+}
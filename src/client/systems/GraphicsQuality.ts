@@ -0,0 +1,149 @@
+import { settingsStore, GraphicsQuality } from './SettingsStore';
+
+/**
+ * GraphicsQuality - Turns the video.quality setting into what each renderer
+ * is allowed to spend
+ *
+ * 'low', 'medium' and 'high' pick a QualityPreset directly. 'auto' starts at
+ * high and steps down a tier each time PerformanceMonitor reports sustained
+ * frame drops; it never steps back up on its own, since a tier that just
+ * dropped frames would only drop them again. Picking 'auto' again in the
+ * settings starts over from high. Gameplay-relevant visuals (fog of war,
+ * smoke coverage) look simpler at low quality but never hide less.
+ *
+ * Wall damage is not scaled: GameScene shows it by tinting each wall slice
+ * sprite, which costs the same at every tier.
+ */
+
+export interface QualityPreset {
+  particleScale: number;       // Share of VisualEffectsSystem particles spawned
+  trailLifetimeScale: number;  // Share of each bullet trail's fade time
+  maxParticles: number;        // Cap on VisualEffectsSystem's debris, blood and spark particles
+  smokeLayers: number;         // Cloud layers per smoke zone (2-5)
+  smokeWisps: number;          // Animated circles around each cloud's edge
+  smokeParticles: number;      // Drifting puffs per smoke zone
+  desaturation: boolean;       // VisionRenderer's colour-burn layer over the fog
+  menuLightRays: number;       // MenuScene muzzle-flash occlusion rays, 0 for no lighting
+  menuConeSteps: number;       // Segments in each MenuScene muzzle-flash cone
+}
+
+export const QUALITY_PRESETS: Record<GraphicsQuality, QualityPreset> = {
+  low: {
+    particleScale: 0.4,
+    trailLifetimeScale: 0.5,
+    maxParticles: 150,
+    smokeLayers: 2,
+    smokeWisps: 0,
+    smokeParticles: 5,
+    desaturation: false,
+    menuLightRays: 0,
+    menuConeSteps: 6
+  },
+  medium: {
+    particleScale: 0.7,
+    trailLifetimeScale: 0.75,
+    maxParticles: 300,
+    smokeLayers: 3,
+    smokeWisps: 3,
+    smokeParticles: 10,
+    desaturation: true,
+    menuLightRays: 12,
+    menuConeSteps: 12
+  },
+  high: {
+    particleScale: 1,
+    trailLifetimeScale: 1,
+    maxParticles: 500,
+    smokeLayers: 5,
+    smokeWisps: 6,
+    smokeParticles: 15,
+    desaturation: true,
+    menuLightRays: 32,
+    menuConeSteps: 20
+  }
+};
+
+const TIERS: GraphicsQuality[] = ['low', 'medium', 'high'];
+
+export class GraphicsQualityManager {
+  private autoTier: GraphicsQuality = 'high';
+  private tier: GraphicsQuality;
+  private listeners: Set<(preset: QualityPreset, tier: GraphicsQuality) => void> = new Set();
+
+  constructor() {
+    this.tier = this.resolveTier();
+    settingsStore.onChange((category, key) => {
+      if (category !== 'video' || key !== 'quality') return;
+      if (this.isAuto()) this.autoTier = 'high';
+      this.update();
+    });
+  }
+
+  getTier(): GraphicsQuality {
+    return this.tier;
+  }
+
+  getPreset(): QualityPreset {
+    return QUALITY_PRESETS[this.tier];
+  }
+
+  isAuto(): boolean {
+    return settingsStore.get('video', 'quality') === 'auto';
+  }
+
+  /**
+   * Call `apply` with the current preset now and whenever the tier changes -
+   * returns an unsubscribe function
+   */
+  watch(apply: (preset: QualityPreset, tier: GraphicsQuality) => void): () => void {
+    apply(this.getPreset(), this.tier);
+    this.listeners.add(apply);
+    return () => {
+      this.listeners.delete(apply);
+    };
+  }
+
+  /**
+   * watch() that also stops when the scene shuts down
+   */
+  watchInScene(scene: Phaser.Scene, apply: (preset: QualityPreset, tier: GraphicsQuality) => void): () => void {
+    const unwatch = this.watch(apply);
+    scene.events.once(Phaser.Scenes.Events.SHUTDOWN, unwatch);
+    return () => {
+      scene.events.off(Phaser.Scenes.Events.SHUTDOWN, unwatch);
+      unwatch();
+    };
+  }
+
+  /**
+   * PerformanceMonitor saw the frame rate stay low - drop a tier if we're on auto.
+   * Returns whether the tier changed.
+   */
+  reportSustainedFrameDrops(averageFps: number): boolean {
+    if (!this.isAuto()) return false;
+
+    const index = TIERS.indexOf(this.autoTier);
+    if (index <= 0) return false;
+
+    this.autoTier = TIERS[index - 1];
+    console.log(`📉 GraphicsQuality: ${Math.round(averageFps)} FPS sustained, auto quality lowered to ${this.autoTier}`);
+    this.update();
+    return true;
+  }
+
+  private resolveTier(): GraphicsQuality {
+    const quality = settingsStore.get('video', 'quality');
+    return quality === 'auto' ? this.autoTier : quality;
+  }
+
+  private update(): void {
+    const tier = this.resolveTier();
+    if (tier === this.tier) return;
+
+    this.tier = tier;
+    const preset = this.getPreset();
+    this.listeners.forEach(listener => listener(preset, tier));
+  }
+}
+
+export const graphicsQuality = new GraphicsQualityManager();
@@ -1,6 +1,11 @@
 import { IGameSystem } from '../../../shared/interfaces/IGameSystem';
 import { EVENTS } from '../../../shared/constants/index';
 import { PlayerLoadout } from '../../../shared/constants/weapons';
+import { keyBindings, InputAction, InputBinding, INPUT_ACTIONS } from './KeyBindings';
+import { GamepadInput } from './GamepadInput';
+import { settingsStore } from './SettingsStore';
+import { getForwardKey, getMovementDirection, getSpeedMultiplier } from '../../../shared/movement/index';
+import type { TouchControls } from '../ui/TouchControls';
 
 export interface InputState {
   keys: {
@@ -34,9 +39,23 @@ export interface InputState {
 
 export class InputSystem implements IGameSystem {
   private scene: Phaser.Scene;
-  private keys: any;
+  // Actions are read through the keymap - InputState.keys keeps the letters the backend expects
+  private actionBindings: Record<InputAction, InputBinding[]> = {} as Record<InputAction, InputBinding[]>;
+  private boundKeys: Map<number, Phaser.Input.Keyboard.Key> = new Map();
+  private keyListeners: Array<{ key: Phaser.Input.Keyboard.Key; down: () => void; up: () => void }> = [];
+  private mouseButtonsDown: Set<number> = new Set();
+  private unsubscribeBindings: (() => void) | null = null;
+  private unwatchAimRadius: (() => void) | null = null;
+  // Controller and touch state - actions they hold this frame and where an aim stick last pointed
+  private gamepad: GamepadInput;
+  private touchControls: TouchControls | null = null;
+  private stickActions: Set<InputAction> = new Set();
+  private stickAimDirection: { x: number; y: number } | null = null;
+  private gamepadAimRadius: number = settingsStore.get('controls', 'gamepadAimRadius');
+  private aimDevice: 'mouse' | 'stick' = 'mouse';
   private inputState: InputState;
   private sequence: number = 0;
+  private lastSentSequence: number = 0; // Only sent inputs are predicted - the server steps once per packet
   private networkTimer: number = 0;
   private readonly NETWORK_RATE = 1000 / 60; // 60 times per second (16.67ms)
   private networkSystem: any = null; // Reference to NetworkSystem for time sync
@@ -45,6 +64,7 @@ export class InputSystem implements IGameSystem {
   private playerRotation: number = 0; // Player's current rotation in radians
   private lastInputState: InputState | null = null;
   private isPlayerDead: boolean = false; // Track if player is dead
+  private isFrozen: boolean = false; // No input at all while the connection is being re-established
   private lastRespawnRequest: number = 0; // Prevent respawn spam
   private respawnKeyWasPressed: boolean = false; // Track if respawn key was already pressed
   
@@ -114,6 +134,7 @@ export class InputSystem implements IGameSystem {
 
   constructor(scene: Phaser.Scene) {
     this.scene = scene;
+    this.gamepad = new GamepadInput(scene);
     this.inputState = {
       keys: {
         w: false,
@@ -194,27 +215,19 @@ export class InputSystem implements IGameSystem {
       console.warn('⚠️ InputSystem: NetworkSystem not available - timestamps will use local time');
     }
     
-    // Set up keyboard input
-    this.keys = this.scene.input.keyboard!.addKeys({
-      w: Phaser.Input.Keyboard.KeyCodes.W,
-      a: Phaser.Input.Keyboard.KeyCodes.A,
-      s: Phaser.Input.Keyboard.KeyCodes.S,
-      d: Phaser.Input.Keyboard.KeyCodes.D,
-      shift: Phaser.Input.Keyboard.KeyCodes.SHIFT,
-      ctrl: Phaser.Input.Keyboard.KeyCodes.CTRL,
-      r: Phaser.Input.Keyboard.KeyCodes.R,
-      g: Phaser.Input.Keyboard.KeyCodes.G,
-      one: Phaser.Input.Keyboard.KeyCodes.ONE,
-      two: Phaser.Input.Keyboard.KeyCodes.TWO,
-      three: Phaser.Input.Keyboard.KeyCodes.THREE,
-      four: Phaser.Input.Keyboard.KeyCodes.FOUR,
-      // REMOVED five - backend only expects 1-4
-      space: Phaser.Input.Keyboard.KeyCodes.SPACE,
-      enter: Phaser.Input.Keyboard.KeyCodes.ENTER
-    });
+    // Set up keyboard input from the keymap - rebinds apply immediately
+    this.bindKeys();
+    this.unsubscribeBindings = keyBindings.onChange(() => this.bindKeys());
+    this.unwatchAimRadius = settingsStore.watchInScene(this.scene, 'controls', 'gamepadAimRadius', radius => this.setGamepadAimRadius(radius));
 
     // Set up mouse input
     this.scene.input.on('pointermove', (pointer: Phaser.Input.Pointer) => {
+      // Fingers belong to the on-screen sticks, not the crosshair
+      if (this.touchControls && pointer.wasTouch) return;
+
+      // Moving the mouse takes aim back from the right stick
+      this.aimDevice = 'mouse';
+      
       // Get world coordinates instead of screen coordinates
       const worldPoint = this.scene.cameras.main.getWorldPoint(pointer.x, pointer.y);
       let mouseX = Math.round(worldPoint.x);
@@ -264,10 +277,78 @@ export class InputSystem implements IGameSystem {
       this.updatePlayerRotation();
     });
 
-    // Set up mouse button events
+    // Set up mouse button events - buttons only matter through the actions bound to them
     this.scene.input.on('pointerdown', (pointer: Phaser.Input.Pointer) => {
-      this.inputState.mouse.buttons = pointer.buttons;
-      if (pointer.leftButtonDown()) {
+      if (this.touchControls && pointer.wasTouch) return;
+      this.mouseButtonsDown.add(pointer.button);
+      this.getActionsForBinding({ device: 'mouse', code: pointer.button }).forEach(action => this.handleActionDown(action));
+    });
+
+    this.scene.input.on('pointerup', (pointer: Phaser.Input.Pointer) => {
+      if (this.touchControls && pointer.wasTouch) return;
+      this.mouseButtonsDown.delete(pointer.button);
+      this.getActionsForBinding({ device: 'mouse', code: pointer.button }).forEach(action => this.handleActionUp(action));
+    });
+  }
+
+  /**
+   * (Re)attach key listeners for the current keymap
+   */
+  private bindKeys(): void {
+    const keyboard = this.scene.input.keyboard;
+    this.detachKeys();
+
+    INPUT_ACTIONS.forEach(action => {
+      this.actionBindings[action] = keyBindings.getBindings(action);
+    });
+    if (!keyboard) return;
+
+    INPUT_ACTIONS.forEach(action => {
+      this.actionBindings[action].forEach(binding => {
+        if (binding.device !== 'keyboard' || this.boundKeys.has(binding.code)) return;
+
+        const key = keyboard.addKey(binding.code);
+        const down = () => this.getActionsForBinding(binding).forEach(bound => this.handleActionDown(bound));
+        const up = () => this.getActionsForBinding(binding).forEach(bound => this.handleActionUp(bound));
+        key.on('down', down);
+        key.on('up', up);
+        this.boundKeys.set(binding.code, key);
+        this.keyListeners.push({ key, down, up });
+      });
+    });
+  }
+
+  private detachKeys(): void {
+    // Keys are shared with anything else in the scene - only drop our listeners
+    this.keyListeners.forEach(({ key, down, up }) => {
+      key.off('down', down);
+      key.off('up', up);
+    });
+    this.keyListeners = [];
+    this.boundKeys.clear();
+  }
+
+  private getActionsForBinding(binding: InputBinding): InputAction[] {
+    return INPUT_ACTIONS.filter(action =>
+      this.actionBindings[action]?.some(bound => bound.device === binding.device && bound.code === binding.code)
+    );
+  }
+
+  isActionDown(action: InputAction): boolean {
+    if (this.stickActions.has(action)) return true;
+    return (this.actionBindings[action] || []).some(binding =>
+      binding.device === 'keyboard'
+        ? this.boundKeys.get(binding.code)?.isDown === true
+        : this.mouseButtonsDown.has(binding.code)
+    );
+  }
+
+  // Edge-triggered actions; everything else is polled once per frame in update()
+  private handleActionDown(action: InputAction): void {
+    if (this.isFrozen) return;
+    
+    switch (action) {
+      case 'fire': {
         this.inputState.mouse.leftPressed = true;
         this.isMouseHeld = true;
         
@@ -287,17 +368,23 @@ export class InputSystem implements IGameSystem {
             this.startAutoFire();
           }
         }
+        break;
       }
-      if (pointer.rightButtonDown()) {
+      case 'ads':
         this.inputState.mouse.rightPressed = true;
         // Defer ADS toggle until update cycle
         this.pendingADSToggle = true;
-      }
-    });
+        break;
+      case 'scoreboard':
+        this.scene.events.emit('input:scoreboard', true);
+        break;
+    }
+    this.updateMouseButtons();
+  }
 
-    this.scene.input.on('pointerup', (pointer: Phaser.Input.Pointer) => {
-      this.inputState.mouse.buttons = pointer.buttons;
-      if (pointer.leftButtonReleased()) {
+  private handleActionUp(action: InputAction): void {
+    switch (action) {
+      case 'fire':
         this.inputState.mouse.leftReleased = true;
         this.isMouseHeld = false;
         
@@ -309,16 +396,87 @@ export class InputSystem implements IGameSystem {
           this.throwGrenade();
           this.isChargingGrenade = false;
         }
-      }
-      if (pointer.rightButtonReleased()) {
+        break;
+      case 'ads':
         this.inputState.mouse.rightReleased = true;
+        break;
+      case 'scoreboard':
+        this.scene.events.emit('input:scoreboard', false);
+        break;
+    }
+    this.updateMouseButtons();
+  }
+
+  private pollSticks(): void {
+    const frame = this.gamepad.poll();
+    const touch = this.touchControls?.getFrame() || null;
+    const previous = this.stickActions;
+    this.stickActions = new Set([...(frame?.actions || []), ...(touch?.actions || [])]);
+
+    // Same press/release edges the keyboard and mouse listeners produce
+    INPUT_ACTIONS.forEach(action => {
+      const isDown = this.stickActions.has(action);
+      if (isDown && !previous.has(action)) {
+        this.handleActionDown(action);
+      } else if (!isDown && previous.has(action)) {
+        this.handleActionUp(action);
       }
     });
 
+    if (frame && frame.weaponCycle !== 0 && !this.isPlayerDead) {
+      this.cycleWeapon(frame.weaponCycle);
+    }
+
+    const aim = touch?.aim || frame?.aim;
+    if (aim) {
+      this.aimDevice = 'stick';
+      this.stickAimDirection = aim;
+    }
+
+    // The aim point rides along with the player until the stick moves again
+    if (this.aimDevice === 'stick' && this.stickAimDirection) {
+      this.inputState.mouse.x = Math.round(this.playerPosition.x + this.stickAimDirection.x * this.gamepadAimRadius);
+      this.inputState.mouse.y = Math.round(this.playerPosition.y + this.stickAimDirection.y * this.gamepadAimRadius);
+      this.updatePlayerRotation();
+    }
+  }
+
+  setGamepadAimRadius(radius: number): void {
+    this.gamepadAimRadius = radius;
+  }
+
+  /**
+   * On-screen sticks feed the same actions as the gamepad; touches stop driving the mouse path
+   */
+  setTouchControls(touchControls: TouchControls | null): void {
+    this.touchControls = touchControls;
+    this.touchControls?.setPlayerDead(this.isPlayerDead);
+  }
 
+  // Bumpers step through the loadout, skipping empty slots
+  private cycleWeapon(direction: number): void {
+    for (let step = 1; step <= 4; step++) {
+      const slot = ((this.currentWeapon - 1 + direction * step + 4 * step) % 4) + 1;
+      if (this.weaponSlots[slot]) {
+        if (slot !== this.currentWeapon) {
+          this.switchWeapon(slot);
+        }
+        return;
+      }
+    }
+  }
+
+  // The backend reads mouse.buttons as a browser bitmask: 1 = fire, 2 = ADS
+  private updateMouseButtons(): void {
+    this.inputState.mouse.buttons = (this.isActionDown('fire') ? 1 : 0) | (this.isActionDown('ads') ? 2 : 0);
   }
 
   update(deltaTime: number): void {
+    if (this.isFrozen) return;
+    
+    // Controller and touch sticks first - they feed the same actions, including respawn while dead
+    this.pollSticks();
+    
     // Handle spectator input if player is dead
     if (this.isPlayerDead) {
       this.handleSpectatorInput();
@@ -328,18 +486,18 @@ export class InputSystem implements IGameSystem {
     // Normal alive player input processing below...
     
     // Update key states
-    this.inputState.keys.w = this.keys.w.isDown;
-    this.inputState.keys.a = this.keys.a.isDown;
-    this.inputState.keys.s = this.keys.s.isDown;
-    this.inputState.keys.d = this.keys.d.isDown;
-    this.inputState.keys.shift = this.keys.shift.isDown;
-    this.inputState.keys.ctrl = this.keys.ctrl.isDown;
-    this.inputState.keys.r = this.keys.r.isDown;
-    this.inputState.keys.g = this.keys.g.isDown;
-    this.inputState.keys['1'] = this.keys.one.isDown;
-    this.inputState.keys['2'] = this.keys.two.isDown;
-    this.inputState.keys['3'] = this.keys.three.isDown;
-    this.inputState.keys['4'] = this.keys.four.isDown;
+    this.inputState.keys.w = this.isActionDown('moveUp');
+    this.inputState.keys.a = this.isActionDown('moveLeft');
+    this.inputState.keys.s = this.isActionDown('moveDown');
+    this.inputState.keys.d = this.isActionDown('moveRight');
+    this.inputState.keys.shift = this.isActionDown('sprint');
+    this.inputState.keys.ctrl = this.isActionDown('sneak');
+    this.inputState.keys.r = this.isActionDown('reload');
+    this.inputState.keys.g = this.isActionDown('grenade');
+    this.inputState.keys['1'] = this.isActionDown('slot1');
+    this.inputState.keys['2'] = this.isActionDown('slot2');
+    this.inputState.keys['3'] = this.isActionDown('slot3');
+    this.inputState.keys['4'] = this.isActionDown('slot4');
     // REMOVED '5' - backend only expects 1-4
 
     // Handle weapon switching
@@ -387,6 +545,11 @@ export class InputSystem implements IGameSystem {
     this.scene.input.off('pointermove');
     this.scene.input.off('pointerdown');
     this.scene.input.off('pointerup');
+    this.detachKeys();
+    this.unsubscribeBindings?.();
+    this.unsubscribeBindings = null;
+    this.unwatchAimRadius?.();
+    this.unwatchAimRadius = null;
     // Clear pending actions
     this.pendingWeaponFire = false;
     this.pendingADSToggle = false;
@@ -406,6 +569,7 @@ export class InputSystem implements IGameSystem {
 
     // CRITICAL: Validate and fix input structure before sending
     this.validateAndFixInputState();
+    this.lastSentSequence = this.inputState.sequence;
 
     // Emit to NetworkSystem - send raw input state, backend calculates movement
     this.scene.events.emit(EVENTS.PLAYER_INPUT, this.inputState);
@@ -466,79 +630,24 @@ export class InputSystem implements IGameSystem {
     this.weaponUI = weaponUI;
   }
 
-  // Calculate which direction is "forward" based on mouse position
-  private getForwardDirection(): 'w' | 'a' | 's' | 'd' {
-    const mouseX = this.inputState.mouse.x;
-    const mouseY = this.inputState.mouse.y;
-    const playerX = this.playerPosition.x;
-    const playerY = this.playerPosition.y;
-
-    // Calculate angle from player to mouse
-    const angle = Math.atan2(mouseY - playerY, mouseX - playerX);
-    
-    // Convert angle to degrees for easier understanding
-    let degrees = (angle * 180 / Math.PI + 360) % 360;
-    
-    // Determine which direction is "forward" based on mouse angle
-    // North: 315° to 45° (or -45° to 45°)
-    // East: 45° to 135°
-    // South: 135° to 225°
-    // West: 225° to 315°
-    
-    if (degrees >= 315 || degrees < 45) {
-      return 'd'; // East (right)
-    } else if (degrees >= 45 && degrees < 135) {
-      return 's'; // South (down)
-    } else if (degrees >= 135 && degrees < 225) {
-      return 'a'; // West (left)
-    } else {
-      return 'w'; // North (up)
-    }
+  // Angle from player to mouse - decides which key is "forward"
+  private getAimAngle(): number {
+    return Math.atan2(this.inputState.mouse.y - this.playerPosition.y, this.inputState.mouse.x - this.playerPosition.x);
   }
 
-  // Check if we're moving in the forward direction
-  private isMovingForward(): boolean {
-    const forwardDirection = this.getForwardDirection();
-    return this.inputState.keys[forwardDirection];
+  // Calculate which direction is "forward" based on mouse position
+  private getForwardDirection(): 'w' | 'a' | 's' | 'd' {
+    return getForwardKey(this.getAimAngle());
   }
 
-  // Calculate movement speed based on input
+  // Calculate movement speed based on input - same model the server and ClientPrediction step with
   getMovementSpeed(): number {
-    const { keys } = this.inputState;
-    
-    // Sneak mode (50% speed)
-    if (keys.ctrl) {
-      return 0.5;
-    }
-    
-    // Run mode (150% speed, when moving in the direction of the mouse)
-    if (keys.shift && this.isMovingForward()) {
-      return 1.5;
-    }
-    
-    // Normal speed (100%)
-    return 1.0;
+    return getSpeedMultiplier(this.inputState.keys, { angle: this.getAimAngle(), isADS: this.isADS });
   }
 
   // Get movement direction vector
   getMovementDirection(): { x: number; y: number } {
-    const { keys } = this.inputState;
-    let x = 0;
-    let y = 0;
-
-    if (keys.a) x -= 1;
-    if (keys.d) x += 1;
-    if (keys.w) y -= 1;
-    if (keys.s) y += 1;
-
-    // Normalize diagonal movement
-    if (x !== 0 && y !== 0) {
-      const length = Math.sqrt(x * x + y * y);
-      x /= length;
-      y /= length;
-    }
-
-    return { x, y };
+    return getMovementDirection(this.inputState.keys);
   }
 
   // Get forward direction for debugging
@@ -680,7 +789,7 @@ export class InputSystem implements IGameSystem {
   }
 
   private handleReload(): void {
-    if (this.keys.r.isDown && !this.lastInputState?.keys.r) {
+    if (this.isActionDown('reload') && !this.lastInputState?.keys.r) {
       const weapon = this.weaponSlots[this.currentWeapon];
       if (!weapon) return;
       
@@ -768,7 +877,7 @@ export class InputSystem implements IGameSystem {
     this.scene.events.emit('grenade:charge:update', 0);
   }
 
-  private getAimDirection(): number {
+  getAimDirection(): number {
     const mouseX = this.inputState.mouse.x;
     const mouseY = this.inputState.mouse.y;
     const playerX = this.playerPosition.x;
@@ -802,6 +911,10 @@ export class InputSystem implements IGameSystem {
     return this.grenadeChargeLevel;
   }
 
+  getLastSentSequence(): number {
+    return this.lastSentSequence;
+  }
+
   isAimingDownSights(): boolean {
     return this.isADS;
   }
@@ -859,6 +972,7 @@ export class InputSystem implements IGameSystem {
   setPlayerDead(isDead: boolean): void {
     this.isPlayerDead = isDead;
     console.log(`💀 InputSystem: Player death state set to: ${isDead}`);
+    this.touchControls?.setPlayerDead(isDead);
     
     if (isDead) {
       // Clear any pending actions
@@ -881,6 +995,29 @@ export class InputSystem implements IGameSystem {
     }
   }
 
+  /**
+   * Freeze all input while reconnecting - nothing is sent, held keys are released
+   */
+  setFrozen(frozen: boolean): void {
+    this.isFrozen = frozen;
+    
+    this.pendingWeaponFire = false;
+    this.pendingADSToggle = false;
+    this.isChargingGrenade = false;
+    this.grenadeChargeStart = 0;
+    this.grenadeChargeLevel = 0;
+    this.isMouseHeld = false;
+    this.stopAutoFire();
+    
+    for (const key of Object.keys(this.inputState.keys) as Array<keyof InputState['keys']>) {
+      this.inputState.keys[key] = false;
+    }
+  }
+
+  isInputFrozen(): boolean {
+    return this.isFrozen;
+  }
+
   /**
    * Get player death state
    */
@@ -892,14 +1029,8 @@ export class InputSystem implements IGameSystem {
    * Handle input for dead players (spectator mode)
    */
   private handleSpectatorInput(): void {
-    // Safety check - ensure keys are initialized
-    if (!this.keys) {
-      console.warn('⚠️ InputSystem: Keys not initialized for spectator mode');
-      return;
-    }
-    
     // Check if respawn key is currently pressed
-    const respawnKeyIsDown = this.keys.space?.isDown || this.keys.enter?.isDown;
+    const respawnKeyIsDown = this.isActionDown('respawn');
     
     // Only trigger on key press (not hold) - detect transition from not pressed to pressed
     if (respawnKeyIsDown && !this.respawnKeyWasPressed) {
@@ -910,7 +1041,11 @@ export class InputSystem implements IGameSystem {
       const canRespawn = gameScene.canRespawn;
       console.log('🎮 canRespawn:', canRespawn, 'isPlayerDead:', gameScene.isPlayerDead);
       
-      if (canRespawn) {
+      if (gameScene.killcamSystem?.isPlaying()) {
+        // First press skips the killcam; the respawn prompt follows
+        console.log('🎮 Skipping killcam');
+        gameScene.killcamSystem.skip();
+      } else if (canRespawn) {
         // Check throttle to prevent spam
         const now = Date.now();
         if (!this.lastRespawnRequest || now - this.lastRespawnRequest > 1000) {
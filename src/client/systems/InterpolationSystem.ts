@@ -1,49 +1,202 @@
 import { Vector2 } from '../../../shared/types/index';
 
+/**
+ * InterpolationSystem - Snapshot buffer for remote entities
+ *
+ * Every game state is stamped with the server's clock. Remote players are
+ * drawn INTERPOLATION_DELAY_MS in the past (the network.interpolationDelay
+ * setting overrides it), between the two snapshots that bracket that moment,
+ * so 20Hz updates render as smooth motion instead of a snap every 50ms. When the next snapshot is late (packet loss) the last
+ * velocity is extrapolated for at most MAX_EXTRAPOLATION_MS, then the entity
+ * holds still until data arrives.
+ */
+
+interface Snapshot {
+  time: number; // Server time the state was produced
+  position: Vector2;
+  angle: number;
+}
+
+export interface InterpolatedState {
+  position: Vector2;
+  angle: number;
+  extrapolating: boolean;
+}
+
+export interface InterpolationStats {
+  entities: number;
+  // Snapshots ahead of the render time, averaged over entities - below 1 means we are out of data
+  bufferDepth: number;
+  extrapolating: number;
+  clockOffset: number;
+}
+
+export const INTERPOLATION_DELAY_MS = 100; // Two snapshots at the 20Hz network rate
+const MAX_EXTRAPOLATION_MS = 150;
+const BUFFER_WINDOW_MS = 1000;
+const TELEPORT_DISTANCE = 100; // Respawns and other jumps snap instead of sliding across the map
+const CLOCK_SMOOTHING = 0.1;
+const CLOCK_RESYNC_MS = 500; // Offset jumps this large (time resync, tab wake) are taken at once
+
+export function lerpAngle(from: number, to: number, t: number): number {
+  let diff = to - from;
+  while (diff > Math.PI) diff -= Math.PI * 2;
+  while (diff < -Math.PI) diff += Math.PI * 2;
+  return from + diff * t;
+}
+
 export class InterpolationSystem {
-  private lerpFactor: number = 0.15; // Smoothing factor (0-1, lower = smoother)
-  
+  private getServerTime: () => number;
+  private buffers: Map<string, Snapshot[]> = new Map();
+  // Snapshot timestamp minus local estimate of server time on arrival: latency + jitter + any sync error
+  private clockOffset: number | null = null;
+  private lastSampleExtrapolating: Set<string> = new Set();
+  private delay: number = INTERPOLATION_DELAY_MS;
+
+  constructor(getServerTime: () => number) {
+    this.getServerTime = getServerTime;
+  }
+
+  /**
+   * Shorter is more responsive, longer rides out jitter and loss
+   */
+  setDelay(delay: number): void {
+    this.delay = Math.max(0, delay);
+  }
+
+  /**
+   * Record an entity's state from a snapshot. Snapshots without a server
+   * timestamp are stamped with the estimated arrival time.
+   */
+  pushSnapshot(id: string, serverTimestamp: number | undefined, position: Vector2, angle: number): void {
+    const now = this.getServerTime();
+    const time = typeof serverTimestamp === 'number' && serverTimestamp > 0 ? serverTimestamp : now + (this.clockOffset ?? 0);
+    this.observeClock(time - now);
+
+    let buffer = this.buffers.get(id);
+    if (!buffer) {
+      buffer = [];
+      this.buffers.set(id, buffer);
+    }
+
+    const last = buffer[buffer.length - 1];
+    if (last) {
+      // Same tick delivered twice (player_joined + game state) - keep the first
+      if (time <= last.time) return;
+
+      const dx = position.x - last.position.x;
+      const dy = position.y - last.position.y;
+      if (dx * dx + dy * dy > TELEPORT_DISTANCE * TELEPORT_DISTANCE) {
+        buffer.length = 0;
+      }
+    }
+
+    buffer.push({ time, position: { x: position.x, y: position.y }, angle });
+
+    // Keep one snapshot older than the render time so there is always a bracket
+    const cutoff = time - BUFFER_WINDOW_MS;
+    while (buffer.length > 2 && buffer[1].time < cutoff) {
+      buffer.shift();
+    }
+  }
+
   /**
-   * Interpolate between current and target positions
-   * @param current Current position
-   * @param target Target position
-   * @param deltaTime Delta time in seconds
-   * @returns Interpolated position
+   * Where an entity should be drawn this frame, or null with no data
    */
-  interpolatePosition(current: Vector2, target: Vector2, deltaTime: number): Vector2 {
-    // Use exponential smoothing for smooth interpolation
-    const factor = 1 - Math.pow(1 - this.lerpFactor, deltaTime * 60); // Normalize to 60fps
-    
+  sample(id: string, renderTime: number = this.getRenderTime()): InterpolatedState | null {
+    const buffer = this.buffers.get(id);
+    if (!buffer || buffer.length === 0) return null;
+
+    const first = buffer[0];
+    if (buffer.length === 1 || renderTime <= first.time) {
+      this.lastSampleExtrapolating.delete(id);
+      return { position: { ...first.position }, angle: first.angle, extrapolating: false };
+    }
+
+    for (let i = buffer.length - 1; i > 0; i--) {
+      const from = buffer[i - 1];
+      const to = buffer[i];
+      if (renderTime >= from.time && renderTime <= to.time) {
+        const t = (renderTime - from.time) / Math.max(1, to.time - from.time);
+        this.lastSampleExtrapolating.delete(id);
+        return {
+          position: {
+            x: from.position.x + (to.position.x - from.position.x) * t,
+            y: from.position.y + (to.position.y - from.position.y) * t
+          },
+          angle: lerpAngle(from.angle, to.angle, t),
+          extrapolating: false
+        };
+      }
+    }
+
+    // Render time is past the newest snapshot - continue the last motion, capped
+    const previous = buffer[buffer.length - 2];
+    const latest = buffer[buffer.length - 1];
+    const span = Math.max(1, latest.time - previous.time);
+    const ahead = Math.min(renderTime - latest.time, MAX_EXTRAPOLATION_MS);
+    const t = ahead / span;
+    this.lastSampleExtrapolating.add(id);
+
     return {
-      x: current.x + (target.x - current.x) * factor,
-      y: current.y + (target.y - current.y) * factor
+      position: {
+        x: latest.position.x + (latest.position.x - previous.position.x) * t,
+        y: latest.position.y + (latest.position.y - previous.position.y) * t
+      },
+      angle: latest.angle,
+      extrapolating: true
     };
   }
-  
+
   /**
-   * Interpolate angle with wrapping
-   * @param current Current angle in radians
-   * @param target Target angle in radians
-   * @param deltaTime Delta time in seconds
-   * @returns Interpolated angle
+   * Server time currently being drawn - the newest snapshot's age plus the delay
    */
-  interpolateAngle(current: number, target: number, deltaTime: number): number {
-    // Handle angle wrapping
-    let diff = target - current;
-    
-    // Wrap to [-PI, PI]
-    while (diff > Math.PI) diff -= Math.PI * 2;
-    while (diff < -Math.PI) diff += Math.PI * 2;
-    
-    const factor = 1 - Math.pow(1 - this.lerpFactor, deltaTime * 60);
-    return current + diff * factor;
-  }
-  
+  getRenderTime(): number {
+    return this.getServerTime() + (this.clockOffset ?? 0) - this.delay;
+  }
+
   /**
-   * Set the interpolation smoothing factor
-   * @param factor Value between 0 and 1 (lower = smoother)
+   * Drop buffered history so the next snapshot is drawn where it lands (respawns)
    */
-  setLerpFactor(factor: number): void {
-    this.lerpFactor = Math.max(0, Math.min(1, factor));
+  reset(id: string, position?: Vector2, angle: number = 0): void {
+    this.buffers.delete(id);
+    this.lastSampleExtrapolating.delete(id);
+    if (position) {
+      this.buffers.set(id, [{ time: this.getRenderTime(), position: { x: position.x, y: position.y }, angle }]);
+    }
+  }
+
+  remove(id: string): void {
+    this.buffers.delete(id);
+    this.lastSampleExtrapolating.delete(id);
+  }
+
+  clear(): void {
+    this.buffers.clear();
+    this.lastSampleExtrapolating.clear();
+    this.clockOffset = null;
+  }
+
+  getStats(): InterpolationStats {
+    const renderTime = this.getRenderTime();
+    let ahead = 0;
+    this.buffers.forEach(buffer => {
+      ahead += buffer.filter(snapshot => snapshot.time > renderTime).length;
+    });
+
+    return {
+      entities: this.buffers.size,
+      bufferDepth: this.buffers.size > 0 ? ahead / this.buffers.size : 0,
+      extrapolating: this.lastSampleExtrapolating.size,
+      clockOffset: Math.round(this.clockOffset ?? 0)
+    };
+  }
+
+  private observeClock(offset: number): void {
+    if (this.clockOffset === null || Math.abs(offset - this.clockOffset) > CLOCK_RESYNC_MS) {
+      this.clockOffset = offset;
+      return;
+    }
+    this.clockOffset += (offset - this.clockOffset) * CLOCK_SMOOTHING;
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,236 @@
+/**
+ * KeyBindings - Action-based keymap shared by InputSystem and the controls screen
+ *
+ * Every gameplay input is an action; each action holds up to two bindings to a
+ * keyboard key (Phaser key code) or a mouse button (pointer.button index).
+ * The map persists in localStorage and listeners hear about every change, so a
+ * running InputSystem picks up rebinds without a restart.
+ */
+
+export type InputAction =
+  | 'moveUp' | 'moveDown' | 'moveLeft' | 'moveRight'
+  | 'sprint' | 'sneak' | 'reload' | 'grenade'
+  | 'slot1' | 'slot2' | 'slot3' | 'slot4'
+  | 'fire' | 'ads' | 'respawn' | 'scoreboard';
+
+export interface InputBinding {
+  device: 'keyboard' | 'mouse';
+  code: number; // Phaser key code, or 0 = left / 1 = middle / 2 = right mouse button
+}
+
+// Display order for the controls screen
+export const INPUT_ACTIONS: InputAction[] = [
+  'moveUp', 'moveDown', 'moveLeft', 'moveRight',
+  'sprint', 'sneak', 'fire', 'ads',
+  'reload', 'grenade', 'slot1', 'slot2',
+  'slot3', 'slot4', 'respawn', 'scoreboard'
+];
+
+export const ACTION_LABELS: Record<InputAction, string> = {
+  moveUp: 'Move Up',
+  moveDown: 'Move Down',
+  moveLeft: 'Move Left',
+  moveRight: 'Move Right',
+  sprint: 'Sprint',
+  sneak: 'Sneak',
+  fire: 'Fire',
+  ads: 'Aim (ADS)',
+  reload: 'Reload',
+  grenade: 'Grenade',
+  slot1: 'Primary',
+  slot2: 'Secondary',
+  slot3: 'Support 1',
+  slot4: 'Support 2',
+  respawn: 'Respawn',
+  scoreboard: 'Scoreboard'
+};
+
+export const MAX_BINDINGS_PER_ACTION = 2;
+
+const STORAGE_KEY = 'trespasser_keybindings';
+const STORAGE_VERSION = 1;
+
+// Key codes are spelled out so this module can load before Phaser is ready
+const key = (code: number): InputBinding => ({ device: 'keyboard', code });
+const mouse = (button: number): InputBinding => ({ device: 'mouse', code: button });
+
+export const DEFAULT_BINDINGS: Record<InputAction, InputBinding[]> = {
+  moveUp: [key(87)],      // W
+  moveDown: [key(83)],    // S
+  moveLeft: [key(65)],    // A
+  moveRight: [key(68)],   // D
+  sprint: [key(16)],      // SHIFT
+  sneak: [key(17)],       // CTRL
+  fire: [mouse(0)],
+  ads: [mouse(2)],
+  reload: [key(82)],      // R
+  grenade: [key(71)],     // G
+  slot1: [key(49)],       // 1
+  slot2: [key(50)],       // 2
+  slot3: [key(51)],       // 3
+  slot4: [key(52)],       // 4
+  respawn: [key(32), key(13)], // SPACE, ENTER
+  scoreboard: [key(9)]    // TAB
+};
+
+const MOUSE_LABELS = ['LMB', 'MMB', 'RMB', 'MOUSE4', 'MOUSE5'];
+const KEY_LABEL_OVERRIDES: Record<string, string> = {
+  ZERO: '0', ONE: '1', TWO: '2', THREE: '3', FOUR: '4',
+  FIVE: '5', SIX: '6', SEVEN: '7', EIGHT: '8', NINE: '9',
+  BACKTICK: '`', OPEN_BRACKET: '[', CLOSED_BRACKET: ']',
+  SEMICOLON: ';', QUOTES: "'", COMMA: ',', PERIOD: '.', FORWARD_SLASH: '/',
+  BACK_SLASH: '\\', MINUS: '-', PLUS: '=',
+  UP: '↑', DOWN: '↓', LEFT: '←', RIGHT: '→'
+};
+
+export function describeBinding(binding?: InputBinding): string {
+  if (!binding) return '---';
+  if (binding.device === 'mouse') {
+    return MOUSE_LABELS[binding.code] || `MOUSE${binding.code + 1}`;
+  }
+
+  const name = Object.keys(Phaser.Input.Keyboard.KeyCodes)
+    .find(keyName => (Phaser.Input.Keyboard.KeyCodes as Record<string, number>)[keyName] === binding.code);
+  if (!name) return `KEY ${binding.code}`;
+  return KEY_LABEL_OVERRIDES[name] ?? name.replace(/_/g, ' ');
+}
+
+// "SPACE or ENTER" - for prompts that name the keys of an action
+export function describeAction(action: InputAction): string {
+  const bindings = keyBindings.getBindings(action);
+  return bindings.length > 0 ? bindings.map(binding => describeBinding(binding)).join(' or ') : 'UNBOUND';
+}
+
+export function sameBinding(a: InputBinding, b: InputBinding): boolean {
+  return a.device === b.device && a.code === b.code;
+}
+
+function cloneBindings(source: Record<InputAction, InputBinding[]>): Record<InputAction, InputBinding[]> {
+  const copy = {} as Record<InputAction, InputBinding[]>;
+  INPUT_ACTIONS.forEach(action => {
+    copy[action] = source[action].map(binding => ({ ...binding }));
+  });
+  return copy;
+}
+
+function isBinding(value: any): value is InputBinding {
+  return value && (value.device === 'keyboard' || value.device === 'mouse') &&
+    typeof value.code === 'number' && Number.isInteger(value.code) && value.code >= 0;
+}
+
+export class KeyBindings {
+  private bindings: Record<InputAction, InputBinding[]>;
+  private listeners: Set<() => void> = new Set();
+
+  constructor() {
+    this.bindings = this.load();
+  }
+
+  getBindings(action: InputAction): InputBinding[] {
+    return this.bindings[action].map(binding => ({ ...binding }));
+  }
+
+  /**
+   * Actions currently using a binding - more than one means a conflict
+   */
+  getActionsFor(binding: InputBinding): InputAction[] {
+    return INPUT_ACTIONS.filter(action => this.bindings[action].some(existing => sameBinding(existing, binding)));
+  }
+
+  /**
+   * Bind `binding` into an action's slot. A binding can only drive one action,
+   * so an action already using it takes over whatever the slot held (a swap).
+   * Returns the action that was swapped with, if any.
+   */
+  bind(action: InputAction, slot: number, binding: InputBinding): InputAction | null {
+    if (slot < 0 || slot >= MAX_BINDINGS_PER_ACTION) return null;
+
+    const current = this.bindings[action];
+    const target = Math.min(slot, current.length);
+    const existing = current.findIndex(bound => sameBinding(bound, binding));
+
+    // Already on this action - moving it between slots is just a reorder
+    if (existing !== -1) {
+      if (target < current.length && existing !== target) {
+        [current[existing], current[target]] = [current[target], current[existing]];
+        this.save();
+      }
+      return null;
+    }
+
+    const previous = current[target];
+    const conflict = INPUT_ACTIONS.find(other => this.bindings[other].some(bound => sameBinding(bound, binding))) || null;
+
+    if (conflict) {
+      const index = this.bindings[conflict].findIndex(bound => sameBinding(bound, binding));
+      if (previous) {
+        this.bindings[conflict][index] = { ...previous };
+      } else {
+        this.bindings[conflict].splice(index, 1);
+      }
+    }
+
+    current[target] = { ...binding };
+    this.save();
+    return conflict;
+  }
+
+  unbind(action: InputAction, slot: number): void {
+    if (!this.bindings[action][slot]) return;
+    this.bindings[action].splice(slot, 1);
+    this.save();
+  }
+
+  resetToDefaults(): void {
+    this.bindings = cloneBindings(DEFAULT_BINDINGS);
+    this.save();
+  }
+
+  /**
+   * Subscribe to keymap changes - returns an unsubscribe function
+   */
+  onChange(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private load(): Record<InputAction, InputBinding[]> {
+    const bindings = cloneBindings(DEFAULT_BINDINGS);
+
+    try {
+      const raw = localStorage.getItem(STORAGE_KEY);
+      if (!raw) return bindings;
+
+      const saved = JSON.parse(raw);
+      if (saved?.version !== STORAGE_VERSION || typeof saved.bindings !== 'object') {
+        console.warn('⚠️ KeyBindings: Ignoring saved keymap with unknown format');
+        return bindings;
+      }
+
+      // Actions missing from an older save keep their defaults
+      INPUT_ACTIONS.forEach(action => {
+        const entries = saved.bindings[action];
+        if (Array.isArray(entries)) {
+          bindings[action] = entries.filter(isBinding).slice(0, MAX_BINDINGS_PER_ACTION)
+            .map((binding: InputBinding) => ({ device: binding.device, code: binding.code }));
+        }
+      });
+    } catch (error) {
+      console.warn('⚠️ KeyBindings: Failed to load saved keymap, using defaults:', error);
+    }
+
+    return bindings;
+  }
+
+  private save(): void {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify({ version: STORAGE_VERSION, bindings: this.bindings }));
+    } catch (error) {
+      console.warn('⚠️ KeyBindings: Failed to save keymap:', error);
+    }
+
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export const keyBindings = new KeyBindings();
@@ -0,0 +1,473 @@
+import { IGameSystem } from '../../../shared/interfaces/IGameSystem';
+import { GAME_CONFIG } from '../../../shared/constants/index';
+import { GameState, PlayerState, Vector2 } from '../../../shared/types/index';
+import {
+  WeaponFiredPayload,
+  WeaponHitPayload,
+  WeaponMissPayload,
+  WallDamagedPayload,
+  ProjectileCreatedPayload,
+  ProjectileUpdatedPayload,
+  ProjectileExplodedPayload
+} from '../../../shared/protocol/index';
+import { VisualEffectsSystem } from './VisualEffectsSystem';
+import { DestructionRenderer } from './DestructionRenderer';
+import { computeVisionPolygon, toArenaWall } from '../offline/LocalArena';
+import { getSliceRect } from '../utils/wallGeometry';
+
+/**
+ * KillcamSystem - Replays the killer's last few seconds inside the death overlay
+ *
+ * Keeps a rolling buffer of what this client actually saw (game states plus
+ * weapon and projectile events). A killer hidden by fog of war never makes it
+ * into the buffer, so createClip() returns null and the caller keeps the
+ * static death screen. Walls are drawn in their current state, not rewound.
+ */
+
+interface KillcamPlayer {
+  id: string;
+  team: 'red' | 'blue';
+  position: Vector2;
+  angle: number;
+  isAlive: boolean;
+}
+
+interface KillcamFrame {
+  time: number;
+  players: { [id: string]: KillcamPlayer };
+}
+
+interface KillcamShot {
+  time: number;
+  playerId: string;
+  weaponType: string;
+  start: Vector2;
+  direction: number;
+  // Filled in by the matching hit/miss/wall event; shotguns collect one per pellet
+  ends: Vector2[];
+}
+
+interface KillcamProjectileSample {
+  time: number;
+  id: string;
+  position: Vector2;
+  // Set on the sample recorded when the projectile exploded
+  radius?: number;
+}
+
+export interface KillcamClip {
+  killerId: string;
+  victimId: string | null;
+  start: number;
+  end: number;
+  frames: KillcamFrame[];
+  shots: KillcamShot[];
+  projectiles: KillcamProjectileSample[];
+}
+
+// Screen-space area of the death overlay the replay is drawn into
+export const KILLCAM_VIEWPORT = { x: 80, y: 45, width: 320, height: 180 };
+
+const BUFFER_MS = 5000;
+const CLIP_MS = 4000;
+const HOLD_MS = 600; // Linger on the killing blow before handing back to the death screen
+const MIN_KILLER_FRAMES = 5; // A quarter second of sightings at 20Hz - anything less is fog
+const SHOT_MATCH_MS = 500;
+const SHOT_RANGE = 300;
+const PROJECTILE_STALE_MS = 500;
+const EXPLOSION_SHOW_MS = 300;
+const CAMERA_ZOOM = 1.5;
+const LOOK_AHEAD = 30; // Bias the camera along the killer's aim
+
+const TEAM_COLORS: Record<'red' | 'blue', number> = { red: 0xff4444, blue: 0x4488ff };
+const WALL_COLORS: Record<string, number> = {
+  concrete: 0x888888,
+  wood: 0x8b5a2b,
+  metal: 0x6f7f8f,
+  glass: 0x88ccff
+};
+
+export class KillcamSystem implements IGameSystem {
+  private scene: Phaser.Scene;
+  private visualEffectsSystem: VisualEffectsSystem;
+  private destructionRenderer: DestructionRenderer;
+  private localPlayerId: string | null = null;
+
+  private frames: KillcamFrame[] = [];
+  private shots: KillcamShot[] = [];
+  private projectiles: KillcamProjectileSample[] = [];
+
+  // Playback
+  private clip: KillcamClip | null = null;
+  private elapsed = 0;
+  private nextShotIndex = 0;
+  private onComplete: (() => void) | null = null;
+  private camera: Phaser.Cameras.Scene2D.Camera | null = null;
+  private graphics: Phaser.GameObjects.Graphics | null = null;
+  private lastKillerView: KillcamPlayer | null = null;
+  // True while the killcam itself is adding objects - those stay off the main camera
+  private capturing = false;
+
+  constructor(scene: Phaser.Scene, visualEffectsSystem: VisualEffectsSystem, destructionRenderer: DestructionRenderer) {
+    this.scene = scene;
+    this.visualEffectsSystem = visualEffectsSystem;
+    this.destructionRenderer = destructionRenderer;
+  }
+
+  initialize(): void {
+    this.scene.events.on('network:gameState', this.recordGameState, this);
+    this.scene.events.on('backend:weapon:fired', this.recordShot, this);
+    this.scene.events.on('backend:weapon:hit', this.recordShotEnd, this);
+    this.scene.events.on('backend:weapon:miss', this.recordShotEnd, this);
+    this.scene.events.on('backend:wall:damaged', this.recordShotEnd, this);
+    this.scene.events.on('backend:projectile:created', this.recordProjectile, this);
+    this.scene.events.on('backend:projectile:updated', this.recordProjectile, this);
+    this.scene.events.on('backend:projectile:exploded', this.recordProjectile, this);
+  }
+
+  setLocalPlayerId(playerId: string): void {
+    this.localPlayerId = playerId;
+  }
+
+  update(delta: number): void {
+    if (!this.clip) return;
+
+    this.elapsed += delta;
+    const time = this.clip.start + this.elapsed;
+
+    if (time > this.clip.end + HOLD_MS) {
+      this.finish();
+      return;
+    }
+
+    this.playShotsUntil(Math.min(time, this.clip.end));
+    this.render(Math.min(time, this.clip.end));
+  }
+
+  /**
+   * Cut the last few seconds around the killer, or null when this client
+   * barely saw them (fog of war) and there is nothing worth replaying
+   */
+  createClip(killerId: string): KillcamClip | null {
+    if (!killerId || killerId === this.localPlayerId) return null;
+
+    const end = Date.now();
+    const start = end - CLIP_MS;
+    const frames = this.frames.filter(frame => frame.time >= start && frame.time <= end);
+    const sightings = frames.filter(frame => frame.players[killerId]);
+
+    if (sightings.length < MIN_KILLER_FRAMES) {
+      console.log(`🎥 Killcam: Only ${sightings.length} frames of killer ${killerId} - using static death screen`);
+      return null;
+    }
+
+    // Start on the first sighting so the replay never opens on an empty arena
+    const clipStart = sightings[0].time;
+    return {
+      killerId,
+      victimId: this.localPlayerId,
+      start: clipStart,
+      end,
+      frames,
+      shots: this.shots.filter(shot => shot.time >= clipStart && shot.time <= end),
+      projectiles: this.projectiles.filter(sample => sample.time >= clipStart && sample.time <= end)
+    };
+  }
+
+  play(clip: KillcamClip, onComplete: () => void): void {
+    this.stop();
+
+    this.clip = clip;
+    this.elapsed = 0;
+    this.nextShotIndex = 0;
+    this.onComplete = onComplete;
+    this.lastKillerView = null;
+
+    const { x, y, width, height } = KILLCAM_VIEWPORT;
+    this.camera = this.scene.cameras.add(x, y, width, height);
+    this.camera.setBackgroundColor(0x141414);
+    this.camera.setZoom(CAMERA_ZOOM);
+    this.camera.setBounds(0, 0, GAME_CONFIG.GAME_WIDTH, GAME_CONFIG.GAME_HEIGHT);
+
+    // The killcam camera only sees its own layer and the trails it spawns
+    this.camera.ignore(this.scene.children.list);
+    this.scene.events.on(Phaser.Scenes.Events.ADDED_TO_SCENE, this.handleObjectAdded, this);
+
+    this.capturing = true;
+    this.graphics = this.scene.add.graphics();
+    this.capturing = false;
+
+    console.log(`🎥 Killcam: Replaying ${Math.round(clip.end - clip.start)}ms of ${clip.killerId}`);
+    this.render(clip.start);
+  }
+
+  isPlaying(): boolean {
+    return this.clip !== null;
+  }
+
+  /**
+   * Jump straight to the end - the completion callback still runs
+   */
+  skip(): void {
+    if (this.clip) {
+      this.finish();
+    }
+  }
+
+  /**
+   * Tear down playback without running the completion callback
+   */
+  stop(): void {
+    this.scene.events.off(Phaser.Scenes.Events.ADDED_TO_SCENE, this.handleObjectAdded, this);
+
+    if (this.graphics) {
+      this.graphics.destroy();
+      this.graphics = null;
+    }
+    if (this.camera) {
+      this.scene.cameras.remove(this.camera);
+      this.camera = null;
+    }
+
+    this.clip = null;
+    this.onComplete = null;
+    this.capturing = false;
+  }
+
+  destroy(): void {
+    this.stop();
+
+    this.scene.events.off('network:gameState', this.recordGameState, this);
+    this.scene.events.off('backend:weapon:fired', this.recordShot, this);
+    this.scene.events.off('backend:weapon:hit', this.recordShotEnd, this);
+    this.scene.events.off('backend:weapon:miss', this.recordShotEnd, this);
+    this.scene.events.off('backend:wall:damaged', this.recordShotEnd, this);
+    this.scene.events.off('backend:projectile:created', this.recordProjectile, this);
+    this.scene.events.off('backend:projectile:updated', this.recordProjectile, this);
+    this.scene.events.off('backend:projectile:exploded', this.recordProjectile, this);
+
+    this.frames = [];
+    this.shots = [];
+    this.projectiles = [];
+  }
+
+  private finish(): void {
+    const onComplete = this.onComplete;
+    this.stop();
+    onComplete?.();
+  }
+
+  private handleObjectAdded(object: Phaser.GameObjects.GameObject): void {
+    if (this.capturing) {
+      this.scene.cameras.main.ignore(object);
+    } else {
+      this.camera?.ignore(object);
+    }
+  }
+
+  // --- Recording ---
+
+  private recordGameState(gameState: GameState): void {
+    const all: PlayerState[] = gameState.players instanceof Map
+      ? Array.from(gameState.players.values())
+      : Object.values(gameState.players || {});
+    // Only what this client was allowed to see - hidden enemies must stay hidden
+    const seen = gameState.visiblePlayers ? [...gameState.visiblePlayers] : all;
+
+    const local = all.find(player => player.id === this.localPlayerId);
+    if (local && !seen.some(player => player.id === local.id)) {
+      seen.push(local);
+    }
+
+    const players: { [id: string]: KillcamPlayer } = {};
+    seen.forEach(player => {
+      const position = player.position || player.transform;
+      if (!player.id || !position) return;
+      players[player.id] = {
+        id: player.id,
+        team: player.team,
+        position: { x: position.x, y: position.y },
+        angle: player.angle ?? 0,
+        isAlive: player.isAlive
+      };
+    });
+
+    const now = Date.now();
+    this.frames.push({ time: now, players });
+    this.prune(now);
+  }
+
+  private recordShot(data: WeaponFiredPayload): void {
+    if (!data?.playerId || !data.position) return;
+    this.shots.push({
+      time: Date.now(),
+      playerId: data.playerId,
+      weaponType: data.weaponType || 'rifle',
+      start: { x: data.position.x, y: data.position.y },
+      direction: data.direction,
+      ends: []
+    });
+  }
+
+  private recordShotEnd(data: WeaponHitPayload | WeaponMissPayload | WallDamagedPayload): void {
+    if (!data?.playerId || !data.position) return;
+
+    const now = Date.now();
+    for (let i = this.shots.length - 1; i >= 0; i--) {
+      const shot = this.shots[i];
+      if (now - shot.time > SHOT_MATCH_MS) break;
+      if (shot.playerId !== data.playerId) continue;
+      if (shot.ends.length === 0 || shot.weaponType === 'shotgun') {
+        shot.ends.push({ x: data.position.x, y: data.position.y });
+        return;
+      }
+    }
+  }
+
+  private recordProjectile(data: ProjectileCreatedPayload | ProjectileUpdatedPayload | ProjectileExplodedPayload): void {
+    if (!data?.id || !data.position) return;
+    this.projectiles.push({
+      time: Date.now(),
+      id: data.id,
+      position: { x: data.position.x, y: data.position.y },
+      radius: 'radius' in data ? data.radius : undefined
+    });
+  }
+
+  private prune(now: number): void {
+    const cutoff = now - BUFFER_MS;
+    while (this.frames.length > 0 && this.frames[0].time < cutoff) this.frames.shift();
+    while (this.shots.length > 0 && this.shots[0].time < cutoff) this.shots.shift();
+    while (this.projectiles.length > 0 && this.projectiles[0].time < cutoff) this.projectiles.shift();
+  }
+
+  // --- Playback ---
+
+  private playShotsUntil(time: number): void {
+    if (!this.clip) return;
+    const shots = this.clip.shots;
+
+    this.capturing = true;
+    while (this.nextShotIndex < shots.length && shots[this.nextShotIndex].time <= time) {
+      const shot = shots[this.nextShotIndex++];
+      const ends = shot.ends.length > 0 ? shot.ends : [{
+        x: shot.start.x + Math.cos(shot.direction) * SHOT_RANGE,
+        y: shot.start.y + Math.sin(shot.direction) * SHOT_RANGE
+      }];
+      // No playerId - the live fog check would hide trails the killcam is meant to show
+      ends.forEach(end => this.visualEffectsSystem.showBulletTrail(shot.start, end, shot.weaponType));
+    }
+    this.capturing = false;
+  }
+
+  private render(time: number): void {
+    if (!this.clip || !this.graphics || !this.camera) return;
+
+    const players = this.samplePlayers(time);
+    const killer = players[this.clip.killerId] || this.lastKillerView;
+    if (players[this.clip.killerId]) {
+      this.lastKillerView = players[this.clip.killerId];
+    }
+
+    const g = this.graphics;
+    g.clear();
+
+    const walls = this.destructionRenderer.getWallsData().map(toArenaWall);
+    walls.forEach(wall => {
+      g.fillStyle(WALL_COLORS[wall.material] ?? WALL_COLORS.concrete, 1);
+      for (let i = 0; i < 5; i++) {
+        if (wall.destructionMask[i] === 1) continue;
+        const rect = getSliceRect(wall, i);
+        g.fillRect(rect.x, rect.y, rect.width, rect.height);
+      }
+    });
+
+    if (killer) {
+      const { polygon } = computeVisionPolygon(walls, killer.position, killer.angle);
+      g.fillStyle(0xffffff, 0.08);
+      g.fillPoints(polygon, true);
+
+      this.camera.centerOn(
+        killer.position.x + Math.cos(killer.angle) * LOOK_AHEAD,
+        killer.position.y + Math.sin(killer.angle) * LOOK_AHEAD
+      );
+    }
+
+    this.renderProjectiles(g, time);
+
+    Object.values(players).forEach(player => {
+      if (!player.isAlive && player.id !== this.clip!.victimId) return;
+
+      const color = TEAM_COLORS[player.team] ?? 0xffffff;
+      g.fillStyle(color, player.isAlive ? 1 : 0.4);
+      g.fillCircle(player.position.x, player.position.y, 4);
+      g.lineStyle(1, color, 1);
+      g.lineBetween(
+        player.position.x,
+        player.position.y,
+        player.position.x + Math.cos(player.angle) * 8,
+        player.position.y + Math.sin(player.angle) * 8
+      );
+
+      if (player.id === this.clip!.killerId) {
+        g.lineStyle(1, 0xffffff, 1);
+        g.strokeCircle(player.position.x, player.position.y, 6);
+      } else if (player.id === this.clip!.victimId) {
+        g.lineStyle(1, 0xffff00, 1);
+        g.strokeCircle(player.position.x, player.position.y, 6);
+      }
+    });
+  }
+
+  private renderProjectiles(g: Phaser.GameObjects.Graphics, time: number): void {
+    const latest = new Map<string, KillcamProjectileSample>();
+    this.clip!.projectiles.forEach(sample => {
+      if (sample.time <= time) latest.set(sample.id, sample);
+    });
+
+    latest.forEach(sample => {
+      const age = time - sample.time;
+      if (sample.radius !== undefined) {
+        if (age > EXPLOSION_SHOW_MS) return;
+        g.lineStyle(1, 0xff8800, 1 - age / EXPLOSION_SHOW_MS);
+        g.strokeCircle(sample.position.x, sample.position.y, sample.radius);
+      } else if (age <= PROJECTILE_STALE_MS) {
+        g.fillStyle(0xffaa00, 1);
+        g.fillCircle(sample.position.x, sample.position.y, 2);
+      }
+    });
+  }
+
+  // Players interpolated between the two recorded frames around `time`
+  private samplePlayers(time: number): { [id: string]: KillcamPlayer } {
+    const frames = this.clip!.frames;
+    if (frames.length === 0) return {};
+
+    const index = frames.findIndex(frame => frame.time > time);
+    if (index === -1) return frames[frames.length - 1].players;
+    if (index === 0) return frames[0].players;
+
+    const from = frames[index - 1];
+    const to = frames[index];
+    const t = (time - from.time) / Math.max(1, to.time - from.time);
+
+    const players: { [id: string]: KillcamPlayer } = {};
+    Object.values(from.players).forEach(player => {
+      const next = to.players[player.id];
+      if (!next) {
+        players[player.id] = player;
+        return;
+      }
+      players[player.id] = {
+        ...player,
+        position: {
+          x: Phaser.Math.Linear(player.position.x, next.position.x, t),
+          y: Phaser.Math.Linear(player.position.y, next.position.y, t)
+        },
+        angle: player.angle + Phaser.Math.Angle.Wrap(next.angle - player.angle) * t,
+        isAlive: t < 0.5 ? player.isAlive : next.isAlive
+      };
+    });
+    return players;
+  }
+}
@@ -5,18 +5,13 @@
  */
 
 import NetworkSystemSingleton from './NetworkSystemSingleton';
-
-interface MatchData {
-  lobbyId: string;
-  killTarget?: number;
-  gameMode?: string;
-  isLateJoin?: boolean;
-}
+import { onServerEvent, offServerEvent, MatchStartedPayload } from '../../../shared/protocol/index';
 
 export class LobbyEventCoordinator {
   private static instance: LobbyEventCoordinator | null = null;
   private currentScene: Phaser.Scene | null = null;
   private socket: any = null;
+  private matchStartedListener: ((payload?: unknown) => void) | null = null;
   private isHandlingMatchStart: boolean = false;
   
   private constructor() {
@@ -57,7 +52,7 @@ export class LobbyEventCoordinator {
         
         this.socket = newSocket;
         console.log('🎭 LobbyEventCoordinator: Setting up EXCLUSIVE match_started listener');
-        this.socket.on('match_started', this.handleMatchStarted.bind(this));
+        this.matchStartedListener = onServerEvent(this.socket, 'match_started', (data) => this.handleMatchStarted(data));
       }
     }
   }
@@ -81,7 +76,7 @@ export class LobbyEventCoordinator {
     // This method is now deprecated - we set up listeners in registerActiveScene
   }
   
-  private handleMatchStarted(data: any): void {
+  private handleMatchStarted(data: MatchStartedPayload): void {
     // Prevent multiple simultaneous handling
     if (this.isHandlingMatchStart) {
       console.log('🎭 Already handling match_started, ignoring duplicate');
@@ -104,7 +99,7 @@ export class LobbyEventCoordinator {
       const sceneName = this.currentScene.scene.key;
       
       // Build matchData based on the current scene context
-      let matchData: MatchData;
+      let matchData: MatchStartedPayload;
       
       if (sceneName === 'LobbyWaitingScene') {
         // For LobbyWaitingScene, use the original lobbyData from the scene
@@ -173,6 +168,11 @@ export class LobbyEventCoordinator {
           }
           break;
           
+        case 'SpectatorScene':
+          // Spectators are already watching - the match's game:state will start flowing
+          console.log('🎭 Match started while spectating → staying in SpectatorScene');
+          break;
+          
         case 'ConfigureScene':
           // Already in configure scene, go directly to game
           console.log('🎭 Match started while in ConfigureScene → GameScene');
@@ -210,9 +210,10 @@ export class LobbyEventCoordinator {
    * Clean up when no longer needed
    */
   destroy(): void {
-    if (this.socket) {
-      this.socket.off('match_started', this.handleMatchStarted);
+    if (this.socket && this.matchStartedListener) {
+      offServerEvent(this.socket, 'match_started', this.matchStartedListener);
     }
+    this.matchStartedListener = null;
     this.currentScene = null;
     this.socket = null;
     LobbyEventCoordinator.instance = null;
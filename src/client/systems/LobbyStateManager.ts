@@ -5,6 +5,8 @@
  * a single authoritative state that comes from the backend.
  */
 
+import { onServerEvent, ProtocolSocket } from '../../../shared/protocol/index';
+
 export interface PlayerInfo {
   id: string;
   name: string;
@@ -35,7 +37,7 @@ export class LobbyStateManager {
   private static instance: LobbyStateManager | null;
   private currentLobby: LobbyState | null = null;
   private listeners: Set<LobbyStateListener> = new Set();
-  private socket: any = null;
+  private socket: ProtocolSocket | null = null;
 
   private constructor() {
     console.log('🏢 LobbyStateManager initialized');
@@ -56,7 +58,7 @@ export class LobbyStateManager {
   /**
    * Initialize with socket connection
    */
-  initialize(socket: any): void {
+  initialize(socket: ProtocolSocket): void {
     this.socket = socket;
     this.setupSocketListeners();
     console.log('🔌 LobbyStateManager connected to socket');
@@ -69,13 +71,13 @@ export class LobbyStateManager {
     if (!this.socket) return;
 
     // Unified lobby state update (what backend SHOULD send)
-    this.socket.on('lobby:state', (state: LobbyState) => {
+    onServerEvent(this.socket, 'lobby:state', (state) => {
       console.log('📊 Received unified lobby state:', state);
       this.updateState(state);
     });
 
     // Handle individual updates (current backend events)
-    this.socket.on('lobby_joined', (data: any) => {
+    onServerEvent(this.socket, 'lobby_joined', (data) => {
       console.log('🏢 Lobby joined event:', data);
       this.updateFromPartial({
         lobbyId: data.lobbyId,
@@ -85,7 +87,7 @@ export class LobbyStateManager {
       });
     });
 
-    this.socket.on('player_joined_lobby', (data: any) => {
+    onServerEvent(this.socket, 'player_joined_lobby', (data) => {
       console.log('👤 Player joined lobby:', data);
       if (this.currentLobby && data.lobbyId === this.currentLobby.lobbyId) {
         this.updateFromPartial({
@@ -94,7 +96,7 @@ export class LobbyStateManager {
       }
     });
 
-    this.socket.on('player_left_lobby', (data: any) => {
+    onServerEvent(this.socket, 'player_left_lobby', (data) => {
       console.log('👋 Player left lobby:', data);
       if (this.currentLobby && data.lobbyId === this.currentLobby.lobbyId) {
         this.updateFromPartial({
@@ -103,7 +105,7 @@ export class LobbyStateManager {
       }
     });
 
-    this.socket.on('match_starting', (data: any) => {
+    onServerEvent(this.socket, 'match_starting', (data) => {
       console.log('⏱️ Match starting:', data);
       this.updateFromPartial({
         status: 'starting',
@@ -112,7 +114,7 @@ export class LobbyStateManager {
     });
 
     // Handle match start cancellation
-    this.socket.on('match_start_cancelled', (data: any) => {
+    onServerEvent(this.socket, 'match_start_cancelled', (data) => {
       console.log('❌ Match start cancelled:', data.reason);
       this.updateFromPartial({
         status: 'waiting',
@@ -124,7 +126,7 @@ export class LobbyStateManager {
     // This manager only tracks state, not scene transitions
 
     // Clear state on disconnect or lobby leave
-    this.socket.on('left_lobby', () => {
+    onServerEvent(this.socket, 'left_lobby', () => {
       console.log('👋 Left lobby');
       this.clearState();
     });
@@ -0,0 +1,779 @@
+import { Vector2 } from '../../../shared/types/index';
+import {
+  LevelData,
+  Layer,
+  LayerType,
+  Tileset,
+  TileProperties,
+  TileType,
+  WallMaterial,
+  SpawnPoint,
+  SpawnTeam,
+  GameObject,
+  GameObjectType,
+  LightingConfig,
+  AudioConfig
+} from '../../../shared/types/level';
+
+/**
+ * MapLoader - Turns level files into something the game can play on
+ *
+ * Accepts LevelData JSON (LEVEL_FORMAT_SPECIFICATION.md) or a Tiled JSON
+ * export, validates it, draws the floor/decoration layers and converts the
+ * wall layer into the 5-slice walls DestructionRenderer and CollisionSystem
+ * already understand. Parsing and wall extraction are static and Phaser-free
+ * so the offline LocalServer can share them.
+ */
+
+export interface LevelWall {
+  id: string;
+  position: Vector2;
+  width: number;
+  height: number;
+  orientation: 'horizontal' | 'vertical';
+  material: WallMaterial;
+  sliceHealth: number[];
+  maxHealth: number;
+  destructionMask: number[];
+  destructible: boolean;
+}
+
+const LAYER_TYPES: LayerType[] = ['floor', 'walls', 'decoration', 'collision'];
+const TILE_TYPES: string[] = Object.values(TileType);
+const MATERIALS: WallMaterial[] = ['concrete', 'wood', 'metal', 'glass', 'none'];
+const SPAWN_TEAMS: SpawnTeam[] = ['red', 'blue', 'neutral'];
+const OBJECT_TYPES: GameObjectType[] = ['weapon', 'ammo', 'health', 'armor', 'objective'];
+const REVERB_TYPES = ['none', 'small', 'medium', 'large'];
+
+// Walls are always split into 5 slices, so a run of tiles becomes 5-tile segments
+const SLICES_PER_WALL = 5;
+const DEFAULT_TILE_HEALTH = 100;
+// Keep error reports readable when a whole layer is wrong
+const MAX_ERRORS = 20;
+
+// Tiled stores flip/rotation flags in the top bits of each gid
+const TILED_GID_MASK = 0x1fffffff;
+
+export const DEFAULT_LIGHTING: LightingConfig = { ambientColor: '#404040', ambientIntensity: 0.3, shadows: true, fogOfWar: true };
+export const DEFAULT_AUDIO: AudioConfig = { reverbType: 'none', volume: 0.6 };
+
+export class MapLoader {
+  private scene: Phaser.Scene;
+  private tilemap: Phaser.Tilemaps.Tilemap | null = null;
+  private layerObjects: Phaser.GameObjects.GameObject[] = [];
+
+  constructor(scene: Phaser.Scene) {
+    this.scene = scene;
+  }
+
+  // ===== LOADING =====
+
+  /**
+   * Fetch, parse and validate a level file, then make sure its tileset images are loaded
+   */
+  async load(url: string): Promise<LevelData> {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Could not load level '${url}': HTTP ${response.status}`);
+    }
+
+    const level = MapLoader.parse(await response.text());
+    await this.loadTilesets(level, url);
+    console.log(`🗺️ MapLoader: Loaded '${level.name}' (${level.width}x${level.height} tiles)`);
+    return level;
+  }
+
+  /**
+   * Queue any tileset images Phaser doesn't have yet and wait for them.
+   * Missing images aren't fatal - buildLayers falls back to the stock floor.
+   */
+  loadTilesets(level: LevelData, baseUrl: string = ''): Promise<void> {
+    const loader = this.scene.load;
+    let queued = 0;
+
+    level.tilesets.forEach(tileset => {
+      const key = MapLoader.getTilesetKey(tileset);
+      if (!tileset.image || this.scene.textures.exists(key)) return;
+
+      loader.image(key, MapLoader.resolvePath(tileset.image, baseUrl));
+      queued++;
+    });
+
+    if (queued === 0) return Promise.resolve();
+
+    return new Promise(resolve => {
+      loader.on('loaderror', (file: Phaser.Loader.File) => {
+        console.warn(`⚠️ MapLoader: Tileset image '${file.src}' failed to load`);
+      });
+      loader.once('complete', () => {
+        loader.off('loaderror');
+        resolve();
+      });
+      loader.start();
+    });
+  }
+
+  // ===== RENDERING =====
+
+  /**
+   * Draw the floor and decoration layers. Wall tiles are left to DestructionRenderer.
+   */
+  buildLayers(level: LevelData): void {
+    this.destroyLayers();
+
+    const textured = level.tilesets.filter(tileset => this.scene.textures.exists(MapLoader.getTilesetKey(tileset)));
+    const pixelWidth = level.width * level.tileSize;
+    const pixelHeight = level.height * level.tileSize;
+    let floorDrawn = false;
+
+    if (textured.length > 0) {
+      this.tilemap = this.scene.make.tilemap({
+        tileWidth: level.tileSize,
+        tileHeight: level.tileSize,
+        width: level.width,
+        height: level.height
+      });
+
+      const tilesets = textured
+        .map(tileset => this.tilemap!.addTilesetImage(
+          tileset.name,
+          MapLoader.getTilesetKey(tileset),
+          tileset.tileWidth,
+          tileset.tileHeight,
+          0,
+          0,
+          tileset.firstGid
+        ))
+        .filter((tileset): tileset is Phaser.Tilemaps.Tileset => tileset !== null);
+
+      level.layers.forEach((layer, index) => {
+        if (layer.type !== 'floor' && layer.type !== 'decoration') return;
+
+        const tilemapLayer = this.tilemap!.createBlankLayer(layer.id, tilesets);
+        if (!tilemapLayer) return;
+
+        // Phaser treats -1 as an empty cell
+        tilemapLayer.putTilesAt(MapLoader.toRows(layer.data, level.width, gid => gid > 0 ? gid : -1), 0, 0);
+        tilemapLayer.setAlpha(layer.opacity);
+        tilemapLayer.setVisible(layer.visible);
+        // Just above the stock floor (depth 0), well below walls (10) and players
+        tilemapLayer.setDepth(layer.type === 'floor' ? 1 : 2 + index * 0.01);
+        this.layerObjects.push(tilemapLayer);
+        floorDrawn = floorDrawn || layer.type === 'floor';
+      });
+    }
+
+    // No usable tileset art for the floor - use the stock floor so the map isn't a void
+    if (!floorDrawn) {
+      const floorKey = this.scene.textures.exists('mapfloor') ? 'mapfloor' : 'floor_tile';
+      const floor = this.scene.add.tileSprite(0, 0, pixelWidth, pixelHeight, floorKey);
+      floor.setOrigin(0, 0);
+      floor.setDepth(0);
+      this.layerObjects.push(floor);
+    }
+  }
+
+  destroy(): void {
+    this.destroyLayers();
+  }
+
+  private destroyLayers(): void {
+    this.layerObjects.forEach(object => object.destroy());
+    this.layerObjects = [];
+    if (this.tilemap) {
+      this.tilemap.destroy();
+      this.tilemap = null;
+    }
+  }
+
+  // ===== PARSING =====
+
+  /**
+   * Parse a level file (LevelData or Tiled JSON). Throws with every problem found.
+   */
+  static parse(text: string): LevelData {
+    let data: any;
+    try {
+      data = JSON.parse(text);
+    } catch (error) {
+      throw new Error('Level file is not valid JSON');
+    }
+    return MapLoader.fromObject(data);
+  }
+
+  static fromObject(data: any): LevelData {
+    if (!data || typeof data !== 'object') {
+      throw new Error('Level file is empty or not an object');
+    }
+
+    const level = MapLoader.isTiledMap(data) ? MapLoader.fromTiled(data) : MapLoader.normalize(data);
+    const errors = MapLoader.validate(level);
+    if (errors.length > 0) {
+      throw new Error(`Invalid level '${level.name || level.id || 'unnamed'}':\n- ${errors.join('\n- ')}`);
+    }
+
+    if (level.tileSize % 10 !== 0) {
+      console.warn(`⚠️ MapLoader: tileSize ${level.tileSize} is not a multiple of 10 - wall edges will fall off the 10px wall grid`);
+    }
+    return level;
+  }
+
+  static isTiledMap(data: any): boolean {
+    return data.type === 'map' || typeof data.tiledversion === 'string' || typeof data.tilewidth === 'number';
+  }
+
+  /**
+   * Check a level against the format spec. Returns readable messages, empty when valid.
+   */
+  static validate(level: LevelData): string[] {
+    const errors: string[] = [];
+    const error = (message: string) => {
+      if (errors.length < MAX_ERRORS) errors.push(message);
+    };
+
+    if (typeof level.id !== 'string' || !level.id) error('id must be a non-empty string');
+    if (typeof level.name !== 'string' || !level.name) error('name must be a non-empty string');
+    if (!Number.isInteger(level.width) || level.width <= 0) error(`width must be a positive whole number of tiles (got ${level.width})`);
+    if (!Number.isInteger(level.height) || level.height <= 0) error(`height must be a positive whole number of tiles (got ${level.height})`);
+    if (typeof level.tileSize !== 'number' || level.tileSize <= 0) error(`tileSize must be a positive number (got ${level.tileSize})`);
+
+    if (!Array.isArray(level.tilesets)) {
+      error('tilesets must be an array');
+    } else {
+      level.tilesets.forEach((tileset, i) => {
+        const where = `tilesets[${i}] '${tileset?.name}'`;
+        if (!Number.isInteger(tileset?.firstGid) || tileset.firstGid < 1) error(`${where}: firstGid must be a whole number >= 1`);
+        if (!Number.isInteger(tileset?.tileCount) || tileset.tileCount < 1) error(`${where}: tileCount must be a whole number >= 1`);
+        if (!Array.isArray(tileset?.tiles)) {
+          error(`${where}: tiles must be an array`);
+          return;
+        }
+        tileset.tiles.forEach(tile => {
+          if (!TILE_TYPES.includes(tile.type)) error(`${where}: tile ${tile.id} has unknown type '${tile.type}' (expected ${TILE_TYPES.join(', ')})`);
+          if (!MATERIALS.includes(tile.material)) error(`${where}: tile ${tile.id} has unknown material '${tile.material}' (expected ${MATERIALS.join(', ')})`);
+          if (tile.id < 0 || tile.id >= tileset.tileCount) error(`${where}: tile ${tile.id} is outside the tileset (tileCount ${tileset.tileCount})`);
+        });
+      });
+
+      const sorted = [...level.tilesets].sort((a, b) => a.firstGid - b.firstGid);
+      for (let i = 1; i < sorted.length; i++) {
+        if (sorted[i - 1].firstGid + sorted[i - 1].tileCount > sorted[i].firstGid) {
+          error(`tilesets '${sorted[i - 1].name}' and '${sorted[i].name}' overlap in gid range`);
+        }
+      }
+    }
+
+    if (!Array.isArray(level.layers) || level.layers.length === 0) {
+      error('layers must be a non-empty array');
+    } else {
+      const expected = level.width * level.height;
+      level.layers.forEach((layer, i) => {
+        const where = `layers[${i}] '${layer?.id}'`;
+        if (!LAYER_TYPES.includes(layer?.type)) {
+          error(`${where}: unknown type '${layer?.type}' (expected ${LAYER_TYPES.join(', ')})`);
+        }
+        if (!Array.isArray(layer?.data)) {
+          error(`${where}: data must be an array of tile ids`);
+          return;
+        }
+        if (layer.data.length !== expected) {
+          error(`${where}: data has ${layer.data.length} entries, expected ${expected} (${level.width}x${level.height})`);
+        }
+
+        // One message per layer is enough to find the bad tileset/paint
+        const badIndex = layer.data.findIndex(gid =>
+          !Number.isInteger(gid) || gid < 0 || (gid > 0 && Array.isArray(level.tilesets) && !MapLoader.findTileset(level, gid))
+        );
+        if (badIndex >= 0) {
+          const x = badIndex % level.width;
+          const y = Math.floor(badIndex / level.width);
+          error(`${where}: tile (${x}, ${y}) has id ${layer.data[badIndex]} which is not in any tileset`);
+        }
+      });
+
+      if (!level.layers.some(layer => layer.type === 'walls')) {
+        console.warn(`⚠️ MapLoader: Level '${level.name}' has no walls layer`);
+      }
+    }
+
+    if (!Array.isArray(level.spawns)) {
+      error('spawns must be an array');
+    } else {
+      const pixelWidth = level.width * level.tileSize;
+      const pixelHeight = level.height * level.tileSize;
+      level.spawns.forEach((spawn, i) => {
+        const where = `spawns[${i}] '${spawn?.id}'`;
+        if (!SPAWN_TEAMS.includes(spawn?.team)) error(`${where}: team must be one of ${SPAWN_TEAMS.join(', ')}`);
+        const position = spawn?.position;
+        if (!position || typeof position.x !== 'number' || typeof position.y !== 'number') {
+          error(`${where}: position must have numeric x and y`);
+        } else if (position.x < 0 || position.y < 0 || position.x > pixelWidth || position.y > pixelHeight) {
+          error(`${where}: position (${position.x}, ${position.y}) is outside the ${pixelWidth}x${pixelHeight} map`);
+        }
+      });
+
+      (['red', 'blue'] as const).forEach(team => {
+        if (!level.spawns.some(spawn => spawn.team === team || spawn.team === 'neutral')) {
+          error(`no spawn point usable by team ${team} (add a '${team}' or 'neutral' spawn)`);
+        }
+      });
+    }
+
+    if (Array.isArray(level.objects)) {
+      level.objects.forEach((object, i) => {
+        if (!OBJECT_TYPES.includes(object?.type)) {
+          error(`objects[${i}] '${object?.id}': unknown type '${object?.type}' (expected ${OBJECT_TYPES.join(', ')})`);
+        }
+      });
+    }
+
+    if (level.audio && !REVERB_TYPES.includes(level.audio.reverbType)) {
+      error(`audio.reverbType must be one of ${REVERB_TYPES.join(', ')}`);
+    }
+
+    return errors;
+  }
+
+  /**
+   * Fill in optional fields so hand-written files only need the essentials
+   */
+  private static normalize(data: any): LevelData {
+    return {
+      id: data.id,
+      name: data.name,
+      version: data.version ?? '1.0.0',
+      author: data.author ?? '',
+      description: data.description ?? '',
+      width: data.width,
+      height: data.height,
+      tileSize: data.tileSize ?? 10,
+      layers: Array.isArray(data.layers)
+        ? data.layers.map((layer: any, i: number) => ({
+          id: layer?.id ?? `layer_${i}`,
+          name: layer?.name ?? layer?.id ?? `Layer ${i}`,
+          type: layer?.type,
+          visible: layer?.visible ?? true,
+          opacity: layer?.opacity ?? 1,
+          data: layer?.data
+        }))
+        : data.layers,
+      tilesets: Array.isArray(data.tilesets)
+        ? data.tilesets.map((tileset: any) => ({
+          ...tileset,
+          tileWidth: tileset?.tileWidth ?? data.tileSize ?? 10,
+          tileHeight: tileset?.tileHeight ?? data.tileSize ?? 10,
+          columns: tileset?.columns ?? tileset?.tileCount,
+          tiles: Array.isArray(tileset?.tiles) ? tileset.tiles.map((tile: any) => MapLoader.normalizeTile(tile)) : tileset?.tiles
+        }))
+        : data.tilesets,
+      spawns: Array.isArray(data.spawns)
+        ? data.spawns.map((spawn: any, i: number) => ({
+          id: spawn?.id ?? `spawn_${i}`,
+          team: spawn?.team ?? 'neutral',
+          position: spawn?.position,
+          radius: spawn?.radius ?? 16,
+          priority: spawn?.priority ?? 1
+        }))
+        : data.spawns,
+      objects: Array.isArray(data.objects) ? data.objects : [],
+      lighting: { ...DEFAULT_LIGHTING, ...data.lighting },
+      audio: { ...DEFAULT_AUDIO, ...data.audio }
+    };
+  }
+
+  private static normalizeTile(tile: any): TileProperties {
+    const type = tile?.type ?? TileType.WALL;
+    const isWall = type === TileType.WALL || type === TileType.WINDOW;
+    return {
+      id: tile?.id,
+      type,
+      material: tile?.material ?? (isWall ? 'concrete' : 'none'),
+      health: tile?.health,
+      destructible: tile?.destructible ?? isWall,
+      bulletPenetration: tile?.bulletPenetration ?? (isWall ? 0 : 1),
+      explosionResistance: tile?.explosionResistance ?? (isWall ? 0.5 : 0),
+      customProperties: tile?.customProperties
+    };
+  }
+
+  // ===== TILED =====
+
+  /**
+   * Convert a Tiled JSON export (CSV or uncompressed base64 layers, embedded tilesets)
+   */
+  static fromTiled(data: any): LevelData {
+    if (data.orientation && data.orientation !== 'orthogonal') {
+      throw new Error(`Tiled map must be orthogonal (got ${data.orientation})`);
+    }
+    if (data.infinite) {
+      throw new Error('Tiled map is infinite - resize it to a fixed size before exporting');
+    }
+
+    const props = MapLoader.readTiledProperties(data.properties);
+    const width: number = data.width;
+    const height: number = data.height;
+    const tileSize: number = data.tilewidth;
+
+    const tilesets: Tileset[] = (data.tilesets || []).map((tileset: any) => {
+      if (tileset.source) {
+        throw new Error(`Tiled tileset '${tileset.source}' is external - embed it in the map before exporting`);
+      }
+      return {
+        name: tileset.name,
+        firstGid: tileset.firstgid,
+        image: tileset.image || '',
+        tileWidth: tileset.tilewidth,
+        tileHeight: tileset.tileheight,
+        tileCount: tileset.tilecount,
+        columns: tileset.columns,
+        tiles: (tileset.tiles || []).map((tile: any) => {
+          const tileProps = MapLoader.readTiledProperties(tile.properties);
+          const { material, health, destructible, bulletPenetration, explosionResistance, type, ...customProperties } = tileProps;
+          return MapLoader.normalizeTile({
+            id: tile.id,
+            type: String(type ?? tile.type ?? tile.class ?? TileType.WALL).toLowerCase(),
+            material,
+            health,
+            destructible,
+            bulletPenetration,
+            explosionResistance,
+            customProperties: Object.keys(customProperties).length > 0 ? customProperties : undefined
+          });
+        })
+      };
+    });
+
+    const layers: Layer[] = [];
+    const spawns: SpawnPoint[] = [];
+    const objects: GameObject[] = [];
+    const wallObjects: any[] = [];
+
+    MapLoader.flattenTiledLayers(data.layers || []).forEach((layer: any) => {
+      if (layer.type === 'tilelayer') {
+        const layerProps = MapLoader.readTiledProperties(layer.properties);
+        layers.push({
+          id: layer.name || `layer_${layer.id}`,
+          name: layer.name || `Layer ${layer.id}`,
+          type: layerProps.type ?? MapLoader.guessLayerType(layer.name || ''),
+          visible: layer.visible ?? true,
+          opacity: layer.opacity ?? 1,
+          data: MapLoader.decodeTiledData(layer).map(gid => gid & TILED_GID_MASK)
+        });
+        return;
+      }
+
+      if (layer.type !== 'objectgroup') return;
+
+      (layer.objects || []).forEach((object: any) => {
+        const objectProps = MapLoader.readTiledProperties(object.properties);
+        const kind = String(object.type ?? object.class ?? '');
+        const center = {
+          x: object.x + (object.width || 0) / 2,
+          y: object.y + (object.height || 0) / 2
+        };
+
+        if (kind === 'SpawnPoint') {
+          spawns.push({
+            id: object.name || `spawn_${object.id}`,
+            team: objectProps.team ?? 'neutral',
+            position: center,
+            radius: Math.max(object.width || 0, object.height || 0) / 2 || 16,
+            priority: objectProps.priority ?? 1
+          });
+        } else if (kind === 'DestructibleWall') {
+          wallObjects.push({ ...object, properties: objectProps });
+        } else if ((OBJECT_TYPES as string[]).includes(kind.toLowerCase())) {
+          objects.push({
+            id: object.name || `object_${object.id}`,
+            type: kind.toLowerCase() as GameObjectType,
+            position: center,
+            properties: objectProps
+          });
+        }
+      });
+    });
+
+    if (wallObjects.length > 0) {
+      MapLoader.rasterizeWallObjects(wallObjects, layers, tilesets, width, height, tileSize);
+    }
+
+    return {
+      id: props.id ?? `tiled_${String(props.name ?? 'map').toLowerCase().replace(/[^a-z0-9]+/g, '_')}`,
+      name: props.name ?? 'Tiled Map',
+      version: String(props.version ?? '1.0.0'),
+      author: props.author ?? '',
+      description: props.description ?? '',
+      width,
+      height,
+      tileSize,
+      layers,
+      tilesets,
+      spawns,
+      objects,
+      lighting: {
+        ambientColor: props.ambientColor ?? DEFAULT_LIGHTING.ambientColor,
+        ambientIntensity: props.ambientIntensity ?? DEFAULT_LIGHTING.ambientIntensity,
+        shadows: props.shadows ?? DEFAULT_LIGHTING.shadows,
+        fogOfWar: props.fogOfWar ?? DEFAULT_LIGHTING.fogOfWar
+      },
+      audio: {
+        ambientSound: props.ambientSound,
+        reverbType: props.reverbType ?? DEFAULT_AUDIO.reverbType,
+        volume: props.volume ?? DEFAULT_AUDIO.volume
+      }
+    };
+  }
+
+  // Tiled uses [{ name, type, value }]; very old exports used a plain object
+  private static readTiledProperties(properties: any): Record<string, any> {
+    if (!properties) return {};
+    if (!Array.isArray(properties)) return { ...properties };
+
+    const result: Record<string, any> = {};
+    properties.forEach((property: any) => {
+      if (property && typeof property.name === 'string') {
+        result[property.name] = property.value;
+      }
+    });
+    return result;
+  }
+
+  private static flattenTiledLayers(layers: any[]): any[] {
+    return layers.flatMap(layer => layer.type === 'group' ? MapLoader.flattenTiledLayers(layer.layers || []) : [layer]);
+  }
+
+  private static guessLayerType(name: string): LayerType {
+    const lower = name.toLowerCase();
+    if (lower.includes('collision')) return 'collision';
+    if (lower.includes('wall')) return 'walls';
+    if (lower.includes('floor') || lower.includes('ground')) return 'floor';
+    return 'decoration';
+  }
+
+  private static decodeTiledData(layer: any): number[] {
+    if (Array.isArray(layer.data)) return layer.data;
+
+    if (layer.encoding === 'base64') {
+      if (layer.compression) {
+        throw new Error(`Tiled layer '${layer.name}' uses ${layer.compression} compression - export with CSV or uncompressed base64`);
+      }
+      const bytes = atob(String(layer.data).trim());
+      const gids: number[] = [];
+      for (let i = 0; i + 3 < bytes.length; i += 4) {
+        // Little-endian uint32
+        gids.push((bytes.charCodeAt(i) | (bytes.charCodeAt(i + 1) << 8) | (bytes.charCodeAt(i + 2) << 16) | (bytes.charCodeAt(i + 3) << 24)) >>> 0);
+      }
+      return gids;
+    }
+
+    if (layer.chunks) {
+      throw new Error(`Tiled layer '${layer.name}' is chunked (infinite map) - not supported`);
+    }
+    throw new Error(`Tiled layer '${layer.name}' has no tile data`);
+  }
+
+  /**
+   * DestructibleWall objects become tiles on the walls layer, backed by a generated tileset
+   * with one tile per distinct property combination
+   */
+  private static rasterizeWallObjects(
+    wallObjects: any[],
+    layers: Layer[],
+    tilesets: Tileset[],
+    width: number,
+    height: number,
+    tileSize: number
+  ): void {
+    let wallLayer = layers.find(layer => layer.type === 'walls');
+    if (!wallLayer) {
+      wallLayer = { id: 'walls', name: 'Walls', type: 'walls', visible: true, opacity: 1, data: new Array(width * height).fill(0) };
+      layers.push(wallLayer);
+    }
+
+    const firstGid = tilesets.reduce((max, tileset) => Math.max(max, tileset.firstGid + tileset.tileCount), 1);
+    const tiles: TileProperties[] = [];
+    const tileIds = new Map<string, number>();
+
+    wallObjects.forEach(object => {
+      const tile = MapLoader.normalizeTile({ id: 0, type: TileType.WALL, ...object.properties });
+      const signature = `${tile.material}|${tile.health}|${tile.destructible}|${tile.bulletPenetration}|${tile.explosionResistance}`;
+      let localId = tileIds.get(signature);
+      if (localId === undefined) {
+        localId = tiles.length;
+        tileIds.set(signature, localId);
+        tiles.push({ ...tile, id: localId });
+      }
+
+      const startX = Math.max(0, Math.floor(object.x / tileSize));
+      const startY = Math.max(0, Math.floor(object.y / tileSize));
+      const endX = Math.min(width, Math.ceil((object.x + (object.width || tileSize)) / tileSize));
+      const endY = Math.min(height, Math.ceil((object.y + (object.height || tileSize)) / tileSize));
+      for (let y = startY; y < endY; y++) {
+        for (let x = startX; x < endX; x++) {
+          wallLayer!.data[y * width + x] = firstGid + localId;
+        }
+      }
+    });
+
+    tilesets.push({
+      name: 'tiled_wall_objects',
+      firstGid,
+      image: '',
+      tileWidth: tileSize,
+      tileHeight: tileSize,
+      tileCount: tiles.length,
+      columns: tiles.length,
+      tiles
+    });
+  }
+
+  // ===== QUERIES =====
+
+  static findTileset(level: LevelData, gid: number): Tileset | null {
+    return level.tilesets.find(tileset => gid >= tileset.firstGid && gid < tileset.firstGid + tileset.tileCount) || null;
+  }
+
+  /**
+   * Properties for a global tile id. Tiles without an entry in their tileset are treated as plain walls.
+   */
+  static getTileProperties(level: LevelData, gid: number): TileProperties | null {
+    if (gid <= 0) return null;
+
+    const tileset = MapLoader.findTileset(level, gid);
+    if (!tileset) return null;
+
+    const localId = gid - tileset.firstGid;
+    return tileset.tiles.find(tile => tile.id === localId) || MapLoader.normalizeTile({ id: localId });
+  }
+
+  /**
+   * What the floor under a world position is made of, for footsteps - the
+   * topmost floor tile's `surface` custom property, else its material.
+   * Null off the map or where the floor has no material.
+   */
+  static getFloorSurface(level: LevelData, position: Vector2): string | null {
+    const x = Math.floor(position.x / level.tileSize);
+    const y = Math.floor(position.y / level.tileSize);
+    if (x < 0 || y < 0 || x >= level.width || y >= level.height) return null;
+
+    const floors = level.layers.filter(layer => layer.type === 'floor');
+    for (let i = floors.length - 1; i >= 0; i--) {
+      const tile = MapLoader.getTileProperties(level, floors[i].data[y * level.width + x] || 0);
+      if (!tile) continue;
+      const surface = tile.customProperties?.surface;
+      if (typeof surface === 'string' && surface) return surface;
+      return tile.material !== 'none' ? tile.material : null;
+    }
+    return null;
+  }
+
+  /**
+   * Spawn points usable by a team (neutral spawns serve both), highest priority first
+   */
+  static getSpawnPoints(level: LevelData, team?: 'red' | 'blue'): SpawnPoint[] {
+    return level.spawns
+      .filter(spawn => !team || spawn.team === team || spawn.team === 'neutral')
+      .sort((a, b) => b.priority - a.priority);
+  }
+
+  /**
+   * Merge wall tiles into DestructionRenderer-style walls.
+   *
+   * Horizontal runs of matching tiles are taken first and cut into 5-tile
+   * segments (one tile per slice); whatever is left is merged vertically.
+   * A lone tile becomes a pillar.
+   */
+  static extractWalls(level: LevelData): LevelWall[] {
+    const walls: LevelWall[] = [];
+    const { width, height, tileSize } = level;
+
+    level.layers.filter(layer => layer.type === 'walls').forEach(layer => {
+      // Per-cell wall properties, null where there's nothing solid
+      const cells: Array<TileProperties | null> = layer.data.map(gid => {
+        const tile = MapLoader.getTileProperties(level, gid);
+        return tile && (tile.type === TileType.WALL || tile.type === TileType.WINDOW) ? tile : null;
+      });
+      const used = new Array<boolean>(cells.length).fill(false);
+      const sameWall = (a: TileProperties | null, b: TileProperties | null) =>
+        !!a && !!b && a.material === b.material && a.health === b.health && a.destructible === b.destructible;
+
+      const addWall = (x: number, y: number, length: number, orientation: 'horizontal' | 'vertical', tile: TileProperties) => {
+        const sliceMax = tile.health ?? DEFAULT_TILE_HEALTH;
+        walls.push({
+          id: `${level.id}_${layer.id}_${x}_${y}_${orientation[0]}`,
+          position: { x: x * tileSize, y: y * tileSize },
+          width: orientation === 'horizontal' ? length * tileSize : tileSize,
+          height: orientation === 'vertical' ? length * tileSize : tileSize,
+          orientation,
+          material: tile.material,
+          sliceHealth: new Array(SLICES_PER_WALL).fill(sliceMax),
+          maxHealth: sliceMax,
+          destructionMask: new Array(SLICES_PER_WALL).fill(0),
+          destructible: tile.destructible
+        });
+      };
+
+      // Horizontal runs of two or more tiles
+      for (let y = 0; y < height; y++) {
+        let x = 0;
+        while (x < width) {
+          const tile = cells[y * width + x];
+          let runEnd = x + 1;
+          while (runEnd < width && runEnd - x < SLICES_PER_WALL && sameWall(tile, cells[y * width + runEnd])) runEnd++;
+
+          if (tile && runEnd - x >= 2) {
+            for (let i = x; i < runEnd; i++) used[y * width + i] = true;
+            addWall(x, y, runEnd - x, 'horizontal', tile);
+          }
+          x = runEnd;
+        }
+      }
+
+      // Remaining tiles, merged down columns
+      for (let x = 0; x < width; x++) {
+        let y = 0;
+        while (y < height) {
+          const index = y * width + x;
+          const tile = used[index] ? null : cells[index];
+          if (!tile) {
+            y++;
+            continue;
+          }
+
+          let runEnd = y + 1;
+          while (
+            runEnd < height &&
+            runEnd - y < SLICES_PER_WALL &&
+            !used[runEnd * width + x] &&
+            sameWall(tile, cells[runEnd * width + x])
+          ) runEnd++;
+
+          addWall(x, y, runEnd - y, 'vertical', tile);
+          y = runEnd;
+        }
+      }
+    });
+
+    return walls;
+  }
+
+  // ===== HELPERS =====
+
+  static getTilesetKey(tileset: Tileset): string {
+    return `level_tileset_${tileset.name}`;
+  }
+
+  private static resolvePath(path: string, baseUrl: string): string {
+    if (!baseUrl || /^([a-z]+:)?\//i.test(path) || path.startsWith('assets/')) return path;
+    const base = baseUrl.substring(0, baseUrl.lastIndexOf('/') + 1);
+    return base + path;
+  }
+
+  private static toRows(data: number[], width: number, map: (gid: number) => number): number[][] {
+    const rows: number[][] = [];
+    for (let i = 0; i < data.length; i += width) {
+      rows.push(data.slice(i, i + width).map(map));
+    }
+    return rows;
+  }
+}
@@ -0,0 +1,355 @@
+import { audioManager } from './AudioManager';
+
+/**
+ * MusicManager - Layered background music that follows the game's state
+ *
+ * Four loops of the same length (pad, bass, drums, lead) start together and
+ * play for as long as music is on; each state is just a different mix of
+ * them, crossfaded. In combat the mix follows an intensity that gunfire,
+ * explosions and damage push up and that decays back down, never below a
+ * floor GameScene sets from low health or a close race to the kill target.
+ * Match results get a one-shot victory or defeat stinger instead.
+ *
+ * The loops are synthesized on first use; loading a sound named
+ * music_<layer> into AudioManager replaces that layer with a real track.
+ * Everything plays through AudioManager's music bus, so the master and music
+ * volumes apply. Browsers block audio until the player interacts with the
+ * page, so nothing starts before the first click, key or touch.
+ */
+
+export type MusicState = 'menu' | 'lobby' | 'countdown' | 'combat';
+export type StingerType = 'victory' | 'defeat';
+
+type Layer = 'pad' | 'bass' | 'drums' | 'lead';
+type LayerMix = Record<Layer, number>;
+
+const LAYERS: Layer[] = ['pad', 'bass', 'drums', 'lead'];
+
+const BPM = 96;
+const BEAT = 60 / BPM;
+const BARS = 4; // One chord per bar
+const LOOP_SECONDS = BARS * 4 * BEAT;
+const SAMPLE_RATE = 22050; // Plenty for synthesized loops, half the memory of 44.1k
+
+// Am - F - C - G, as [bass root, triad...] in Hz
+const CHORDS: number[][] = [
+  [55.0, 220.0, 261.63, 329.63],
+  [43.65, 174.61, 220.0, 261.63],
+  [65.41, 261.63, 329.63, 392.0],
+  [49.0, 196.0, 246.94, 293.66]
+];
+
+const MIXES: Record<Exclude<MusicState, 'combat'>, LayerMix> = {
+  menu: { pad: 0.8, bass: 0, drums: 0, lead: 0.25 },
+  lobby: { pad: 0.7, bass: 0.4, drums: 0, lead: 0 },
+  countdown: { pad: 0.5, bass: 0.7, drums: 0.6, lead: 0 }
+};
+
+const SILENT: LayerMix = { pad: 0, bass: 0, drums: 0, lead: 0 };
+
+const CROSSFADE_SECONDS = 1.5;
+const INTENSITY_FADE_SECONDS = 0.5; // Combat mix follows intensity more tightly
+const INTENSITY_DECAY_PER_SECOND = 0.12;
+const UPDATE_INTERVAL_MS = 250;
+
+const UNLOCK_EVENTS = ['pointerdown', 'keydown', 'touchstart'];
+
+interface LayerVoice {
+  source: AudioBufferSourceNode;
+  gain: GainNode;
+}
+
+export class MusicManager {
+  private state: MusicState | null = null;
+  private intensity: number = 0;
+  private intensityFloor: number = 0;
+  private voices: Map<Layer, LayerVoice> = new Map();
+  private buffers: Map<Layer, AudioBuffer> = new Map();
+  private unlockHandler: (() => void) | null = null;
+  private lastUpdate: number = 0;
+
+  /**
+   * Switch to a state's mix. Safe to call every time a scene starts.
+   */
+  setState(state: MusicState | null): void {
+    if (state === this.state) return;
+    console.log(`🎵 MusicManager: ${this.state || 'silence'} -> ${state || 'silence'}`);
+
+    this.state = state;
+    if (state !== 'combat') {
+      this.intensity = 0;
+      this.intensityFloor = 0;
+    }
+
+    if (state && !this.ensureStarted()) {
+      this.waitForUnlock();
+      return;
+    }
+    this.applyMix(CROSSFADE_SECONDS);
+  }
+
+  getState(): MusicState | null {
+    return this.state;
+  }
+
+  /**
+   * Something happened nearby - push combat intensity up (0-1 scale)
+   */
+  addIntensity(amount: number): void {
+    if (this.state !== 'combat') return;
+    this.intensity = Math.min(1, this.intensity + amount);
+  }
+
+  /**
+   * Lowest intensity to decay to, for conditions that persist (low health, close score)
+   */
+  setIntensityFloor(floor: number): void {
+    this.intensityFloor = Math.max(0, Math.min(1, floor));
+  }
+
+  getIntensity(): number {
+    return Math.max(this.intensity, this.intensityFloor);
+  }
+
+  /**
+   * Decay intensity and follow it in the combat mix - call from the scene's update
+   */
+  update(): void {
+    const now = Date.now();
+    if (now - this.lastUpdate < UPDATE_INTERVAL_MS) return;
+    const elapsed = this.lastUpdate ? (now - this.lastUpdate) / 1000 : 0;
+    this.lastUpdate = now;
+
+    if (this.state !== 'combat') return;
+    this.intensity = Math.max(0, this.intensity - INTENSITY_DECAY_PER_SECOND * elapsed);
+    this.applyMix(INTENSITY_FADE_SECONDS);
+  }
+
+  /**
+   * Fade the loops out and play the end-of-match sting
+   */
+  playStinger(type: StingerType): void {
+    this.setState(null);
+
+    const context = audioManager.getContext();
+    const output = audioManager.getMusicOutput();
+    if (!context || !output) return;
+
+    // Victory climbs an A major arpeggio; defeat sinks through A minor
+    const notes = type === 'victory' ? [440, 554.37, 659.25, 880] : [329.63, 261.63, 220, 164.81];
+    const step = type === 'victory' ? 0.12 : 0.22;
+    const now = context.currentTime + 0.05;
+
+    notes.forEach((frequency, index) => {
+      const isLast = index === notes.length - 1;
+      const start = now + index * step;
+      const duration = isLast ? 1.6 : step * 1.5;
+
+      const oscillator = context.createOscillator();
+      const gain = context.createGain();
+      oscillator.type = type === 'victory' ? 'square' : 'triangle';
+      oscillator.frequency.value = frequency;
+      gain.gain.setValueAtTime(0, start);
+      gain.gain.linearRampToValueAtTime(type === 'victory' ? 0.12 : 0.2, start + 0.01);
+      gain.gain.exponentialRampToValueAtTime(0.001, start + duration);
+      oscillator.connect(gain);
+      gain.connect(output);
+      oscillator.start(start);
+      oscillator.stop(start + duration);
+    });
+  }
+
+  /**
+   * Create and start the looping layers. False until audio has been unlocked.
+   */
+  private ensureStarted(): boolean {
+    if (this.voices.size > 0) return true;
+
+    const context = audioManager.getContext();
+    const output = audioManager.getMusicOutput();
+    if (!context || !output || context.state !== 'running') return false;
+
+    // All layers share one start time so they stay in step
+    const startAt = context.currentTime + 0.1;
+    LAYERS.forEach(layer => {
+      const source = context.createBufferSource();
+      const gain = context.createGain();
+      source.buffer = this.getBuffer(context, layer);
+      source.loop = true;
+      gain.gain.value = 0;
+      source.connect(gain);
+      gain.connect(output);
+      source.start(startAt);
+      this.voices.set(layer, { source, gain });
+    });
+
+    console.log('🎵 MusicManager: Layers started');
+    return true;
+  }
+
+  private applyMix(fadeSeconds: number): void {
+    const context = audioManager.getContext();
+    if (!context || this.voices.size === 0) return;
+
+    const mix = this.getMix();
+    this.voices.forEach((voice, layer) => {
+      voice.gain.gain.setTargetAtTime(mix[layer], context.currentTime, fadeSeconds / 3);
+    });
+  }
+
+  private getMix(): LayerMix {
+    if (!this.state) return SILENT;
+    if (this.state !== 'combat') return MIXES[this.state];
+
+    // Calm bed at 0, everything in at 1
+    const intensity = this.getIntensity();
+    return {
+      pad: 0.6 - 0.25 * intensity,
+      bass: 0.3 + 0.5 * intensity,
+      drums: Math.max(0, (intensity - 0.15) / 0.85) * 0.9,
+      lead: Math.max(0, (intensity - 0.5) * 2) * 0.6
+    };
+  }
+
+  /**
+   * Wait for the first user gesture, then start whatever state is current
+   */
+  private waitForUnlock(): void {
+    if (this.unlockHandler) return;
+
+    this.unlockHandler = () => {
+      UNLOCK_EVENTS.forEach(event => window.removeEventListener(event, this.unlockHandler!));
+      this.unlockHandler = null;
+
+      // Inside the gesture, so browsers allow the context to start
+      audioManager.initialize().then(() => {
+        const context = audioManager.getContext();
+        return context && context.state !== 'running' ? context.resume() : undefined;
+      }).then(() => {
+        if (this.state && this.ensureStarted()) {
+          this.applyMix(CROSSFADE_SECONDS);
+        }
+      }).catch(error => {
+        console.warn('⚠️ MusicManager: Could not start audio:', error);
+      });
+    };
+
+    UNLOCK_EVENTS.forEach(event => window.addEventListener(event, this.unlockHandler!));
+  }
+
+  private getBuffer(context: AudioContext, layer: Layer): AudioBuffer {
+    const track = audioManager.getSoundBuffer(`music_${layer}`);
+    if (track) return track;
+
+    let buffer = this.buffers.get(layer);
+    if (!buffer) {
+      buffer = this.synthesizeLayer(context, layer);
+      this.buffers.set(layer, buffer);
+    }
+    return buffer;
+  }
+
+  private synthesizeLayer(context: AudioContext, layer: Layer): AudioBuffer {
+    const length = Math.round(LOOP_SECONDS * SAMPLE_RATE);
+    const buffer = context.createBuffer(1, length, SAMPLE_RATE);
+    const data = buffer.getChannelData(0);
+    const barSamples = length / BARS;
+
+    for (let bar = 0; bar < BARS; bar++) {
+      const [root, ...triad] = CHORDS[bar];
+      const barStart = bar * barSamples;
+
+      switch (layer) {
+        case 'pad':
+          // Whole-bar chord with soft edges so bars blend into each other
+          triad.forEach(frequency => this.addTone(data, barStart, barSamples, frequency, 0.08, 'sine', 0.3, 0.3));
+          break;
+
+        case 'bass':
+          // Eighth-note pulse on the root
+          for (let i = 0; i < 8; i++) {
+            this.addTone(data, barStart + i * barSamples / 8, barSamples / 8, root * 2, 0.22, 'saw', 0.005, 0.8);
+          }
+          break;
+
+        case 'drums':
+          for (let beat = 0; beat < 4; beat++) {
+            const beatStart = barStart + beat * barSamples / 4;
+            if (beat % 2 === 0) {
+              this.addKick(data, beatStart);
+            } else {
+              this.addNoise(data, beatStart, 0.12, 0.25, false);
+            }
+            // Hats on every eighth
+            this.addNoise(data, beatStart, 0.03, 0.08, true);
+            this.addNoise(data, beatStart + barSamples / 8, 0.03, 0.06, true);
+          }
+          break;
+
+        case 'lead':
+          // Sixteenth-note arpeggio an octave up
+          for (let i = 0; i < 16; i++) {
+            const frequency = triad[[0, 1, 2, 1][i % 4]] * 2;
+            this.addTone(data, barStart + i * barSamples / 16, barSamples / 16, frequency, 0.2, 'square', 0.002, 0.9);
+          }
+          break;
+      }
+    }
+
+    return buffer;
+  }
+
+  /**
+   * Mix a note into `data`. Attack and decay are fractions of the note length.
+   */
+  private addTone(data: Float32Array, start: number, samples: number, frequency: number, volume: number,
+    wave: 'sine' | 'saw' | 'square', attack: number, decay: number): void {
+    const first = Math.floor(start);
+    const count = Math.floor(samples);
+    const attackSamples = Math.max(1, attack * count);
+    const decayStart = count * (1 - decay);
+
+    for (let i = 0; i < count && first + i < data.length; i++) {
+      const phase = (i * frequency / SAMPLE_RATE) % 1;
+      const value = wave === 'sine' ? Math.sin(phase * Math.PI * 2)
+        : wave === 'saw' ? (phase * 2 - 1) * 0.6 + Math.sin(phase * Math.PI * 2) * 0.4
+        : phase < 0.5 ? 0.5 : -0.5;
+
+      let envelope = 1;
+      if (i < attackSamples) envelope = i / attackSamples;
+      else if (i > decayStart) envelope = Math.max(0, 1 - (i - decayStart) / (count - decayStart));
+
+      data[first + i] += value * volume * envelope;
+    }
+  }
+
+  private addKick(data: Float32Array, start: number): void {
+    const first = Math.floor(start);
+    const count = Math.floor(0.18 * SAMPLE_RATE);
+    let phase = 0;
+
+    for (let i = 0; i < count && first + i < data.length; i++) {
+      const t = i / count;
+      phase += (40 + 80 * (1 - t) * (1 - t)) / SAMPLE_RATE; // Pitch sweeps 120Hz -> 40Hz
+      data[first + i] += Math.sin(phase * Math.PI * 2) * 0.5 * (1 - t) * (1 - t);
+    }
+  }
+
+  /**
+   * Decaying noise burst - snare, or a hat when `bright` (differenced for a crude high-pass)
+   */
+  private addNoise(data: Float32Array, start: number, seconds: number, volume: number, bright: boolean): void {
+    const first = Math.floor(start);
+    const count = Math.floor(seconds * SAMPLE_RATE);
+    let previous = 0;
+
+    for (let i = 0; i < count && first + i < data.length; i++) {
+      const noise = Math.random() * 2 - 1;
+      const value = bright ? (noise - previous) * 0.5 : noise;
+      previous = noise;
+      data[first + i] += value * volume * (1 - i / count);
+    }
+  }
+}
+
+export const musicManager = new MusicManager();
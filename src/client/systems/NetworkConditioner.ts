@@ -0,0 +1,325 @@
+import type { Socket } from 'socket.io-client';
+
+/**
+ * NetworkConditioner - Simulated bad connections for testing
+ *
+ * NetworkSystem wraps every socket it creates in a ConditionedSocket. With a
+ * profile active, each event in either direction is delayed by latency +
+ * jitter, and may be dropped, duplicated or reordered. 'off' passes events
+ * straight through on the same tick. Pick a profile with ?netsim=4g (lan, 4g,
+ * congested, transatlantic), from the lobby debug overlay (F9, then F10) or
+ * from the in-game network HUD (F4, then F10).
+ *
+ * Connection lifecycle events (connect/disconnect) are never conditioned -
+ * this simulates a bad link, not a broken handshake.
+ */
+
+export type NetworkProfileId = 'off' | 'lan' | '4g' | 'congested' | 'transatlantic';
+
+export interface NetworkProfile {
+  label: string;
+  latencyMs: number; // One way - round trips cost double
+  jitterMs: number;  // +/- on top of latency
+  lossRate: number;
+  duplicateRate: number;
+  reorderRate: number;
+}
+
+export const NETWORK_PROFILES: Record<NetworkProfileId, NetworkProfile> = {
+  off: { label: 'Off', latencyMs: 0, jitterMs: 0, lossRate: 0, duplicateRate: 0, reorderRate: 0 },
+  lan: { label: 'LAN', latencyMs: 2, jitterMs: 1, lossRate: 0, duplicateRate: 0, reorderRate: 0 },
+  '4g': { label: '4G', latencyMs: 35, jitterMs: 20, lossRate: 0.01, duplicateRate: 0.002, reorderRate: 0.01 },
+  congested: { label: 'Congested', latencyMs: 80, jitterMs: 60, lossRate: 0.05, duplicateRate: 0.01, reorderRate: 0.05 },
+  transatlantic: { label: 'Transatlantic (300ms)', latencyMs: 150, jitterMs: 10, lossRate: 0.005, duplicateRate: 0, reorderRate: 0.005 }
+};
+
+export const NETWORK_PROFILE_ORDER: NetworkProfileId[] = ['off', 'lan', '4g', 'congested', 'transatlantic'];
+
+export type TrafficDirection = 'inbound' | 'outbound';
+
+export interface DirectionStats {
+  passed: number;
+  delayed: number;
+  dropped: number;
+  duplicated: number;
+  reordered: number;
+}
+
+const QUERY_PARAM = 'netsim';
+// Lifecycle events never reach onAny on a real socket - they are forwarded untouched
+const RESERVED_EVENTS = new Set(['connect', 'connect_error', 'disconnect', 'disconnecting']);
+
+type Listener = (...args: any[]) => void;
+
+function emptyStats(): DirectionStats {
+  return { passed: 0, delayed: 0, dropped: 0, duplicated: 0, reordered: 0 };
+}
+
+export class NetworkConditioner {
+  private profileId: NetworkProfileId = 'off';
+  private stats: Record<TrafficDirection, DirectionStats> = { inbound: emptyStats(), outbound: emptyStats() };
+  // Latest scheduled delivery per direction - jitter alone must not reorder a TCP stream
+  private lastDeliveryAt: Record<TrafficDirection, number> = { inbound: 0, outbound: 0 };
+  private listeners: Set<(profile: NetworkProfileId) => void> = new Set();
+
+  constructor() {
+    const requested = typeof window !== 'undefined'
+      ? new URLSearchParams(window.location.search).get(QUERY_PARAM)
+      : null;
+    if (requested && requested in NETWORK_PROFILES) {
+      this.profileId = requested as NetworkProfileId;
+      console.log(`📶 NetworkConditioner: Simulating ${NETWORK_PROFILES[this.profileId].label} from ?${QUERY_PARAM}=`);
+    } else if (requested) {
+      console.warn(`⚠️ NetworkConditioner: Unknown profile '${requested}' - use one of ${NETWORK_PROFILE_ORDER.join(', ')}`);
+    }
+  }
+
+  getProfileId(): NetworkProfileId {
+    return this.profileId;
+  }
+
+  getProfile(): NetworkProfile {
+    return NETWORK_PROFILES[this.profileId];
+  }
+
+  isActive(): boolean {
+    return this.profileId !== 'off';
+  }
+
+  setProfile(profileId: NetworkProfileId): void {
+    if (profileId === this.profileId) return;
+    this.profileId = profileId;
+    this.resetStats();
+    console.log(`📶 NetworkConditioner: Now simulating ${NETWORK_PROFILES[profileId].label}`);
+    this.listeners.forEach(listener => listener(profileId));
+  }
+
+  /**
+   * Step to the next profile (debug overlay hotkey)
+   */
+  cycleProfile(): NetworkProfileId {
+    const index = NETWORK_PROFILE_ORDER.indexOf(this.profileId);
+    this.setProfile(NETWORK_PROFILE_ORDER[(index + 1) % NETWORK_PROFILE_ORDER.length]);
+    return this.profileId;
+  }
+
+  onProfileChange(listener: (profile: NetworkProfileId) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  getStats(): Record<TrafficDirection, DirectionStats> {
+    return { inbound: { ...this.stats.inbound }, outbound: { ...this.stats.outbound } };
+  }
+
+  resetStats(): void {
+    this.stats = { inbound: emptyStats(), outbound: emptyStats() };
+  }
+
+  /**
+   * Wrap a freshly created socket - the wrapper is what the rest of the client talks to
+   */
+  wrap(socket: Socket): Socket {
+    return new ConditionedSocket(socket, this) as unknown as Socket;
+  }
+
+  /**
+   * Run `deliver` as the current profile dictates: now, later, twice or never
+   */
+  schedule(direction: TrafficDirection, deliver: () => void): void {
+    const stats = this.stats[direction];
+    if (!this.isActive()) {
+      stats.passed++;
+      deliver();
+      return;
+    }
+
+    const profile = this.getProfile();
+    if (Math.random() < profile.lossRate) {
+      stats.dropped++;
+      return;
+    }
+
+    const now = Date.now();
+    let deliverAt = now + Math.max(0, profile.latencyMs + (Math.random() * 2 - 1) * profile.jitterMs);
+
+    if (Math.random() < profile.reorderRate) {
+      // Held back long enough for later events to overtake it
+      deliverAt += profile.jitterMs + profile.latencyMs / 2 + 20;
+      stats.reordered++;
+    } else {
+      deliverAt = Math.max(deliverAt, this.lastDeliveryAt[direction]);
+      this.lastDeliveryAt[direction] = deliverAt;
+    }
+
+    stats.delayed++;
+    setTimeout(deliver, deliverAt - now);
+
+    if (Math.random() < profile.duplicateRate) {
+      stats.duplicated++;
+      setTimeout(deliver, deliverAt - now + Math.random() * Math.max(1, profile.jitterMs));
+    }
+  }
+}
+
+/**
+ * Stand-in for a socket.io Socket that routes both directions through the
+ * conditioner. Implements the same API slice as LocalSocket.
+ */
+export class ConditionedSocket {
+  private inner: Socket;
+  private conditioner: NetworkConditioner;
+  private listeners: Map<string, Listener[]> = new Map();
+  private anyListeners: Listener[] = [];
+  // Bumped on every disconnect - emits scheduled under an older one are dropped
+  private connectionGeneration: number = 0;
+  private handleInnerDisconnect = (): void => {
+    this.connectionGeneration++;
+  };
+
+  constructor(inner: Socket, conditioner: NetworkConditioner) {
+    this.inner = inner;
+    this.conditioner = conditioner;
+
+    this.inner.on('disconnect', this.handleInnerDisconnect);
+
+    this.inner.onAny((event: string, ...args: any[]) => {
+      this.conditioner.schedule('inbound', () => {
+        // In-flight events die with the connection
+        if (this.inner.connected) this.dispatch(event, ...args);
+      });
+    });
+  }
+
+  getInner(): Socket {
+    return this.inner;
+  }
+
+  get id(): string | undefined {
+    return this.inner.id;
+  }
+
+  get connected(): boolean {
+    return this.inner.connected;
+  }
+
+  get disconnected(): boolean {
+    return this.inner.disconnected;
+  }
+
+  get io(): Socket['io'] {
+    return this.inner.io;
+  }
+
+  on(event: string, listener: Listener): this {
+    if (RESERVED_EVENTS.has(event)) {
+      this.inner.on(event as any, listener);
+      return this;
+    }
+    const list = this.listeners.get(event) || [];
+    list.push(listener);
+    this.listeners.set(event, list);
+    return this;
+  }
+
+  once(event: string, listener: Listener): this {
+    const wrapper: Listener = (...args) => {
+      this.off(event, wrapper);
+      listener(...args);
+    };
+    (wrapper as any).originalListener = listener;
+    return this.on(event, wrapper);
+  }
+
+  off(event?: string, listener?: Listener): this {
+    if (event === undefined) {
+      this.listeners.clear();
+      RESERVED_EVENTS.forEach(reserved => this.inner.off(reserved as any));
+      this.inner.on('disconnect', this.handleInnerDisconnect);
+      return this;
+    }
+
+    if (RESERVED_EVENTS.has(event)) {
+      this.inner.off(event as any, listener);
+      // Blanket removals must not take the wrapper's own disconnect tracking with them
+      if (event === 'disconnect' && !listener) this.inner.on('disconnect', this.handleInnerDisconnect);
+      return this;
+    }
+
+    if (!listener) {
+      this.listeners.delete(event);
+      return this;
+    }
+
+    const list = this.listeners.get(event);
+    if (list) {
+      const remaining = list.filter(fn => fn !== listener && (fn as any).originalListener !== listener);
+      if (remaining.length > 0) {
+        this.listeners.set(event, remaining);
+      } else {
+        this.listeners.delete(event);
+      }
+    }
+    return this;
+  }
+
+  removeAllListeners(event?: string): this {
+    return this.off(event);
+  }
+
+  hasListeners(event: string): boolean {
+    return this.listenerCount(event) > 0;
+  }
+
+  listenerCount(event: string): number {
+    if (RESERVED_EVENTS.has(event)) {
+      return this.inner.listeners(event as any).length;
+    }
+    return this.listeners.get(event)?.length || 0;
+  }
+
+  onAny(listener: Listener): this {
+    this.anyListeners.push(listener);
+    return this;
+  }
+
+  offAny(listener?: Listener): this {
+    this.anyListeners = listener ? this.anyListeners.filter(fn => fn !== listener) : [];
+    return this;
+  }
+
+  emit(event: string, ...args: any[]): this {
+    const generation = this.connectionGeneration;
+    this.conditioner.schedule('outbound', () => {
+      // Still on the wire when the connection dropped - a real link loses it too
+      if (generation === this.connectionGeneration) this.inner.emit(event, ...args);
+    });
+    return this;
+  }
+
+  connect(): this {
+    this.inner.connect();
+    return this;
+  }
+
+  open(): this {
+    return this.connect();
+  }
+
+  disconnect(): this {
+    this.inner.disconnect();
+    return this;
+  }
+
+  close(): this {
+    return this.disconnect();
+  }
+
+  private dispatch(event: string, ...args: any[]): void {
+    // Same order as socket.io: catch-all listeners first
+    [...this.anyListeners].forEach(listener => listener(event, ...args));
+    [...(this.listeners.get(event) || [])].forEach(listener => listener(...args));
+  }
+}
+
+export const networkConditioner = new NetworkConditioner();
@@ -3,6 +3,28 @@ import { IGameSystem } from '../../../shared/interfaces/IGameSystem';
 import { EVENTS } from '../../../shared/constants/index';
 import { InputState } from './InputSystem';
 import { TimeSync } from './TimeSync';
+import { ReplayRecorder, ReplayRecording } from './ReplayRecorder';
+import { LocalSocket, isLocalServerUrl } from '../offline/LocalSocket';
+import { LocalServer, LOCAL_SERVER_INFO } from '../offline/LocalServer';
+import { networkConditioner, ConditionedSocket } from './NetworkConditioner';
+import { SnapshotDecoder, SnapshotStats } from './SnapshotDecoder';
+import { ConnectionQualityMonitor, ConnectionQualityStats } from './ConnectionQualityMonitor';
+import { playerProfile } from './PlayerProfile';
+import {
+  onServerEvent,
+  emitClientEvent,
+  ServerEventName,
+  ServerEventHandler,
+  ClientEventName,
+  ClientEventArgs,
+  ProtocolViolation,
+  reportProtocolViolation,
+  ProtocolHandshake,
+  ResumedSessionPayload,
+  GameState,
+  BINARY_PROTOCOL_VERSION,
+  validateServerPayload
+} from '../../../shared/protocol/index';
 
 // Connection states enum
 export enum ConnectionState {
@@ -11,9 +33,21 @@ export enum ConnectionState {
   CONNECTED = 'connected',
   AUTHENTICATING = 'authenticating',
   AUTHENTICATED = 'authenticated',
+  RECONNECTING = 'reconnecting',
   FAILED = 'failed'
 }
 
+const PROTOCOL_HANDSHAKE: ProtocolHandshake = {
+  protocolVersion: BINARY_PROTOCOL_VERSION,
+  encodings: ['msgpack', 'json']
+};
+
+// Dropped links worth resuming - the server or we hung up on purpose otherwise
+const RESUMABLE_DISCONNECTS = new Set(['transport close', 'transport error', 'ping timeout']);
+const RESUME_BASE_DELAY_MS = 1000;
+const RESUME_MAX_DELAY_MS = 16000;
+const MAX_RESUME_ATTEMPTS = 6; // ~47s in total, inside the server's session grace period
+
 export interface ServerInfo {
   game: string;
   status: string;
@@ -35,12 +69,21 @@ export class NetworkSystem implements IGameSystem {
   private authenticationTimeout: number | null = null;
   private firstGameStateReceived: boolean = false;
   private connectionInProgress: boolean = false; // Prevent multiple concurrent connection attempts
+  private connectAttempt: number = 0; // Lets a newer attempt supersede one still awaiting the status check
   private lastGameStateLog: number = 0;
   private firstWallsForwarded: boolean = false;
   private timeSync: TimeSync | null = null;
   private isActivePlayer: boolean = false;
   private joinAttempts: number = 0;
   private maxJoinAttempts: number = 3;
+  private protocolViolations: number = 0;
+  private replayRecorder: ReplayRecorder = new ReplayRecorder(() => this.getServerTime());
+  private snapshotDecoder: SnapshotDecoder = this.createSnapshotDecoder();
+  private sessionToken: string | null = null; // Issued at authentication, spent on a resume
+  private isResuming: boolean = false;
+  private resumeAttempts: number = 0;
+  private reconnectTimer: number | null = null;
+  private connectionQuality: ConnectionQualityMonitor = new ConnectionQualityMonitor();
 
   constructor(scene: Phaser.Scene) {
     this.scene = scene;
@@ -52,8 +95,8 @@ export class NetworkSystem implements IGameSystem {
   }
 
   update(deltaTime: number): void {
-    // NetworkSystem doesn't need regular updates
-    // All communication is event-driven
+    // All communication is event-driven - this only keeps the connection figures rolling
+    this.connectionQuality.update(this.timeSync);
   }
 
   destroy(): void {
@@ -83,6 +126,8 @@ export class NetworkSystem implements IGameSystem {
     if (this.authenticationTimeout) {
       clearTimeout(this.authenticationTimeout);
     }
+    this.clearReconnectTimer();
+    this.isResuming = false;
     
     this.connectionState = ConnectionState.DISCONNECTED;
     this.isConnected = false;
@@ -97,10 +142,19 @@ export class NetworkSystem implements IGameSystem {
     console.log(`🔌 DETAILED: Current connection state: ${this.isConnected ? 'CONNECTED' : 'DISCONNECTED'}`);
     console.log(`🔌 DETAILED: Existing socket: ${!!this.socket}, connected: ${this.socket?.connected}`);
     
+    const isLocal = isLocalServerUrl(serverUrl);
+    
     // Check if connection is already in progress
     if (this.connectionInProgress) {
-      console.log('⚠️ Connection already in progress, ignoring duplicate request');
-      return;
+      if (!isLocal) {
+        console.log('⚠️ Connection already in progress, ignoring duplicate request');
+        return;
+      }
+      // Offline mode must work even while the real server is unreachable
+      console.log('🧪 Abandoning pending connection in favour of the offline server');
+      this.socket?.disconnect();
+      this.socket = null;
+      this.connectionInProgress = false;
     }
     
     // CRITICAL FIX: Don't create new connection if already connected!
@@ -127,10 +181,15 @@ export class NetworkSystem implements IGameSystem {
     // Mark connection as in progress
     this.connectionInProgress = true;
     this.setConnectionState(ConnectionState.CONNECTING);
+    const attempt = ++this.connectAttempt;
     
     try {
-      // First check server info to see if password is required
-      const serverInfo = await this.checkServerStatus(serverUrl);
+      // First check server info to see if password is required (the offline server has no HTTP endpoint)
+      const serverInfo = isLocal ? LOCAL_SERVER_INFO : await this.checkServerStatus(serverUrl);
+      if (attempt !== this.connectAttempt) {
+        console.log(`⚠️ Connection to ${serverUrl} superseded by a newer attempt`);
+        return;
+      }
       
       console.log(`🔌 DETAILED: Creating Socket.IO connection with config:`, {
         transports: ['websocket'],
@@ -148,7 +207,7 @@ export class NetworkSystem implements IGameSystem {
         console.error('Existing socket connected:', this.socket.connected);
       }
       
-      this.socket = io(serverUrl, {
+      const rawSocket = isLocal ? (new LocalSocket(new LocalServer()) as unknown as Socket) : io(serverUrl, {
         transports: ['polling', 'websocket'], // Start with polling for better compatibility
         timeout: 10000, // Increased timeout for slower connections
         reconnection: true,
@@ -156,8 +215,13 @@ export class NetworkSystem implements IGameSystem {
         reconnectionDelayMax: 10000,    // Increased from 5000ms to 10000ms
         reconnectionAttempts: this.MAX_RECONNECT_ATTEMPTS,
         autoConnect: false,  // Don't connect immediately
-        withCredentials: true // Enable credentials for CORS
+        withCredentials: true, // Enable credentials for CORS
+        auth: (cb) => cb(this.getHandshakeAuth()) // Offer binary game state - servers that don't know it keep sending JSON
       });
+      // Always wrapped so the network simulator can be switched on mid-session
+      this.socket = networkConditioner.wrap(rawSocket);
+      this.snapshotDecoder = this.createSnapshotDecoder();
+      this.connectionQuality.reset();
       
       console.log(`🔌 DETAILED: Socket.IO instance created, setting up listeners...`);
 
@@ -187,7 +251,7 @@ export class NetworkSystem implements IGameSystem {
         if (password && password.trim() !== '') {
           console.log('🔐 Attempting authentication with password for private lobby...');
           this.setConnectionState(ConnectionState.AUTHENTICATING);
-          this.socket!.emit('authenticate', password);
+          emitClientEvent(this.socket!, 'authenticate', password);
           console.log('📤 Authentication event sent to backend');
           
           // Set 5-second timeout for authentication
@@ -198,7 +262,7 @@ export class NetworkSystem implements IGameSystem {
           // Private server/lobby requires password but none provided
           console.log('🔒 Server requires password but none provided - attempting empty auth');
           this.setConnectionState(ConnectionState.AUTHENTICATING);
-          this.socket!.emit('authenticate', '');
+          emitClientEvent(this.socket!, 'authenticate', '');
           
           // Set 5-second timeout for authentication
           this.authenticationTimeout = window.setTimeout(() => {
@@ -209,7 +273,7 @@ export class NetworkSystem implements IGameSystem {
           console.log('🌐 Public server connection - waiting for server ready signal');
           
           // Send ready signal and wait for server confirmation
-          this.socket!.emit('client:ready', { 
+          emitClientEvent(this.socket!, 'client:ready', { 
             timestamp: Date.now(),
             userAgent: navigator.userAgent 
           });
@@ -219,14 +283,18 @@ export class NetworkSystem implements IGameSystem {
             console.warn('⚠️ Server ready timeout - proceeding anyway');
             this.setConnectionState(ConnectionState.AUTHENTICATED);
             this.onGameReady();
+            this.confirmSession();
           }, 3000);
           
           // Wait for server ready confirmation
-          this.socket!.once('server:ready', () => {
+          const readyListener = this.onServer('server:ready', (data) => {
+            this.socket?.off('server:ready', readyListener);
             clearTimeout(readyTimeout);
             console.log('✅ Server confirmed ready');
+            this.applyNegotiatedProtocol(data?.protocolVersion);
             this.setConnectionState(ConnectionState.AUTHENTICATED);
             this.onGameReady();
+            this.confirmSession(data);
           });
         }
       });
@@ -236,6 +304,7 @@ export class NetworkSystem implements IGameSystem {
       this.socket.connect();
       
     } catch (error) {
+      if (attempt !== this.connectAttempt) return;
       console.error('Failed to connect to server:', error);
       this.connectionInProgress = false; // Clear the flag on error
       this.setConnectionState(ConnectionState.FAILED);
@@ -293,17 +362,40 @@ export class NetworkSystem implements IGameSystem {
 
   private handleAuthenticationTimeout(): void {
     this.setConnectionState(ConnectionState.FAILED);
+    this.failResume('Authentication timeout');
     this.scene.events.emit('network:connectionError', 'Authentication timeout');
     if (this.socket) {
       this.socket.disconnect();
     }
   }
 
+  /**
+   * Register a validated, typed listener for a server event.
+   * Malformed payloads are dropped and reported instead of reaching the handler.
+   */
+  private onServer<K extends ServerEventName>(event: K, handler: ServerEventHandler<K>): (payload?: unknown) => void {
+    return onServerEvent(this.socket!, event, handler, (violation) => this.handleProtocolViolation(violation));
+  }
+
+  private handleProtocolViolation(violation: ProtocolViolation): void {
+    this.protocolViolations++;
+    reportProtocolViolation(violation);
+    this.scene.events.emit('network:protocolError', violation);
+  }
+
   private setupSocketListeners(): void {
     if (!this.socket) return;
 
     // Debug listener - only log critical events
     this.socket.onAny((eventName, data) => {
+      this.connectionQuality.recordInbound();
+      
+      // Capture raw inbound traffic for replays before any handler touches it.
+      // game:state may be a binary delta - it is recorded once decoded.
+      if (eventName !== EVENTS.GAME_STATE) {
+        this.replayRecorder.record(eventName, data);
+      }
+      
       // Only log important events, skip routine updates
       const importantEvents = ['authenticated', 'auth-failed', 'player:join:success', 'player:join:failed', 
                                'match_started', 'match_ended', 'disconnect', 'connect_error'];
@@ -322,6 +414,16 @@ export class NetworkSystem implements IGameSystem {
       this.isConnected = false;
       this.connectionInProgress = false; // Clear the flag on disconnect
       
+      // The server holds our player for a while after a dropped link - try to get it back
+      if (this.isResuming) {
+        this.scheduleResumeAttempt();
+        return;
+      }
+      if (this.sessionToken && RESUMABLE_DISCONNECTS.has(reason)) {
+        this.beginResume(reason);
+        return;
+      }
+      
       // Only update state if we're not just switching scenes
       if (reason !== 'io client disconnect') {
         this.setConnectionState(ConnectionState.DISCONNECTED);
@@ -332,6 +434,12 @@ export class NetworkSystem implements IGameSystem {
     });
 
     this.socket.on('connect_error', (error) => {
+      if (this.isResuming) {
+        console.warn(`🔄 Reconnect attempt ${this.resumeAttempts}/${MAX_RESUME_ATTEMPTS} failed: ${error.message}`);
+        this.scheduleResumeAttempt();
+        return;
+      }
+      
       console.error(`🔌 DETAILED: Socket connection error:`, error);
       console.error(`🔌 DETAILED: Error type: ${(error as any).type}`);
       console.error(`🔌 DETAILED: Error description: ${(error as any).description}`);
@@ -346,27 +454,30 @@ export class NetworkSystem implements IGameSystem {
     });
 
     // New authentication event handlers
-    this.socket.on('authenticated', (data: any) => {
+    this.onServer('authenticated', (data) => {
       console.log('✅ Authentication successful!', data);
       if (this.authenticationTimeout) {
         clearTimeout(this.authenticationTimeout);
         this.authenticationTimeout = null;
       }
+      this.applyNegotiatedProtocol(data.protocolVersion);
       this.setConnectionState(ConnectionState.AUTHENTICATED);
       this.onGameReady();
       this.scene.events.emit('network:authenticated', data);
+      this.confirmSession(data);
     });
 
-    this.socket.on('auth-failed', (reason: string) => {
+    this.onServer('auth-failed', (reason) => {
       if (this.authenticationTimeout) {
         clearTimeout(this.authenticationTimeout);
         this.authenticationTimeout = null;
       }
       this.setConnectionState(ConnectionState.FAILED);
+      this.failResume(`Authentication failed: ${reason}`);
       this.scene.events.emit('network:connectionError', `Authentication failed: ${reason}`);
     });
 
-    this.socket.on('auth-timeout', (reason: string) => {
+    this.onServer('auth-timeout', (reason) => {
       if (this.authenticationTimeout) {
         clearTimeout(this.authenticationTimeout);
         this.authenticationTimeout = null;
@@ -375,20 +486,20 @@ export class NetworkSystem implements IGameSystem {
       this.scene.events.emit('network:connectionError', `Authentication timeout: ${reason}`);
     });
 
-    this.socket.on('error', (message: string) => {
+    this.onServer('error', (message) => {
       this.setConnectionState(ConnectionState.FAILED);
       this.scene.events.emit('network:connectionError', message);
     });
 
     // Player join confirmation handlers
-    this.socket.on('player:join:success', (data: any) => {
+    this.onServer('player:join:success', (data) => {
       console.log('✅ Successfully joined as active player:', data);
       this.isActivePlayer = true;
       this.joinAttempts = 0;
       this.scene.events.emit('player:join:confirmed', data);
     });
     
-    this.socket.on('player:join:failed', (data: any) => {
+    this.onServer('player:join:failed', (data) => {
       console.error('❌ Join failed:', data.reason);
       this.isActivePlayer = false;
       this.scene.events.emit('player:join:rejected', data);
@@ -408,8 +519,30 @@ export class NetworkSystem implements IGameSystem {
       }
     });
 
-    // Listen for game state updates from server
-    this.socket.on(EVENTS.GAME_STATE, (gameState: any) => {
+    // Listen for game state updates from server - JSON, or msgpack snapshots once negotiated
+    this.socket.on(EVENTS.GAME_STATE, (payload: unknown) => {
+      let gameState: GameState | null;
+      try {
+        gameState = this.snapshotDecoder.decode(payload);
+      } catch (error) {
+        this.handleProtocolViolation({ event: EVENTS.GAME_STATE, reason: `undecodable snapshot: ${(error as Error).message}`, payload });
+        return;
+      }
+      // Stale frame, or a delta we can't apply until the requested keyframe arrives
+      if (!gameState) return;
+      
+      const violation = validateServerPayload(EVENTS.GAME_STATE, gameState);
+      if (violation) {
+        this.handleProtocolViolation({ event: EVENTS.GAME_STATE, reason: violation, payload });
+        return;
+      }
+      this.replayRecorder.record(EVENTS.GAME_STATE, gameState);
+      this.connectionQuality.recordSnapshot(
+        this.snapshotDecoder.isBinary() ? this.snapshotDecoder.getLastSequence() : null,
+        gameState.timestamp,
+        gameState.tickRate
+      );
+      
       // Log game state reception
       const wallCount = gameState.walls ? Object.keys(gameState.walls).length : 0;
       const playerCount = Object.keys(gameState.players || {}).length;
@@ -424,11 +557,14 @@ export class NetworkSystem implements IGameSystem {
       // Get the active GameScene
       const sceneManager = this.scene.game.scene;
       const gameScene = sceneManager.getScene('GameScene');
+      const spectatorScene = sceneManager.getScene('SpectatorScene');
       
       // Forward to GameScene if it exists and is active
       if (gameScene && gameScene.scene.isActive()) {
         // console.log('✅ Forwarding game state to GameScene');
         gameScene.events.emit('network:gameState', gameState);
+      } else if (spectatorScene && spectatorScene.scene.isActive()) {
+        spectatorScene.events.emit('network:gameState', gameState);
       } else {
         // Store the game state for when GameScene becomes active
         console.log('⚠️ GameScene not active, storing game state for later');
@@ -437,76 +573,76 @@ export class NetworkSystem implements IGameSystem {
     });
 
     // Listen for player join/leave events
-    this.socket.on(EVENTS.PLAYER_JOINED, (playerData: any) => {
+    this.onServer(EVENTS.PLAYER_JOINED, (playerData) => {
       if (this.connectionState === ConnectionState.AUTHENTICATED) {
         this.scene.events.emit('network:playerJoined', playerData);
       }
     });
 
-    this.socket.on(EVENTS.PLAYER_LEFT, (playerData: any) => {
+    this.onServer(EVENTS.PLAYER_LEFT, (playerData) => {
       if (this.connectionState === ConnectionState.AUTHENTICATED) {
         this.scene.events.emit('network:playerLeft', playerData);
       }
     });
 
     // Listen for weapon events from backend
-    this.socket.on('weapon:fired', (data: any) => {
+    this.onServer('weapon:fired', (data) => {
       if (this.connectionState === ConnectionState.AUTHENTICATED) {
         this.scene.events.emit('backend:weapon:fired', data);
       }
     });
 
-    this.socket.on('weapon:hit', (data: any) => {
+    this.onServer('weapon:hit', (data) => {
       if (this.connectionState === ConnectionState.AUTHENTICATED) {
         this.scene.events.emit('backend:weapon:hit', data);
       }
     });
 
-    this.socket.on('weapon:miss', (data: any) => {
+    this.onServer('weapon:miss', (data) => {
       if (this.connectionState === ConnectionState.AUTHENTICATED) {
         this.scene.events.emit('backend:weapon:miss', data);
       }
     });
 
-    this.socket.on('weapon:reloaded', (data: any) => {
+    this.onServer('weapon:reloaded', (data) => {
       if (this.connectionState === ConnectionState.AUTHENTICATED) {
         this.scene.events.emit('backend:weapon:reloaded', data);
       }
     });
 
-    this.socket.on('weapon:heat:update', (data: any) => {
+    this.onServer('weapon:heat:update', (data) => {
       if (this.connectionState === ConnectionState.AUTHENTICATED) {
         this.scene.events.emit('backend:weapon:heat:update', data);
       }
     });
 
-    this.socket.on('weapon:switched', (data: any) => {
+    this.onServer('weapon:switched', (data) => {
       if (this.connectionState === ConnectionState.AUTHENTICATED) {
         this.scene.events.emit('backend:weapon:switched', data);
       }
     });
 
-    this.socket.on('player:damaged', (data: any) => {
+    this.onServer('player:damaged', (data) => {
       if (this.connectionState === ConnectionState.AUTHENTICATED) {
         this.scene.events.emit('backend:player:damaged', data);
       }
     });
 
-    this.socket.on('player:killed', (data: any) => {
+    this.onServer('player:killed', (data) => {
       if (this.connectionState === ConnectionState.AUTHENTICATED) {
         this.scene.events.emit('backend:player:killed', data);
       }
     });
     
     // CRITICAL: Player death event routing - multiple names for compatibility
-    this.socket.on('player_died', (data: any) => {
+    this.onServer('player_died', (data) => {
       if (this.connectionState === ConnectionState.AUTHENTICATED) {
         console.log('📥 RESPAWN FIX: player_died event received:', data.playerId);
         this.scene.events.emit('backend:player:died', data);
       }
     });
     
-    this.socket.on('player:died', (data: any) => {
+    this.onServer('player:died', (data) => {
       if (this.connectionState === ConnectionState.AUTHENTICATED) {
         console.log('📥 RESPAWN FIX: player:died event received:', data.playerId);
         this.scene.events.emit('backend:player:died', data);
@@ -514,7 +650,7 @@ export class NetworkSystem implements IGameSystem {
     });
     
     // Backend might already use this format
-    this.socket.on('backend:player:died', (data: any) => {
+    this.onServer('backend:player:died', (data) => {
       if (this.connectionState === ConnectionState.AUTHENTICATED) {
         console.log('📥 RESPAWN FIX: backend:player:died event received:', data.playerId);
         this.scene.events.emit('backend:player:died', data);
@@ -522,14 +658,14 @@ export class NetworkSystem implements IGameSystem {
     });
     
     // CRITICAL: Player respawn event routing - multiple names for compatibility
-    this.socket.on('player_respawned', (data: any) => {
+    this.onServer('player_respawned', (data) => {
       if (this.connectionState === ConnectionState.AUTHENTICATED) {
         console.log('📥 RESPAWN FIX: player_respawned event received:', data.playerId);
         this.scene.events.emit('backend:player:respawned', data);
       }
     });
     
-    this.socket.on('player:respawned', (data: any) => {
+    this.onServer('player:respawned', (data) => {
       if (this.connectionState === ConnectionState.AUTHENTICATED) {
         console.log('📥 RESPAWN FIX: player:respawned event received:', data.playerId);
         this.scene.events.emit('backend:player:respawned', data);
@@ -537,7 +673,7 @@ export class NetworkSystem implements IGameSystem {
     });
     
     // Backend might already use this format
-    this.socket.on('backend:player:respawned', (data: any) => {
+    this.onServer('backend:player:respawned', (data) => {
       if (this.connectionState === ConnectionState.AUTHENTICATED) {
         console.log('📥 RESPAWN FIX: backend:player:respawned event received:', data.playerId);
         this.scene.events.emit('backend:player:respawned', data);
@@ -545,52 +681,52 @@ export class NetworkSystem implements IGameSystem {
     });
     
     // Additional fallback for respawn response
-    this.socket.on('respawn_success', (data: any) => {
+    this.onServer('respawn_success', (data) => {
       if (this.connectionState === ConnectionState.AUTHENTICATED) {
         console.log('📥 RESPAWN FIX: respawn_success event received:', data.playerId);
         this.scene.events.emit('backend:player:respawned', data);
       }
     });
 
-    this.socket.on('wall:damaged', (data: any) => {
+    this.onServer('wall:damaged', (data) => {
       if (this.connectionState === ConnectionState.AUTHENTICATED) {
         // console.log('🔨 BACKEND EVENT: wall:damaged', data);
         this.scene.events.emit('backend:wall:damaged', data);
       }
     });
 
-    this.socket.on('wall:destroyed', (data: any) => {
+    this.onServer('wall:destroyed', (data) => {
       if (this.connectionState === ConnectionState.AUTHENTICATED) {
         this.scene.events.emit('backend:wall:destroyed', data);
       }
     });
 
-    this.socket.on('projectile:created', (data: any) => {
+    this.onServer('projectile:created', (data) => {
       if (this.connectionState === ConnectionState.AUTHENTICATED) {
         this.scene.events.emit('backend:projectile:created', data);
       }
     });
 
-    this.socket.on('projectile:updated', (data: any) => {
+    this.onServer('projectile:updated', (data) => {
       if (this.connectionState === ConnectionState.AUTHENTICATED) {
         this.scene.events.emit('backend:projectile:updated', data);
       }
     });
 
-    this.socket.on('projectile:exploded', (data: any) => {
+    this.onServer('projectile:exploded', (data) => {
       if (this.connectionState === ConnectionState.AUTHENTICATED) {
         this.scene.events.emit('backend:projectile:exploded', data);
       }
     });
 
-    this.socket.on('explosion:created', (data: any) => {
+    this.onServer('explosion:created', (data) => {
       if (this.connectionState === ConnectionState.AUTHENTICATED) {
         this.scene.events.emit('backend:explosion:created', data);
       }
     });
     
     // Listen for flashbang effect events
-    this.socket.on('FLASHBANG_EFFECT', (data: any) => {
+    this.onServer('FLASHBANG_EFFECT', (data) => {
       if (this.connectionState === ConnectionState.AUTHENTICATED) {
         console.log('💥 Flashbang effect received:', data);
         this.scene.events.emit('backend:flashbang:effect', data);
@@ -598,45 +734,45 @@ export class NetworkSystem implements IGameSystem {
     });
     
     // Listen for collision events
-    this.socket.on('player:collision', (data: any) => {
+    this.onServer('player:collision', (data) => {
       if (this.connectionState === ConnectionState.AUTHENTICATED) {
         this.scene.events.emit('network:collision', data);
       }
     });
     
-    this.socket.on('collision:detected', (data: any) => {
+    this.onServer('collision:detected', (data) => {
       if (this.connectionState === ConnectionState.AUTHENTICATED) {
         this.scene.events.emit('network:collision', data);
       }
     });
 
     // Game restart event handlers
-    this.socket.on('game:restarting', (data: any) => {
+    this.onServer('game:restarting', (data) => {
       if (this.connectionState === ConnectionState.AUTHENTICATED) {
         this.scene.events.emit('game:restarting', data);
       }
     });
 
-    this.socket.on('game:restarted', (data: any) => {
+    this.onServer('game:restarted', (data) => {
       if (this.connectionState === ConnectionState.AUTHENTICATED) {
         this.scene.events.emit('game:restarted', data);
       }
     });
 
-    this.socket.on('game:restart_failed', (data: any) => {
+    this.onServer('game:restart_failed', (data) => {
       if (this.connectionState === ConnectionState.AUTHENTICATED) {
         this.scene.events.emit('game:restart_failed', data);
       }
     });
 
     // Admin authentication event handlers
-    this.socket.on('admin:authenticated', () => {
+    this.onServer('admin:authenticated', () => {
       if (this.connectionState === ConnectionState.AUTHENTICATED) {
         this.scene.events.emit('admin:authenticated');
       }
     });
 
-    this.socket.on('admin:auth-failed', () => {
+    this.onServer('admin:auth-failed', () => {
       if (this.connectionState === ConnectionState.AUTHENTICATED) {
         this.scene.events.emit('admin:auth-failed');
       }
@@ -693,7 +829,10 @@ export class NetworkSystem implements IGameSystem {
         }
       }
       
-      this.socket.emit(EVENTS.PLAYER_INPUT, inputState);
+      // Binary servers delta game state against the newest snapshot we acknowledge
+      const snapshotAck = this.snapshotDecoder.isBinary() ? this.snapshotDecoder.getLastSequence() : null;
+      emitClientEvent(this.socket, EVENTS.PLAYER_INPUT, snapshotAck !== null ? { ...inputState, snapshotAck } : inputState);
+      this.connectionQuality.recordOutbound();
     } catch (error) {
       console.error('Failed to send player input:', error);
     }
@@ -702,6 +841,108 @@ export class NetworkSystem implements IGameSystem {
   private lastInputWarning: number = 0;
   private lastMovementLog: number = 0;
 
+  private createSnapshotDecoder(): SnapshotDecoder {
+    return new SnapshotDecoder((lastSequence) => {
+      if (this.socket?.connected) {
+        emitClientEvent(this.socket, 'snapshot:resync', { lastSequence });
+      }
+    });
+  }
+
+  private applyNegotiatedProtocol(protocolVersion: number | undefined): void {
+    this.snapshotDecoder.setProtocolVersion(protocolVersion);
+    if (this.snapshotDecoder.isBinary()) {
+      console.log(`📦 Server accepted binary game state (protocol v${this.snapshotDecoder.getProtocolVersion()})`);
+    } else {
+      console.log('📦 Server sends JSON game state');
+    }
+  }
+
+  private getHandshakeAuth(): ProtocolHandshake {
+    return this.isResuming && this.sessionToken
+      ? { ...PROTOCOL_HANDSHAKE, sessionToken: this.sessionToken }
+      : PROTOCOL_HANDSHAKE;
+  }
+
+  private beginResume(reason: string): void {
+    console.warn(`📶 Connection lost (${reason}) - trying to resume the session`);
+    this.isResuming = true;
+    this.resumeAttempts = 0;
+    if (this.authenticationTimeout) {
+      clearTimeout(this.authenticationTimeout);
+      this.authenticationTimeout = null;
+    }
+    // Our backoff from here on - socket.io's own reconnect would race it
+    this.socket?.io?.reconnection(false);
+    // Snapshot baselines and sequence numbers died with the connection
+    this.snapshotDecoder = this.createSnapshotDecoder();
+    this.connectionQuality.reset();
+    this.setConnectionState(ConnectionState.RECONNECTING);
+    this.scheduleResumeAttempt();
+  }
+
+  private scheduleResumeAttempt(): void {
+    this.clearReconnectTimer();
+    if (this.resumeAttempts >= MAX_RESUME_ATTEMPTS) {
+      this.sessionToken = null;
+      this.setConnectionState(ConnectionState.FAILED);
+      this.failResume('Could not reach the server');
+      return;
+    }
+    
+    const delayMs = Math.min(RESUME_BASE_DELAY_MS * Math.pow(2, this.resumeAttempts), RESUME_MAX_DELAY_MS);
+    this.resumeAttempts++;
+    console.log(`🔄 Reconnect attempt ${this.resumeAttempts}/${MAX_RESUME_ATTEMPTS} in ${delayMs}ms`);
+    this.scene.events.emit('network:reconnecting', { attempt: this.resumeAttempts, maxAttempts: MAX_RESUME_ATTEMPTS, delayMs });
+    
+    this.reconnectTimer = window.setTimeout(() => {
+      this.reconnectTimer = null;
+      if (this.isResuming) {
+        this.socket?.connect();
+      }
+    }, delayMs);
+  }
+
+  /**
+   * Keep the session token from authenticated / server:ready. When this
+   * finishes a reconnect, the server either handed our player back or the
+   * session is gone.
+   */
+  private confirmSession(data?: { sessionToken?: string; resumed?: ResumedSessionPayload } | void): void {
+    this.sessionToken = data?.sessionToken ?? null;
+    if (!this.isResuming) return;
+    
+    if (!data?.resumed) {
+      this.failResume('Session expired');
+      return;
+    }
+    
+    console.log(`✅ Session resumed as ${data.resumed.playerId}`);
+    this.isResuming = false;
+    this.resumeAttempts = 0;
+    this.isActivePlayer = true;
+    this.scene.events.emit('network:resumed', data.resumed);
+    // Everything we missed, without waiting for the next keyframe
+    this.emit('request_game_state', {});
+  }
+
+  private failResume(reason: string): void {
+    if (!this.isResuming) return;
+    console.error(`❌ Could not resume session: ${reason}`);
+    this.clearReconnectTimer();
+    this.isResuming = false;
+    this.resumeAttempts = 0;
+    this.isActivePlayer = false;
+    this.scene.events.emit('network:resumeFailed', reason);
+  }
+
+  private clearReconnectTimer(): void {
+    if (this.reconnectTimer !== null) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  }
+
   private handleConnectionError(): void {
     console.error('Max reconnection attempts reached. Connection failed.');
     this.setConnectionState(ConnectionState.FAILED);
@@ -750,6 +991,25 @@ export class NetworkSystem implements IGameSystem {
   isAuthenticated(): boolean {
     return this.connectionState === ConnectionState.AUTHENTICATED;
   }
+
+  isReconnecting(): boolean {
+    return this.isResuming;
+  }
+
+  /**
+   * Give up on getting back into the match (the player left while reconnecting)
+   */
+  cancelResume(): void {
+    if (!this.isResuming) return;
+    console.log('🚪 Reconnect cancelled');
+    this.clearReconnectTimer();
+    this.isResuming = false;
+    this.resumeAttempts = 0;
+    this.sessionToken = null;
+    this.isActivePlayer = false;
+    this.socket?.disconnect();
+    this.setConnectionState(ConnectionState.DISCONNECTED);
+  }
   
   getSceneKey(): string | undefined {
     return this.scene?.scene?.key;
@@ -763,15 +1023,28 @@ export class NetworkSystem implements IGameSystem {
     return this.currentServerUrl;
   }
 
+  // True when talking to the in-browser LocalServer instead of a backend
+  isOfflineMode(): boolean {
+    return isLocalServerUrl(this.currentServerUrl);
+  }
+
+  // The in-browser server behind the current socket, if offline
+  getLocalServer(): LocalServer | null {
+    const wrapped: unknown = this.socket;
+    const socket: unknown = wrapped instanceof ConditionedSocket ? wrapped.getInner() : wrapped;
+    return socket instanceof LocalSocket ? socket.getServer() : null;
+  }
+
   // Method to manually send events to server
-  emit(event: string, data?: any): void {
+  emit<K extends ClientEventName>(event: K, ...args: ClientEventArgs<K>): void {
     if (!this.socket || !this.isConnected || this.connectionState !== ConnectionState.AUTHENTICATED) {
       console.warn(`Cannot emit ${event}: not authenticated`);
       return;
     }
 
     try {
-      this.socket.emit(event, data);
+      emitClientEvent(this.socket, event, ...args);
+      this.connectionQuality.recordOutbound();
     } catch (error) {
       console.error(`Failed to emit ${event}:`, error);
     }
@@ -784,13 +1057,12 @@ export class NetworkSystem implements IGameSystem {
     const gameScene = this.scene.game.scene.getScene('GameScene');
     if (gameScene && gameScene.scene.isActive()) {
       const loadout = this.scene.game.registry.get('playerLoadout');
-      const playerName = this.scene.game.registry.get('playerName');
       
       if (loadout) {
         console.log('🔄 Retrying player:join with loadout');
         this.emit('player:join', {
           loadout: loadout,
-          playerName: playerName || `Player${Math.floor(Math.random() * 9999)}`,
+          ...playerProfile.getJoinInfo(),
           timestamp: this.getServerTime()
         });
       } else {
@@ -822,6 +1094,48 @@ export class NetworkSystem implements IGameSystem {
     return this.timeSync?.isHealthy() || false;
   }
   
+  /**
+   * game:state encoding and bandwidth, for the performance overlay
+   */
+  getSnapshotStats(): SnapshotStats {
+    return this.snapshotDecoder.getStats();
+  }
+  
+  /**
+   * RTT, jitter, packet rates and loss, for the network HUD
+   */
+  getConnectionQuality(): ConnectionQualityStats {
+    return this.connectionQuality.getStats(this.timeSync);
+  }
+  
+  /**
+   * Number of inbound payloads dropped for violating the protocol contract
+   */
+  getProtocolViolationCount(): number {
+    return this.protocolViolations;
+  }
+  
+  /**
+   * Start capturing inbound server events for later playback in ReplayScene
+   */
+  startReplayRecording(): void {
+    this.replayRecorder.start({
+      serverUrl: this.currentServerUrl,
+      localPlayerId: this.socket?.id || null
+    });
+  }
+  
+  /**
+   * Stop capturing and return the recording (null if nothing was captured)
+   */
+  stopReplayRecording(): ReplayRecording | null {
+    return this.replayRecorder.stop();
+  }
+  
+  isRecordingReplay(): boolean {
+    return this.replayRecorder.isRecording();
+  }
+  
   /**
    * Check if player is active (not observer)
    */
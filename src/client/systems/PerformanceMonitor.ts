@@ -1,5 +1,10 @@
 import { IGameSystem } from '../../../shared/interfaces/IGameSystem';
 import { GAME_CONFIG } from '../../../shared/constants/index';
+import { PredictionMetrics } from './ClientPrediction';
+import { SnapshotStats } from './SnapshotDecoder';
+import { ShotPredictionStats } from './ShotPredictor';
+import { settingsStore } from './SettingsStore';
+import { graphicsQuality } from './GraphicsQuality';
 
 interface PerformanceData {
   fps: number;
@@ -8,6 +13,9 @@ interface PerformanceData {
   renderTime: number;
   networkLatency: number;
   frameDrops: number;
+  prediction: PredictionMetrics | null;
+  snapshots: SnapshotStats | null;
+  shots: ShotPredictionStats | null;
 }
 
 export class PerformanceMonitor implements IGameSystem {
@@ -32,18 +40,26 @@ export class PerformanceMonitor implements IGameSystem {
   // Settings
   private readonly MAX_HISTORY = 60; // Track last 60 frames
   private readonly UPDATE_INTERVAL = 100; // Update display every 100ms
+  private readonly AUTO_QUALITY_MIN_SHARE = 0.75; // Below this share of the refresh rate for AUTO_QUALITY_SUSTAIN_MS lowers auto quality
+  private readonly AUTO_QUALITY_SUSTAIN_MS = 5000;
+  private readonly REFRESH_RATES = [30, 50, 60, 75, 90, 100, 120, 144, 165, 240];
   private lastUpdateTime: number = 0;
+  private slowSince: number | null = null;
+  private refreshRate: number = 0; // Estimated from the fastest frames, 0 until fpsHistory first fills
+  private predictionMetricsSource: (() => PredictionMetrics) | null = null;
+  private snapshotStatsSource: (() => SnapshotStats) | null = null;
+  private shotPredictionSource: (() => ShotPredictionStats) | null = null;
+  private unwatchShowFps: (() => void) | null = null;
 
   constructor(scene: Phaser.Scene) {
     this.scene = scene;
   }
 
   initialize(): void {
-    // Check if FPS counter should be shown
-    this.isVisible = localStorage.getItem('show_fps') === 'true';
+    // Shown or hidden from the settings (or F3) at any time
+    this.unwatchShowFps = settingsStore.watchInScene(this.scene, 'video', 'showFps', visible => this.applyVisibility(visible));
     
     this.setupKeyboardListeners();
-    this.createDisplayElements();
     
     // Initialize timing
     this.lastTime = performance.now();
@@ -66,7 +82,30 @@ export class PerformanceMonitor implements IGameSystem {
     this.lastFrameTime = currentTime;
   }
 
+  /**
+   * Misprediction stats from ClientPrediction, shown under the frame stats
+   */
+  setPredictionMetricsSource(source: () => PredictionMetrics): void {
+    this.predictionMetricsSource = source;
+  }
+
+  /**
+   * game:state bandwidth and encoding from NetworkSystem
+   */
+  setSnapshotStatsSource(source: () => SnapshotStats): void {
+    this.snapshotStatsSource = source;
+  }
+
+  /**
+   * How often predicted hit feedback matched the backend's verdict
+   */
+  setShotPredictionSource(source: () => ShotPredictionStats): void {
+    this.shotPredictionSource = source;
+  }
+
   destroy(): void {
+    this.unwatchShowFps?.();
+    this.unwatchShowFps = null;
     this.destroyDisplayElements();
     this.removeKeyboardListeners();
   }
@@ -95,11 +134,53 @@ export class PerformanceMonitor implements IGameSystem {
       
       // Calculate average
       this.currentFps = this.fpsHistory.reduce((a, b) => a + b, 0) / this.fpsHistory.length;
+      
+      this.checkSustainedFrameDrops(currentTime, deltaTime);
     }
     
     this.lastTime = currentTime;
   }
 
+  /**
+   * Tell GraphicsQuality when the frame rate stays low - the auto tier steps
+   * down and the new tier is judged on its own frames
+   */
+  private checkSustainedFrameDrops(currentTime: number, deltaTime: number): void {
+    if (this.fpsHistory.length >= this.MAX_HISTORY) {
+      this.refreshRate = Math.max(this.refreshRate, this.estimateRefreshRate());
+    }
+    
+    // A backgrounded tab stalls frames without the game being slow
+    if (deltaTime > 250 || this.fpsHistory.length < this.MAX_HISTORY ||
+        this.currentFps >= this.refreshRate * this.AUTO_QUALITY_MIN_SHARE) {
+      this.slowSince = null;
+      return;
+    }
+    
+    if (this.slowSince === null) {
+      this.slowSince = currentTime;
+      return;
+    }
+    if (currentTime - this.slowSince < this.AUTO_QUALITY_SUSTAIN_MS) return;
+    
+    this.slowSince = null;
+    if (graphicsQuality.reportSustainedFrameDrops(this.currentFps)) {
+      this.fpsHistory = [];
+    }
+  }
+
+  /**
+   * Phaser draws on requestAnimationFrame, so even a struggling frame rate is
+   * made of whole vsync intervals - the fastest tenth of recent frames is the
+   * display's refresh rate, snapped to the nearest common one
+   */
+  private estimateRefreshRate(): number {
+    const fastest = [...this.fpsHistory].sort((a, b) => b - a)[Math.floor(this.fpsHistory.length / 10)];
+    return this.REFRESH_RATES.reduce((best, rate) =>
+      Math.abs(rate - fastest) < Math.abs(best - fastest) ? rate : best
+    );
+  }
+
   private updateDisplay(): void {
     if (!this.isVisible || !this.fpsText || !this.perfText) return;
 
@@ -118,6 +199,28 @@ export class PerformanceMonitor implements IGameSystem {
       `Render: ${perfData.renderTime.toFixed(1)}ms`
     ];
     
+    if (perfData.prediction) {
+      const { averageError, maxError, corrections, pendingInputs } = perfData.prediction;
+      perfDetails.push(
+        `Pred: ${averageError.toFixed(1)}/${maxError.toFixed(1)}px`,
+        `Fix: ${corrections} Pend: ${pendingInputs}`
+      );
+    }
+    
+    if (perfData.snapshots) {
+      const { bytesPerSecond, encoding, deltas, keyframes } = perfData.snapshots;
+      perfDetails.push(
+        `Net: ${(bytesPerSecond / 1024).toFixed(1)}KB/s`,
+        encoding === 'msgpack' ? `Bin D:${deltas} K:${keyframes}` : 'JSON'
+      );
+    }
+    
+    if (perfData.shots) {
+      const { agreed, rolledBack } = perfData.shots;
+      const resolved = agreed + rolledBack;
+      perfDetails.push(`Shot: ${agreed}/${resolved}${resolved > 0 ? ` ${Math.round(agreed / resolved * 100)}%` : ''}`);
+    }
+    
     this.perfText.setText(perfDetails.join('\n'));
   }
 
@@ -142,7 +245,10 @@ export class PerformanceMonitor implements IGameSystem {
       memoryUsage,
       renderTime,
       networkLatency: 0, // Would need backend for this
-      frameDrops: this.frameDropCount
+      frameDrops: this.frameDropCount,
+      prediction: this.predictionMetricsSource ? this.predictionMetricsSource() : null,
+      snapshots: this.snapshotStatsSource ? this.snapshotStatsSource() : null,
+      shots: this.shotPredictionSource ? this.shotPredictionSource() : null
     };
   }
 
@@ -163,9 +269,9 @@ export class PerformanceMonitor implements IGameSystem {
     // Background
     this.background = this.scene.add.graphics();
     this.background.fillStyle(0x000000, 0.7);
-    this.background.fillRect(-80, 0, 75, 80);
+    this.background.fillRect(-80, 0, 75, 120);
     this.background.lineStyle(1, 0x444444);
-    this.background.strokeRect(-80, 0, 75, 80);
+    this.background.strokeRect(-80, 0, 75, 120);
 
     // FPS text (main)
     this.fpsText = this.scene.add.text(-75, 5, 'FPS: --', {
@@ -203,20 +309,6 @@ export class PerformanceMonitor implements IGameSystem {
     this.scene.input.keyboard?.on('keydown-F3', () => {
       this.toggleDisplay();
     });
-
-    // Listen for storage changes (from settings panel)
-    window.addEventListener('storage', (e) => {
-      if (e.key === 'show_fps') {
-        const shouldShow = e.newValue === 'true';
-        if (shouldShow !== this.isVisible) {
-          if (shouldShow) {
-            this.showDisplay();
-          } else {
-            this.hideDisplay();
-          }
-        }
-      }
-    });
   }
 
   private removeKeyboardListeners(): void {
@@ -232,15 +324,21 @@ export class PerformanceMonitor implements IGameSystem {
   }
 
   public showDisplay(): void {
-    this.isVisible = true;
-    localStorage.setItem('show_fps', 'true');
-    this.createDisplayElements();
+    settingsStore.set('video', 'showFps', true);
   }
 
   public hideDisplay(): void {
-    this.isVisible = false;
-    localStorage.setItem('show_fps', 'false');
-    this.destroyDisplayElements();
+    settingsStore.set('video', 'showFps', false);
+  }
+
+  private applyVisibility(visible: boolean): void {
+    if (visible === this.isVisible) return;
+    this.isVisible = visible;
+    if (visible) {
+      this.createDisplayElements();
+    } else {
+      this.destroyDisplayElements();
+    }
   }
 
   // Public methods for external access
@@ -262,6 +360,7 @@ export class PerformanceMonitor implements IGameSystem {
     this.frameCount = 0;
     this.fpsHistory = [];
     this.frameDropCount = 0;
+    this.slowSince = null;
     this.lastTime = performance.now();
   }
 
@@ -275,6 +374,9 @@ export class PerformanceMonitor implements IGameSystem {
       `Frame Drops: ${data.frameDrops}`,
       `Memory Usage: ${data.memoryUsage}MB`,
       `Render Time: ${data.renderTime.toFixed(1)}ms`,
+      `Misprediction: avg ${data.prediction?.averageError.toFixed(2) ?? '-'}px, max ${data.prediction?.maxError.toFixed(2) ?? '-'}px`,
+      `Game State: ${data.snapshots ? `${(data.snapshots.bytesPerSecond / 1024).toFixed(2)}KB/s ${data.snapshots.encoding} (protocol v${data.snapshots.protocolVersion}, ${data.snapshots.keyframes} keyframes, ${data.snapshots.deltas} deltas, ${data.snapshots.resyncs} resyncs)` : '-'}`,
+      `Shot Prediction: ${data.shots ? `${data.shots.agreed} agreed, ${data.shots.rolledBack} rolled back, ${data.shots.unconfirmed} unconfirmed of ${data.shots.predicted}` : '-'}`,
       `Frame Count: ${this.frameCount}`,
       `History Size: ${this.fpsHistory.length}`
     ].join('\n');
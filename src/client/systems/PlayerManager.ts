@@ -1,5 +1,6 @@
 import { PlayerState, Vector2 } from '../../../shared/types/index';
 import { VisionRenderer } from './VisionRenderer';
+import { InterpolationSystem } from './InterpolationSystem';
 
 interface LastSeenData {
   position: Vector2;
@@ -26,6 +27,7 @@ export class PlayerManager {
   private lastSeenPositions: Map<string, LastSeenData> = new Map();
   private localPlayerId: string | null = null;
   private visionRenderer: VisionRenderer | null = null;
+  private interpolation: InterpolationSystem | null = null;
   private partialVisibilityEnabled: boolean = true; // Enable by default
   private assetManager: AssetManager;
   private playerTeamCache: Map<string, 'red' | 'blue'> = new Map();
@@ -50,6 +52,32 @@ export class PlayerManager {
     this.visionRenderer = visionRenderer;
   }
 
+  /**
+   * With a snapshot buffer set, positions and facing are drawn from it in update()
+   * instead of snapping to each state as it arrives
+   */
+  setInterpolationSystem(interpolation: InterpolationSystem): void {
+    this.interpolation = interpolation;
+  }
+
+  /**
+   * Per-frame render of remote players from the interpolation buffer
+   */
+  update(): void {
+    if (!this.interpolation) return;
+
+    const renderTime = this.interpolation.getRenderTime();
+    for (const [id, sprite] of this.visiblePlayers) {
+      const sample = this.interpolation.sample(id, renderTime);
+      if (!sample) continue;
+
+      sprite.container.setPosition(sample.position.x, sample.position.y);
+      if (!(sprite as any).isDead) {
+        this.applyPose(sprite, sample.angle);
+      }
+    }
+  }
+
   /**
    * Remove a specific player (for when they leave or die)
    */
@@ -72,6 +100,7 @@ export class PlayerManager {
       sprite.container.destroy();
       this.visiblePlayers.delete(playerId);
     }
+    this.interpolation?.remove(playerId);
     
     // Remove from last seen positions
     const lastSeen = this.lastSeenPositions.get(playerId);
@@ -137,7 +166,7 @@ export class PlayerManager {
     return this.partialVisibilityEnabled;
   }
   
-  updatePlayers(serverPlayers: Map<string, PlayerState> | { [key: string]: PlayerState }): void {
+  updatePlayers(serverPlayers: Map<string, PlayerState> | { [key: string]: PlayerState }, serverTimestamp?: number): void {
     // Convert object to Map if needed
     const playersMap = serverPlayers instanceof Map 
       ? serverPlayers 
@@ -184,9 +213,9 @@ export class PlayerManager {
       stillVisibleIds.add(id);
       
       if (this.visiblePlayers.has(id)) {
-        this.updatePlayer(id, state);
+        this.updatePlayer(id, state, serverTimestamp);
       } else {
-        this.handlePlayerAppear(id, state);
+        this.handlePlayerAppear(id, state, serverTimestamp);
       }
     }
     
@@ -204,7 +233,7 @@ export class PlayerManager {
     this.updateGhostSprites();
   }
   
-  private handlePlayerAppear(id: string, state: PlayerState): void {
+  private handlePlayerAppear(id: string, state: PlayerState, serverTimestamp?: number): void {
     console.log(`👤 Player ${id} appearing at position (${state.position.x}, ${state.position.y})`);
     
     // Remove from last seen if they were there
@@ -217,6 +246,10 @@ export class PlayerManager {
     // Create player sprite
     const sprite = this.createPlayerSprite(state);
     this.visiblePlayers.set(id, sprite);
+
+    // Fresh history - whatever was buffered before they left sight is stale
+    this.interpolation?.remove(id);
+    this.interpolation?.pushSnapshot(id, serverTimestamp, state.position, this.getPlayerAngle(state));
     
     // Fade in animation
     sprite.container.setAlpha(0);
@@ -260,6 +293,7 @@ export class PlayerManager {
       onComplete: () => {
         sprite.container.destroy();
         this.visiblePlayers.delete(id);
+        this.interpolation?.remove(id);
         
         // Create ghost marker
         this.createGhostMarker(id);
@@ -267,7 +301,7 @@ export class PlayerManager {
     });
   }
   
-  private updatePlayer(id: string, state: PlayerState): void {
+  private updatePlayer(id: string, state: PlayerState, serverTimestamp?: number): void {
     const sprite = this.visiblePlayers.get(id);
     if (!sprite) return;
     
@@ -284,8 +318,14 @@ export class PlayerManager {
       this.playerTeamCache.set(id, state.team);
     }
 
-    // Update position (could add interpolation here)
-    sprite.container.setPosition(state.position.x, state.position.y);
+    const playerAngle = this.getPlayerAngle(state);
+
+    // Buffered states are drawn in update(); without a buffer, snap as before
+    if (this.interpolation) {
+      this.interpolation.pushSnapshot(id, serverTimestamp, state.position, playerAngle);
+    } else {
+      sprite.container.setPosition(state.position.x, state.position.y);
+    }
     
     // Handle alive/dead state from backend
     const isAlive = (state as any).isAlive !== false; // Default to alive if not specified
@@ -306,55 +346,9 @@ export class PlayerManager {
       return;
     }
 
-    // Debug log to see what rotation data we're getting
-    // if (Math.random() < 0.05) { // Log 5% of updates to avoid spam
-    //   console.log(`🎯 Player ${id} state:`, {
-    //     rotation: (state as any).rotation,
-    //     direction: (state as any).direction,
-    //     mouseAngle: (state as any).mouseAngle,
-    //     angle: state.angle,
-    //     velocity: state.velocity
-    //   });
-    // }
-    
-    // Use exact rotation from backend if available
-    let playerAngle = 0;
-    
-    // Priority 1: Use exact rotation/direction field
-    if ((state as any).rotation !== undefined) {
-      playerAngle = (state as any).rotation;
-    } else if ((state as any).direction !== undefined) {
-      playerAngle = (state as any).direction;
-    } else if ((state as any).mouseAngle !== undefined) {
-      playerAngle = (state as any).mouseAngle;
+    if (!this.interpolation) {
+      this.applyPose(sprite, playerAngle);
     }
-    // Fallback: Calculate from velocity
-    else if (state.velocity && (state.velocity.x !== 0 || state.velocity.y !== 0)) {
-      playerAngle = Math.atan2(state.velocity.y, state.velocity.x);
-    } else if (state.angle !== undefined) {
-      playerAngle = state.angle;
-    }
-    
-    // Rotate player sprite and weapon to face direction
-    sprite.body.setRotation(playerAngle + Math.PI / 2); // Player rotated 90 degrees clockwise
-    
-    // Update weapon position and rotation for shoulder mounting
-    const shoulderOffset = 8; // Distance from center to shoulder
-    const shoulderAngle = playerAngle + Math.PI / 2; // 90 degrees clockwise for right side
-    const shoulderX = Math.cos(shoulderAngle) * shoulderOffset;
-    const shoulderY = Math.sin(shoulderAngle) * shoulderOffset;
-    
-    // Add forward offset (ahead of player)
-    const forwardOffset = 6; // Distance ahead of player
-    const forwardX = Math.cos(playerAngle) * forwardOffset;
-    const forwardY = Math.sin(playerAngle) * forwardOffset;
-    
-    // Combine both offsets (relative to container)
-    const weaponX = shoulderX + forwardX;
-    const weaponY = shoulderY + forwardY;
-    
-    sprite.weapon.setPosition(weaponX, weaponY); // Position relative to container
-    sprite.weapon.setRotation(playerAngle + Math.PI); // Weapon flipped 180 degrees (barrel away)
     
     // Update weapon type if it changed
     if (state.weaponType && state.weaponType !== (sprite.weapon as any).weaponType) {
@@ -365,11 +359,10 @@ export class PlayerManager {
       
       // Create new weapon at shoulder position
       sprite.weapon = this.assetManager.createWeapon(0, 0, state.weaponType, playerAngle);
-      sprite.weapon.setPosition(weaponX, weaponY); // Override position from createWeapon
-      sprite.weapon.setRotation(playerAngle + Math.PI); // Apply 180-degree flip
       sprite.weapon.setDepth(19); // Just below player
       sprite.container.add(sprite.weapon);
       (sprite.weapon as any).weaponType = state.weaponType; // Store for comparison
+      this.applyPose(sprite, playerAngle); // Override position from createWeapon
     }
     
     // Update color based on health for visual feedback (subtle)
@@ -383,6 +376,49 @@ export class PlayerManager {
     sprite.lastUpdate = Date.now();
   }
   
+  /**
+   * Facing direction from whichever field the backend sent
+   */
+  private getPlayerAngle(state: PlayerState): number {
+    // Priority 1: Use exact rotation/direction field
+    if ((state as any).rotation !== undefined) {
+      return (state as any).rotation;
+    } else if ((state as any).direction !== undefined) {
+      return (state as any).direction;
+    } else if ((state as any).mouseAngle !== undefined) {
+      return (state as any).mouseAngle;
+    }
+    // Fallback: Calculate from velocity
+    else if (state.velocity && (state.velocity.x !== 0 || state.velocity.y !== 0)) {
+      return Math.atan2(state.velocity.y, state.velocity.x);
+    } else if (state.angle !== undefined) {
+      return state.angle;
+    }
+    return 0;
+  }
+
+  /**
+   * Rotate player sprite and weapon to face direction
+   */
+  private applyPose(sprite: PlayerSprite, playerAngle: number): void {
+    sprite.body.setRotation(playerAngle + Math.PI / 2); // Player rotated 90 degrees clockwise
+    
+    // Update weapon position and rotation for shoulder mounting
+    const shoulderOffset = 8; // Distance from center to shoulder
+    const shoulderAngle = playerAngle + Math.PI / 2; // 90 degrees clockwise for right side
+    const shoulderX = Math.cos(shoulderAngle) * shoulderOffset;
+    const shoulderY = Math.sin(shoulderAngle) * shoulderOffset;
+    
+    // Add forward offset (ahead of player)
+    const forwardOffset = 6; // Distance ahead of player
+    const forwardX = Math.cos(playerAngle) * forwardOffset;
+    const forwardY = Math.sin(playerAngle) * forwardOffset;
+    
+    // Combine both offsets (relative to container)
+    sprite.weapon.setPosition(shoulderX + forwardX, shoulderY + forwardY); // Position relative to container
+    sprite.weapon.setRotation(playerAngle + Math.PI); // Weapon flipped 180 degrees (barrel away)
+  }
+  
   private createPlayerSprite(state: PlayerState): PlayerSprite {
     const container = this.scene.add.container(state.position.x, state.position.y);
     
@@ -541,6 +577,18 @@ export class PlayerManager {
     return positions;
   }
   
+  // Living remote players where they are drawn - what the local player is shooting at
+  getShotTargets(): Array<{ id: string; position: Vector2; team: 'red' | 'blue' }> {
+    const targets: Array<{ id: string; position: Vector2; team: 'red' | 'blue' }> = [];
+    
+    for (const [id, sprite] of this.visiblePlayers) {
+      if (id === this.localPlayerId || (sprite as any).isDead) continue;
+      targets.push({ id, position: { x: sprite.container.x, y: sprite.container.y }, team: sprite.team });
+    }
+    
+    return targets;
+  }
+  
   private updateVisibilityMasks(): void {
     if (!this.visionRenderer || !this.partialVisibilityEnabled) return;
     
@@ -637,6 +685,7 @@ export class PlayerManager {
       sprite.container.destroy();
     }
     this.visiblePlayers.clear();
+    this.interpolation?.clear();
     
     for (const [, lastSeen] of this.lastSeenPositions) {
       if (lastSeen.sprite) {
@@ -692,6 +741,7 @@ export class PlayerManager {
       // Update position if provided
       if (respawnPosition) {
         sprite.container.setPosition(respawnPosition.x, respawnPosition.y);
+        this.interpolation?.reset(playerId, respawnPosition);
       }
       
       // Add invulnerability effect if specified
@@ -745,6 +795,7 @@ export class PlayerManager {
       }
     }
     this.visiblePlayers.clear();
+    this.interpolation?.clear();
     
     // Clear ghost data (handled through lastSeenPositions)
     console.log('🗑️ Clearing ghost/last seen position data');
@@ -0,0 +1,229 @@
+import { PlayerLoadout, isValidLoadout } from '../../../shared/constants/weapons';
+
+/**
+ * PlayerProfile - Who the player is between sessions
+ *
+ * Display name, accent colour, preferred team and up to MAX_PRESETS named
+ * loadouts, kept in localStorage. The name, colour and team go out with
+ * player:join; ConfigureScene starts from the last preset used, which is
+ * also what quick-play joins with.
+ */
+
+export type PreferredTeam = 'red' | 'blue' | null; // null = no preference
+
+export interface LoadoutPreset {
+  id: string;
+  name: string;
+  loadout: PlayerLoadout;
+}
+
+export interface ProfileJoinInfo {
+  playerName: string;
+  accentColor: string;
+  preferredTeam: PreferredTeam;
+}
+
+export const ACCENT_COLORS: string[] = ['#00ff00', '#00ccff', '#ffcc00', '#ff66cc', '#ff6600', '#ffffff'];
+export const MAX_PRESETS = 5;
+export const MAX_NAME_LENGTH = 16;
+
+const STORAGE_KEY = 'trespasser_profile';
+const STORAGE_VERSION = 1;
+
+interface ProfileData {
+  displayName: string;
+  accentColor: string;
+  preferredTeam: PreferredTeam;
+  presets: LoadoutPreset[];
+  lastPresetId: string | null;
+}
+
+/**
+ * Trim and strip anything the backend or scoreboard would choke on.
+ * Returns '' when nothing usable is left.
+ */
+export function sanitizeDisplayName(name: string): string {
+  return name.replace(/[^A-Za-z0-9 _\-.]/g, '').replace(/\s+/g, ' ').trim().substring(0, MAX_NAME_LENGTH);
+}
+
+function cloneLoadout(loadout: PlayerLoadout): PlayerLoadout {
+  return { primary: loadout.primary, secondary: loadout.secondary, support: [...loadout.support], team: loadout.team };
+}
+
+function isPreset(value: any): value is LoadoutPreset {
+  return !!value && typeof value.id === 'string' && typeof value.name === 'string'
+    && !!value.loadout && Array.isArray(value.loadout.support) && isValidLoadout(value.loadout);
+}
+
+export class PlayerProfile {
+  private data: ProfileData;
+
+  constructor() {
+    this.data = this.load();
+  }
+
+  getDisplayName(): string {
+    return this.data.displayName;
+  }
+
+  /**
+   * Returns false (and keeps the old name) if nothing usable was given
+   */
+  setDisplayName(name: string): boolean {
+    const sanitized = sanitizeDisplayName(name);
+    if (!sanitized) return false;
+    this.data.displayName = sanitized;
+    this.save();
+    return true;
+  }
+
+  getAccentColor(): string {
+    return this.data.accentColor;
+  }
+
+  setAccentColor(color: string): void {
+    if (!ACCENT_COLORS.includes(color)) return;
+    this.data.accentColor = color;
+    this.save();
+  }
+
+  getPreferredTeam(): PreferredTeam {
+    return this.data.preferredTeam;
+  }
+
+  setPreferredTeam(team: PreferredTeam): void {
+    this.data.preferredTeam = team;
+    this.save();
+  }
+
+  getPresets(): LoadoutPreset[] {
+    return this.data.presets.map(preset => ({ ...preset, loadout: cloneLoadout(preset.loadout) }));
+  }
+
+  getPreset(id: string): LoadoutPreset | null {
+    const preset = this.data.presets.find(candidate => candidate.id === id);
+    return preset ? { ...preset, loadout: cloneLoadout(preset.loadout) } : null;
+  }
+
+  getLastPreset(): LoadoutPreset | null {
+    return this.data.lastPresetId ? this.getPreset(this.data.lastPresetId) : null;
+  }
+
+  /**
+   * Overwrite preset `id`, or add a new one. Returns null when the loadout is
+   * invalid or there is no room for another preset.
+   */
+  savePreset(name: string, loadout: PlayerLoadout, id?: string): LoadoutPreset | null {
+    if (!isValidLoadout(loadout)) return null;
+
+    const existing = id ? this.data.presets.find(preset => preset.id === id) : undefined;
+    if (!existing && this.data.presets.length >= MAX_PRESETS) return null;
+
+    const preset: LoadoutPreset = {
+      id: existing?.id || this.createPresetId(),
+      name: sanitizeDisplayName(name) || existing?.name || `Preset ${this.data.presets.length + 1}`,
+      loadout: cloneLoadout(loadout)
+    };
+
+    if (existing) {
+      this.data.presets[this.data.presets.indexOf(existing)] = preset;
+    } else {
+      this.data.presets.push(preset);
+    }
+    this.data.lastPresetId = preset.id;
+    this.save();
+    return { ...preset, loadout: cloneLoadout(preset.loadout) };
+  }
+
+  deletePreset(id: string): void {
+    const before = this.data.presets.length;
+    this.data.presets = this.data.presets.filter(preset => preset.id !== id);
+    if (this.data.presets.length === before) return;
+    if (this.data.lastPresetId === id) {
+      this.data.lastPresetId = this.data.presets[0]?.id || null;
+    }
+    this.save();
+  }
+
+  /**
+   * Mark a preset as the one to start from next time
+   */
+  selectPreset(id: string): void {
+    if (!this.data.presets.some(preset => preset.id === id) || this.data.lastPresetId === id) return;
+    this.data.lastPresetId = id;
+    this.save();
+  }
+
+  /**
+   * Identity fields for player:join
+   */
+  getJoinInfo(): ProfileJoinInfo {
+    return {
+      playerName: this.data.displayName,
+      accentColor: this.data.accentColor,
+      preferredTeam: this.data.preferredTeam
+    };
+  }
+
+  private createPresetId(): string {
+    let id: string;
+    do {
+      id = `preset_${Date.now().toString(36)}${Math.floor(Math.random() * 1296).toString(36)}`;
+    } while (this.data.presets.some(preset => preset.id === id));
+    return id;
+  }
+
+  private createDefaults(): ProfileData {
+    return {
+      displayName: `Player${Math.floor(Math.random() * 9999)}`,
+      accentColor: ACCENT_COLORS[0],
+      preferredTeam: null,
+      presets: [],
+      lastPresetId: null
+    };
+  }
+
+  private load(): ProfileData {
+    const data = this.createDefaults();
+
+    try {
+      const raw = localStorage.getItem(STORAGE_KEY);
+      if (!raw) {
+        // First run - keep the generated name so we stay the same player next session
+        this.data = data;
+        this.save();
+        return data;
+      }
+
+      const saved = JSON.parse(raw);
+      if (saved?.version !== STORAGE_VERSION || typeof saved.profile !== 'object') {
+        console.warn('⚠️ PlayerProfile: Ignoring saved profile with unknown format');
+        return data;
+      }
+
+      const profile = saved.profile;
+      data.displayName = sanitizeDisplayName(String(profile.displayName || '')) || data.displayName;
+      if (ACCENT_COLORS.includes(profile.accentColor)) data.accentColor = profile.accentColor;
+      if (profile.preferredTeam === 'red' || profile.preferredTeam === 'blue') data.preferredTeam = profile.preferredTeam;
+      if (Array.isArray(profile.presets)) {
+        data.presets = profile.presets.filter(isPreset).slice(0, MAX_PRESETS)
+          .map((preset: LoadoutPreset) => ({ id: preset.id, name: preset.name, loadout: cloneLoadout(preset.loadout) }));
+      }
+      if (data.presets.some(preset => preset.id === profile.lastPresetId)) data.lastPresetId = profile.lastPresetId;
+    } catch (error) {
+      console.warn('⚠️ PlayerProfile: Failed to load saved profile, using defaults:', error);
+    }
+
+    return data;
+  }
+
+  private save(): void {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify({ version: STORAGE_VERSION, profile: this.data }));
+    } catch (error) {
+      console.warn('⚠️ PlayerProfile: Failed to save profile:', error);
+    }
+  }
+}
+
+export const playerProfile = new PlayerProfile();
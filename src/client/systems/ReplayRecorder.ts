@@ -0,0 +1,193 @@
+import { ServerEventName } from '../../../shared/protocol/index';
+
+/**
+ * ReplayRecorder - Captures inbound server events into a compact recording
+ *
+ * Each event is serialized the moment it arrives (so later mutation by game
+ * systems can't corrupt the recording) and stamped with milliseconds since the
+ * recording started, measured on the TimeSync server clock.
+ */
+
+export const REPLAY_FORMAT_VERSION = 1;
+
+// Events needed to rebuild a match visually - everything else is noise
+export const RECORDED_EVENTS: ReadonlySet<ServerEventName> = new Set<ServerEventName>([
+  'game:state',
+  'weapon:fired',
+  'weapon:hit',
+  'weapon:miss',
+  'wall:damaged',
+  'wall:destroyed',
+  'projectile:created',
+  'projectile:updated',
+  'projectile:exploded',
+  'explosion:created',
+  'player:damaged',
+  'player:killed',
+  'player_died',
+  'player:died',
+  'backend:player:died',
+  'player_respawned',
+  'player:respawned',
+  'backend:player:respawned',
+  'respawn_success',
+  'match_ended'
+]);
+
+// [ms since recording start, event name, payload]
+export type ReplayEvent = [number, ServerEventName, unknown];
+
+export interface ReplayRecording {
+  version: number;
+  recordedAt: string;
+  serverUrl: string;
+  localPlayerId: string | null;
+  startServerTime: number;
+  durationMs: number;
+  events: ReplayEvent[];
+}
+
+export interface ReplayRecordingMeta {
+  serverUrl: string;
+  localPlayerId: string | null;
+}
+
+// Roughly 30 minutes of 20Hz game state plus combat events
+const MAX_RECORDED_EVENTS = 100000;
+
+// Socket payloads may contain Maps (players/walls) - flatten them for JSON
+function mapReplacer(_key: string, value: unknown): unknown {
+  return value instanceof Map ? Object.fromEntries(value) : value;
+}
+
+export class ReplayRecorder {
+  private chunks: string[] = [];
+  private recording: boolean = false;
+  private capped: boolean = false; // Hit MAX_RECORDED_EVENTS - still recording, but nothing more is kept
+  private startServerTime: number = 0;
+  private lastEventTime: number = 0;
+  private recordedAt: string = '';
+  private meta: ReplayRecordingMeta = { serverUrl: '', localPlayerId: null };
+  private getServerTime: () => number;
+
+  constructor(getServerTime: () => number) {
+    this.getServerTime = getServerTime;
+  }
+
+  start(meta: ReplayRecordingMeta): void {
+    this.chunks = [];
+    this.meta = meta;
+    this.startServerTime = this.getServerTime();
+    this.lastEventTime = 0;
+    this.recordedAt = new Date().toISOString();
+    this.recording = true;
+    this.capped = false;
+    console.log('🎬 ReplayRecorder: Recording started');
+  }
+
+  /**
+   * Stop recording and return the finished recording (null if nothing was captured)
+   */
+  stop(): ReplayRecording | null {
+    if (!this.recording) return null;
+    this.recording = false;
+
+    const recording = this.buildRecording();
+    this.chunks = [];
+    console.log(`🎬 ReplayRecorder: Recording stopped (${recording.events.length} events, ${Math.round(recording.durationMs / 1000)}s)`);
+    return recording.events.length > 0 ? recording : null;
+  }
+
+  record(event: ServerEventName, payload: unknown): void {
+    if (!this.recording || this.capped || !RECORDED_EVENTS.has(event)) return;
+
+    if (this.chunks.length >= MAX_RECORDED_EVENTS) {
+      console.warn('⚠️ ReplayRecorder: Event limit reached, later events will not be recorded');
+      this.capped = true;
+      return;
+    }
+
+    try {
+      // Clamp to keep the timeline monotonic when TimeSync adjusts its offset mid-match
+      const t = Math.max(this.lastEventTime, this.getServerTime() - this.startServerTime);
+      this.lastEventTime = t;
+      this.chunks.push(JSON.stringify([t, event, payload === undefined ? null : payload], mapReplacer));
+    } catch (error) {
+      console.error(`❌ ReplayRecorder: Failed to serialize '${event}':`, error);
+    }
+  }
+
+  isRecording(): boolean {
+    return this.recording;
+  }
+
+  getEventCount(): number {
+    return this.chunks.length;
+  }
+
+  private buildRecording(): ReplayRecording {
+    return {
+      version: REPLAY_FORMAT_VERSION,
+      recordedAt: this.recordedAt,
+      serverUrl: this.meta.serverUrl,
+      localPlayerId: this.meta.localPlayerId,
+      startServerTime: this.startServerTime,
+      durationMs: this.lastEventTime,
+      events: this.chunks.map(chunk => JSON.parse(chunk) as ReplayEvent)
+    };
+  }
+
+  /**
+   * Save a recording to the user's machine as a .json file
+   */
+  static download(recording: ReplayRecording): void {
+    const blob = new Blob([JSON.stringify(recording)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const stamp = recording.recordedAt.replace(/[:.]/g, '-');
+
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `trespasser-replay-${stamp}.json`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+
+    // Give the browser a moment to start the download before revoking
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  }
+
+  /**
+   * Parse and sanity-check a recording file. Throws with a readable message on bad input.
+   */
+  static parse(text: string): ReplayRecording {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch (error) {
+      throw new Error('Replay file is not valid JSON');
+    }
+
+    if (!parsed || typeof parsed !== 'object' || !Array.isArray((parsed as { events?: unknown }).events)) {
+      throw new Error('Replay file has no event list');
+    }
+    const data = parsed as Record<string, unknown> & { events: unknown[] };
+    if (data.version !== REPLAY_FORMAT_VERSION) {
+      throw new Error(`Unsupported replay version: ${String(data.version)}`);
+    }
+
+    const events = data.events.filter((entry): entry is ReplayEvent =>
+      Array.isArray(entry) && typeof entry[0] === 'number' && typeof entry[1] === 'string'
+    );
+    events.sort((a, b) => a[0] - b[0]);
+
+    return {
+      version: REPLAY_FORMAT_VERSION,
+      recordedAt: String(data.recordedAt || ''),
+      serverUrl: String(data.serverUrl || ''),
+      localPlayerId: typeof data.localPlayerId === 'string' ? data.localPlayerId : null,
+      startServerTime: Number(data.startServerTime) || 0,
+      durationMs: events.length > 0 ? events[events.length - 1][0] : 0,
+      events
+    };
+  }
+}
@@ -1,16 +1,22 @@
 import { IGameSystem } from '../../../shared/interfaces/IGameSystem';
 import { GAME_CONFIG } from '../../../shared/constants/index';
+import { settingsStore } from './SettingsStore';
 
 export class ScreenShakeSystem implements IGameSystem {
   private scene: Phaser.Scene;
   private camera: Phaser.Cameras.Scene2D.Camera;
   private isEnabled: boolean;
   private activeShakes: Set<string> = new Set(); // Track active shake IDs to prevent stacking
+  private intensityScale: number = 1; // gameplay.screenShake - 0 turns shake off
+  private unwatchScale: () => void;
 
   constructor(scene: Phaser.Scene) {
     this.scene = scene;
     this.camera = scene.cameras.main;
     this.isEnabled = GAME_CONFIG.SCREEN_SHAKE.ENABLED;
+    this.unwatchScale = settingsStore.watchInScene(scene, 'gameplay', 'screenShake', percent => {
+      this.intensityScale = percent / 100;
+    });
     this.setupEventListeners();
   }
 
@@ -24,6 +30,7 @@ export class ScreenShakeSystem implements IGameSystem {
   }
 
   destroy(): void {
+    this.unwatchScale();
     this.removeEventListeners();
     this.activeShakes.clear();
   }
@@ -147,12 +154,12 @@ export class ScreenShakeSystem implements IGameSystem {
    */
   private executeShake(shakeId: string, duration: number, intensity: number): void {
     // Prevent duplicate shakes of the same type within a short time
-    if (this.activeShakes.has(shakeId)) return;
+    if (this.activeShakes.has(shakeId) || this.intensityScale <= 0) return;
 
     this.activeShakes.add(shakeId);
 
-    // Execute the shake using Phaser's built-in camera shake
-    this.camera.shake(duration, intensity);
+    // Execute the shake using Phaser's built-in camera shake, scaled by the player's setting
+    this.camera.shake(duration, intensity * this.intensityScale);
 
     // Clean up the shake ID after duration + small buffer
     this.scene.time.delayedCall(duration + 50, () => {
@@ -0,0 +1,263 @@
+import type { NetworkSystem, ServerInfo } from './NetworkSystem';
+
+/**
+ * ServerDirectory - Known game servers, their latency and the player's pick
+ *
+ * The list comes from VITE_SERVER_LIST, a JSON array of
+ * { "id": "eu-west", "name": "Frankfurt", "region": "EU West", "url": "https://..." }.
+ * Without it there is one server: VITE_BACKEND_URL, the production backend on
+ * trespass.gg, or port 3000 on whatever host served the page.
+ *
+ * Every server is probed in parallel through NetworkSystem.checkServerStatus.
+ * In 'auto' the fastest reachable one wins; otherwise the region the player
+ * picked is used as-is. Picks and favourites persist in localStorage.
+ */
+
+export interface ServerEntry {
+  id: string;
+  name: string;
+  region: string;
+  url: string;
+}
+
+export interface ServerProbe {
+  latency: number | null; // null = unreachable or timed out
+  info: ServerInfo | null;
+  probedAt: number;
+}
+
+export const AUTO_REGION = 'auto';
+
+const PROBE_TIMEOUT_MS = 3000;
+const PROBE_MAX_AGE_MS = 30000; // Reuse results this fresh instead of probing again
+const SELECTION_KEY = 'trespasser_server_region';
+const FAVOURITES_KEY = 'trespasser_server_favourites';
+const PRODUCTION_URL = 'https://trespasser-backend-production.up.railway.app';
+
+function isServerEntry(value: any): value is ServerEntry {
+  return !!value && typeof value.id === 'string' && typeof value.url === 'string';
+}
+
+export class ServerDirectory {
+  private servers: ServerEntry[];
+  private probes: Map<string, ServerProbe> = new Map();
+  private probing: Promise<void> | null = null;
+  private selection: string = AUTO_REGION;
+  private favourites: Set<string> = new Set();
+  private listeners: Set<() => void> = new Set();
+
+  constructor() {
+    this.servers = this.loadServerList();
+    this.load();
+  }
+
+  /**
+   * Favourites first, then config order
+   */
+  getServers(): ServerEntry[] {
+    return [...this.servers].sort((a, b) => Number(this.isFavourite(b.id)) - Number(this.isFavourite(a.id)));
+  }
+
+  getServer(id: string): ServerEntry | null {
+    return this.servers.find(server => server.id === id) || null;
+  }
+
+  getProbe(id: string): ServerProbe | null {
+    return this.probes.get(id) || null;
+  }
+
+  hasMultipleServers(): boolean {
+    return this.servers.length > 1;
+  }
+
+  getSelection(): string {
+    return this.selection;
+  }
+
+  setSelection(id: string): void {
+    const selection = id === AUTO_REGION || this.getServer(id) ? id : AUTO_REGION;
+    if (selection === this.selection) return;
+    this.selection = selection;
+    this.save();
+  }
+
+  isFavourite(id: string): boolean {
+    return this.favourites.has(id);
+  }
+
+  toggleFavourite(id: string): void {
+    if (this.favourites.has(id)) {
+      this.favourites.delete(id);
+    } else {
+      this.favourites.add(id);
+    }
+    this.save();
+  }
+
+  /**
+   * The pinned server, or the fastest one probed so far, or the first listed.
+   * Doesn't probe - for pre-filling forms.
+   */
+  getPreferredServer(): ServerEntry {
+    return this.getServer(this.selection) || this.getFastestServer() || this.getServers()[0];
+  }
+
+  /**
+   * Fastest reachable server by the last probe
+   */
+  getFastestServer(): ServerEntry | null {
+    let best: ServerEntry | null = null;
+    let bestLatency = Infinity;
+    this.servers.forEach(server => {
+      const latency = this.probes.get(server.id)?.latency;
+      if (latency !== null && latency !== undefined && latency < bestLatency) {
+        best = server;
+        bestLatency = latency;
+      }
+    });
+    return best;
+  }
+
+  /**
+   * Probe every server at once. Concurrent callers share one round.
+   */
+  probeAll(networkSystem: NetworkSystem): Promise<void> {
+    if (this.probing) return this.probing;
+
+    this.probing = Promise.all(this.servers.map(server => this.probe(networkSystem, server)))
+      .then(() => {
+        this.probing = null;
+        this.listeners.forEach(listener => listener());
+      });
+    return this.probing;
+  }
+
+  /**
+   * URL to connect to: the pinned region, else the fastest after probing
+   */
+  async resolveServerUrl(networkSystem: NetworkSystem): Promise<string> {
+    const pinned = this.getServer(this.selection);
+    if (pinned) {
+      console.log(`🌍 ServerDirectory: Using pinned region ${pinned.region} (${pinned.url})`);
+      return pinned.url;
+    }
+
+    // Nothing to choose between
+    if (this.servers.length === 1) return this.servers[0].url;
+
+    const stale = this.servers.some(server => {
+      const probe = this.probes.get(server.id);
+      return !probe || Date.now() - probe.probedAt > PROBE_MAX_AGE_MS;
+    });
+    if (stale) {
+      await this.probeAll(networkSystem);
+    }
+
+    const fastest = this.getFastestServer();
+    if (fastest) {
+      console.log(`🌍 ServerDirectory: Auto-selected ${fastest.region} at ${Math.round(this.probes.get(fastest.id)!.latency!)}ms`);
+      return fastest.url;
+    }
+
+    console.warn('⚠️ ServerDirectory: No server answered, falling back to the first listed');
+    return this.getServers()[0].url;
+  }
+
+  /**
+   * Subscribe to probe results - returns an unsubscribe function
+   */
+  onProbed(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private async probe(networkSystem: NetworkSystem, server: ServerEntry): Promise<void> {
+    const startedAt = performance.now();
+    let timeout: number | undefined;
+
+    try {
+      const info = await Promise.race([
+        networkSystem.checkServerStatus(server.url),
+        new Promise<never>((_, reject) => {
+          timeout = window.setTimeout(() => reject(new Error('Probe timed out')), PROBE_TIMEOUT_MS);
+        })
+      ]);
+      this.probes.set(server.id, { latency: performance.now() - startedAt, info, probedAt: Date.now() });
+    } catch (error) {
+      console.warn(`⚠️ ServerDirectory: ${server.name} did not answer:`, error);
+      this.probes.set(server.id, { latency: null, info: null, probedAt: Date.now() });
+    } finally {
+      window.clearTimeout(timeout);
+    }
+  }
+
+  private loadServerList(): ServerEntry[] {
+    const configured = import.meta.env.VITE_SERVER_LIST;
+    if (configured) {
+      try {
+        const parsed = JSON.parse(configured);
+        const servers = Array.isArray(parsed) ? parsed.filter(isServerEntry) : [];
+        if (servers.length > 0) {
+          return servers.map((server: ServerEntry) => ({
+            id: server.id,
+            name: server.name || server.id,
+            region: server.region || server.name || server.id,
+            url: server.url
+          }));
+        }
+        console.warn('⚠️ ServerDirectory: VITE_SERVER_LIST has no usable entries');
+      } catch (error) {
+        console.warn('⚠️ ServerDirectory: VITE_SERVER_LIST is not valid JSON:', error);
+      }
+    }
+
+    return [{ id: 'default', name: 'Default', region: 'Default', url: this.getFallbackUrl() }];
+  }
+
+  private getFallbackUrl(): string {
+    // Use environment variable if available (for production)
+    const envBackendUrl = import.meta.env.VITE_BACKEND_URL;
+    if (envBackendUrl) {
+      return envBackendUrl;
+    }
+
+    const hostname = window.location.hostname;
+    if (hostname === 'trespass.gg' || hostname === 'www.trespass.gg') {
+      console.warn('⚠️ No VITE_BACKEND_URL set, using production fallback:', PRODUCTION_URL);
+      return PRODUCTION_URL;
+    }
+
+    // Local development, or a server hosted on this machine's LAN address
+    if (hostname === 'localhost' || hostname === '127.0.0.1') {
+      return 'http://localhost:3000';
+    }
+    return `http://${hostname}:3000`;
+  }
+
+  private load(): void {
+    try {
+      const selection = localStorage.getItem(SELECTION_KEY);
+      if (selection && (selection === AUTO_REGION || this.getServer(selection))) {
+        this.selection = selection;
+      }
+
+      const favourites = JSON.parse(localStorage.getItem(FAVOURITES_KEY) || '[]');
+      if (Array.isArray(favourites)) {
+        favourites.filter((id: unknown) => typeof id === 'string').forEach((id: string) => this.favourites.add(id));
+      }
+    } catch (error) {
+      console.warn('⚠️ ServerDirectory: Failed to load saved region, using auto:', error);
+    }
+  }
+
+  private save(): void {
+    try {
+      localStorage.setItem(SELECTION_KEY, this.selection);
+      localStorage.setItem(FAVOURITES_KEY, JSON.stringify([...this.favourites]));
+    } catch (error) {
+      console.warn('⚠️ ServerDirectory: Failed to save region:', error);
+    }
+  }
+}
+
+export const serverDirectory = new ServerDirectory();
@@ -0,0 +1,314 @@
+/**
+ * SettingsStore - Every player-facing option, typed, versioned and persisted
+ *
+ * Settings live in one localStorage record grouped by SettingsScene tab.
+ * Saves carry a schema version; older saves are brought forward by the
+ * MIGRATIONS chain, and the loose keys the first settings modal wrote
+ * (graphics_quality, master_volume, ...) count as version 0. Values are
+ * checked against SETTING_OPTIONS / SETTING_RANGES on load and on set, so
+ * readers never see anything out of range. Systems use watch() to apply a
+ * setting now and again whenever it changes, which is how changes made in
+ * SettingsScene take effect mid-match.
+ */
+
+export type GraphicsQuality = 'low' | 'medium' | 'high';
+export type QualitySetting = GraphicsQuality | 'auto'; // 'auto' is resolved by GraphicsQuality
+export type CrosshairStyle = 'dots' | 'cross' | 'dot';
+
+export interface GameSettings {
+  video: {
+    quality: QualitySetting;
+    showFps: boolean;
+  };
+  audio: {
+    master: number; // 0-100
+    sfx: number;
+    music: number;
+  };
+  controls: {
+    gamepadAimRadius: number; // Pixels from the player to the stick's aim point
+  };
+  gameplay: {
+    crosshairStyle: CrosshairStyle;
+    crosshairColor: string;
+    screenShake: number; // 0-100% of the configured shake
+    saveReplayOnExit: boolean; // Download an in-progress F8 recording when leaving the match
+  };
+  accessibility: {
+    reduceFlashes: boolean;
+    footstepIndicator: boolean;
+  };
+  network: {
+    showNetworkHud: boolean;
+    interpolationDelay: number; // ms remote players are drawn behind server time
+  };
+}
+
+export type SettingsCategory = keyof GameSettings;
+export type SettingKey<C extends SettingsCategory> = keyof GameSettings[C] & string;
+export type SettingValue<C extends SettingsCategory, K extends SettingKey<C>> = GameSettings[C][K];
+
+// 'category.key' - how SettingsScene rows, ranges and options name a setting. SettingId<number> is just the numeric ones.
+export type SettingId<T = unknown> = {
+  [C in SettingsCategory]: {
+    [K in SettingKey<C>]: GameSettings[C][K] extends T ? `${C}.${K}` : never
+  }[SettingKey<C>]
+}[SettingsCategory];
+export type SettingIdValue<I extends SettingId> = I extends `${infer C}.${infer K}`
+  ? C extends SettingsCategory ? K extends SettingKey<C> ? SettingValue<C, K> : never : never
+  : never;
+
+export interface SettingRange {
+  min: number;
+  max: number;
+  step: number;
+}
+
+export const SETTINGS_CATEGORIES: SettingsCategory[] = ['video', 'audio', 'controls', 'gameplay', 'accessibility', 'network'];
+
+export const DEFAULT_SETTINGS: GameSettings = {
+  video: { quality: 'auto', showFps: false },
+  audio: { master: 100, sfx: 80, music: 50 },
+  controls: { gamepadAimRadius: 60 },
+  gameplay: { crosshairStyle: 'dots', crosshairColor: '#ffffff', screenShake: 100, saveReplayOnExit: false },
+  accessibility: { reduceFlashes: false, footstepIndicator: true },
+  network: { showNetworkHud: false, interpolationDelay: 100 }
+};
+
+// Allowed values for the string settings, in the order SettingsScene cycles them
+export const SETTING_OPTIONS: { [I in SettingId<string>]: readonly SettingIdValue<I>[] } = {
+  'video.quality': ['auto', 'low', 'medium', 'high'],
+  'gameplay.crosshairStyle': ['dots', 'cross', 'dot'],
+  'gameplay.crosshairColor': ['#ffffff', '#00ff00', '#00ffff', '#ffff00', '#ff66cc']
+};
+
+export const SETTING_RANGES: Record<SettingId<number>, SettingRange> = {
+  'audio.master': { min: 0, max: 100, step: 5 },
+  'audio.sfx': { min: 0, max: 100, step: 5 },
+  'audio.music': { min: 0, max: 100, step: 5 },
+  'controls.gamepadAimRadius': { min: 20, max: 120, step: 10 },
+  'gameplay.screenShake': { min: 0, max: 100, step: 10 },
+  'network.interpolationDelay': { min: 50, max: 200, step: 25 }
+};
+
+const STORAGE_KEY = 'trespasser_settings';
+const STORAGE_VERSION = 1;
+
+// What the old settings modal and individual systems stored before the store existed
+const LEGACY_KEYS = {
+  quality: 'graphics_quality',
+  master: 'master_volume',
+  music: 'music_volume',
+  showFps: 'show_fps',
+  aimRadius: 'gamepad_aim_radius',
+  networkHud: 'trespasser_network_hud'
+};
+
+/**
+ * Each entry turns a save of version N into version N + 1
+ */
+const MIGRATIONS: Record<number, (saved: any) => any> = {
+  0: (legacy: Record<string, string | null>) => {
+    const number = (value: string | null) => value === null || value === '' ? undefined : Number(value);
+    return {
+      video: { quality: legacy[LEGACY_KEYS.quality] ?? undefined, showFps: legacy[LEGACY_KEYS.showFps] === 'true' },
+      audio: { master: number(legacy[LEGACY_KEYS.master]), music: number(legacy[LEGACY_KEYS.music]) },
+      controls: { gamepadAimRadius: number(legacy[LEGACY_KEYS.aimRadius]) },
+      network: { showNetworkHud: legacy[LEGACY_KEYS.networkHud] === '1' }
+    };
+  }
+};
+
+function cloneSettings(settings: GameSettings): GameSettings {
+  const clone = {} as GameSettings;
+  SETTINGS_CATEGORIES.forEach(category => {
+    (clone as any)[category] = { ...settings[category] };
+  });
+  return clone;
+}
+
+/**
+ * `value` if it is valid for the setting, otherwise undefined
+ */
+function sanitize(category: SettingsCategory, key: string, value: unknown): unknown {
+  const fallback = (DEFAULT_SETTINGS[category] as Record<string, unknown>)[key];
+  const id = `${category}.${key}` as SettingId;
+
+  if (typeof fallback === 'boolean') {
+    return typeof value === 'boolean' ? value : undefined;
+  }
+  if (typeof fallback === 'number') {
+    const range: SettingRange | undefined = SETTING_RANGES[id as SettingId<number>];
+    if (typeof value !== 'number' || !Number.isFinite(value)) return undefined;
+    if (!range) return value;
+    const stepped = range.min + Math.round((value - range.min) / range.step) * range.step;
+    return Math.max(range.min, Math.min(range.max, stepped));
+  }
+  const options: readonly string[] | undefined = SETTING_OPTIONS[id as SettingId<string>];
+  return typeof value === 'string' && (!options || options.includes(value)) ? value : undefined;
+}
+
+function splitSettingId(id: SettingId): [SettingsCategory, string] {
+  const dot = id.indexOf('.');
+  return [id.slice(0, dot) as SettingsCategory, id.slice(dot + 1)];
+}
+
+export class SettingsStore {
+  private settings: GameSettings;
+  private listeners: Set<(category: SettingsCategory, key: string) => void> = new Set();
+
+  constructor() {
+    this.settings = this.load();
+  }
+
+  get<C extends SettingsCategory, K extends SettingKey<C>>(category: C, key: K): SettingValue<C, K> {
+    return this.settings[category][key];
+  }
+
+  /**
+   * get() for a 'category.key' id - for callers that hold settings as data, like SettingsScene's rows
+   */
+  getById<I extends SettingId>(id: I): SettingIdValue<I> {
+    const [category, key] = splitSettingId(id);
+    return (this.settings[category] as Record<string, unknown>)[key] as SettingIdValue<I>;
+  }
+
+  setById<I extends SettingId>(id: I, value: SettingIdValue<I>): void {
+    const [category, key] = splitSettingId(id);
+    this.store(category, key, value);
+  }
+
+  getAll(): GameSettings {
+    return cloneSettings(this.settings);
+  }
+
+  /**
+   * Store a new value - numbers snap to the setting's range, other invalid values are ignored
+   */
+  set<C extends SettingsCategory, K extends SettingKey<C>>(category: C, key: K, value: SettingValue<C, K>): void {
+    this.store(category, key, value);
+  }
+
+  resetCategory(category: SettingsCategory): void {
+    const changed = Object.keys(DEFAULT_SETTINGS[category]).filter(key =>
+      (this.settings[category] as Record<string, unknown>)[key] !== (DEFAULT_SETTINGS[category] as Record<string, unknown>)[key]
+    );
+    if (changed.length === 0) return;
+
+    (this.settings as any)[category] = { ...DEFAULT_SETTINGS[category] };
+    this.save();
+    changed.forEach(key => this.notify(category, key));
+  }
+
+  /**
+   * Subscribe to every change - returns an unsubscribe function
+   */
+  onChange(listener: (category: SettingsCategory, key: string) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Call `apply` with the setting's value now and after every change to it -
+   * returns an unsubscribe function
+   */
+  watch<C extends SettingsCategory, K extends SettingKey<C>>(category: C, key: K, apply: (value: SettingValue<C, K>) => void): () => void {
+    apply(this.get(category, key));
+    return this.onChange((changedCategory, changedKey) => {
+      if (changedCategory === category && changedKey === key) apply(this.get(category, key));
+    });
+  }
+
+  /**
+   * watch() for a scene's systems - also stops when the scene shuts down, so
+   * a system nobody destroys doesn't keep reacting into the next match
+   */
+  watchInScene<C extends SettingsCategory, K extends SettingKey<C>>(scene: Phaser.Scene, category: C, key: K, apply: (value: SettingValue<C, K>) => void): () => void {
+    const unwatch = this.watch(category, key, apply);
+    scene.events.once(Phaser.Scenes.Events.SHUTDOWN, unwatch);
+    return () => {
+      scene.events.off(Phaser.Scenes.Events.SHUTDOWN, unwatch);
+      unwatch();
+    };
+  }
+
+  private store(category: SettingsCategory, key: string, value: unknown): void {
+    const values = this.settings[category] as Record<string, unknown>;
+    const sanitized = sanitize(category, key, value);
+    if (sanitized === undefined || sanitized === values[key]) return;
+
+    values[key] = sanitized;
+    this.save();
+    this.notify(category, key);
+  }
+
+  private notify(category: SettingsCategory, key: string): void {
+    this.listeners.forEach(listener => listener(category, key));
+  }
+
+  private load(): GameSettings {
+    const settings = cloneSettings(DEFAULT_SETTINGS);
+
+    try {
+      const raw = localStorage.getItem(STORAGE_KEY);
+      let version: number;
+      let data: any;
+
+      if (raw) {
+        const saved = JSON.parse(raw);
+        version = typeof saved?.version === 'number' ? saved.version : -1;
+        data = saved?.settings;
+      } else {
+        // No record yet - whatever the old modal left behind is version 0
+        version = 0;
+        data = {};
+        Object.values(LEGACY_KEYS).forEach(key => {
+          data[key] = localStorage.getItem(key);
+        });
+      }
+
+      if (version < 0 || version > STORAGE_VERSION || typeof data !== 'object' || data === null) {
+        console.warn('⚠️ SettingsStore: Ignoring saved settings with unknown format');
+        return settings;
+      }
+
+      while (version < STORAGE_VERSION) {
+        data = MIGRATIONS[version](data);
+        version++;
+      }
+
+      // Anything missing or invalid keeps its default
+      SETTINGS_CATEGORIES.forEach(category => {
+        const group = data[category];
+        if (typeof group !== 'object' || group === null) return;
+        Object.keys(DEFAULT_SETTINGS[category]).forEach(key => {
+          const value = sanitize(category, key, group[key]);
+          if (value !== undefined) (settings[category] as Record<string, unknown>)[key] = value;
+        });
+      });
+
+      if (!raw) {
+        this.settings = settings;
+        this.save();
+        Object.values(LEGACY_KEYS).forEach(key => localStorage.removeItem(key));
+        console.log('⚙️ SettingsStore: Migrated legacy settings');
+      }
+    } catch (error) {
+      console.warn('⚠️ SettingsStore: Failed to load saved settings, using defaults:', error);
+    }
+
+    return settings;
+  }
+
+  private save(): void {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify({ version: STORAGE_VERSION, settings: this.settings }));
+    } catch (error) {
+      console.warn('⚠️ SettingsStore: Failed to save settings:', error);
+    }
+  }
+}
+
+export const settingsStore = new SettingsStore();
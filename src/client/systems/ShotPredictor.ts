@@ -0,0 +1,180 @@
+import { Vector2 } from '../../../shared/types/index';
+import { raycastWalls, rayCircle, SlicedWall, HITSCAN_RANGE, PLAYER_HIT_RADIUS } from '../utils/wallGeometry';
+import { VisualEffectsSystem } from './VisualEffectsSystem';
+
+/**
+ * ShotPredictor - Instant hit feedback for the local player's hitscan shots
+ *
+ * A fired shot is traced against what is on screen: remote players where
+ * they are drawn (interpolated, i.e. the past the backend rewinds to) and
+ * intact wall slices. The hit marker, blood or debris shows at once. When
+ * the backend's weapon:hit / weapon:miss / wall:damaged for the shot
+ * arrives, VisualEffectsSystem hands it to resolve(): a matching prediction
+ * is confirmed and the backend effect skipped, a wrong one is rolled back.
+ */
+
+export type ShotOutcome = 'player' | 'wall' | 'miss';
+
+export interface ShotTarget {
+  id: string;
+  position: Vector2;
+  team?: 'red' | 'blue';
+}
+
+export interface ShotWall extends SlicedWall {
+  id: string;
+  material: string;
+}
+
+// What the predictor needs from GameScene
+export interface ShotPredictionWorld {
+  getLocalPlayerId(): string | null;
+  getLocalTeam(): 'red' | 'blue' | undefined;
+  getAimDirection(): number;
+  getTargets(): ShotTarget[];
+  getWalls(): ShotWall[];
+}
+
+// The fields of weapon:hit / weapon:miss / wall:damaged used to match a shot
+export interface ShotResult {
+  playerId?: string;
+  weaponType?: string;
+  targetId?: string;
+  wallId?: string;
+}
+
+export interface ShotPredictionStats {
+  predicted: number;
+  agreed: number;
+  rolledBack: number;
+  unconfirmed: number; // The backend never answered
+}
+
+interface PredictedShot {
+  weaponType: string;
+  outcome: ShotOutcome;
+  targetId?: string;
+  wallId?: string;
+  firedAt: number;
+  hitMarkerId: number | null;
+  particleIds: number[];
+}
+
+// Projectiles resolve on the server, and shotgun pellet spread is rolled there too
+const UNPREDICTED_WEAPONS = new Set(['shotgun', 'grenade', 'smokegrenade', 'flashbang', 'grenadelauncher', 'rocket', 'rocketlauncher']);
+const CONFIRM_TIMEOUT_MS = 1000;
+
+export class ShotPredictor {
+  private scene: Phaser.Scene;
+  private effects: VisualEffectsSystem;
+  private world: ShotPredictionWorld;
+  private pending: PredictedShot[] = [];
+  private stats: ShotPredictionStats = { predicted: 0, agreed: 0, rolledBack: 0, unconfirmed: 0 };
+
+  constructor(scene: Phaser.Scene, effects: VisualEffectsSystem, world: ShotPredictionWorld) {
+    this.scene = scene;
+    this.effects = effects;
+    this.world = world;
+
+    this.scene.events.on('weapon:fire', this.handleLocalFire, this);
+  }
+
+  isLocalShot(result: ShotResult): boolean {
+    const localId = this.world.getLocalPlayerId();
+    return !!localId && result.playerId === localId;
+  }
+
+  /**
+   * Match a backend shot result to the oldest pending prediction for that
+   * weapon. Returns true when the prediction agreed - its effects are already
+   * on screen. A disagreeing prediction has its effects removed.
+   */
+  resolve(outcome: ShotOutcome, result: ShotResult): boolean {
+    if (!this.isLocalShot(result)) return false;
+    this.expire(Date.now());
+
+    const index = this.pending.findIndex(shot => !result.weaponType || shot.weaponType === result.weaponType);
+    if (index === -1) return false;
+    const [shot] = this.pending.splice(index, 1);
+
+    const agrees = shot.outcome === outcome &&
+      (outcome !== 'player' || !result.targetId || result.targetId === shot.targetId) &&
+      (outcome !== 'wall' || !result.wallId || result.wallId === shot.wallId);
+
+    if (agrees) {
+      this.stats.agreed++;
+      return true;
+    }
+
+    this.stats.rolledBack++;
+    if (shot.hitMarkerId !== null) this.effects.removeHitMarker(shot.hitMarkerId);
+    this.effects.removeParticles(shot.particleIds);
+    return false;
+  }
+
+  getStats(): ShotPredictionStats {
+    this.expire(Date.now());
+    return { ...this.stats };
+  }
+
+  destroy(): void {
+    this.scene.events.off('weapon:fire', this.handleLocalFire, this);
+    this.pending = [];
+  }
+
+  private handleLocalFire(data: { weaponType?: string; position?: Vector2 }): void {
+    if (!data?.weaponType || !data.position || UNPREDICTED_WEAPONS.has(data.weaponType)) return;
+
+    const origin = { x: data.position.x, y: data.position.y };
+    const angle = this.world.getAimDirection();
+    const shot: PredictedShot = {
+      weaponType: data.weaponType,
+      outcome: 'miss',
+      firedAt: Date.now(),
+      hitMarkerId: null,
+      particleIds: []
+    };
+
+    const wallHit = raycastWalls(this.world.getWalls(), origin, angle, HITSCAN_RANGE);
+    let targetDistance = wallHit ? wallHit.distance : HITSCAN_RANGE;
+    let target: ShotTarget | null = null;
+
+    const localId = this.world.getLocalPlayerId();
+    const localTeam = this.world.getLocalTeam();
+    for (const candidate of this.world.getTargets()) {
+      if (candidate.id === localId || (localTeam && candidate.team === localTeam)) continue;
+      const distance = rayCircle(origin, angle, candidate.position, PLAYER_HIT_RADIUS, targetDistance);
+      if (distance !== null && distance < targetDistance) {
+        target = candidate;
+        targetDistance = distance;
+      }
+    }
+
+    const point = {
+      x: origin.x + Math.cos(angle) * targetDistance,
+      y: origin.y + Math.sin(angle) * targetDistance
+    };
+
+    if (target) {
+      shot.outcome = 'player';
+      shot.targetId = target.id;
+      shot.hitMarkerId = this.effects.showHitMarker(point, localId || undefined);
+      shot.particleIds = this.effects.showBloodEffect(point, angle);
+    } else if (wallHit) {
+      shot.outcome = 'wall';
+      shot.wallId = wallHit.wall.id;
+      shot.hitMarkerId = this.effects.showHitMarker(point, localId || undefined);
+      shot.particleIds = this.effects.showWallDamageEffect(point, wallHit.wall.material);
+    }
+
+    this.pending.push(shot);
+    this.stats.predicted++;
+  }
+
+  private expire(now: number): void {
+    while (this.pending.length > 0 && now - this.pending[0].firedAt > CONFIRM_TIMEOUT_MS) {
+      this.pending.shift();
+      this.stats.unconfirmed++;
+    }
+  }
+}
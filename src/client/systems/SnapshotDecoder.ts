@@ -0,0 +1,299 @@
+import * as msgpack from 'msgpack-lite';
+import { GameState, PlayerState, WallState, TileVision, PolygonVision, SmokeZoneState } from '../../../shared/types/index';
+import { JSON_PROTOCOL_VERSION, BINARY_PROTOCOL_VERSION, SnapshotFrame } from '../../../shared/protocol/snapshot';
+import { visionMaskToTiles } from '../utils/visionHelpers';
+
+/**
+ * SnapshotDecoder - Turns game:state payloads into full GameState objects
+ *
+ * Old servers send JSON game state and it passes straight through. Servers
+ * that speak protocol v2 send msgpack SnapshotFrames: keyframes carry the
+ * whole state, deltas only what changed since a baseline frame we still
+ * hold. Each decoded frame becomes a baseline for later deltas. A delta
+ * against a baseline we no longer have is dropped and a keyframe requested.
+ *
+ * Everything handed out is a fresh copy - game systems may mutate what they
+ * receive, baselines must stay untouched.
+ */
+
+interface Baseline {
+  sequence: number;
+  timestamp: number;
+  tickRate: number;
+  players: Record<string, PlayerState>;
+  visibleIds: string[] | null;
+  walls: Record<string, WallState>;
+  vision?: TileVision | PolygonVision;
+  smokeZones: SmokeZoneState[];
+  extras: Record<string, unknown>; // Top-level fields without a frame key of their own
+}
+
+export type SnapshotEncoding = 'json' | 'msgpack';
+
+export interface SnapshotStats {
+  protocolVersion: number;
+  encoding: SnapshotEncoding; // Of the most recent frame
+  bytesPerSecond: number;
+  keyframes: number;
+  deltas: number;
+  resyncs: number;
+}
+
+const BASELINE_HISTORY = 32; // 1.6s at 20Hz
+const BANDWIDTH_WINDOW_MS = 1000;
+const RESYNC_INTERVAL_MS = 500; // Keyframe requests while waiting for one
+// JSON states are re-measured once a second at 20Hz - the size barely moves between frames
+const JSON_SIZE_SAMPLE_EVERY = 20;
+
+function toBytes(payload: unknown): Uint8Array | null {
+  if (payload instanceof Uint8Array) return payload;
+  if (payload instanceof ArrayBuffer) return new Uint8Array(payload);
+  if (ArrayBuffer.isView(payload)) return new Uint8Array(payload.buffer, payload.byteOffset, payload.byteLength);
+  return null;
+}
+
+function clonePlayer(player: PlayerState): PlayerState {
+  return {
+    ...player,
+    position: player.position && { ...player.position },
+    velocity: player.velocity && { ...player.velocity }
+  };
+}
+
+function cloneWall(wall: WallState): WallState {
+  return {
+    ...wall,
+    position: { ...wall.position },
+    destructionMask: [...wall.destructionMask],
+    sliceHealth: [...wall.sliceHealth]
+  };
+}
+
+export class SnapshotDecoder {
+  private protocolVersion: number = JSON_PROTOCOL_VERSION;
+  private baselines: Map<number, Baseline> = new Map();
+  private latestSequence: number | null = null;
+  private lastResyncRequest: number = 0;
+  private onResyncNeeded: (lastSequence: number | null) => void;
+
+  private encoding: SnapshotEncoding = 'json';
+  private bandwidthSamples: { time: number; bytes: number }[] = [];
+  private jsonFrames: number = 0;
+  private jsonFrameBytes: number = 0;
+  private keyframes: number = 0;
+  private deltas: number = 0;
+  private resyncs: number = 0;
+
+  constructor(onResyncNeeded: (lastSequence: number | null) => void) {
+    this.onResyncNeeded = onResyncNeeded;
+  }
+
+  /**
+   * Version the server confirmed at authentication - missing means a JSON-only server
+   */
+  setProtocolVersion(version: number | undefined): void {
+    this.protocolVersion = typeof version === 'number' ? Math.min(version, BINARY_PROTOCOL_VERSION) : JSON_PROTOCOL_VERSION;
+  }
+
+  getProtocolVersion(): number {
+    return this.protocolVersion;
+  }
+
+  isBinary(): boolean {
+    return this.protocolVersion >= BINARY_PROTOCOL_VERSION;
+  }
+
+  /**
+   * Newest frame applied - sent back with inputs so the server can delta against it
+   */
+  getLastSequence(): number | null {
+    return this.latestSequence;
+  }
+
+  /**
+   * Decode one game:state payload. Returns null for frames that can't be
+   * applied (stale, or waiting on a keyframe). Throws on malformed binary.
+   */
+  decode(payload: unknown): GameState | null {
+    const bytes = toBytes(payload);
+    if (!bytes) {
+      this.encoding = 'json';
+      if (this.jsonFrames++ % JSON_SIZE_SAMPLE_EVERY === 0) {
+        this.jsonFrameBytes = this.measureJsonBytes(payload);
+      }
+      this.recordBytes(this.jsonFrameBytes);
+      return payload as GameState;
+    }
+
+    this.encoding = 'msgpack';
+    this.recordBytes(bytes.byteLength);
+
+    const frame = msgpack.decode(bytes) as SnapshotFrame;
+    if (!frame || typeof frame !== 'object' || typeof frame.s !== 'number' || typeof frame.t !== 'number') {
+      throw new Error('binary game:state is not a snapshot frame');
+    }
+    return this.applyFrame(frame);
+  }
+
+  getStats(): SnapshotStats {
+    this.pruneBandwidthSamples(Date.now());
+    return {
+      protocolVersion: this.protocolVersion,
+      encoding: this.encoding,
+      bytesPerSecond: this.bandwidthSamples.reduce((total, sample) => total + sample.bytes, 0) * 1000 / BANDWIDTH_WINDOW_MS,
+      keyframes: this.keyframes,
+      deltas: this.deltas,
+      resyncs: this.resyncs
+    };
+  }
+
+  private applyFrame(frame: SnapshotFrame): GameState | null {
+    let baseline: Baseline | undefined;
+
+    if (frame.b !== undefined) {
+      // Duplicated or overtaken delta - never step backwards
+      if (this.latestSequence !== null && frame.s <= this.latestSequence) return null;
+
+      baseline = this.baselines.get(frame.b);
+      if (!baseline) {
+        this.requestKeyframe();
+        return null;
+      }
+      this.deltas++;
+    } else {
+      // Keyframes are always taken - a restarted server starts counting again
+      this.keyframes++;
+      if (this.latestSequence !== null && frame.s <= this.latestSequence) {
+        this.baselines.clear();
+      }
+    }
+
+    const state: Baseline = {
+      sequence: frame.s,
+      timestamp: frame.t,
+      tickRate: frame.r ?? baseline?.tickRate ?? 0,
+      players: baseline ? { ...baseline.players } : {},
+      visibleIds: frame.v ?? baseline?.visibleIds ?? null,
+      walls: baseline ? { ...baseline.walls } : {},
+      vision: baseline?.vision,
+      smokeZones: frame.z ?? baseline?.smokeZones ?? [],
+      extras: { ...baseline?.extras }
+    };
+
+    // Copy-on-write from here on, so older baselines stay valid for later deltas
+    frame.x?.forEach(id => delete state.players[id]);
+    Object.entries(frame.p || {}).forEach(([id, changes]) => {
+      state.players[id] = { ...state.players[id], ...changes, id } as PlayerState;
+    });
+
+    Object.entries(frame.w || {}).forEach(([id, wall]) => {
+      state.walls[id] = wall;
+    });
+    frame.ws?.forEach(([wallId, sliceIndex, sliceHealth]) => {
+      const wall = state.walls[wallId];
+      if (!wall) return;
+      const health = [...wall.sliceHealth];
+      const mask = [...wall.destructionMask];
+      health[sliceIndex] = sliceHealth;
+      mask[sliceIndex] = sliceHealth <= 0 ? 1 : 0;
+      state.walls[wallId] = { ...wall, sliceHealth: health, destructionMask: mask };
+    });
+
+    state.vision = this.applyVision(frame, state.vision);
+    Object.entries(frame.e || {}).forEach(([key, value]) => {
+      if (value === null) delete state.extras[key];
+      else state.extras[key] = value;
+    });
+
+    this.baselines.set(frame.s, state);
+    this.baselines.forEach((_, sequence) => {
+      if (sequence <= frame.s - BASELINE_HISTORY || sequence > frame.s) this.baselines.delete(sequence);
+    });
+    this.latestSequence = frame.s;
+
+    return this.toGameState(state, frame);
+  }
+
+  private applyVision(frame: SnapshotFrame, previous: TileVision | PolygonVision | undefined): TileVision | PolygonVision | undefined {
+    if (frame.mp) return frame.mp;
+
+    if (frame.m || frame.ma !== undefined || frame.mo) {
+      const previousTiles = previous?.type === 'tiles' ? previous : undefined;
+      return {
+        type: 'tiles',
+        visibleTiles: frame.m ? visionMaskToTiles(frame.m) : previousTiles?.visibleTiles || [],
+        viewAngle: frame.ma ?? previousTiles?.viewAngle ?? 0,
+        position: frame.mo ?? previousTiles?.position ?? { x: 0, y: 0 }
+      };
+    }
+
+    return previous;
+  }
+
+  private toGameState(state: Baseline, frame: SnapshotFrame): GameState {
+    const players: Record<string, PlayerState> = {};
+    Object.entries(state.players).forEach(([id, player]) => {
+      players[id] = clonePlayer(player);
+    });
+
+    const walls: Record<string, WallState> = {};
+    Object.entries(state.walls).forEach(([id, wall]) => {
+      walls[id] = cloneWall(wall);
+    });
+
+    const gameState: GameState = {
+      // Named fields below win over anything the server put in extras
+      ...structuredClone(state.extras),
+      players,
+      walls,
+      projectiles: frame.j || [],
+      timestamp: state.timestamp,
+      tickRate: state.tickRate,
+      smokeZones: state.smokeZones.map(zone => ({ ...zone, position: { ...zone.position } }))
+    };
+
+    if (state.visibleIds) {
+      gameState.visiblePlayers = state.visibleIds.filter(id => players[id]).map(id => players[id]);
+    }
+    if (state.vision) {
+      gameState.vision = state.vision.type === 'tiles'
+        ? { ...state.vision, visibleTiles: [...state.vision.visibleTiles], position: { ...state.vision.position } }
+        : { ...state.vision, polygon: state.vision.polygon.map(point => ({ ...point })), position: { ...state.vision.position } };
+    }
+
+    return gameState;
+  }
+
+  private requestKeyframe(): void {
+    const now = Date.now();
+    if (now - this.lastResyncRequest < RESYNC_INTERVAL_MS) return;
+    this.lastResyncRequest = now;
+    this.resyncs++;
+    console.warn(`⚠️ SnapshotDecoder: Missing baseline, requesting keyframe (last applied: ${this.latestSequence})`);
+    this.onResyncNeeded(this.latestSequence);
+  }
+
+  /**
+   * UTF-8 bytes of the JSON socket.io sends - close to the wire size without
+   * socket.io's few bytes of framing
+   */
+  private measureJsonBytes(payload: unknown): number {
+    try {
+      return new TextEncoder().encode(JSON.stringify(payload) ?? '').byteLength;
+    } catch {
+      return 0;
+    }
+  }
+
+  private recordBytes(bytes: number): void {
+    const now = Date.now();
+    this.bandwidthSamples.push({ time: now, bytes });
+    this.pruneBandwidthSamples(now);
+  }
+
+  private pruneBandwidthSamples(now: number): void {
+    while (this.bandwidthSamples.length > 0 && now - this.bandwidthSamples[0].time > BANDWIDTH_WINDOW_MS) {
+      this.bandwidthSamples.shift();
+    }
+  }
+}
@@ -0,0 +1,116 @@
+import { Vector2 } from '../../../shared/types/index';
+import { raycastSegment, SlicedWall, SLICE_HEALTH } from '../utils/wallGeometry';
+
+/**
+ * SpatialAudio - Where a sound is relative to the local player
+ *
+ * Pan follows the horizontal offset from the listener, volume falls off with
+ * distance in world pixels, and every intact wall between listener and
+ * source muffles it by its material. Damaged slices let more through and
+ * destroyed ones none, so blowing a hole in a wall opens the sound up.
+ * AudioManager turns the result into gain, low-pass and stereo panner nodes.
+ */
+
+export interface SpatialParams {
+  pan: number;       // -1 (left) to 1 (right)
+  gain: number;      // 0-1 distance and occlusion attenuation
+  occlusion: number; // 0 (clear) to 1 (fully muffled) - drives the low-pass
+}
+
+export interface AudioWall extends SlicedWall {
+  id: string;
+  material: string;
+  sliceHealth: number[];
+}
+
+// What SpatialAudio needs from GameScene
+export interface SpatialAudioSource {
+  getListenerPosition(): Vector2 | null;
+  getWalls(): AudioWall[];
+}
+
+export const HEARING_RANGE = 600; // Pixels - a little over a screen width, for gunfire and explosions
+
+const REFERENCE_DISTANCE = 40; // Full volume inside this radius
+const PAN_DISTANCE = 240;      // Half a screen off to one side is hard-panned
+const MAX_PAN = 0.85;          // Never fully drop the far ear
+const SOURCE_CLEARANCE = 3;    // Impacts sit on a wall's face - don't let that wall occlude them
+const OCCLUDED_GAIN = 0.5;     // Volume left when fully occluded; the low-pass does the rest
+const MIN_GAIN = 0.01;
+
+// How much of the sound one intact wall soaks up
+const MATERIAL_OCCLUSION: Record<string, number> = {
+  concrete: 0.6,
+  metal: 0.7,
+  wood: 0.35,
+  glass: 0.15
+};
+const DEFAULT_OCCLUSION = 0.5;
+
+export const CENTERED: SpatialParams = { pan: 0, gain: 1, occlusion: 0 };
+
+export class SpatialAudio {
+  private source: SpatialAudioSource | null = null;
+
+  setSource(source: SpatialAudioSource | null): void {
+    this.source = source;
+  }
+
+  /**
+   * Params for a sound at `position`, or null when it is out of earshot.
+   * Quiet sounds pass a shorter range. Without a listener (menus, before
+   * spawn) everything plays centred.
+   */
+  compute(position: Vector2, range: number = HEARING_RANGE): SpatialParams | null {
+    const listener = this.source?.getListenerPosition();
+    if (!listener) return { ...CENTERED };
+
+    const dx = position.x - listener.x;
+    const dy = position.y - listener.y;
+    const distance = Math.hypot(dx, dy);
+    if (distance >= range) return null;
+
+    // Inverse-distance rolloff, eased to silence at the edge of hearing range
+    const rolloff = REFERENCE_DISTANCE / Math.max(REFERENCE_DISTANCE, distance);
+    const edge = 1 - Math.pow(distance / range, 2);
+    const occlusion = this.computeOcclusion(listener, position, distance);
+    const gain = rolloff * edge * (1 - occlusion * (1 - OCCLUDED_GAIN));
+    if (gain < MIN_GAIN) return null;
+
+    return {
+      pan: Phaser.Math.Clamp(dx / PAN_DISTANCE, -1, 1) * MAX_PAN,
+      gain,
+      occlusion
+    };
+  }
+
+  /**
+   * Each wall crossed counts once, at its strongest intact slice along the
+   * line, scaled down as that slice loses health.
+   */
+  private computeOcclusion(listener: Vector2, position: Vector2, distance: number): number {
+    if (!this.source || distance <= SOURCE_CLEARANCE) return 0;
+
+    const end = {
+      x: position.x - (position.x - listener.x) / distance * SOURCE_CLEARANCE,
+      y: position.y - (position.y - listener.y) / distance * SOURCE_CLEARANCE
+    };
+
+    const strongest = new Map<string, number>();
+    raycastSegment(this.source.getWalls(), listener, end).forEach(hit => {
+      const wall = hit.wall;
+      const maxHealth = SLICE_HEALTH[wall.material] || 100;
+      const health = Phaser.Math.Clamp((wall.sliceHealth[hit.sliceIndex] ?? maxHealth) / maxHealth, 0, 1);
+      const strength = (MATERIAL_OCCLUSION[wall.material] ?? DEFAULT_OCCLUSION) * (0.5 + 0.5 * health);
+      strongest.set(wall.id, Math.max(strongest.get(wall.id) || 0, strength));
+    });
+
+    let transmission = 1;
+    strongest.forEach(strength => {
+      transmission *= 1 - strength;
+    });
+    return 1 - transmission;
+  }
+}
+
+export const spatialAudio = new SpatialAudio();
@@ -2,8 +2,15 @@
  * TimeSync - Synchronizes client time with server time
  * 
  * Uses NTP-style algorithm to calculate time offset accounting for network latency.
- * Re-syncs periodically to prevent drift over time.
+ * Re-syncs periodically to prevent drift over time. Every round trip (including
+ * the silent probes the connection HUD sends) feeds the RTT and jitter figures.
  */
+
+import { ServerEventListeners, TimeSyncResponsePayload } from '../../../shared/protocol/index';
+
+const RTT_HISTORY = 20;
+const PROBE_TIMEOUT_MS = 5000;
+
 export class TimeSync {
   private timeOffset: number = 0;
   private socket: any;
@@ -12,6 +19,12 @@ export class TimeSync {
   private syncAttempts: number = 0;
   private maxSyncAttempts: number = 3;
   private isDestroyed: boolean = false;
+  private rttSamples: number[] = [];
+  private jitter: number = 0; // Smoothed RTT variation, RFC 3550 style
+  private pendingProbes: Map<number, number> = new Map(); // clientTime -> sent at, for probes only
+  // Our own listeners, removed by destroy() without touching anyone else's on the shared socket
+  private serverListeners: ServerEventListeners | null = null;
+  private connectionListeners: Array<{ event: string; listener: () => void }> = [];
   
   constructor(socket: any) {
     this.socket = socket;
@@ -25,7 +38,7 @@ export class TimeSync {
     }
     
     // Initial sync on connection
-    this.socket.on('connect', () => {
+    this.listen('connect', () => {
       if (!this.isDestroyed) {
         console.log('⏰ TimeSync: Socket connected, performing initial sync');
         this.performSync();
@@ -44,35 +57,18 @@ export class TimeSync {
     });
     
     // Handle sync response from server
-    this.socket.on('time:sync:response', (data: any) => {
-      if (this.isDestroyed) return;
-      
-      const now = Date.now();
-      const rtt = now - data.clientTime; // Round trip time
-      const serverTime = data.serverTime + Math.floor(rtt / 2); // Estimate current server time
-      const newOffset = serverTime - now;
-      
-      // If this is first sync or offset changed significantly, update it
-      if (this.syncAttempts === 0 || Math.abs(newOffset - this.timeOffset) > 100) {
-        this.timeOffset = newOffset;
-        console.log(`⏰ TimeSync: Synchronized! Offset: ${this.timeOffset}ms, RTT: ${rtt}ms`);
-      } else {
-        // Small adjustments - use weighted average to smooth
-        this.timeOffset = Math.floor(this.timeOffset * 0.8 + newOffset * 0.2);
-        console.log(`⏰ TimeSync: Adjusted offset to ${this.timeOffset}ms (RTT: ${rtt}ms)`);
-      }
-      
-      this.lastSyncTime = now;
-      this.syncAttempts++;
+    this.serverListeners = new ServerEventListeners(this.socket);
+    this.serverListeners.on('time:sync:response', (data) => {
+      if (!this.isDestroyed) this.handleSyncResponse(data);
     });
     
     // Handle sync error
-    this.socket.on('time:sync:error', (error: any) => {
+    this.serverListeners.on('time:sync:error', (error) => {
       console.error('❌ TimeSync: Server sync error:', error);
     });
     
     // Clear interval on disconnect
-    this.socket.on('disconnect', () => {
+    this.listen('disconnect', () => {
       console.log('⏰ TimeSync: Socket disconnected, clearing sync interval');
       if (this.syncInterval) {
         clearInterval(this.syncInterval);
@@ -81,6 +77,36 @@ export class TimeSync {
     });
   }
   
+  private listen(event: string, listener: () => void): void {
+    this.socket.on(event, listener);
+    this.connectionListeners.push({ event, listener });
+  }
+  
+  private handleSyncResponse(data: TimeSyncResponsePayload): void {
+    const now = Date.now();
+    const rtt = now - data.clientTime; // Round trip time
+    this.recordRoundTrip(rtt);
+    
+    // Probes only measure the link - the offset keeps its own schedule
+    if (this.pendingProbes.delete(data.clientTime)) return;
+    
+    const serverTime = data.serverTime + Math.floor(rtt / 2); // Estimate current server time
+    const newOffset = serverTime - now;
+    
+    // If this is first sync or offset changed significantly, update it
+    if (this.syncAttempts === 0 || Math.abs(newOffset - this.timeOffset) > 100) {
+      this.timeOffset = newOffset;
+      console.log(`⏰ TimeSync: Synchronized! Offset: ${this.timeOffset}ms, RTT: ${rtt}ms`);
+    } else {
+      // Small adjustments - use weighted average to smooth
+      this.timeOffset = Math.floor(this.timeOffset * 0.8 + newOffset * 0.2);
+      console.log(`⏰ TimeSync: Adjusted offset to ${this.timeOffset}ms (RTT: ${rtt}ms)`);
+    }
+    
+    this.lastSyncTime = now;
+    this.syncAttempts++;
+  }
+  
   private performSync(): void {
     if (!this.socket?.connected || this.isDestroyed) {
       console.warn('⏰ TimeSync: Cannot sync - socket not connected or destroyed');
@@ -92,6 +118,42 @@ export class TimeSync {
     console.log('⏰ TimeSync: Requesting time sync from server');
   }
   
+  /**
+   * Measure one round trip without touching the clock offset
+   */
+  probe(): void {
+    if (!this.socket?.connected || this.isDestroyed) return;
+    
+    const now = Date.now();
+    this.pendingProbes.forEach((sentAt, clientTime) => {
+      if (now - sentAt > PROBE_TIMEOUT_MS) this.pendingProbes.delete(clientTime);
+    });
+    this.pendingProbes.set(now, now);
+    this.socket.emit('time:sync', now);
+  }
+  
+  private recordRoundTrip(rtt: number): void {
+    const previous = this.rttSamples[this.rttSamples.length - 1];
+    if (previous !== undefined) {
+      this.jitter += (Math.abs(rtt - previous) - this.jitter) / 16;
+    }
+    this.rttSamples.push(rtt);
+    if (this.rttSamples.length > RTT_HISTORY) {
+      this.rttSamples.shift();
+    }
+  }
+  
+  /**
+   * Latest round trip in ms (null until the first one)
+   */
+  getLastRtt(): number | null {
+    return this.rttSamples.length > 0 ? this.rttSamples[this.rttSamples.length - 1] : null;
+  }
+  
+  getJitter(): number {
+    return this.jitter;
+  }
+  
   /**
    * Get the current server time (client time + offset)
    */
@@ -141,11 +203,11 @@ export class TimeSync {
     }
     
     // Remove listeners if socket still exists
+    this.serverListeners?.removeAll();
+    this.serverListeners = null;
     if (this.socket) {
-      this.socket.off('connect');
-      this.socket.off('disconnect');
-      this.socket.off('time:sync:response');
-      this.socket.off('time:sync:error');
+      this.connectionListeners.forEach(({ event, listener }) => this.socket.off(event, listener));
     }
+    this.connectionListeners = [];
   }
 }
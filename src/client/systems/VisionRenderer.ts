@@ -1,6 +1,7 @@
 import { GAME_CONFIG } from '../../../shared/constants/index';
 import { VISION_CONSTANTS, TileVision, PolygonVision, Vector2 } from '../../../shared/types/index';
 import { indexToPixel, groupTilesIntoRectangles, pixelToIndex } from '../utils/visionHelpers';
+import { graphicsQuality } from './GraphicsQuality';
 
 export class VisionRenderer {
   private scene: Phaser.Scene;
@@ -10,6 +11,8 @@ export class VisionRenderer {
   private lastVisibleTiles: Set<number> = new Set();
   private lastPolygon: Vector2[] | null = null;
   private visionGraphics: Phaser.GameObjects.Graphics;
+  private desaturationEnabled: boolean = true; // Off at low quality - the fog alone still shows what's hidden
+  private unwatchQuality: () => void;
   
   constructor(scene: Phaser.Scene) {
     this.scene = scene;
@@ -32,6 +35,13 @@ export class VisionRenderer {
     // Fill with initial fog and desaturation
     this.fogLayer.fill(0x000000, 0.45); // More transparent fog for better visibility
     this.desaturationLayer.fill(0x606060, 0.35); // Lighter desaturation effect
+    
+    // Turned back on, the layer is redrawn with the next vision update
+    this.unwatchQuality = graphicsQuality.watchInScene(scene, preset => {
+      this.desaturationEnabled = preset.desaturation;
+      this.desaturationLayer.setVisible(preset.desaturation);
+      if (!preset.desaturation) this.desaturationLayer.clear();
+    });
   }
   
   // Main update method that handles both polygon and tile-based vision
@@ -81,6 +91,24 @@ export class VisionRenderer {
       // Polygon validation complete
     }
     
+    this.renderFogOutside([visionData.polygon]);
+  }
+
+  // Shared vision (a whole team, for spectators) - clear wherever any member can see
+  updateSharedVision(polygons: Vector2[][]): void {
+    this.lastPolygon = polygons[0] || null;
+    this.renderFogOutside(polygons.filter(polygon => polygon.length >= 3));
+  }
+
+  // Remove fog entirely (spectator full-map view)
+  clearFog(): void {
+    this.lastPolygon = null;
+    this.fogLayer.clear();
+    this.desaturationLayer.clear();
+  }
+
+  // Fog and desaturate everything outside the union of the given polygons
+  private renderFogOutside(polygons: Vector2[][]): void {
     // Clear both layers
     this.fogLayer.clear();
     this.desaturationLayer.clear();
@@ -99,16 +127,18 @@ export class VisionRenderer {
     const maskGraphics = this.scene.make.graphics({ x: 0, y: 0 }, false);
     maskGraphics.fillStyle(0xffffff, 1);
     
-    // Draw the visibility polygon
-    maskGraphics.beginPath();
-    maskGraphics.moveTo(visionData.polygon[0].x, visionData.polygon[0].y);
-    
-    for (let i = 1; i < visionData.polygon.length; i++) {
-      maskGraphics.lineTo(visionData.polygon[i].x, visionData.polygon[i].y);
-    }
-    
-    maskGraphics.closePath();
-    maskGraphics.fillPath();
+    // Draw the visibility polygons
+    polygons.forEach(polygon => {
+      maskGraphics.beginPath();
+      maskGraphics.moveTo(polygon[0].x, polygon[0].y);
+      
+      for (let i = 1; i < polygon.length; i++) {
+        maskGraphics.lineTo(polygon[i].x, polygon[i].y);
+      }
+      
+      maskGraphics.closePath();
+      maskGraphics.fillPath();
+    });
     
     // Apply mask to both fog and desaturation (inverted so polygon area is clear)
     const fogMask = maskGraphics.createGeometryMask();
@@ -121,7 +151,9 @@ export class VisionRenderer {
     
     // Draw the masked effects to render textures
     this.fogLayer.draw(fogGraphics);
-    this.desaturationLayer.draw(desatGraphics);
+    if (this.desaturationEnabled) {
+      this.desaturationLayer.draw(desatGraphics);
+    }
     
     // Clean up
     fogGraphics.destroy();
@@ -163,12 +195,16 @@ export class VisionRenderer {
       // Draw effects for this non-visible tile
       const pixelPos = indexToPixel(tileIndex);
       fogGraphics.fillRect(pixelPos.x, pixelPos.y, VISION_CONSTANTS.TILE_SIZE, VISION_CONSTANTS.TILE_SIZE);
-      desatGraphics.fillRect(pixelPos.x, pixelPos.y, VISION_CONSTANTS.TILE_SIZE, VISION_CONSTANTS.TILE_SIZE);
+      if (this.desaturationEnabled) {
+        desatGraphics.fillRect(pixelPos.x, pixelPos.y, VISION_CONSTANTS.TILE_SIZE, VISION_CONSTANTS.TILE_SIZE);
+      }
     }
     
     // Draw the graphics to the render textures
     this.fogLayer.draw(fogGraphics);
-    this.desaturationLayer.draw(desatGraphics);
+    if (this.desaturationEnabled) {
+      this.desaturationLayer.draw(desatGraphics);
+    }
     
     // Clean up
     fogGraphics.destroy();
@@ -383,6 +419,7 @@ export class VisionRenderer {
   }
 
   destroy(): void {
+    this.unwatchQuality();
     this.fogLayer.destroy();
     this.desaturationLayer.destroy();
     if (this.visionDebugGraphics) {
@@ -1,6 +1,19 @@
 import { IGameSystem } from '../../../shared/interfaces/IGameSystem';
 import { AssetManager } from '../utils/AssetManager';
 import { GAME_CONFIG } from '../../../shared/constants/index';
+import { ShotPredictor } from './ShotPredictor';
+import { settingsStore } from './SettingsStore';
+import { graphicsQuality } from './GraphicsQuality';
+import {
+  WeaponFiredPayload,
+  WeaponHitPayload,
+  WeaponMissPayload,
+  WallDamagedPayload,
+  ProjectileCreatedPayload,
+  ProjectileUpdatedPayload,
+  ProjectileExplodedPayload,
+  ExplosionCreatedPayload
+} from '../../../shared/protocol/index';
 
 interface BulletTrail {
   line: Phaser.GameObjects.Graphics;
@@ -32,6 +45,9 @@ interface Projectile {
   flashEffect?: Phaser.GameObjects.Rectangle; // For flashbang screen effect
 }
 
+// Brightest a flash overlay gets with accessibility.reduceFlashes on
+export const REDUCED_FLASH_ALPHA = 0.4;
+
 interface PendingShot {
   sequence: number;
   weaponType: string;
@@ -66,10 +82,27 @@ export class VisualEffectsSystem implements IGameSystem {
   private bulletTrails: BulletTrail[] = [];
   private projectiles: Map<string, Projectile> = new Map();
   private pendingShots: Map<string, PendingShot> = new Map(); // Track shots waiting for backend response
+  private shotPredictor: ShotPredictor | null = null;
+  private effectsDetail: number = 1;
+  private trailLifetimeScale: number = 1;
+  private maxParticles: number = 500;
+  private unwatchQuality: () => void;
 
   constructor(scene: Phaser.Scene) {
     this.scene = scene;
     this.assetManager = new AssetManager(scene);
+    this.unwatchQuality = graphicsQuality.watchInScene(scene, preset => {
+      this.effectsDetail = preset.particleScale;
+      this.trailLifetimeScale = preset.trailLifetimeScale;
+      this.maxParticles = preset.maxParticles;
+    });
+  }
+
+  /**
+   * Local shots already shown by prediction skip their backend hit effects
+   */
+  setShotPredictor(shotPredictor: ShotPredictor | null): void {
+    this.shotPredictor = shotPredictor;
   }
 
   initialize(): void {
@@ -161,6 +194,7 @@ export class VisualEffectsSystem implements IGameSystem {
     // CRITICAL: Remove event listeners first to stop receiving events
     this.removeBackendEventListeners();
     this.removeLocalEventListeners();
+    this.unwatchQuality();
     
     this.muzzleFlashes.forEach(flash => flash.sprite.destroy()); // Destroy sprite
     this.muzzleFlashes = [];
@@ -200,7 +234,7 @@ export class VisualEffectsSystem implements IGameSystem {
 
   private setupBackendEventListeners(): void {
     // Listen for weapon events from backend
-    this.scene.events.on('backend:weapon:fired', (data: any) => {
+    this.scene.events.on('backend:weapon:fired', (data: WeaponFiredPayload) => {
       const socket = (this.scene as any).networkSystem?.getSocket();
       const localPlayerId = socket?.id;
       
@@ -216,7 +250,7 @@ export class VisualEffectsSystem implements IGameSystem {
             for (let pelletIndex = 0; pelletIndex < 8; pelletIndex++) {
               const pendingKey = `${data.playerId}_${data.weaponType}_pellet_${pelletIndex}`;
               this.pendingShots.set(pendingKey, {
-                sequence: data.sequence,
+                sequence: data.sequence ?? 0,
                 weaponType: data.weaponType,
                 startPosition: { ...data.position },
                 timestamp: data.timestamp || Date.now(),
@@ -238,7 +272,7 @@ export class VisualEffectsSystem implements IGameSystem {
             // Regular weapons - use sequence number to handle multiple shots
             const pendingKey = `${data.playerId}_${data.weaponType}_${data.sequence || Date.now()}`;
             this.pendingShots.set(pendingKey, {
-              sequence: data.sequence,
+              sequence: data.sequence ?? 0,
               weaponType: data.weaponType,
               startPosition: { ...data.position },
               timestamp: data.timestamp || Date.now()
@@ -257,12 +291,19 @@ export class VisualEffectsSystem implements IGameSystem {
       }
     });
 
-    this.scene.events.on('backend:weapon:hit', (data: any) => {
+    this.scene.events.on('backend:weapon:hit', (data: WeaponHitPayload) => {
+      const predicted = this.shotPredictor?.resolve('player', data) ?? false;
       
       if (data.position) {
-        this.showHitMarker(data.position, data.playerId);
+        if (!predicted) {
+          this.showHitMarker(data.position, data.playerId);
+          // Blood only for our own hits - the same effect prediction shows
+          if (data.targetId && data.startPosition && this.shotPredictor?.isLocalShot(data)) {
+            this.showBloodEffect(data.position, Math.atan2(data.position.y - data.startPosition.y, data.position.x - data.startPosition.x));
+          }
+        }
         
-        let pendingShot: any = null;
+        let pendingShot: PendingShot | undefined;
         let pendingKey = '';
         
         // Special handling for shotgun - find any available pellet
@@ -323,9 +364,11 @@ export class VisualEffectsSystem implements IGameSystem {
       }
     });
 
-    this.scene.events.on('backend:weapon:miss', (data: any) => {
+    this.scene.events.on('backend:weapon:miss', (data: WeaponMissPayload) => {
+      // Predicted misses show nothing up front, so the impact below is always wanted
+      this.shotPredictor?.resolve('miss', data);
       
-      let pendingShot: any = null;
+      let pendingShot: PendingShot | undefined;
       let pendingKey = '';
       
       // Special handling for shotgun - find any available pellet
@@ -396,18 +439,20 @@ export class VisualEffectsSystem implements IGameSystem {
       }
     });
 
-    this.scene.events.on('backend:wall:damaged', (data: any) => {
+    this.scene.events.on('backend:wall:damaged', (data: WallDamagedPayload) => {
       // console.log('[VisualEffects] backend:wall:damaged received:', data);
       
       if (data.position) {
         // console.log('[VisualEffects] Creating wall damage particles at:', data.position);
-        this.showWallDamageEffect(data.position, data.material || 'concrete');
-        this.showHitMarker(data.position, data.playerId);
+        if (!this.shotPredictor?.resolve('wall', data)) {
+          this.showWallDamageEffect(data.position, data.material || 'concrete');
+          this.showHitMarker(data.position, data.playerId);
+        }
         
         // Show trail to actual wall hit position
         if (data.playerId) {
           
-          let pendingShot: any = null;
+          let pendingShot: PendingShot | undefined;
           let pendingKey = '';
           
           // Special handling for shotgun - find any available pellet
@@ -462,11 +507,11 @@ export class VisualEffectsSystem implements IGameSystem {
     });
 
     // Handle projectile creation and updates
-    this.scene.events.on('backend:projectile:created', (data: any) => {
+    this.scene.events.on('backend:projectile:created', (data: ProjectileCreatedPayload) => {
       this.createProjectile(data);
     });
 
-    this.scene.events.on('backend:projectile:updated', (data: any) => {
+    this.scene.events.on('backend:projectile:updated', (data: ProjectileUpdatedPayload) => {
       // Keep warning for debugging - shows backend is sending updates without create
       if (!this.projectiles.has(data.id)) {
         console.warn('⚠️ Projectile update for unknown projectile:', data.id);
@@ -474,11 +519,11 @@ export class VisualEffectsSystem implements IGameSystem {
       this.updateProjectilePosition(data.id, data.position);
     });
 
-    this.scene.events.on('backend:projectile:exploded', (data: any) => {
+    this.scene.events.on('backend:projectile:exploded', (data: ProjectileExplodedPayload) => {
       this.handleProjectileExplosion(data.id, data.position, data.radius);
     });
 
-    this.scene.events.on('backend:explosion:created', (data: any) => {
+    this.scene.events.on('backend:explosion:created', (data: ExplosionCreatedPayload) => {
       // Show authoritative explosion (overrides client prediction)
       this.showExplosionEffect(data.position, data.radius);
       
@@ -628,6 +673,11 @@ export class VisualEffectsSystem implements IGameSystem {
     // Clear the canvas
     this.particleCanvas.clear();
     
+    // Over the quality tier's cap the oldest debris goes first
+    if (this.particleData.length > this.maxParticles) {
+      this.particleData.splice(0, this.particleData.length - this.maxParticles);
+    }
+    
     // Update and redraw all particles
     for (let i = this.particleData.length - 1; i >= 0; i--) {
       const particle = this.particleData[i];
@@ -668,7 +718,7 @@ export class VisualEffectsSystem implements IGameSystem {
     }
   }
 
-  showHitMarker(position: { x: number; y: number }, playerId?: string): void {
+  showHitMarker(position: { x: number; y: number }, playerId?: string): number | null {
     // Check if we should show this hit marker based on visibility
     if (playerId) {
       const socket = (this.scene as any).networkSystem?.getSocket();
@@ -683,7 +733,7 @@ export class VisualEffectsSystem implements IGameSystem {
         // Check if the hit position is visible
         if (visionRenderer && !visionRenderer.isVisible(position.x, position.y)) {
           // Hit position is not visible, don't show the marker
-          return;
+          return null;
         }
       }
     }
@@ -697,6 +747,41 @@ export class VisualEffectsSystem implements IGameSystem {
     });
     
     // console.log(`[HITMARKER] Created hitmarker ID ${this.hitMarkerIdCounter} at (${position.x}, ${position.y}), total: ${this.hitMarkerData.length}`);
+    return this.hitMarkerIdCounter;
+  }
+
+  removeHitMarker(id: number): void {
+    this.hitMarkerData = this.hitMarkerData.filter(marker => marker.id !== id);
+  }
+
+  removeParticles(ids: number[]): void {
+    if (ids.length === 0) return;
+    const removed = new Set(ids);
+    this.particleData = this.particleData.filter(particle => !removed.has(particle.id));
+  }
+
+  /**
+   * Red spray thrown forward from where a shot hit a player
+   */
+  showBloodEffect(position: { x: number; y: number }, direction: number): number[] {
+    const ids: number[] = [];
+    const colors = [0xaa0000, 0xcc1111, 0x880000];
+    
+    for (let i = 0; i < this.scaleParticles(6); i++) {
+      const spread = direction + (Math.random() - 0.5) * 1.2;
+      const distance = 2 + Math.random() * 6;
+      this.particleData.push({
+        x: position.x + Math.cos(spread) * distance,
+        y: position.y + Math.sin(spread) * distance,
+        color: colors[Math.floor(Math.random() * colors.length)],
+        size: Math.random() < 0.5 ? 1 : 2,
+        frameCount: 0,
+        id: ++this.particleIdCounter
+      });
+      ids.push(this.particleIdCounter);
+    }
+    
+    return ids;
   }
 
   showImpactEffect(position: { x: number; y: number }, direction: number): void {
@@ -722,9 +807,10 @@ export class VisualEffectsSystem implements IGameSystem {
     
   }
 
-  showWallDamageEffect(position: { x: number; y: number }, material: string = 'concrete'): void {
+  showWallDamageEffect(position: { x: number; y: number }, material: string = 'concrete'): number[] {
     // Create debris particles
-    const debrisCount = 8;
+    const ids: number[] = [];
+    const debrisCount = this.scaleParticles(8);
     const colors = this.getDebrisColors(material);
     
     for (let i = 0; i < debrisCount; i++) {
@@ -741,7 +827,10 @@ export class VisualEffectsSystem implements IGameSystem {
         frameCount: 0,
         id: ++this.particleIdCounter
       });
+      ids.push(this.particleIdCounter);
     }
+    
+    return ids;
   }
 
   showExplosionEffect(position: { x: number; y: number }, radius: number): void {
@@ -764,7 +853,7 @@ export class VisualEffectsSystem implements IGameSystem {
     });
     
     // Add some particle debris for extra impact
-    const particleCount = Math.min(12, Math.floor(radius / 3));
+    const particleCount = this.scaleParticles(Math.min(12, Math.floor(radius / 3)));
     
     for (let i = 0; i < particleCount; i++) {
       // Position in circle around explosion center
@@ -790,6 +879,13 @@ export class VisualEffectsSystem implements IGameSystem {
 
   }
 
+  /**
+   * Particle count for an effect at the current quality - never scaled down to none
+   */
+  private scaleParticles(count: number): number {
+    return count > 0 ? Math.max(1, Math.round(count * this.effectsDetail)) : 0;
+  }
+
   private getDebrisColors(material: string): number[] {
     switch (material) {
       case 'concrete':
@@ -983,14 +1079,15 @@ export class VisualEffectsSystem implements IGameSystem {
     });
     
     // Add swirling smoke particles for effect
-    for (let i = 0; i < 8; i++) {
+    const swirlCount = this.scaleParticles(8);
+    for (let i = 0; i < swirlCount; i++) {
       const particle = this.scene.add.graphics();
       particle.setDepth(44);
       particle.fillStyle(0xDDDDDD, 0.5);
       particle.fillCircle(0, 0, 3);
       
       // Random position within initial area
-      const angle = (Math.PI * 2 * i) / 8;
+      const angle = (Math.PI * 2 * i) / swirlCount;
       const distance = 10 + Math.random() * 10;
       particle.x = position.x + Math.cos(angle) * distance;
       particle.y = position.y + Math.sin(angle) * distance;
@@ -1042,7 +1139,7 @@ export class VisualEffectsSystem implements IGameSystem {
       
       // Intensity based on distance (closer = stronger)
       const intensity = 1 - (distance / radius);
-      flash.setAlpha(Math.min(0.95, intensity));
+      flash.setAlpha(Math.min(settingsStore.get('accessibility', 'reduceFlashes') ? REDUCED_FLASH_ALPHA : 0.95, intensity));
       
       // Quick flash then fade
       this.scene.tweens.add({
@@ -1057,17 +1154,18 @@ export class VisualEffectsSystem implements IGameSystem {
       
       // Add slight disorientation (screen shake)
       if (intensity > 0.5) {
-        this.scene.cameras.main.shake(1000 * intensity, 0.01 * intensity);
+        gameScene.screenShakeSystem?.customShake(1000 * intensity, 0.01 * intensity, 'flashbang');
       }
       
       // Show flash particles at detonation point
-      for (let i = 0; i < 6; i++) {
+      const sparkCount = this.scaleParticles(6);
+      for (let i = 0; i < sparkCount; i++) {
         const particle = this.scene.add.graphics();
         particle.setDepth(60);
         particle.fillStyle(0xFFFF00, 0.8);
         particle.fillCircle(0, 0, 2);
         
-        const angle = (Math.PI * 2 * i) / 6;
+        const angle = (Math.PI * 2 * i) / sparkCount;
         particle.x = position.x;
         particle.y = position.y;
         
@@ -1209,7 +1307,7 @@ export class VisualEffectsSystem implements IGameSystem {
     this.bulletTrails.push({
       line: trail,
       startTime: Date.now(),
-      duration: duration,
+      duration: duration * this.trailLifetimeScale,
       startAlpha: 1.0
     });
     
@@ -1265,7 +1363,7 @@ export class VisualEffectsSystem implements IGameSystem {
     this.pendingShots.clear();
   }
 
-  private createProjectile(data: any): void {
+  private createProjectile(data: ProjectileCreatedPayload): void {
     // Check if projectile already exists
     if (this.projectiles.has(data.id)) {
       return;
@@ -1273,7 +1371,7 @@ export class VisualEffectsSystem implements IGameSystem {
     
     const projectile: Projectile = {
       id: data.id,
-      type: data.type,
+      type: data.type as Projectile['type'],
       position: { x: data.position.x, y: data.position.y },
       velocity: { x: data.velocity?.x || 0, y: data.velocity?.y || 0 },
       trail: this.scene.add.graphics(),
@@ -1364,7 +1462,7 @@ export class VisualEffectsSystem implements IGameSystem {
         const now = Date.now();
         if (!projectile.lastSmokeTime || now - projectile.lastSmokeTime > 25) { // More frequent smoke
           // Add multiple smoke particles for denser trail
-          for (let i = 0; i < 2; i++) {
+          for (let i = 0; i < this.scaleParticles(2); i++) {
             this.addRocketSmokeParticle(toPos);
           }
           projectile.lastSmokeTime = now;
@@ -0,0 +1,255 @@
+import { GAME_CONFIG } from '../../../shared/constants/index';
+import {
+  keyBindings,
+  InputAction,
+  InputBinding,
+  INPUT_ACTIONS,
+  ACTION_LABELS,
+  MAX_BINDINGS_PER_ACTION,
+  describeBinding
+} from '../systems/KeyBindings';
+
+/**
+ * Controls screen - rebind every input action to keys or mouse buttons
+ *
+ * Click a binding, then press the new key or mouse button. ESC cancels,
+ * BACKSPACE clears the slot. Taking a binding another action uses swaps the
+ * two, so nothing is silently left doing double duty. Changes save instantly.
+ */
+
+const ROWS_PER_COLUMN = 8;
+const ROW_HEIGHT = 19;
+const COLUMN_WIDTH = 210;
+const SLOT_WIDTH = 54;
+
+const BUTTON_STYLE = {
+  fontSize: '8px',
+  color: '#ffffff',
+  backgroundColor: '#333333',
+  padding: { x: 4, y: 3 },
+  fontFamily: 'monospace',
+  fixedWidth: SLOT_WIDTH,
+  align: 'center'
+};
+
+interface PendingRebind {
+  action: InputAction;
+  slot: number;
+  button: Phaser.GameObjects.Text;
+}
+
+export class ControlsPanel {
+  private scene: Phaser.Scene;
+  private container: Phaser.GameObjects.Container;
+  private overlay: Phaser.GameObjects.Rectangle;
+  private slotButtons: Map<string, Phaser.GameObjects.Text> = new Map();
+  private statusText: Phaser.GameObjects.Text;
+  private pending: PendingRebind | null = null;
+  // downTime of the click that was captured as a binding - its pointerup must not press a button
+  private capturedDownTime = -1;
+  private onClose?: () => void;
+
+  constructor(scene: Phaser.Scene, onClose?: () => void) {
+    this.scene = scene;
+    this.onClose = onClose;
+
+    // Right-click has to reach the game to be bound
+    this.scene.input.mouse?.disableContextMenu();
+
+    // Swallows clicks meant for whatever is underneath
+    this.overlay = this.scene.add.rectangle(0, 0, GAME_CONFIG.GAME_WIDTH, GAME_CONFIG.GAME_HEIGHT, 0x000000, 0.85);
+    this.overlay.setOrigin(0, 0).setDepth(1100).setInteractive();
+
+    this.container = this.scene.add.container(GAME_CONFIG.GAME_WIDTH / 2, GAME_CONFIG.GAME_HEIGHT / 2);
+    this.container.setDepth(1101);
+
+    const panelBg = this.scene.add.graphics();
+    panelBg.fillStyle(0x222222);
+    panelBg.lineStyle(2, 0x444444);
+    panelBg.fillRect(-225, -128, 450, 256);
+    panelBg.strokeRect(-225, -128, 450, 256);
+
+    const title = this.scene.add.text(0, -114, 'CONTROLS', {
+      fontSize: '14px',
+      color: '#00ff00',
+      fontStyle: 'bold',
+      fontFamily: 'monospace'
+    }).setOrigin(0.5);
+
+    this.statusText = this.scene.add.text(0, 72, 'Click a binding to change it', {
+      fontSize: '8px',
+      color: '#aaaaaa',
+      fontFamily: 'monospace'
+    }).setOrigin(0.5);
+
+    this.container.add([panelBg, title, this.statusText]);
+
+    INPUT_ACTIONS.forEach((action, index) => this.createRow(action, index));
+
+    const resetButton = this.createButton(-60, 100, 'RESET DEFAULTS', '#663300', '#884400', () => {
+      this.cancelRebind();
+      keyBindings.resetToDefaults();
+      this.refresh();
+      this.setStatus('Controls reset to defaults', '#00ff00');
+    });
+
+    const backButton = this.createButton(60, 100, 'BACK', '#666666', '#888888', () => this.close());
+
+    this.container.add([resetButton, backButton]);
+    this.refresh();
+  }
+
+  getContainer(): Phaser.GameObjects.Container {
+    return this.container;
+  }
+
+  close(): void {
+    this.cancelRebind();
+    this.overlay.destroy();
+    this.container.destroy();
+    this.onClose?.();
+  }
+
+  private createRow(action: InputAction, index: number): void {
+    const column = Math.floor(index / ROWS_PER_COLUMN);
+    const x = -215 + column * (COLUMN_WIDTH + 10);
+    const y = -94 + (index % ROWS_PER_COLUMN) * ROW_HEIGHT;
+
+    const label = this.scene.add.text(x, y + 3, ACTION_LABELS[action], {
+      fontSize: '9px',
+      color: '#ffffff',
+      fontFamily: 'monospace'
+    });
+    this.container.add(label);
+
+    for (let slot = 0; slot < MAX_BINDINGS_PER_ACTION; slot++) {
+      const button = this.scene.add.text(x + COLUMN_WIDTH - (MAX_BINDINGS_PER_ACTION - slot) * (SLOT_WIDTH + 4), y, '', BUTTON_STYLE);
+      button.setInteractive({ useHandCursor: true });
+      button.on('pointerover', () => {
+        if (this.pending?.button !== button) button.setStyle({ backgroundColor: '#555555' });
+      });
+      button.on('pointerout', () => {
+        if (this.pending?.button !== button) button.setStyle({ backgroundColor: '#333333' });
+      });
+      // Listen from pointerup so the click that opened the rebind isn't captured as the binding
+      button.on('pointerup', (pointer: Phaser.Input.Pointer) => {
+        if (!this.isCapturedClick(pointer)) this.beginRebind(action, slot, button);
+      });
+
+      this.slotButtons.set(`${action}:${slot}`, button);
+      this.container.add(button);
+    }
+  }
+
+  private createButton(x: number, y: number, text: string, color: string, hoverColor: string, callback: () => void): Phaser.GameObjects.Text {
+    const button = this.scene.add.text(x, y, text, {
+      fontSize: '10px',
+      color: '#ffffff',
+      backgroundColor: color,
+      padding: { x: 10, y: 5 },
+      fontFamily: 'monospace'
+    }).setOrigin(0.5);
+
+    button.setInteractive({ useHandCursor: true });
+    button.on('pointerover', () => button.setStyle({ backgroundColor: hoverColor }));
+    button.on('pointerout', () => button.setStyle({ backgroundColor: color }));
+    button.on('pointerup', (pointer: Phaser.Input.Pointer) => {
+      if (!this.isCapturedClick(pointer)) callback();
+    });
+    return button;
+  }
+
+  private isCapturedClick(pointer: Phaser.Input.Pointer): boolean {
+    return pointer.downTime === this.capturedDownTime;
+  }
+
+  private refresh(): void {
+    INPUT_ACTIONS.forEach(action => {
+      const bindings = keyBindings.getBindings(action);
+      for (let slot = 0; slot < MAX_BINDINGS_PER_ACTION; slot++) {
+        const button = this.slotButtons.get(`${action}:${slot}`);
+        if (!button) continue;
+        button.setText(describeBinding(bindings[slot]));
+        button.setStyle({ backgroundColor: '#333333', color: bindings[slot] ? '#ffffff' : '#666666' });
+      }
+    });
+  }
+
+  private beginRebind(action: InputAction, slot: number, button: Phaser.GameObjects.Text): void {
+    if (this.pending) {
+      this.cancelRebind();
+    }
+
+    // Second slot only after the first is filled - keeps slots contiguous
+    const bindings = keyBindings.getBindings(action);
+    const target = Math.min(slot, bindings.length);
+    const targetButton = this.slotButtons.get(`${action}:${target}`) || button;
+
+    this.pending = { action, slot: target, button: targetButton };
+    targetButton.setText('PRESS...');
+    targetButton.setStyle({ backgroundColor: '#006600', color: '#ffffff' });
+    this.setStatus(`${ACTION_LABELS[action]}: press a key or mouse button (ESC cancel, BACKSPACE clear)`, '#ffff00');
+
+    this.scene.input.keyboard?.on('keydown', this.handleKeyCapture, this);
+    this.scene.input.on('pointerdown', this.handlePointerCapture, this);
+  }
+
+  private handleKeyCapture(event: KeyboardEvent): void {
+    if (!this.pending) return;
+    event.preventDefault();
+
+    const { action, slot } = this.pending;
+    if (event.keyCode === Phaser.Input.Keyboard.KeyCodes.ESC) {
+      this.cancelRebind();
+      this.setStatus('Rebind cancelled', '#aaaaaa');
+      return;
+    }
+    if (event.keyCode === Phaser.Input.Keyboard.KeyCodes.BACKSPACE || event.keyCode === Phaser.Input.Keyboard.KeyCodes.DELETE) {
+      this.cancelRebind();
+      keyBindings.unbind(action, slot);
+      this.refresh();
+      this.setStatus(`${ACTION_LABELS[action]} binding cleared`, '#aaaaaa');
+      return;
+    }
+
+    this.applyRebind({ device: 'keyboard', code: event.keyCode });
+  }
+
+  private handlePointerCapture(pointer: Phaser.Input.Pointer): void {
+    if (!this.pending) return;
+    this.capturedDownTime = pointer.downTime;
+    this.applyRebind({ device: 'mouse', code: pointer.button });
+  }
+
+  private applyRebind(binding: InputBinding): void {
+    if (!this.pending) return;
+    const { action, slot } = this.pending;
+    this.cancelRebind();
+
+    const swapped = keyBindings.bind(action, slot, binding);
+    this.refresh();
+
+    if (swapped) {
+      const remaining = keyBindings.getBindings(swapped);
+      const note = remaining.length > 0 ? 'swapped bindings' : 'now unbound';
+      this.setStatus(`${describeBinding(binding)} was on ${ACTION_LABELS[swapped]} - ${note}`, '#ffaa00');
+    } else {
+      this.setStatus(`${ACTION_LABELS[action]} bound to ${describeBinding(binding)}`, '#00ff00');
+    }
+  }
+
+  private cancelRebind(): void {
+    this.scene.input.keyboard?.off('keydown', this.handleKeyCapture, this);
+    this.scene.input.off('pointerdown', this.handlePointerCapture, this);
+
+    if (this.pending) {
+      this.pending = null;
+      this.refresh();
+    }
+  }
+
+  private setStatus(text: string, color: string): void {
+    this.statusText.setText(text);
+    this.statusText.setColor(color);
+  }
+}
@@ -1,15 +1,19 @@
 import * as Phaser from 'phaser';
 import { LobbyStateManager } from '../systems/LobbyStateManager';
+import { networkConditioner } from '../systems/NetworkConditioner';
 
 /**
  * Debug overlay to visualize lobby synchronization state
  * Shows real-time lobby information and socket events
+ * F10 cycles the network simulator profile while the overlay is open
  */
 export class DebugOverlay {
   private scene: Phaser.Scene;
   private container: Phaser.GameObjects.Container;
   private lobbyText: Phaser.GameObjects.Text;
   private eventLog: Phaser.GameObjects.Text;
+  private netSimText: Phaser.GameObjects.Text;
+  private netSimTimer?: Phaser.Time.TimerEvent;
   private events: string[] = [];
   private maxEvents = 10;
   private unsubscribe?: () => void;
@@ -19,7 +23,7 @@ export class DebugOverlay {
     this.container = this.scene.add.container(10, 10);
     
     // Background
-    const bg = this.scene.add.rectangle(0, 0, 300, 200, 0x000000, 0.8);
+    const bg = this.scene.add.rectangle(0, 0, 300, 250, 0x000000, 0.8);
     bg.setOrigin(0, 0);
     this.container.add(bg);
 
@@ -31,8 +35,16 @@ export class DebugOverlay {
     });
     this.container.add(title);
 
+    // Network simulator profile and what it has done to traffic so far
+    this.netSimText = this.scene.add.text(10, 28, '', {
+      fontSize: '9px',
+      color: '#00ffff',
+      fontFamily: 'monospace'
+    });
+    this.container.add(this.netSimText);
+
     // Lobby state display
-    this.lobbyText = this.scene.add.text(10, 35, 'Lobby: Not connected', {
+    this.lobbyText = this.scene.add.text(10, 62, 'Lobby: Not connected', {
       fontSize: '12px',
       color: '#ffffff',
       fontFamily: 'monospace'
@@ -40,7 +52,7 @@ export class DebugOverlay {
     this.container.add(this.lobbyText);
 
     // Event log
-    this.eventLog = this.scene.add.text(10, 100, 'Events:', {
+    this.eventLog = this.scene.add.text(10, 125, 'Events:', {
       fontSize: '10px',
       color: '#ffff00',
       fontFamily: 'monospace'
@@ -61,6 +73,21 @@ export class DebugOverlay {
       this.container.setVisible(!this.container.visible);
     });
 
+    this.scene.input.keyboard?.on('keydown-F10', () => {
+      if (!this.container.visible) return;
+      networkConditioner.cycleProfile();
+      this.updateNetSim();
+    });
+
+    this.updateNetSim();
+    this.netSimTimer = this.scene.time.addEvent({
+      delay: 500,
+      loop: true,
+      callback: () => {
+        if (this.container.visible) this.updateNetSim();
+      }
+    });
+
     // Start hidden
     this.container.setVisible(false);
   }
@@ -103,6 +130,17 @@ export class DebugOverlay {
     });
   }
 
+  private updateNetSim(): void {
+    const profile = networkConditioner.getProfile();
+    const stats = networkConditioner.getStats();
+    const counters = (label: string, s: typeof stats.inbound) =>
+      `${label} ok:${s.passed + s.delayed} drop:${s.dropped} dup:${s.duplicated} reord:${s.reordered}`;
+
+    this.netSimText.setText(networkConditioner.isActive()
+      ? [`NetSim: ${profile.label} (F10)`, counters('In ', stats.inbound), counters('Out', stats.outbound)].join('\n')
+      : 'NetSim: Off (F10)');
+  }
+
   private addEvent(event: string): void {
     const timestamp = new Date().toLocaleTimeString();
     this.events.unshift(`${timestamp} - ${event}`);
@@ -120,6 +158,7 @@ export class DebugOverlay {
     if (this.unsubscribe) {
       this.unsubscribe();
     }
+    this.netSimTimer?.remove();
     this.container.destroy();
   }
 
@@ -0,0 +1,83 @@
+import { Vector2 } from '../../../shared/types/index';
+import type { FootstepHeard } from '../systems/FootstepSystem';
+import { settingsStore } from '../systems/SettingsStore';
+
+/**
+ * FootstepIndicator - Faint arcs around the local player pointing at enemy
+ * footsteps that were heard but not seen
+ *
+ * Each step leaves a short arc on a ring around the player, brighter the
+ * louder it was heard, that fades out over a second. Steps from the same
+ * player replace their previous arc instead of stacking.
+ */
+
+const RING_RADIUS = 20;
+const ARC_SPAN = 0.5; // Radians
+const FADE_MS = 1000;
+const MAX_ALPHA = 0.7;
+const COLOR = 0xffcc66;
+
+interface Marker {
+  angle: number;
+  strength: number;
+  heardAt: number;
+}
+
+export class FootstepIndicator {
+  private scene: Phaser.Scene;
+  private getListenerPosition: () => Vector2 | null;
+  private graphics: Phaser.GameObjects.Graphics;
+  private markers: Map<string, Marker> = new Map();
+
+  constructor(scene: Phaser.Scene, getListenerPosition: () => Vector2 | null) {
+    this.scene = scene;
+    this.getListenerPosition = getListenerPosition;
+
+    // Above the fog of war (90) - the whole point is what's behind it
+    this.graphics = this.scene.add.graphics();
+    this.graphics.setDepth(95);
+
+    this.scene.events.on('footstep:heard', this.handleFootstep, this);
+  }
+
+  update(): void {
+    this.graphics.clear();
+    const listener = this.getListenerPosition();
+    if (!listener || this.markers.size === 0) return;
+
+    const now = Date.now();
+    this.markers.forEach((marker, playerId) => {
+      const age = now - marker.heardAt;
+      if (age >= FADE_MS) {
+        this.markers.delete(playerId);
+        return;
+      }
+
+      // Quiet steps still need to be noticeable
+      const alpha = MAX_ALPHA * (0.4 + 0.6 * marker.strength) * (1 - age / FADE_MS);
+      this.graphics.lineStyle(2, COLOR, alpha);
+      this.graphics.beginPath();
+      this.graphics.arc(listener.x, listener.y, RING_RADIUS, marker.angle - ARC_SPAN / 2, marker.angle + ARC_SPAN / 2);
+      this.graphics.strokePath();
+    });
+  }
+
+  destroy(): void {
+    this.scene.events.off('footstep:heard', this.handleFootstep, this);
+    this.markers.clear();
+    this.graphics.destroy();
+  }
+
+  private handleFootstep(step: FootstepHeard): void {
+    if (!step.enemy || step.seen || !settingsStore.get('accessibility', 'footstepIndicator')) return;
+
+    const listener = this.getListenerPosition();
+    if (!listener) return;
+
+    this.markers.set(step.playerId, {
+      angle: Math.atan2(step.position.y - listener.y, step.position.x - listener.x),
+      strength: Phaser.Math.Clamp(step.strength, 0, 1),
+      heardAt: Date.now()
+    });
+  }
+}
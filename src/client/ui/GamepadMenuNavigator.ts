@@ -0,0 +1,167 @@
+import { getActivePad, GAMEPAD_BUTTONS } from '../systems/GamepadInput';
+
+/**
+ * D-pad navigation for pointer-driven menus
+ *
+ * Finds every visible interactive object with pointer handlers, moves a focus
+ * between them spatially with the d-pad, and replays the pointer events the
+ * buttons already listen for: focus = pointerover, A = pointerdown + pointerup.
+ * B calls the scene's back action. Modals push their container as a scope so
+ * focus stays inside them until they close.
+ */
+
+type Focusable = Phaser.GameObjects.GameObject & Phaser.GameObjects.Components.GetBounds & Phaser.GameObjects.Components.Visible;
+
+const NAV_BUTTONS = [
+  GAMEPAD_BUTTONS.UP, GAMEPAD_BUTTONS.DOWN, GAMEPAD_BUTTONS.LEFT, GAMEPAD_BUTTONS.RIGHT,
+  GAMEPAD_BUTTONS.A, GAMEPAD_BUTTONS.B
+];
+
+export class GamepadMenuNavigator {
+  private scene: Phaser.Scene;
+  private onBack?: () => void;
+  private focused: Focusable | null = null;
+  private scopes: Phaser.GameObjects.Container[] = [];
+  private buttonsDown: Set<number> = new Set();
+
+  constructor(scene: Phaser.Scene, onBack?: () => void) {
+    this.scene = scene;
+    this.onBack = onBack;
+
+    this.scene.events.on(Phaser.Scenes.Events.UPDATE, this.update, this);
+    this.scene.events.once(Phaser.Scenes.Events.SHUTDOWN, this.destroy, this);
+  }
+
+  /**
+   * Restrict focus to a modal's container until popScope (or until it is destroyed)
+   */
+  pushScope(container: Phaser.GameObjects.Container): void {
+    this.scopes.push(container);
+    this.blur();
+  }
+
+  popScope(container?: Phaser.GameObjects.Container): void {
+    this.scopes = container ? this.scopes.filter(scope => scope !== container) : this.scopes.slice(0, -1);
+    this.blur();
+  }
+
+  destroy(): void {
+    this.scene.events.off(Phaser.Scenes.Events.UPDATE, this.update, this);
+    this.scene.events.off(Phaser.Scenes.Events.SHUTDOWN, this.destroy, this);
+    this.focused = null;
+    this.scopes = [];
+  }
+
+  private update(): void {
+    const pad = getActivePad(this.scene);
+    if (!pad) return;
+
+    const pressed = new Set<number>();
+    NAV_BUTTONS.forEach(index => {
+      const isDown = pad.buttons[index]?.pressed === true;
+      if (isDown && !this.buttonsDown.has(index)) pressed.add(index);
+      if (isDown) this.buttonsDown.add(index); else this.buttonsDown.delete(index);
+    });
+    if (pressed.size === 0) return;
+
+    // Scopes whose modal closed without popping are dropped here
+    this.scopes = this.scopes.filter(scope => scope.active);
+    if (this.focused && !this.getTargets().includes(this.focused)) {
+      this.focused = null;
+    }
+
+    if (pressed.has(GAMEPAD_BUTTONS.UP)) this.move(0, -1);
+    if (pressed.has(GAMEPAD_BUTTONS.DOWN)) this.move(0, 1);
+    if (pressed.has(GAMEPAD_BUTTONS.LEFT)) this.move(-1, 0);
+    if (pressed.has(GAMEPAD_BUTTONS.RIGHT)) this.move(1, 0);
+
+    if (pressed.has(GAMEPAD_BUTTONS.A) && this.focused) {
+      const pointer = this.scene.input.activePointer;
+      this.focused.emit('pointerdown', pointer, 0, 0, { stopPropagation: () => {} });
+      this.focused?.emit('pointerup', pointer, 0, 0, { stopPropagation: () => {} });
+    }
+    if (pressed.has(GAMEPAD_BUTTONS.B) && this.scopes.length === 0) {
+      this.onBack?.();
+    }
+  }
+
+  private move(dx: number, dy: number): void {
+    const targets = this.getTargets();
+    if (targets.length === 0) return;
+
+    if (!this.focused) {
+      // First press lands on the top-left-most control
+      const first = targets.reduce((best, target) => {
+        const a = target.getBounds();
+        const b = best.getBounds();
+        return a.centerY < b.centerY - 2 || (Math.abs(a.centerY - b.centerY) <= 2 && a.centerX < b.centerX) ? target : best;
+      });
+      this.focus(first);
+      return;
+    }
+
+    const from = this.focused.getBounds();
+    let best: Focusable | null = null;
+    let bestScore = Infinity;
+
+    targets.forEach(target => {
+      if (target === this.focused) return;
+      const bounds = target.getBounds();
+      const offsetX = bounds.centerX - from.centerX;
+      const offsetY = bounds.centerY - from.centerY;
+      const along = offsetX * dx + offsetY * dy;
+      if (along <= 1) return;
+
+      // Prefer controls straight ahead over ones off to the side
+      const across = Math.abs(offsetX * dy - offsetY * dx);
+      const score = along + across * 2;
+      if (score < bestScore) {
+        bestScore = score;
+        best = target;
+      }
+    });
+
+    if (best) {
+      this.focus(best);
+    }
+  }
+
+  private focus(target: Focusable): void {
+    const pointer = this.scene.input.activePointer;
+    if (this.focused && this.focused.active) {
+      this.focused.emit('pointerout', pointer);
+    }
+    this.focused = target;
+    target.emit('pointerover', pointer, 0, 0, { stopPropagation: () => {} });
+  }
+
+  private blur(): void {
+    if (this.focused && this.focused.active) {
+      this.focused.emit('pointerout', this.scene.input.activePointer);
+    }
+    this.focused = null;
+  }
+
+  private getTargets(): Focusable[] {
+    const roots = this.scopes.length > 0 ? [this.scopes[this.scopes.length - 1]] : this.scene.children.list;
+    const targets: Focusable[] = [];
+
+    const visit = (object: Phaser.GameObjects.GameObject) => {
+      const visible = (object as Focusable).visible !== false;
+      if (!object.active || !visible) return;
+
+      if (object instanceof Phaser.GameObjects.Container) {
+        object.list.forEach(visit);
+        return;
+      }
+
+      const hasHandlers = object.listenerCount('pointerdown') + object.listenerCount('pointerup') > 0;
+      if (object.input?.enabled && hasHandlers && 'getBounds' in object) {
+        targets.push(object as Focusable);
+      }
+    };
+
+    roots.forEach(visit);
+    return targets;
+  }
+}
@@ -0,0 +1,87 @@
+import { GAME_CONFIG } from '../../../shared/constants/index';
+import { InterpolationSystem } from '../systems/InterpolationSystem';
+
+/**
+ * Debug graph of the interpolation buffer (F9)
+ *
+ * Plots snapshots-ahead-of-render-time for the last few seconds. A healthy
+ * 20Hz stream with the 100ms delay sits around 2; dips to 0 are where
+ * remote players were being extrapolated.
+ */
+
+const GRAPH_WIDTH = 120;
+const GRAPH_HEIGHT = 40;
+const MAX_DEPTH = 4; // Top of the graph
+const SAMPLE_INTERVAL_MS = 50;
+
+export class InterpolationDebugGraph {
+  private scene: Phaser.Scene;
+  private interpolation: InterpolationSystem;
+  private container: Phaser.GameObjects.Container;
+  private graph: Phaser.GameObjects.Graphics;
+  private label: Phaser.GameObjects.Text;
+  private history: number[] = [];
+  private lastSampleTime: number = 0;
+
+  constructor(scene: Phaser.Scene, interpolation: InterpolationSystem) {
+    this.scene = scene;
+    this.interpolation = interpolation;
+
+    this.container = this.scene.add.container(5, GAME_CONFIG.GAME_HEIGHT - GRAPH_HEIGHT - 30);
+    this.container.setScrollFactor(0).setDepth(10000).setVisible(false);
+
+    const background = this.scene.add.rectangle(0, 0, GRAPH_WIDTH + 6, GRAPH_HEIGHT + 24, 0x000000, 0.7).setOrigin(0, 0);
+    this.graph = this.scene.add.graphics();
+    this.label = this.scene.add.text(3, GRAPH_HEIGHT + 5, '', {
+      fontSize: '7px',
+      color: '#cccccc',
+      fontFamily: 'monospace',
+      lineSpacing: 1
+    });
+    this.container.add([background, this.graph, this.label]);
+
+    this.scene.input.keyboard?.on('keydown-F9', this.toggle, this);
+  }
+
+  toggle(): void {
+    this.container.setVisible(!this.container.visible);
+  }
+
+  update(): void {
+    const now = Date.now();
+    if (now - this.lastSampleTime < SAMPLE_INTERVAL_MS) return;
+    this.lastSampleTime = now;
+
+    const stats = this.interpolation.getStats();
+    this.history.push(stats.bufferDepth);
+    if (this.history.length > GRAPH_WIDTH / 2) {
+      this.history.shift();
+    }
+
+    if (!this.container.visible) return;
+
+    const g = this.graph;
+    g.clear();
+
+    // Reference line at one snapshot - below it there is nothing left to interpolate towards
+    const oneY = 3 + GRAPH_HEIGHT - GRAPH_HEIGHT / MAX_DEPTH;
+    g.lineStyle(1, 0x444444);
+    g.lineBetween(3, oneY, 3 + GRAPH_WIDTH, oneY);
+
+    this.history.forEach((depth, index) => {
+      const height = Math.min(depth, MAX_DEPTH) / MAX_DEPTH * GRAPH_HEIGHT;
+      g.fillStyle(depth < 1 ? 0xff4444 : depth < 1.5 ? 0xffaa00 : 0x00ff00);
+      g.fillRect(3 + index * 2, 3 + GRAPH_HEIGHT - height, 2, height);
+    });
+
+    this.label.setText([
+      `Buffer: ${stats.bufferDepth.toFixed(1)}  Ents: ${stats.entities}`,
+      `Extrap: ${stats.extrapolating}  Clock: ${stats.clockOffset}ms`
+    ].join('\n'));
+  }
+
+  destroy(): void {
+    this.scene.input.keyboard?.off('keydown-F9', this.toggle, this);
+    this.container.destroy();
+  }
+}
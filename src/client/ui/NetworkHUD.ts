@@ -0,0 +1,162 @@
+import { ConnectionQualityStats } from '../systems/ConnectionQualityMonitor';
+import { drawPingBars, getPingColor, PING_BARS_WIDTH } from './PingBars';
+import { settingsStore } from '../systems/SettingsStore';
+import { networkConditioner, DirectionStats } from '../systems/NetworkConditioner';
+
+/**
+ * NetworkHUD - Compact connection quality readout (F4)
+ *
+ * Ping, jitter, packet rates, estimated loss, server tick rate and
+ * time-sync health, with 30s sparklines of RTT and of game states received
+ * per second. Whether it is showing is the network.showNetworkHud setting.
+ * While it is showing, F10 cycles the network simulator profile and the
+ * bottom rows count what the simulator has done to traffic in each direction.
+ */
+
+const PANEL_WIDTH = 128;
+const SPARK_WIDTH = 60; // One pixel per history sample
+const SPARK_HEIGHT = 14;
+const SPARK_LEFT = 24;
+const REFRESH_MS = 250;
+
+function percentColor(loss: number): string {
+  return loss < 0.01 ? '#00ff00' : loss < 0.05 ? '#ffaa00' : '#ff4444';
+}
+
+export class NetworkHUD {
+  private scene: Phaser.Scene;
+  private source: () => ConnectionQualityStats;
+  private container: Phaser.GameObjects.Container;
+  private graphics: Phaser.GameObjects.Graphics;
+  private text: Phaser.GameObjects.Text;
+  private lossText: Phaser.GameObjects.Text;
+  private rttLabel: Phaser.GameObjects.Text;
+  private tickLabel: Phaser.GameObjects.Text;
+  private netSimText: Phaser.GameObjects.Text;
+  private lastRefresh: number = 0;
+  private unwatchVisibility: () => void;
+
+  constructor(scene: Phaser.Scene, source: () => ConnectionQualityStats) {
+    this.scene = scene;
+    this.source = source;
+
+    this.container = this.scene.add.container(5, 40);
+    this.container.setScrollFactor(0).setDepth(10000);
+
+    const background = this.scene.add.rectangle(0, 0, PANEL_WIDTH, 100, 0x000000, 0.6).setOrigin(0, 0);
+    this.graphics = this.scene.add.graphics();
+    this.text = this.scene.add.text(3, 2, '', {
+      fontSize: '7px',
+      color: '#cccccc',
+      fontFamily: 'monospace',
+      lineSpacing: 1
+    });
+    this.lossText = this.scene.add.text(3, 29, '', {
+      fontSize: '7px',
+      color: '#00ff00',
+      fontFamily: 'monospace'
+    });
+    const labelStyle = { fontSize: '6px', color: '#888888', fontFamily: 'monospace' };
+    this.rttLabel = this.scene.add.text(3, 40, '', labelStyle);
+    this.tickLabel = this.scene.add.text(3, 60, '', labelStyle);
+    this.netSimText = this.scene.add.text(3, 77, '', {
+      fontSize: '6px',
+      color: '#00ffff',
+      fontFamily: 'monospace'
+    });
+    this.container.add([background, this.graphics, this.text, this.lossText, this.rttLabel, this.tickLabel, this.netSimText]);
+    this.unwatchVisibility = settingsStore.watchInScene(this.scene, 'network', 'showNetworkHud', visible => {
+      this.container.setVisible(visible);
+      this.lastRefresh = 0;
+    });
+
+    this.scene.input.keyboard?.on('keydown-F4', this.toggle, this);
+    this.scene.input.keyboard?.on('keydown-F10', this.cycleNetSim, this);
+  }
+
+  toggle(): void {
+    settingsStore.set('network', 'showNetworkHud', !this.container.visible);
+  }
+
+  cycleNetSim(): void {
+    if (!this.container.visible) return;
+    networkConditioner.cycleProfile();
+    this.lastRefresh = 0;
+  }
+
+  update(): void {
+    if (!this.container.visible) return;
+
+    const now = Date.now();
+    if (now - this.lastRefresh < REFRESH_MS) return;
+    this.lastRefresh = now;
+
+    const stats = this.source();
+    const rtt = stats.rtt !== null ? `${Math.round(stats.rtt)}ms` : '--';
+    const offset = `${stats.timeOffset >= 0 ? '+' : ''}${Math.round(stats.timeOffset)}ms`;
+
+    this.text.setText([
+      `Ping ${rtt.padEnd(6)}   Jit ${Math.round(stats.jitter)}ms`,
+      `In ${stats.inboundRate.toFixed(0).padStart(3)}/s  Out ${stats.outboundRate.toFixed(0).padStart(3)}/s`,
+      `Tick ${stats.snapshotRate.toFixed(0)}/${stats.tickRate || '?'}Hz  Sync ${stats.timeSyncHealthy ? 'OK' : 'STALE'} ${offset}`
+    ].join('\n'));
+    this.text.setColor(stats.timeSyncHealthy ? '#cccccc' : '#ffaa00');
+
+    this.lossText.setText(`Loss ${(stats.loss * 100).toFixed(1)}%`);
+    this.lossText.setColor(percentColor(stats.loss));
+
+    const g = this.graphics;
+    g.clear();
+    drawPingBars(g, PANEL_WIDTH - PING_BARS_WIDTH - 3, 3, stats.rtt);
+
+    const rttMax = Math.max(100, ...stats.rttHistory);
+    this.drawSparkline(40, stats.rttHistory, rttMax, value => getPingColor(value));
+    this.rttLabel.setText(`RTT\n${Math.round(rttMax)}`);
+
+    const tickMax = Math.max(stats.broadcastRate, ...stats.snapshotRateHistory, 1);
+    this.drawSparkline(60, stats.snapshotRateHistory, tickMax,
+      value => value >= stats.broadcastRate * 0.9 ? 0x00ff00 : value >= stats.broadcastRate * 0.6 ? 0xffaa00 : 0xff4444);
+    this.tickLabel.setText(`TICK\n${Math.round(tickMax)}`);
+
+    this.updateNetSim();
+  }
+
+  destroy(): void {
+    this.scene.input.keyboard?.off('keydown-F4', this.toggle, this);
+    this.scene.input.keyboard?.off('keydown-F10', this.cycleNetSim, this);
+    this.unwatchVisibility();
+    this.container.destroy();
+  }
+
+  private updateNetSim(): void {
+    if (!networkConditioner.isActive()) {
+      this.netSimText.setText('NetSim Off (F10)');
+      return;
+    }
+
+    const stats = networkConditioner.getStats();
+    const counters = (label: string, s: DirectionStats) =>
+      `${label} drop ${s.dropped} dup ${s.duplicated} reord ${s.reordered}`;
+    this.netSimText.setText([
+      `NetSim ${networkConditioner.getProfile().label} (F10)`,
+      counters('In ', stats.inbound),
+      counters('Out', stats.outbound)
+    ].join('\n'));
+  }
+
+  /**
+   * One bar per history sample, scaled to max, right of the label column
+   */
+  private drawSparkline(y: number, history: number[], max: number, colorFor: (value: number) => number): void {
+    const g = this.graphics;
+    const left = SPARK_LEFT;
+    g.lineStyle(1, 0x333333);
+    g.strokeRect(left, y, SPARK_WIDTH + 2, SPARK_HEIGHT);
+
+    history.forEach((value, index) => {
+      const height = Math.max(1, Math.min(value, max) / max * (SPARK_HEIGHT - 2));
+      g.fillStyle(colorFor(value));
+      g.fillRect(left + 1 + index, y + SPARK_HEIGHT - 1 - height, 1, height);
+    });
+  }
+}
@@ -0,0 +1,47 @@
+/**
+ * PingBars - Four-bar signal indicator for a round trip time
+ *
+ * Drawn into a caller's Graphics so lists of players can share one object.
+ * Unknown pings draw four grey bars.
+ */
+
+export const PING_BARS_WIDTH = 11;
+export const PING_BARS_HEIGHT = 8;
+
+const BAR_COUNT = 4;
+const BAR_WIDTH = 2;
+const BAR_GAP = 1;
+const EMPTY_COLOR = 0x444444;
+
+// Upper bound (ms) for each number of lit bars, best first
+const THRESHOLDS = [60, 120, 200];
+
+export function getPingBarCount(ping: number | null | undefined): number {
+  if (ping === null || ping === undefined) return 0;
+  const index = THRESHOLDS.findIndex(limit => ping < limit);
+  return index === -1 ? 1 : BAR_COUNT - index;
+}
+
+export function getPingColor(ping: number | null | undefined): number {
+  switch (getPingBarCount(ping)) {
+    case 4: return 0x00ff00;
+    case 3: return 0xaaff00;
+    case 2: return 0xffaa00;
+    case 1: return 0xff4444;
+    default: return 0x888888;
+  }
+}
+
+/**
+ * Draw the bars with their top-left corner at (x, y)
+ */
+export function drawPingBars(graphics: Phaser.GameObjects.Graphics, x: number, y: number, ping: number | null | undefined): void {
+  const lit = getPingBarCount(ping);
+  const color = getPingColor(ping);
+
+  for (let i = 0; i < BAR_COUNT; i++) {
+    const height = (i + 1) * PING_BARS_HEIGHT / BAR_COUNT;
+    graphics.fillStyle(lit === 0 ? color : i < lit ? color : EMPTY_COLOR, lit === 0 ? 0.5 : 1);
+    graphics.fillRect(x + i * (BAR_WIDTH + BAR_GAP), y + PING_BARS_HEIGHT - height, BAR_WIDTH, height);
+  }
+}
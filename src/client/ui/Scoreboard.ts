@@ -0,0 +1,132 @@
+import { GAME_CONFIG } from '../../../shared/constants/index';
+import { drawPingBars, PING_BARS_WIDTH } from './PingBars';
+
+/**
+ * Scoreboard - Held-TAB overlay of both teams
+ *
+ * Reads players straight from the latest game state. The backend adds a
+ * ping per player when it has one; the local row falls back to our own
+ * measured RTT.
+ */
+
+export interface ScoreboardSource {
+  getPlayers: () => any[];
+  getLocalPlayerId: () => string | null;
+  getLocalPing: () => number | null;
+}
+
+const PANEL_WIDTH = 260;
+const COLUMN_WIDTH = 124;
+const ROW_HEIGHT = 11;
+const MAX_ROWS = 8;
+const REFRESH_MS = 250;
+
+const TEAM_COLORS: Record<string, string> = { red: '#ff6666', blue: '#6699ff' };
+
+export class Scoreboard {
+  private scene: Phaser.Scene;
+  private source: ScoreboardSource;
+  private container: Phaser.GameObjects.Container;
+  private graphics: Phaser.GameObjects.Graphics;
+  private rows: Phaser.GameObjects.Text[] = [];
+  private lastRefresh: number = 0;
+
+  constructor(scene: Phaser.Scene, source: ScoreboardSource) {
+    this.scene = scene;
+    this.source = source;
+
+    const height = 30 + MAX_ROWS * ROW_HEIGHT;
+    this.container = this.scene.add.container(
+      (GAME_CONFIG.GAME_WIDTH - PANEL_WIDTH) / 2,
+      (GAME_CONFIG.GAME_HEIGHT - height) / 2
+    );
+    this.container.setScrollFactor(0).setDepth(10000).setVisible(false);
+
+    const background = this.scene.add.rectangle(0, 0, PANEL_WIDTH, height, 0x000000, 0.8).setOrigin(0, 0);
+    background.setStrokeStyle(1, 0x444444);
+    this.graphics = this.scene.add.graphics();
+    this.container.add([background, this.graphics]);
+
+    ['red', 'blue'].forEach((team, column) => {
+      const x = 6 + column * (COLUMN_WIDTH + 6);
+      const header = this.scene.add.text(x, 5, `${team.toUpperCase()} TEAM`, {
+        fontSize: '8px',
+        color: TEAM_COLORS[team],
+        fontFamily: 'monospace',
+        fontStyle: 'bold'
+      });
+      const legend = this.scene.add.text(x + COLUMN_WIDTH - PING_BARS_WIDTH - 4, 16, 'K  D', {
+        fontSize: '7px',
+        color: '#888888',
+        fontFamily: 'monospace'
+      }).setOrigin(1, 0);
+      this.container.add([header, legend]);
+    });
+
+    this.scene.events.on('input:scoreboard', this.setShowing, this);
+  }
+
+  setShowing(showing: boolean): void {
+    this.container.setVisible(showing);
+    if (showing) {
+      this.lastRefresh = 0;
+      this.update();
+    }
+  }
+
+  update(): void {
+    if (!this.container.visible) return;
+
+    const now = Date.now();
+    if (now - this.lastRefresh < REFRESH_MS) return;
+    this.lastRefresh = now;
+
+    const localPlayerId = this.source.getLocalPlayerId();
+    const players = this.source.getPlayers();
+
+    this.graphics.clear();
+    this.rows.forEach(row => row.destroy());
+    this.rows = [];
+
+    ['red', 'blue'].forEach((team, column) => {
+      const x = 6 + column * (COLUMN_WIDTH + 6);
+      const teamPlayers = players
+        .filter(player => player.team === team)
+        .sort((a, b) => (b.kills || 0) - (a.kills || 0) || (a.deaths || 0) - (b.deaths || 0))
+        .slice(0, MAX_ROWS);
+
+      teamPlayers.forEach((player, index) => {
+        const y = 27 + index * ROW_HEIGHT;
+        const isLocal = player.id === localPlayerId;
+        const name = String(player.name || player.id || 'Unknown').substring(0, 12);
+        const ping = isLocal ? this.source.getLocalPing() : (typeof player.ping === 'number' ? player.ping : null);
+
+        if (isLocal) {
+          this.graphics.fillStyle(0xffffff, 0.1);
+          this.graphics.fillRect(x - 2, y - 1, COLUMN_WIDTH + 2, ROW_HEIGHT - 1);
+        }
+
+        const nameText = this.scene.add.text(x, y, name, {
+          fontSize: '7px',
+          color: isLocal ? '#ffff00' : player.isAlive === false ? '#777777' : '#ffffff',
+          fontFamily: 'monospace'
+        });
+        const scoreText = this.scene.add.text(x + COLUMN_WIDTH - PING_BARS_WIDTH - 4, y,
+          `${String(player.kills || 0).padStart(2)} ${String(player.deaths || 0).padStart(2)}`, {
+          fontSize: '7px',
+          color: '#cccccc',
+          fontFamily: 'monospace'
+        }).setOrigin(1, 0);
+        this.container.add([nameText, scoreText]);
+        this.rows.push(nameText, scoreText);
+
+        drawPingBars(this.graphics, x + COLUMN_WIDTH - PING_BARS_WIDTH, y, ping);
+      });
+    });
+  }
+
+  destroy(): void {
+    this.scene.events.off('input:scoreboard', this.setShowing, this);
+    this.container.destroy();
+  }
+}
@@ -0,0 +1,217 @@
+import { GAME_CONFIG } from '../../../shared/constants/index';
+import { Vector2 } from '../../../shared/types/index';
+import { InputAction } from '../systems/KeyBindings';
+
+/**
+ * On-screen twin-stick controls for touch devices
+ *
+ * Left half of the screen is a floating movement stick, right half a floating
+ * aim stick that also fires once pushed past its outer ring. Reload, grenade
+ * and weapon-slot buttons sit on top. Output is the same actions the keyboard
+ * drives, so InputSystem keeps sending the usual InputState.
+ */
+
+interface Stick {
+  pointerId: number;
+  base: Vector2;
+  offset: Vector2; // Clamped to STICK_RADIUS
+}
+
+interface TouchButton {
+  action: InputAction;
+  label: string;
+  x: number;
+  y: number;
+  radius: number;
+  text: Phaser.GameObjects.Text;
+}
+
+export interface TouchFrame {
+  actions: Set<InputAction>;
+  // Unit vector from the aim stick, or null while it is idle
+  aim: Vector2 | null;
+}
+
+const STICK_RADIUS = 28;
+const MOVE_THRESHOLD = 0.4;   // Same analog-to-digital cut as the gamepad stick
+const SPRINT_THRESHOLD = 0.9; // Full tilt sprints
+const AIM_DEADZONE = 0.2;
+const FIRE_THRESHOLD = 0.75;  // Aim freely inside the ring, fire past it
+const CONTROLS_DEPTH = 9500;  // Under the death overlay (10000) so taps there reach respawn
+
+const MOVE_REST = { x: 60, y: GAME_CONFIG.GAME_HEIGHT - 65 };
+const AIM_REST = { x: GAME_CONFIG.GAME_WIDTH - 80, y: GAME_CONFIG.GAME_HEIGHT - 65 };
+
+export class TouchControls {
+  private scene: Phaser.Scene;
+  private graphics: Phaser.GameObjects.Graphics;
+  private buttons: TouchButton[] = [];
+  private moveStick: Stick | null = null;
+  private aimStick: Stick | null = null;
+  // pointer id -> button it went down on
+  private heldButtons: Map<number, TouchButton> = new Map();
+  // Fingers that went down after the player died - only these ask to respawn
+  private respawnPointers: Set<number> = new Set();
+  private playerDead: boolean = false;
+
+  constructor(scene: Phaser.Scene) {
+    this.scene = scene;
+
+    // Two sticks plus a button press at the same time
+    this.scene.input.addPointer(3);
+
+    this.graphics = this.scene.add.graphics();
+    this.graphics.setScrollFactor(0);
+    this.graphics.setDepth(CONTROLS_DEPTH);
+
+    this.addButton('reload', 'R', GAME_CONFIG.GAME_WIDTH - 28, 110, 14);
+    this.addButton('grenade', 'G', GAME_CONFIG.GAME_WIDTH - 28, 145, 14);
+    (['slot1', 'slot2', 'slot3', 'slot4'] as InputAction[]).forEach((action, index) => {
+      this.addButton(action, String(index + 1), GAME_CONFIG.GAME_WIDTH / 2 + (index - 1.5) * 30, 18, 11);
+    });
+
+    this.scene.input.on('pointerdown', this.handlePointerDown, this);
+    this.scene.input.on('pointermove', this.handlePointerMove, this);
+    this.scene.input.on('pointerup', this.handlePointerUp, this);
+    this.scene.input.on('pointerupoutside', this.handlePointerUp, this);
+
+    this.render();
+  }
+
+  getFrame(): TouchFrame {
+    const actions = new Set<InputAction>();
+    this.heldButtons.forEach(button => actions.add(button.action));
+
+    // A fresh tap anywhere on the death screen respawns - fingers still on the
+    // sticks from before the death don't
+    if (this.respawnPointers.size > 0) {
+      actions.add('respawn');
+    }
+
+    if (this.moveStick) {
+      const x = this.moveStick.offset.x / STICK_RADIUS;
+      const y = this.moveStick.offset.y / STICK_RADIUS;
+      if (y < -MOVE_THRESHOLD) actions.add('moveUp');
+      if (y > MOVE_THRESHOLD) actions.add('moveDown');
+      if (x < -MOVE_THRESHOLD) actions.add('moveLeft');
+      if (x > MOVE_THRESHOLD) actions.add('moveRight');
+      if (Math.sqrt(x * x + y * y) > SPRINT_THRESHOLD) actions.add('sprint');
+    }
+
+    let aim: Vector2 | null = null;
+    if (this.aimStick) {
+      const { x, y } = this.aimStick.offset;
+      const magnitude = Math.sqrt(x * x + y * y) / STICK_RADIUS;
+      if (magnitude > AIM_DEADZONE) {
+        aim = { x: x / (magnitude * STICK_RADIUS), y: y / (magnitude * STICK_RADIUS) };
+      }
+      if (magnitude > FIRE_THRESHOLD) {
+        actions.add('fire');
+      }
+    }
+
+    return { actions, aim };
+  }
+
+  /**
+   * Forget touches from before the death (or the respawn) so only new ones count
+   */
+  setPlayerDead(isDead: boolean): void {
+    this.playerDead = isDead;
+    this.respawnPointers.clear();
+  }
+
+  destroy(): void {
+    this.scene.input.off('pointerdown', this.handlePointerDown, this);
+    this.scene.input.off('pointermove', this.handlePointerMove, this);
+    this.scene.input.off('pointerup', this.handlePointerUp, this);
+    this.scene.input.off('pointerupoutside', this.handlePointerUp, this);
+
+    this.graphics.destroy();
+    this.buttons.forEach(button => button.text.destroy());
+    this.buttons = [];
+  }
+
+  private addButton(action: InputAction, label: string, x: number, y: number, radius: number): void {
+    const text = this.scene.add.text(x, y, label, {
+      fontSize: '9px',
+      color: '#ffffff',
+      fontFamily: 'monospace'
+    }).setOrigin(0.5).setScrollFactor(0).setDepth(CONTROLS_DEPTH + 1).setAlpha(0.8);
+
+    this.buttons.push({ action, label, x, y, radius, text });
+  }
+
+  private handlePointerDown(pointer: Phaser.Input.Pointer): void {
+    if (!pointer.wasTouch) return;
+    if (this.playerDead) this.respawnPointers.add(pointer.id);
+
+    // Buttons get a few extra pixels of slop - fingers are imprecise
+    const button = this.buttons.find(candidate =>
+      Phaser.Math.Distance.Between(pointer.x, pointer.y, candidate.x, candidate.y) <= candidate.radius + 6
+    );
+    if (button) {
+      this.heldButtons.set(pointer.id, button);
+    } else if (pointer.x < GAME_CONFIG.GAME_WIDTH / 2) {
+      if (!this.moveStick) {
+        this.moveStick = { pointerId: pointer.id, base: { x: pointer.x, y: pointer.y }, offset: { x: 0, y: 0 } };
+      }
+    } else if (!this.aimStick) {
+      this.aimStick = { pointerId: pointer.id, base: { x: pointer.x, y: pointer.y }, offset: { x: 0, y: 0 } };
+    }
+
+    this.render();
+  }
+
+  private handlePointerMove(pointer: Phaser.Input.Pointer): void {
+    if (!pointer.wasTouch) return;
+
+    [this.moveStick, this.aimStick].forEach(stick => {
+      if (!stick || stick.pointerId !== pointer.id) return;
+      const dx = pointer.x - stick.base.x;
+      const dy = pointer.y - stick.base.y;
+      const distance = Math.sqrt(dx * dx + dy * dy);
+      const scale = distance > STICK_RADIUS ? STICK_RADIUS / distance : 1;
+      stick.offset = { x: dx * scale, y: dy * scale };
+    });
+
+    this.render();
+  }
+
+  private handlePointerUp(pointer: Phaser.Input.Pointer): void {
+    if (!pointer.wasTouch) return;
+
+    this.respawnPointers.delete(pointer.id);
+    this.heldButtons.delete(pointer.id);
+    if (this.moveStick?.pointerId === pointer.id) this.moveStick = null;
+    if (this.aimStick?.pointerId === pointer.id) this.aimStick = null;
+
+    this.render();
+  }
+
+  private render(): void {
+    const g = this.graphics;
+    g.clear();
+
+    this.renderStick(g, this.moveStick, MOVE_REST, 0xffffff);
+    this.renderStick(g, this.aimStick, AIM_REST, 0xff6666);
+
+    const held = new Set(this.heldButtons.values());
+    this.buttons.forEach(button => {
+      g.fillStyle(0xffffff, held.has(button) ? 0.35 : 0.12);
+      g.fillCircle(button.x, button.y, button.radius);
+      g.lineStyle(1, 0xffffff, 0.4);
+      g.strokeCircle(button.x, button.y, button.radius);
+    });
+  }
+
+  private renderStick(g: Phaser.GameObjects.Graphics, stick: Stick | null, rest: Vector2, color: number): void {
+    const base = stick ? stick.base : rest;
+    const offset = stick ? stick.offset : { x: 0, y: 0 };
+
+    g.lineStyle(1, color, stick ? 0.5 : 0.25);
+    g.strokeCircle(base.x, base.y, STICK_RADIUS);
+    g.fillStyle(color, stick ? 0.4 : 0.15);
+    g.fillCircle(base.x + offset.x, base.y + offset.y, 10);
+  }
+}
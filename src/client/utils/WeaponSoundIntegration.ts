@@ -4,6 +4,7 @@
  */
 
 import { AudioManager } from '../systems/AudioManager';
+import { spatialAudio } from '../systems/SpatialAudio';
 
 export class WeaponSoundIntegration {
   private audioManager: AudioManager;
@@ -17,28 +18,19 @@ export class WeaponSoundIntegration {
    */
   playWeaponFireSound(weaponType: string, options?: {
     isLocal?: boolean;      // Is this the local player firing?
-    distance?: number;      // Distance from listener (0-100)
+    position?: { x: number; y: number }; // World position of the shot
     isSupressed?: boolean;  // Is the weapon suppressed?
-    isMuffled?: boolean;    // Is sound muffled (through walls)?
   }): void {
     const opts = options || {};
     
     // Determine sound modifications based on context
     const modifications: any = {};
     
-    // Distance effects
-    if (opts.distance !== undefined) {
-      if (opts.distance > 50) {
-        modifications.distant = true;
-        modifications.volume = Math.max(0.1, 1 - (opts.distance / 100));
-      } else if (opts.distance > 20) {
-        modifications.volume = 1 - (opts.distance / 200);
-      }
-    }
-    
-    // Environmental effects
-    if (opts.isMuffled) {
-      modifications.muffled = true;
+    // Pan, distance falloff and wall occlusion relative to the local player
+    if (opts.position && !opts.isLocal) {
+      const spatial = spatialAudio.compute(opts.position);
+      if (!spatial) return; // Out of earshot
+      modifications.spatial = spatial;
     }
     
     // Local player gets slightly different sound for feedback
@@ -68,26 +60,13 @@ export class WeaponSoundIntegration {
     // Listen for other players firing
     scene.events.on('backend:weapon:fired', (data: any) => {
       if (data.playerId !== scene.networkSystem?.getSocket()?.id) {
-        // Calculate distance to other player
-        const distance = this.calculateDistance(
-          scene.player?.x || 0, 
-          scene.player?.y || 0,
-          data.position?.x || 0, 
-          data.position?.y || 0
-        );
-        
         this.playWeaponFireSound(data.weaponType, {
           isLocal: false,
-          distance: distance,
-          isMuffled: distance > 100 // Muffled if very far
+          position: data.position
         });
       }
     });
   }
-
-  private calculateDistance(x1: number, y1: number, x2: number, y2: number): number {
-    return Math.sqrt(Math.pow(x2 - x1, 2) + Math.pow(y2 - y1, 2));
-  }
 }
 
 /**
@@ -0,0 +1,31 @@
+/**
+ * Touch-friendly hit areas - grow small interactive objects to finger-sized targets
+ *
+ * Only applies on touch devices, so mouse users keep pixel-exact buttons.
+ * Call after setInteractive(); what is drawn does not change, only what
+ * counts as a tap on it.
+ */
+
+// Smallest tappable size in game pixels (the 480x270 canvas is scaled up on phones)
+export const TOUCH_MIN_HIT_SIZE = 28;
+
+type Sized = Phaser.GameObjects.GameObject & { width: number; height: number };
+
+export function isTouchDevice(scene: Phaser.Scene): boolean {
+  return scene.sys.game.device.input.touch;
+}
+
+/**
+ * Pad an object's hit area by padX/padY on each side, and up to minSize overall.
+ * The custom hit area stops Text from shrinking it back on the next setText.
+ */
+export function padHitAreaForTouch(object: Sized, padX: number = 4, padY: number = padX, minSize: number = TOUCH_MIN_HIT_SIZE): void {
+  if (!object.input || !isTouchDevice(object.scene)) return;
+
+  const width = Math.max(object.width + padX * 2, minSize);
+  const height = Math.max(object.height + padY * 2, minSize);
+
+  object.input.hitArea = new Phaser.Geom.Rectangle((object.width - width) / 2, (object.height - height) / 2, width, height);
+  object.input.hitAreaCallback = Phaser.Geom.Rectangle.Contains;
+  object.input.customHitArea = true;
+}
@@ -124,4 +124,22 @@ export function groupTilesIntoRectangles(tileIndices: number[]): Array<{ x: numb
   }
   
   return rectangles;
-} 
\ No newline at end of file
+} 
+/**
+ * Expand a visibility bitmask (bit i of byte i >> 3 = tile i) to tile indices
+ */
+export function visionMaskToTiles(mask: ArrayLike<number>): number[] {
+  const tiles: number[] = [];
+  const byteCount = Math.min(mask.length, Math.ceil((VISION_CONSTANTS.MAX_TILE_INDEX + 1) / 8));
+  for (let byte = 0; byte < byteCount; byte++) {
+    const bits = mask[byte];
+    if (bits === 0) continue;
+    for (let bit = 0; bit < 8; bit++) {
+      if (bits & (1 << bit)) {
+        const index = byte * 8 + bit;
+        if (index <= VISION_CONSTANTS.MAX_TILE_INDEX) tiles.push(index);
+      }
+    }
+  }
+  return tiles;
+}
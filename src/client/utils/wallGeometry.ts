@@ -0,0 +1,154 @@
+import { Vector2 } from '../../../shared/types/index';
+
+/**
+ * wallGeometry - Ray queries against 5-slice walls
+ *
+ * Shared by the offline LocalServer and the client systems that need the same
+ * answers it gives: shot prediction, positional audio occlusion and the
+ * killcam. Plain math on wall records, no Phaser.
+ */
+
+// Just the fields slice geometry needs - LocalArena's and DestructionRenderer's walls both qualify
+export interface SlicedWall {
+  position: Vector2;
+  width: number;
+  height: number;
+  orientation: 'horizontal' | 'vertical';
+  destructionMask: number[];
+}
+
+export interface RayHit<W extends SlicedWall = SlicedWall> {
+  distance: number;
+  point: Vector2;
+  wall: W;
+  sliceIndex: number;
+}
+
+export interface SliceRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Per-slice health by material, shared with the map editor's tile palette
+export const SLICE_HEALTH: Record<string, number> = {
+  concrete: 150,
+  wood: 80,
+  metal: 250,
+  glass: 30
+};
+
+// Hitscan model shared by LocalServer and the client's shot prediction
+export const PLAYER_HIT_RADIUS = 6;
+export const HITSCAN_RANGE = 500;
+
+/**
+ * Rectangle covered by one slice - mirrors CollisionSystem.checkWallSliceCollision
+ */
+export function getSliceRect(wall: SlicedWall, sliceIndex: number): SliceRect {
+  const isPillar = wall.width === 10 && wall.height === 10;
+
+  if (!isPillar && wall.orientation === 'horizontal') {
+    const sliceWidth = wall.width / 5;
+    return { x: wall.position.x + sliceIndex * sliceWidth, y: wall.position.y, width: sliceWidth, height: wall.height };
+  }
+
+  const sliceHeight = wall.height / 5;
+  return { x: wall.position.x, y: wall.position.y + sliceIndex * sliceHeight, width: wall.width, height: sliceHeight };
+}
+
+// Slab test - distance along the (unit) ray to the rectangle, or null if missed
+function rayRect(origin: Vector2, dir: Vector2, rect: SliceRect, maxDistance: number): number | null {
+  let tMin = 0;
+  let tMax = maxDistance;
+
+  const axes: Array<[number, number, number, number]> = [
+    [origin.x, dir.x, rect.x, rect.x + rect.width],
+    [origin.y, dir.y, rect.y, rect.y + rect.height]
+  ];
+
+  for (const [o, d, min, max] of axes) {
+    if (Math.abs(d) < 1e-9) {
+      if (o < min || o > max) return null;
+      continue;
+    }
+    let t1 = (min - o) / d;
+    let t2 = (max - o) / d;
+    if (t1 > t2) [t1, t2] = [t2, t1];
+    tMin = Math.max(tMin, t1);
+    tMax = Math.min(tMax, t2);
+    if (tMin > tMax) return null;
+  }
+
+  return tMin;
+}
+
+/**
+ * Nearest intact wall slice along a ray
+ */
+export function raycastWalls<W extends SlicedWall>(walls: Iterable<W>, origin: Vector2, angle: number, maxDistance: number): RayHit<W> | null {
+  const dir = { x: Math.cos(angle), y: Math.sin(angle) };
+  let best: RayHit<W> | null = null;
+
+  for (const wall of walls) {
+    for (let i = 0; i < 5; i++) {
+      if (wall.destructionMask[i] === 1) continue;
+
+      const t = rayRect(origin, dir, getSliceRect(wall, i), best ? best.distance : maxDistance);
+      if (t !== null && (!best || t < best.distance)) {
+        best = {
+          distance: t,
+          point: { x: origin.x + dir.x * t, y: origin.y + dir.y * t },
+          wall,
+          sliceIndex: i
+        };
+      }
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Every intact wall slice the segment from -> to passes through, nearest first
+ */
+export function raycastSegment<W extends SlicedWall>(walls: Iterable<W>, from: Vector2, to: Vector2): RayHit<W>[] {
+  const length = Math.hypot(to.x - from.x, to.y - from.y);
+  if (length < 1e-6) return [];
+
+  const dir = { x: (to.x - from.x) / length, y: (to.y - from.y) / length };
+  const hits: RayHit<W>[] = [];
+
+  for (const wall of walls) {
+    for (let i = 0; i < 5; i++) {
+      if (wall.destructionMask[i] === 1) continue;
+
+      const t = rayRect(from, dir, getSliceRect(wall, i), length);
+      if (t !== null) {
+        hits.push({ distance: t, point: { x: from.x + dir.x * t, y: from.y + dir.y * t }, wall, sliceIndex: i });
+      }
+    }
+  }
+
+  return hits.sort((a, b) => a.distance - b.distance);
+}
+
+/**
+ * Distance along a ray to a circle, or null if missed
+ */
+export function rayCircle(origin: Vector2, angle: number, center: Vector2, radius: number, maxDistance: number): number | null {
+  const dx = Math.cos(angle);
+  const dy = Math.sin(angle);
+  const ox = center.x - origin.x;
+  const oy = center.y - origin.y;
+
+  const along = ox * dx + oy * dy;
+  if (along < 0) return null;
+
+  const perpSq = ox * ox + oy * oy - along * along;
+  if (perpSq > radius * radius) return null;
+
+  const t = along - Math.sqrt(radius * radius - perpSq);
+  return t <= maxDistance ? Math.max(0, t) : null;
+}
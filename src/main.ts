@@ -10,6 +10,10 @@ import { MatchmakingScene } from './client/scenes/MatchmakingScene';
 import { LobbyWaitingScene } from './client/scenes/LobbyWaitingScene';
 import { MatchResultsScene } from './client/scenes/MatchResultsScene';
 import { ServerBrowserScene } from './client/scenes/ServerBrowserScene';
+import { ReplayScene } from './client/scenes/ReplayScene';
+import { MapEditorScene } from './client/scenes/MapEditorScene';
+import { SpectatorScene } from './client/scenes/SpectatorScene';
+import { SettingsScene } from './client/scenes/SettingsScene';
 import { NavigationDiagnostics } from './client/utils/NavigationDiagnostics';
 
 const config: Phaser.Types.Core.GameConfig = {
@@ -26,7 +30,10 @@ const config: Phaser.Types.Core.GameConfig = {
   dom: {
     createContainer: true
   },
-  scene: [LoadingScene, MenuScene, ServerConnectionScene, ServerConnectionSceneText, ConfigureScene, GameScene, LobbyMenuScene, MatchmakingScene, LobbyWaitingScene, MatchResultsScene, ServerBrowserScene]
+  input: {
+    gamepad: true
+  },
+  scene: [LoadingScene, MenuScene, ServerConnectionScene, ServerConnectionSceneText, ConfigureScene, GameScene, LobbyMenuScene, MatchmakingScene, LobbyWaitingScene, MatchResultsScene, ServerBrowserScene, ReplayScene, MapEditorScene, SpectatorScene, SettingsScene]
 };
 
 // Create and start the game
@@ -3,6 +3,7 @@
 interface ImportMetaEnv {
   readonly VITE_BACKEND_URL: string
   readonly VITE_NODE_ENV: string
+  readonly VITE_SERVER_LIST?: string // JSON array of { id, name, region, url }
 }
 
 interface ImportMeta {